@@ -0,0 +1,213 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { HandoffList } from '@/components/audit/HandoffList';
+import type { HandoffsListResponse } from '@/types/audit';
+import type { Handoff } from '@/types/orchestration';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface HandoffFilterState {
+  search: string;
+  fromAgent: string;
+  toAgent: string;
+  missing: string;
+  valid: string;
+}
+
+/** Parts of a handoff that can be searched for by omission */
+const MISSING_FILTERS: Record<string, string> = {
+  summary: 'no summary',
+  filesTouched: 'no files touched',
+  openQuestions: 'no open questions',
+  risks: 'no risks',
+};
+
+// ============================================================================
+// Filter Bar Component
+// ============================================================================
+
+function FilterBar({
+  filters,
+  onFilterChange,
+}: {
+  filters: HandoffFilterState;
+  onFilterChange: (key: keyof HandoffFilterState, value: string) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-4 border-b border-[#1e293b] bg-[#fefce8] p-4">
+      {/* Search */}
+      <div className="flex-1">
+        <input
+          type="text"
+          placeholder="search summaries..."
+          value={filters.search}
+          onChange={(e) => onFilterChange('search', e.target.value)}
+          className="w-full border border-[#1e293b] bg-[#fffef5] px-3 py-2 font-mono text-sm text-[#0f172a] placeholder:text-[#94a3b8]"
+        />
+      </div>
+
+      {/* Agent filters */}
+      <input
+        type="text"
+        placeholder="from agent..."
+        value={filters.fromAgent}
+        onChange={(e) => onFilterChange('fromAgent', e.target.value)}
+        className="w-40 border border-[#1e293b] bg-[#fffef5] px-3 py-2 font-mono text-sm text-[#0f172a] placeholder:text-[#94a3b8]"
+      />
+      <input
+        type="text"
+        placeholder="to agent..."
+        value={filters.toAgent}
+        onChange={(e) => onFilterChange('toAgent', e.target.value)}
+        className="w-40 border border-[#1e293b] bg-[#fffef5] px-3 py-2 font-mono text-sm text-[#0f172a] placeholder:text-[#94a3b8]"
+      />
+
+      {/* Omission filter */}
+      <select
+        value={filters.missing}
+        onChange={(e) => onFilterChange('missing', e.target.value)}
+        className="border border-[#1e293b] bg-[#fffef5] px-3 py-2 font-mono text-sm text-[#0f172a]"
+      >
+        <option value="">any content</option>
+        {Object.entries(MISSING_FILTERS).map(([value, label]) => (
+          <option key={value} value={value}>{label}</option>
+        ))}
+      </select>
+
+      {/* Validity filter */}
+      <select
+        value={filters.valid}
+        onChange={(e) => onFilterChange('valid', e.target.value)}
+        className="border border-[#1e293b] bg-[#fffef5] px-3 py-2 font-mono text-sm text-[#0f172a]"
+      >
+        <option value="">valid and incomplete</option>
+        <option value="true">valid</option>
+        <option value="false">incomplete</option>
+      </select>
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Page Component
+// ============================================================================
+
+export default function HandoffsPage() {
+  const [handoffs, setHandoffs] = useState<Handoff[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [filters, setFilters] = useState<HandoffFilterState>({
+    search: '',
+    fromAgent: '',
+    toAgent: '',
+    missing: '',
+    valid: '',
+  });
+
+  // Track current handoffs length for append mode
+  const handoffsLengthRef = useRef(0);
+  handoffsLengthRef.current = handoffs.length;
+
+  const fetchHandoffs = useCallback(async (append = false) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams();
+      if (filters.search) params.set('search', filters.search);
+      if (filters.fromAgent) params.set('fromAgent', filters.fromAgent);
+      if (filters.toAgent) params.set('toAgent', filters.toAgent);
+      if (filters.missing) params.set('missing', filters.missing);
+      if (filters.valid) params.set('valid', filters.valid);
+      params.set('limit', '50');
+      if (append) params.set('offset', String(handoffsLengthRef.current));
+
+      const response = await fetch(`/api/audit/handoffs?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch handoffs');
+      }
+
+      const data: HandoffsListResponse = await response.json();
+
+      setHandoffs((prev) => (append ? [...prev, ...data.handoffs] : data.handoffs));
+      setTotalCount(data.total);
+      setHasMore(data.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters.search, filters.fromAgent, filters.toAgent, filters.missing, filters.valid]);
+
+  // Initial fetch and refetch on filter change
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      fetchHandoffs();
+    }, 300); // Debounce
+
+    return () => clearTimeout(timeout);
+  }, [fetchHandoffs]);
+
+  const handleFilterChange = (key: keyof HandoffFilterState, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="min-h-screen bg-[#fffef5]">
+      {/* Page Header */}
+      <div className="border-b border-[#1e293b] bg-[#fefcf3] px-6 py-4">
+        <h1 className="font-mono text-2xl font-bold text-[#0f172a]">handoffs</h1>
+        <p className="mt-1 text-sm text-[#64748b]">
+          Work handed between agents, checked against the handoff template
+        </p>
+      </div>
+
+      <div className="p-6">
+        <div className="mb-6 border border-[#1e293b]">
+          <div className="border-b border-[#1e293b] bg-[#fefcf3] px-4 py-3">
+            <span className="text-xs text-[#64748b]">matching handoffs</span>
+            <p className="font-mono text-lg font-bold text-[#0f172a]">{totalCount}</p>
+          </div>
+          <FilterBar filters={filters} onFilterChange={handleFilterChange} />
+        </div>
+
+        {/* Error State */}
+        {error && (
+          <div className="mb-6 border border-[#ef4444] bg-[#fee2e2] p-4">
+            <p className="font-mono text-sm text-[#991b1b]">
+              {'\u2717'} Error: {error}
+            </p>
+            <button
+              onClick={() => fetchHandoffs()}
+              className="mt-2 text-xs text-[#991b1b] underline"
+            >
+              retry
+            </button>
+          </div>
+        )}
+
+        {isLoading && handoffs.length === 0 ? (
+          <p className="font-mono text-sm text-[#64748b]">loading handoffs...</p>
+        ) : (
+          <HandoffList handoffs={handoffs} showTrace />
+        )}
+
+        {hasMore && (
+          <button
+            onClick={() => fetchHandoffs(true)}
+            disabled={isLoading}
+            className="mt-4 w-full border border-[#1e293b] bg-[#fffef5] px-4 py-2 font-mono text-sm text-[#0f172a] hover:bg-[#fefce8] disabled:opacity-50"
+          >
+            {isLoading ? 'loading...' : 'load more'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
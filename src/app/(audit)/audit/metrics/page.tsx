@@ -20,6 +20,20 @@ import { AgentBadge } from '@/components/audit';
 // Types
 // ============================================================================
 
+interface DurationPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+interface DurationHistogramBucket {
+  label: string;
+  minMs: number;
+  minLabel: string;
+  maxLabel: string | null;
+  count: number;
+}
+
 interface AgentMetrics {
   agentId: string;
   humanName: string;
@@ -27,16 +41,53 @@ interface AgentMetrics {
   totalTraces: number;
   successRate: number;
   avgDurationMs: number;
+  durationPercentiles: DurationPercentiles;
+  durationHistogram: DurationHistogramBucket[];
+  totalTokens: number;
+  totalCost: number;
+}
+
+interface CommandMetrics {
+  commandName: string;
+  totalRuns: number;
+  successRate: number;
+  avgDurationMs: number;
+  durationPercentiles: DurationPercentiles;
+  durationHistogram: DurationHistogramBucket[];
   totalTokens: number;
+  totalCost: number;
+}
+
+interface WorkflowConformanceMetrics {
+  workflowId: string;
+  checkedRuns: number;
+  avgScore: number;
+  conformingRate: number;
+  deviationCounts: Partial<Record<'skipped_agent' | 'out_of_order' | 'unexpected_agent' | 'invalid_handoff', number>>;
 }
 
 interface ToolUsageMetrics {
   toolName: string;
   usageCount: number;
   successRate: number;
+  durationPercentiles: DurationPercentiles;
+  durationHistogram: DurationHistogramBucket[];
 }
 
+type DistributionScope = 'agent' | 'command' | 'tool';
+
+type MetricsWindow = '24h' | '7d' | '30d' | '90d' | 'all';
+
+const WINDOW_OPTIONS: { value: MetricsWindow; label: string }[] = [
+  { value: '24h', label: '24h' },
+  { value: '7d', label: '7d' },
+  { value: '30d', label: '30d' },
+  { value: '90d', label: '90d' },
+  { value: 'all', label: 'all time' },
+];
+
 interface DashboardData {
+  window: MetricsWindow;
   overview: {
     totalTraces: number;
     runningTraces: number;
@@ -44,10 +95,13 @@ interface DashboardData {
     failedTraces: number;
     avgDurationMs: number;
     totalTokens: number;
+    totalCost: number;
   };
   agentMetrics: AgentMetrics[];
+  commandMetrics: CommandMetrics[];
+  conformanceMetrics: WorkflowConformanceMetrics[];
   toolUsage: ToolUsageMetrics[];
-  timeSeries: { date: string; total: number; success: number; failed: number }[];
+  timeSeries: { date: string; total: number; success: number; failed: number; cost: number }[];
 }
 
 // ============================================================================
@@ -64,6 +118,152 @@ function StatCard({ label, value, subValue }: { label: string; value: string | n
   );
 }
 
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function formatDuration(ms: number): string {
+  if (ms <= 0) return '--';
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60_000).toFixed(1)}m`;
+}
+
+function formatBucketRange(bucket: DurationHistogramBucket): string {
+  if (bucket.maxLabel === null) return `over ${bucket.minLabel}`;
+  if (bucket.minMs === 0) return `up to ${bucket.maxLabel}`;
+  return `over ${bucket.minLabel} up to ${bucket.maxLabel}`;
+}
+
+function formatCost(cost: number): string {
+  if (cost <= 0) return '--';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+// ============================================================================
+// Duration Distribution Component
+// ============================================================================
+
+function DurationDistribution({
+  agents,
+  commands,
+  tools,
+}: {
+  agents: AgentMetrics[];
+  commands: CommandMetrics[];
+  tools: ToolUsageMetrics[];
+}) {
+  const [scope, setScope] = useState<DistributionScope>('agent');
+  const [selected, setSelected] = useState<string>('');
+
+  const options = {
+    agent: agents
+      .filter((a) => a.totalTraces > 0)
+      .map((a) => ({ id: a.agentId, label: a.humanName, percentiles: a.durationPercentiles, histogram: a.durationHistogram })),
+    command: commands.map((c) => ({ id: c.commandName, label: c.commandName, percentiles: c.durationPercentiles, histogram: c.durationHistogram })),
+    tool: tools.map((t) => ({ id: t.toolName, label: t.toolName, percentiles: t.durationPercentiles, histogram: t.durationHistogram })),
+  }[scope];
+
+  const current = options.find((o) => o.id === selected) || options[0];
+
+  return (
+    <div className="border border-[#1e293b] bg-[#fefcf3] mb-8">
+      <div className="border-b border-[#1e293b] bg-[#fefce8] px-4 py-3 flex items-center justify-between gap-4">
+        <h3 className="font-mono text-sm font-bold text-[#0f172a]">duration distribution</h3>
+        <div className="flex items-center gap-2 font-mono text-xs">
+          <select
+            value={scope}
+            onChange={(e) => {
+              setScope(e.target.value as DistributionScope);
+              setSelected('');
+            }}
+            className="border border-[#1e293b] bg-[#fffef5] px-2 py-1 text-[#0f172a]"
+          >
+            <option value="agent">agents</option>
+            <option value="command">commands</option>
+            <option value="tool">tools</option>
+          </select>
+          <select
+            value={current?.id || ''}
+            onChange={(e) => setSelected(e.target.value)}
+            disabled={options.length === 0}
+            className="border border-[#1e293b] bg-[#fffef5] px-2 py-1 text-[#0f172a]"
+          >
+            {options.map((o) => (
+              <option key={o.id} value={o.id}>{o.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="p-4">
+        {current ? (
+          <>
+            <div className="flex gap-6 mb-4 font-mono text-xs text-[#64748b]">
+              <span>p50 <span className="text-[#0f172a] font-bold">{formatDuration(current.percentiles.p50)}</span></span>
+              <span>p90 <span className="text-[#0f172a] font-bold">{formatDuration(current.percentiles.p90)}</span></span>
+              <span>p99 <span className="text-[#0f172a] font-bold">{formatDuration(current.percentiles.p99)}</span></span>
+            </div>
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={current.histogram}>
+                  <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#64748b' }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 10, fill: '#64748b' }} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#fefcf3',
+                      border: '1px solid #1e293b',
+                      fontFamily: 'monospace',
+                      fontSize: 12,
+                    }}
+                    formatter={(value) => [value, 'Count']}
+                    labelFormatter={(label, payload) => {
+                      const bucket = payload?.[0]?.payload as DurationHistogramBucket | undefined;
+                      return bucket ? formatBucketRange(bucket) : label;
+                    }}
+                  />
+                  <Bar dataKey="count" fill="#1e293b" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        ) : (
+          <p className="text-center text-[#64748b] font-mono py-8">No duration data available</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Window Selector Component
+// ============================================================================
+
+function WindowSelector({
+  value,
+  onChange,
+}: {
+  value: MetricsWindow;
+  onChange: (window: MetricsWindow) => void;
+}) {
+  return (
+    <div className="flex border border-[#1e293b] font-mono text-xs">
+      {WINDOW_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={`px-3 py-1 border-r border-[#1e293b] last:border-r-0 ${
+            value === option.value
+              ? 'bg-[#1e293b] text-[#fefcf3]'
+              : 'bg-[#fefcf3] text-[#0f172a] hover:bg-[#fefce8]'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 // ============================================================================
 // Main Metrics Page
 // ============================================================================
@@ -72,11 +272,14 @@ export default function MetricsPage() {
   const [data, setData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [timeWindow, setTimeWindow] = useState<MetricsWindow>('7d');
 
   useEffect(() => {
     async function fetchMetrics() {
+      setLoading(true);
+      setError(null);
       try {
-        const res = await fetch('/api/audit/metrics');
+        const res = await fetch(`/api/audit/metrics?window=${timeWindow}`);
         if (!res.ok) throw new Error('Failed to fetch metrics');
         const json = await res.json();
         setData(json);
@@ -88,7 +291,7 @@ export default function MetricsPage() {
     }
 
     fetchMetrics();
-  }, []);
+  }, [timeWindow]);
 
   if (loading) {
     return (
@@ -117,7 +320,7 @@ export default function MetricsPage() {
     );
   }
 
-  const { overview, agentMetrics, toolUsage, timeSeries } = data;
+  const { overview, agentMetrics, commandMetrics, conformanceMetrics, toolUsage, timeSeries } = data;
 
   // Status breakdown for pie chart
   const statusData = [
@@ -128,13 +331,16 @@ export default function MetricsPage() {
 
   return (
     <div className="max-w-6xl mx-auto">
-      <header className="mb-8 border-b border-[#1e293b] pb-4">
-        <h1 className="text-2xl font-bold text-[#0f172a]">Metrics</h1>
-        <p className="text-sm text-[#64748b] mt-1">Agent performance analytics and insights</p>
+      <header className="mb-8 border-b border-[#1e293b] pb-4 flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-[#0f172a]">Metrics</h1>
+          <p className="text-sm text-[#64748b] mt-1">Agent performance analytics and insights</p>
+        </div>
+        <WindowSelector value={timeWindow} onChange={setTimeWindow} />
       </header>
 
       {/* Overview Stats */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
         <StatCard label="total traces" value={overview.totalTraces} />
         <StatCard
           label="success rate"
@@ -148,6 +354,10 @@ export default function MetricsPage() {
           label="total tokens"
           value={overview.totalTokens.toLocaleString()}
         />
+        <StatCard
+          label="total cost"
+          value={formatCost(overview.totalCost)}
+        />
       </div>
 
       {/* Charts Row */}
@@ -226,6 +436,36 @@ export default function MetricsPage() {
         </div>
       </div>
 
+      {/* Cost Over Time */}
+      <div className="border border-[#1e293b] bg-[#fefcf3] p-4 mb-8">
+        <h3 className="font-mono text-sm font-bold text-[#0f172a] mb-4">cost per day</h3>
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={timeSeries}>
+              <XAxis
+                dataKey="date"
+                tick={{ fontSize: 10, fill: '#64748b' }}
+                tickFormatter={(v) => v.slice(5)}
+              />
+              <YAxis
+                tick={{ fontSize: 10, fill: '#64748b' }}
+                tickFormatter={(v) => `$${v}`}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#fefcf3',
+                  border: '1px solid #1e293b',
+                  fontFamily: 'monospace',
+                  fontSize: 12,
+                }}
+                formatter={(value) => [formatCost(typeof value === 'number' ? value : 0), 'Cost']}
+              />
+              <Bar dataKey="cost" fill="#1e293b" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
       {/* Agent Performance */}
       <div className="border border-[#1e293b] bg-[#fefcf3] mb-8">
         <div className="border-b border-[#1e293b] bg-[#fefce8] px-4 py-3">
@@ -281,7 +521,11 @@ export default function MetricsPage() {
                 <th className="px-4 py-2 text-right text-xs text-[#64748b]">traces</th>
                 <th className="px-4 py-2 text-right text-xs text-[#64748b]">success</th>
                 <th className="px-4 py-2 text-right text-xs text-[#64748b]">avg time</th>
+                <th className="px-4 py-2 text-right text-xs text-[#64748b]">p50</th>
+                <th className="px-4 py-2 text-right text-xs text-[#64748b]">p90</th>
+                <th className="px-4 py-2 text-right text-xs text-[#64748b]">p99</th>
                 <th className="px-4 py-2 text-right text-xs text-[#64748b]">tokens</th>
+                <th className="px-4 py-2 text-right text-xs text-[#64748b]">cost</th>
               </tr>
             </thead>
             <tbody>
@@ -300,9 +544,21 @@ export default function MetricsPage() {
                   <td className="px-4 py-2 text-right text-[#0f172a]">
                     {agent.avgDurationMs > 0 ? `${(agent.avgDurationMs / 1000).toFixed(1)}s` : '--'}
                   </td>
+                  <td className="px-4 py-2 text-right text-[#0f172a]">
+                    {formatDuration(agent.durationPercentiles.p50)}
+                  </td>
+                  <td className="px-4 py-2 text-right text-[#0f172a]">
+                    {formatDuration(agent.durationPercentiles.p90)}
+                  </td>
+                  <td className="px-4 py-2 text-right text-[#0f172a]">
+                    {formatDuration(agent.durationPercentiles.p99)}
+                  </td>
                   <td className="px-4 py-2 text-right text-[#0f172a]">
                     {agent.totalTokens.toLocaleString()}
                   </td>
+                  <td className="px-4 py-2 text-right text-[#0f172a]">
+                    {formatCost(agent.totalCost)}
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -310,6 +566,113 @@ export default function MetricsPage() {
         </div>
       </div>
 
+      {/* Command Details Table */}
+      <div className="border border-[#1e293b] bg-[#fefcf3] mb-8">
+        <div className="border-b border-[#1e293b] bg-[#fefce8] px-4 py-3">
+          <h3 className="font-mono text-sm font-bold text-[#0f172a]">command details</h3>
+        </div>
+        {commandMetrics.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full font-mono text-sm">
+              <thead>
+                <tr className="border-b border-[#1e293b] bg-[#fffef5]">
+                  <th className="px-4 py-2 text-left text-xs text-[#64748b]">command</th>
+                  <th className="px-4 py-2 text-right text-xs text-[#64748b]">runs</th>
+                  <th className="px-4 py-2 text-right text-xs text-[#64748b]">success</th>
+                  <th className="px-4 py-2 text-right text-xs text-[#64748b]">p50</th>
+                  <th className="px-4 py-2 text-right text-xs text-[#64748b]">p90</th>
+                  <th className="px-4 py-2 text-right text-xs text-[#64748b]">p99</th>
+                  <th className="px-4 py-2 text-right text-xs text-[#64748b]">tokens</th>
+                  <th className="px-4 py-2 text-right text-xs text-[#64748b]">cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {commandMetrics.map((command) => (
+                  <tr key={command.commandName} className="border-b border-[#e2e8f0]">
+                    <td className="px-4 py-2 text-left text-[#0f172a]">/{command.commandName}</td>
+                    <td className="px-4 py-2 text-right text-[#0f172a]">{command.totalRuns}</td>
+                    <td className="px-4 py-2 text-right text-[#0f172a]">
+                      {(command.successRate * 100).toFixed(0)}%
+                    </td>
+                    <td className="px-4 py-2 text-right text-[#0f172a]">
+                      {formatDuration(command.durationPercentiles.p50)}
+                    </td>
+                    <td className="px-4 py-2 text-right text-[#0f172a]">
+                      {formatDuration(command.durationPercentiles.p90)}
+                    </td>
+                    <td className="px-4 py-2 text-right text-[#0f172a]">
+                      {formatDuration(command.durationPercentiles.p99)}
+                    </td>
+                    <td className="px-4 py-2 text-right text-[#0f172a]">
+                      {command.totalTokens.toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 text-right text-[#0f172a]">
+                      {formatCost(command.totalCost)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-center text-[#64748b] font-mono py-4">No command data available</p>
+        )}
+      </div>
+
+      {/* Workflow Conformance Table */}
+      <div className="border border-[#1e293b] bg-[#fefcf3] mb-8">
+        <div className="border-b border-[#1e293b] bg-[#fefce8] px-4 py-3">
+          <h3 className="font-mono text-sm font-bold text-[#0f172a]">workflow conformance</h3>
+        </div>
+        {conformanceMetrics.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full font-mono text-sm">
+              <thead>
+                <tr className="border-b border-[#1e293b] bg-[#fffef5]">
+                  <th className="px-4 py-2 text-left text-xs text-[#64748b]">workflow</th>
+                  <th className="px-4 py-2 text-right text-xs text-[#64748b]">runs</th>
+                  <th className="px-4 py-2 text-right text-xs text-[#64748b]">avg score</th>
+                  <th className="px-4 py-2 text-right text-xs text-[#64748b]">conforming</th>
+                  <th className="px-4 py-2 text-right text-xs text-[#64748b]">skipped</th>
+                  <th className="px-4 py-2 text-right text-xs text-[#64748b]">out of order</th>
+                  <th className="px-4 py-2 text-right text-xs text-[#64748b]">unexpected</th>
+                  <th className="px-4 py-2 text-right text-xs text-[#64748b]">handoffs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {conformanceMetrics.map((workflow) => (
+                  <tr key={workflow.workflowId} className="border-b border-[#e2e8f0]">
+                    <td className="px-4 py-2 text-left text-[#0f172a]">{workflow.workflowId}</td>
+                    <td className="px-4 py-2 text-right text-[#0f172a]">{workflow.checkedRuns}</td>
+                    <td className="px-4 py-2 text-right text-[#0f172a]">{workflow.avgScore}%</td>
+                    <td className="px-4 py-2 text-right text-[#0f172a]">
+                      {(workflow.conformingRate * 100).toFixed(0)}%
+                    </td>
+                    <td className="px-4 py-2 text-right text-[#0f172a]">
+                      {workflow.deviationCounts.skipped_agent || 0}
+                    </td>
+                    <td className="px-4 py-2 text-right text-[#0f172a]">
+                      {workflow.deviationCounts.out_of_order || 0}
+                    </td>
+                    <td className="px-4 py-2 text-right text-[#0f172a]">
+                      {workflow.deviationCounts.unexpected_agent || 0}
+                    </td>
+                    <td className="px-4 py-2 text-right text-[#0f172a]">
+                      {workflow.deviationCounts.invalid_handoff || 0}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-center text-[#64748b] font-mono py-4">No conformance data available</p>
+        )}
+      </div>
+
+      {/* Duration Distribution */}
+      <DurationDistribution agents={agentMetrics} commands={commandMetrics} tools={toolUsage} />
+
       {/* Tool Usage */}
       <div className="border border-[#1e293b] bg-[#fefcf3]">
         <div className="border-b border-[#1e293b] bg-[#fefce8] px-4 py-3">
@@ -327,6 +690,9 @@ export default function MetricsPage() {
                   <p className="text-xs text-[#64748b]">
                     {tool.usageCount} calls | {(tool.successRate * 100).toFixed(0)}% success
                   </p>
+                  <p className="text-xs text-[#64748b]">
+                    p50 {formatDuration(tool.durationPercentiles.p50)} | p90 {formatDuration(tool.durationPercentiles.p90)} | p99 {formatDuration(tool.durationPercentiles.p99)}
+                  </p>
                 </div>
               ))}
             </div>
@@ -1,5 +1,6 @@
 import Link from 'next/link';
-import { StatCard, AgentBadge } from '@/components/audit';
+import { StatCard, AgentBadge, BudgetAlertBanner } from '@/components/audit';
+import type { BudgetAlertBannerAlert } from '@/components/audit';
 
 export const dynamic = 'force-dynamic';
 
@@ -44,8 +45,25 @@ async function getStats() {
   }
 }
 
+async function getBudgetAlerts(): Promise<BudgetAlertBannerAlert[]> {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+  try {
+    const res = await fetch(`${baseUrl}/api/audit/budgets/alerts?acknowledged=false&limit=5`, {
+      cache: 'no-store',
+    });
+    if (!res.ok) return [];
+
+    const data = await res.json();
+    return data.alerts || [];
+  } catch (error) {
+    console.error('Failed to fetch budget alerts:', error);
+    return [];
+  }
+}
+
 export default async function AuditDashboardPage() {
-  const stats = await getStats();
+  const [stats, budgetAlerts] = await Promise.all([getStats(), getBudgetAlerts()]);
 
   return (
     <div className="max-w-6xl mx-auto">
@@ -56,6 +74,8 @@ export default async function AuditDashboardPage() {
         </p>
       </header>
 
+      <BudgetAlertBanner alerts={budgetAlerts} />
+
       <section className="mb-8">
         <h2 className="text-sm text-[#1e293b]/50 uppercase tracking-wide mb-4">
           System Overview
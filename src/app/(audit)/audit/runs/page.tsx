@@ -0,0 +1,181 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { RunQueue } from '@/components/audit/RunQueue';
+import type {
+  RunQueueEntry,
+  RunQueueResponse,
+  RunQueueUpdateRequest,
+  WorkflowRun,
+  WorkflowRunsResponse,
+} from '@/types/audit';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Queue refresh interval */
+const REFRESH_MS = 5000;
+
+const STATUS_FILTERS: Record<string, string> = {
+  'running,queued,paused': 'active',
+  'completed,failed,cancelled': 'finished',
+  '': 'all',
+};
+
+// ============================================================================
+// Main Page Component
+// ============================================================================
+
+export default function RunsPage() {
+  const [queue, setQueue] = useState<RunQueueResponse | null>(null);
+  const [runs, setRuns] = useState<Record<string, WorkflowRun>>({});
+  const [statusFilter, setStatusFilter] = useState('running,queued,paused');
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ limit: '100' });
+      if (statusFilter) params.set('status', statusFilter);
+
+      const [queueResponse, runsResponse] = await Promise.all([
+        fetch(`/api/audit/queue?${params}`),
+        fetch('/api/audit/runs'),
+      ]);
+      if (!queueResponse.ok) {
+        const data = await queueResponse.json().catch(() => ({}));
+        throw new Error(data.message || 'Failed to fetch the run queue');
+      }
+
+      const data: RunQueueResponse = await queueResponse.json();
+      setQueue(data);
+      setError(null);
+
+      if (runsResponse.ok) {
+        const runsData: WorkflowRunsResponse = await runsResponse.json();
+        setRuns(Object.fromEntries(runsData.runs.map((run) => [run.id, run])));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, [statusFilter]);
+
+  // Start runs left waiting, such as by a server restart
+  useEffect(() => {
+    fetch('/api/audit/queue/dispatch', { method: 'POST' }).catch(() => undefined);
+  }, []);
+
+  // Initial fetch, refetch on filter change, and refresh while open
+  useEffect(() => {
+    fetchQueue();
+    const interval = setInterval(fetchQueue, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [fetchQueue]);
+
+  const handleUpdate = async (entry: RunQueueEntry, update: RunQueueUpdateRequest) => {
+    try {
+      const response = await fetch(`/api/audit/queue/${encodeURIComponent(entry.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || 'Failed to update run');
+      }
+      await fetchQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update run');
+    }
+  };
+
+  const limits = queue?.limits;
+  const overrides = limits ? Object.entries(limits.workflows) : [];
+
+  return (
+    <div className="min-h-screen bg-[#fffef5]">
+      {/* Page Header */}
+      <div className="border-b border-[#1e293b] bg-[#fefcf3] px-6 py-4">
+        <h1 className="font-mono text-2xl font-bold text-[#0f172a]">runs</h1>
+        <p className="mt-1 text-sm text-[#64748b]">
+          Launches queued for the headless runner, started by priority within the concurrency limits
+        </p>
+      </div>
+
+      <div className="p-6">
+        {queue && !queue.enabled && (
+          <div className="mb-6 border border-[#f59e0b] bg-[#fef3c7] p-4 font-mono text-sm text-[#92400e]">
+            The headless runner is disabled on this server (AGENT_RUNNER_ENABLED), so queued runs will not start
+          </div>
+        )}
+
+        {/* Summary */}
+        <div className="mb-6 grid grid-cols-2 border border-[#1e293b] md:grid-cols-4">
+          <div className="border-r border-[#1e293b] bg-[#fefcf3] px-4 py-3">
+            <span className="text-xs text-[#64748b]">running</span>
+            <p className="font-mono text-lg font-bold text-[#0f172a]">
+              {queue?.counts.running ?? 0}
+              {limits && <span className="text-sm font-normal text-[#64748b]"> / {limits.global}</span>}
+            </p>
+          </div>
+          <div className="border-r border-[#1e293b] bg-[#fefcf3] px-4 py-3">
+            <span className="text-xs text-[#64748b]">queued</span>
+            <p className="font-mono text-lg font-bold text-[#0f172a]">{queue?.counts.queued ?? 0}</p>
+          </div>
+          <div className="border-r border-[#1e293b] bg-[#fefcf3] px-4 py-3">
+            <span className="text-xs text-[#64748b]">paused</span>
+            <p className="font-mono text-lg font-bold text-[#0f172a]">{queue?.counts.paused ?? 0}</p>
+          </div>
+          <div className="bg-[#fefcf3] px-4 py-3">
+            <span className="text-xs text-[#64748b]">per workflow</span>
+            <p className="font-mono text-lg font-bold text-[#0f172a]">{limits?.perWorkflow ?? '-'}</p>
+            {overrides.length > 0 && (
+              <p className="font-mono text-xs text-[#64748b]">
+                {overrides.map(([workflowId, limit]) => `${workflowId}: ${limit}`).join(', ')}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Status filter */}
+        <div className="mb-4 flex items-center gap-3">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="border border-[#1e293b] bg-[#fffef5] px-3 py-2 font-mono text-sm text-[#0f172a]"
+          >
+            {Object.entries(STATUS_FILTERS).map(([value, label]) => (
+              <option key={label} value={value}>{label}</option>
+            ))}
+          </select>
+          {queue && (
+            <span className="font-mono text-xs text-[#64748b]">
+              {queue.total} run{queue.total === 1 ? '' : 's'}
+            </span>
+          )}
+        </div>
+
+        {/* Error State */}
+        {error && (
+          <div className="mb-6 border border-[#ef4444] bg-[#fee2e2] p-4">
+            <p className="font-mono text-sm text-[#991b1b]">
+              {'\u2717'} Error: {error}
+            </p>
+            <button
+              onClick={() => fetchQueue()}
+              className="mt-2 text-xs text-[#991b1b] underline"
+            >
+              retry
+            </button>
+          </div>
+        )}
+
+        {queue ? (
+          <RunQueue entries={queue.entries} runs={runs} onUpdate={handleUpdate} />
+        ) : (
+          !error && <p className="font-mono text-sm text-[#64748b]">loading runs...</p>
+        )}
+      </div>
+    </div>
+  );
+}
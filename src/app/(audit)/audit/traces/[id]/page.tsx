@@ -4,7 +4,24 @@ import { useState, useEffect, useCallback, use } from 'react';
 import Link from 'next/link';
 import { TraceViewer } from '@/components/audit/TraceViewer';
 import { DecisionTree } from '@/components/audit/DecisionTree';
-import type { LangfuseTrace } from '@/lib/langfuse';
+import { ExecutionProgress } from '@/components/audit/ExecutionProgress';
+import { GateReport } from '@/components/audit/GateReport';
+import { ConformanceReport } from '@/components/audit/ConformanceReport';
+import { HandoffList } from '@/components/audit/HandoffList';
+import { ReplayPanel } from '@/components/audit/ReplayPanel';
+import type {
+  LangfuseSpan,
+  LangfuseTrace,
+  SpanDetailResponse,
+  TraceStatus,
+  TraceStreamEvent,
+} from '@/lib/langfuse';
+import type {
+  TraceConformanceResponse,
+  TraceExecutionResponse,
+  TraceGatesResponse,
+  TraceHandoffsResponse,
+} from '@/types/audit';
 
 // ============================================================================
 // Types
@@ -14,6 +31,27 @@ interface TraceDetailPageProps {
   params: Promise<{ id: string }>;
 }
 
+type TraceTab = 'viewer' | 'decisions' | 'progress' | 'conformance' | 'handoffs';
+
+/** Span operation types that move the orchestration progress forward */
+const EXECUTION_OPERATION_TYPES = ['subagent_launch', 'subagent_completion', 'handoff'];
+
+/** Statuses after which the trace no longer changes */
+const TERMINAL_STATUSES: TraceStatus[] = ['completed', 'failed', 'cancelled'];
+
+/** URL fragment prefix that selects a span, e.g. #span-abc123 */
+const SPAN_HASH_PREFIX = '#span-';
+
+/**
+ * Read the selected span ID from the URL fragment.
+ */
+function getSpanIdFromHash(): string | null {
+  const { hash } = window.location;
+  return hash.startsWith(SPAN_HASH_PREFIX)
+    ? decodeURIComponent(hash.slice(SPAN_HASH_PREFIX.length)) || null
+    : null;
+}
+
 // ============================================================================
 // Loading State Component
 // ============================================================================
@@ -78,11 +116,20 @@ function TabNav({
   onTabChange,
   spanCount,
   decisionCount,
+  progress,
+  conformanceScore,
+  handoffCount,
 }: {
-  activeTab: 'viewer' | 'decisions';
-  onTabChange: (tab: 'viewer' | 'decisions') => void;
+  activeTab: TraceTab;
+  onTabChange: (tab: TraceTab) => void;
   spanCount: number;
   decisionCount: number;
+  /** Completed and total waves, when the trace follows an orchestration plan */
+  progress?: { completed: number; total: number };
+  /** Conformance score, when the trace's workflow declares an agent sequence */
+  conformanceScore?: number;
+  /** Handoffs parsed from the trace's handoff spans */
+  handoffCount: number;
 }) {
   return (
     <div className="flex border-b border-[#1e293b]">
@@ -108,6 +155,171 @@ function TabNav({
         decision tree
         <span className="ml-2 text-xs text-[#94a3b8]">({decisionCount})</span>
       </button>
+      {progress && (
+        <button
+          onClick={() => onTabChange('progress')}
+          className={`px-6 py-3 font-mono text-sm ${
+            activeTab === 'progress'
+              ? 'border-b-2 border-[#1e293b] bg-[#fefcf3] font-medium text-[#0f172a]'
+              : 'bg-[#fffef5] text-[#64748b] hover:bg-[#fefce8]'
+          }`}
+        >
+          progress
+          <span className="ml-2 text-xs text-[#94a3b8]">
+            ({progress.completed}/{progress.total} waves)
+          </span>
+        </button>
+      )}
+      {conformanceScore !== undefined && (
+        <button
+          onClick={() => onTabChange('conformance')}
+          className={`px-6 py-3 font-mono text-sm ${
+            activeTab === 'conformance'
+              ? 'border-b-2 border-[#1e293b] bg-[#fefcf3] font-medium text-[#0f172a]'
+              : 'bg-[#fffef5] text-[#64748b] hover:bg-[#fefce8]'
+          }`}
+        >
+          conformance
+          <span className="ml-2 text-xs text-[#94a3b8]">({conformanceScore}%)</span>
+        </button>
+      )}
+      {handoffCount > 0 && (
+        <button
+          onClick={() => onTabChange('handoffs')}
+          className={`px-6 py-3 font-mono text-sm ${
+            activeTab === 'handoffs'
+              ? 'border-b-2 border-[#1e293b] bg-[#fefcf3] font-medium text-[#0f172a]'
+              : 'bg-[#fffef5] text-[#64748b] hover:bg-[#fefce8]'
+          }`}
+        >
+          handoffs
+          <span className="ml-2 text-xs text-[#94a3b8]">({handoffCount})</span>
+        </button>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Live Stream Helpers
+// ============================================================================
+
+/**
+ * Add a span announced by a span.created event, unless already present.
+ */
+function appendSpan(trace: LangfuseTrace, event: TraceStreamEvent): LangfuseTrace {
+  const spans = trace.spans || [];
+  if (!event.spanId || spans.some((span) => span.spanId === event.spanId)) return trace;
+
+  const span: LangfuseSpan = {
+    id: event.spanId,
+    spanId: event.spanId,
+    traceId: event.traceId,
+    parentSpanId: event.data.parentSpanId,
+    name: event.data.name || event.spanId,
+    operationType: (event.data.operationType as LangfuseSpan['operationType']) || 'custom',
+    agentName: event.data.agentName || '',
+    status: (event.data.status as LangfuseSpan['status']) || 'running',
+    startedAt: event.timestamp,
+  };
+
+  return { ...trace, spans: [...spans, span] };
+}
+
+/**
+ * Replace (or add) a span with fresher data.
+ */
+function mergeSpan(trace: LangfuseTrace, span: LangfuseSpan): LangfuseTrace {
+  const spans = trace.spans || [];
+  const exists = spans.some((s) => s.spanId === span.spanId);
+
+  return {
+    ...trace,
+    spans: exists
+      ? spans.map((s) => (s.spanId === span.spanId ? { ...s, ...span } : s))
+      : [...spans, span],
+  };
+}
+
+// ============================================================================
+// Selected Span Panel Component
+// ============================================================================
+
+function SelectedSpanPanel({ traceId, spanId }: { traceId: string; spanId: string }) {
+  const [detail, setDetail] = useState<SpanDetailResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDetail(null);
+    setError(null);
+
+    fetch(`/api/audit/traces/${encodeURIComponent(traceId)}/spans/${encodeURIComponent(spanId)}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? `Span not found: ${spanId}` : 'Failed to fetch span');
+        }
+        const data: SpanDetailResponse = await response.json();
+        if (!cancelled) setDetail(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [traceId, spanId]);
+
+  return (
+    <div className="mb-6 border border-[#1e293b] bg-[#fefcf3] p-4">
+      <div className="flex items-center justify-between">
+        <span className="font-mono text-sm font-medium text-[#0f172a]">
+          span: {detail?.span.name || spanId}
+        </span>
+        <a href="#" className="font-mono text-xs text-[#64748b] hover:text-[#0f172a]">
+          close {'\u2715'}
+        </a>
+      </div>
+
+      {error ? (
+        <p className="mt-2 font-mono text-xs text-[#991b1b]">{error}</p>
+      ) : !detail ? (
+        <p className="mt-2 font-mono text-xs text-[#64748b]">loading span...</p>
+      ) : (
+        <div className="mt-3 flex flex-wrap gap-6 border-t border-dashed border-[#1e293b] pt-3 font-mono text-xs">
+          <div>
+            <span className="text-[#64748b]">status</span>
+            <p className="text-[#0f172a]">{detail.span.status}</p>
+          </div>
+          <div>
+            <span className="text-[#64748b]">tool calls</span>
+            <p className="text-[#0f172a]">{detail.toolCalls.length}</p>
+          </div>
+          <div>
+            <span className="text-[#64748b]">decisions</span>
+            <p className="text-[#0f172a]">{detail.decisions.length}</p>
+          </div>
+          <div>
+            <span className="text-[#64748b]">children</span>
+            {detail.children.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {detail.children.map((child) => (
+                  <a
+                    key={child.spanId}
+                    href={`${SPAN_HASH_PREFIX}${child.spanId}`}
+                    className="text-[#0f172a] underline"
+                  >
+                    {child.name || child.spanId}
+                  </a>
+                ))}
+              </div>
+            ) : (
+              <p className="text-[#0f172a]">--</p>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -121,7 +333,25 @@ export default function TraceDetailPage({ params }: TraceDetailPageProps) {
   const [trace, setTrace] = useState<LangfuseTrace | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'viewer' | 'decisions'>('viewer');
+  const [activeTab, setActiveTab] = useState<TraceTab>('viewer');
+  const [selectedSpanId, setSelectedSpanId] = useState<string | null>(null);
+  const [execution, setExecution] = useState<TraceExecutionResponse | null>(null);
+  const [gates, setGates] = useState<TraceGatesResponse | null>(null);
+  const [conformance, setConformance] = useState<TraceConformanceResponse | null>(null);
+  const [handoffs, setHandoffs] = useState<TraceHandoffsResponse | null>(null);
+
+  // Open the span named in the URL fragment, and follow fragment changes
+  useEffect(() => {
+    const syncFromHash = () => {
+      const spanId = getSpanIdFromHash();
+      setSelectedSpanId(spanId);
+      if (spanId) setActiveTab('viewer');
+    };
+
+    syncFromHash();
+    window.addEventListener('hashchange', syncFromHash);
+    return () => window.removeEventListener('hashchange', syncFromHash);
+  }, []);
 
   const fetchTrace = useCallback(async () => {
     setIsLoading(true);
@@ -152,12 +382,142 @@ export default function TraceDetailPage({ params }: TraceDetailPageProps) {
     fetchTrace();
   }, [fetchTrace]);
 
+  // Reload the trace without replacing the page with the loading state
+  const refreshTrace = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/audit/traces/${encodeURIComponent(id)}`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setTrace(data.trace);
+    } catch {
+      // Keep the current snapshot; the next event or a manual reload will catch up
+    }
+  }, [id]);
+
+  // Load orchestration progress, gates, conformance and handoffs; traces without a workflow have none
+  const fetchExecution = useCallback(async () => {
+    const load = async <T,>(path: string, setData: (data: T | null) => void) => {
+      try {
+        const response = await fetch(`/api/audit/traces/${encodeURIComponent(id)}/${path}`);
+        if (response.status === 404) {
+          setData(null);
+          return;
+        }
+        if (!response.ok) return;
+        setData(await response.json());
+      } catch {
+        // Keep the current data; the next event will retry
+      }
+    };
+
+    await Promise.all([
+      load<TraceExecutionResponse>('execution', setExecution),
+      load<TraceGatesResponse>('gates', setGates),
+      load<TraceConformanceResponse>('conformance', setConformance),
+      load<TraceHandoffsResponse>('handoffs', setHandoffs),
+    ]);
+  }, [id]);
+
+  useEffect(() => {
+    fetchExecution();
+  }, [fetchExecution]);
+
+  // Stream span-by-span updates while the trace is running
+  const isRunning = trace?.status === 'running';
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const eventSource = new EventSource(
+      `/api/audit/traces/stream?traceId=${encodeURIComponent(id)}`
+    );
+
+    const parse = (event: MessageEvent): TraceStreamEvent | null => {
+      try {
+        return JSON.parse(event.data);
+      } catch {
+        return null;
+      }
+    };
+
+    eventSource.addEventListener('span.created', (message) => {
+      const event = parse(message as MessageEvent);
+      if (!event) return;
+      setTrace((prev) => (prev ? appendSpan(prev, event) : prev));
+      if (EXECUTION_OPERATION_TYPES.includes(event.data.operationType || '')) fetchExecution();
+    });
+
+    eventSource.addEventListener('span.updated', async (message) => {
+      const event = parse(message as MessageEvent);
+      if (!event?.spanId) return;
+      if (EXECUTION_OPERATION_TYPES.includes(event.data.operationType || '')) fetchExecution();
+
+      // Fetch the full span for its output, tool calls and duration
+      try {
+        const response = await fetch(
+          `/api/audit/traces/${encodeURIComponent(id)}/spans/${encodeURIComponent(event.spanId)}`
+        );
+        if (!response.ok) return;
+        const detail: SpanDetailResponse = await response.json();
+        setTrace((prev) => (prev ? mergeSpan(prev, detail.span) : prev));
+      } catch {
+        // Ignore; the final refresh picks the span up
+      }
+    });
+
+    eventSource.addEventListener('trace.updated', (message) => {
+      const event = parse(message as MessageEvent);
+      if (!event) return;
+
+      const status = event.data.status as TraceStatus | undefined;
+      setTrace((prev) => prev && {
+        ...prev,
+        status: status || prev.status,
+        durationMs: event.data.durationMs ?? prev.durationMs,
+        totalTokens: event.data.totalTokens ?? prev.totalTokens,
+        totalCost: event.data.totalCost ?? prev.totalCost,
+        error: event.data.error ?? prev.error,
+      });
+
+      // Finished: stop streaming and load the final state once
+      if (status && TERMINAL_STATUSES.includes(status)) {
+        eventSource.close();
+        refreshTrace();
+        fetchExecution();
+      }
+    });
+
+    eventSource.onmessage = (message) => {
+      try {
+        const data = JSON.parse(message.data);
+
+        // The snapshot taken on connect has the spans created since the page loaded
+        if (data.type === 'initial') {
+          const snapshot = (data.traces as LangfuseTrace[] | undefined)?.find((item) => item.traceId === id);
+          if (snapshot) setTrace(snapshot);
+          fetchExecution();
+        } else if (data.type === 'reset') {
+          refreshTrace();
+          fetchExecution();
+        }
+      } catch {
+        // Ignore parse errors
+      }
+    };
+
+    return () => {
+      eventSource.close();
+    };
+  }, [id, isRunning, refreshTrace, fetchExecution]);
+
   // Calculate decision count
   const decisionCount = trace?.spans?.reduce(
     (sum, span) => sum + (span.decisions?.length || 0),
     0
   ) || 0;
 
+  const executionWaves = execution?.execution.phases.flatMap((phase) => phase.waves) || [];
+
   return (
     <div className="min-h-screen bg-[#fffef5]">
       {/* Page Header */}
@@ -173,6 +533,20 @@ export default function TraceDetailPage({ params }: TraceDetailPageProps) {
           <span className="font-mono text-sm text-[#0f172a]">
             {trace?.name || id}
           </span>
+          {typeof trace?.metadata.parentTraceId === 'string' && (
+            <Link
+              href={`/audit/traces/${encodeURIComponent(trace.metadata.parentTraceId)}`}
+              className="font-mono text-xs text-[#64748b] underline hover:text-[#0f172a]"
+            >
+              replay of {trace.metadata.parentTraceId}
+            </Link>
+          )}
+          {isRunning && (
+            <span className="flex items-center gap-1.5 border border-[#10b981] bg-[#d1fae5] px-2 py-0.5 text-xs text-[#065f46]">
+              <span className="h-2 w-2 animate-pulse rounded-full bg-[#10b981]" />
+              live
+            </span>
+          )}
         </div>
       </div>
 
@@ -192,12 +566,32 @@ export default function TraceDetailPage({ params }: TraceDetailPageProps) {
               onTabChange={setActiveTab}
               spanCount={trace.spans?.length || 0}
               decisionCount={decisionCount}
+              progress={execution ? {
+                completed: executionWaves.filter((wave) => wave.status === 'completed').length,
+                total: executionWaves.length,
+              } : undefined}
+              conformanceScore={conformance?.report.score}
+              handoffCount={handoffs?.handoffs.length || 0}
             />
 
             {/* Tab Content */}
             <div className="mt-6">
               {activeTab === 'viewer' ? (
-                <TraceViewer trace={trace} />
+                <>
+                  {selectedSpanId && (
+                    <SelectedSpanPanel traceId={trace.traceId} spanId={selectedSpanId} />
+                  )}
+                  <TraceViewer trace={trace} selectedSpanId={selectedSpanId} />
+                </>
+              ) : activeTab === 'progress' && execution ? (
+                <div className="space-y-6">
+                  <ExecutionProgress plan={execution.plan} execution={execution.execution} />
+                  {gates && <GateReport report={gates.report} />}
+                </div>
+              ) : activeTab === 'conformance' && conformance ? (
+                <ConformanceReport report={conformance.report} />
+              ) : activeTab === 'handoffs' && handoffs ? (
+                <HandoffList handoffs={handoffs.handoffs} />
               ) : (
                 <DecisionTree trace={trace} />
               )}
@@ -228,6 +622,19 @@ export default function TraceDetailPage({ params }: TraceDetailPageProps) {
               >
                 copy trace ID
               </button>
+              <Link
+                href={typeof trace.metadata.parentTraceId === 'string'
+                  ? `/audit/traces/compare?${new URLSearchParams({ a: trace.metadata.parentTraceId, b: trace.traceId })}`
+                  : `/audit/traces/compare?${new URLSearchParams({ a: trace.traceId })}`}
+                className="border border-[#1e293b] bg-[#fffef5] px-4 py-2 font-mono text-sm text-[#0f172a] hover:bg-[#fefce8]"
+              >
+                {typeof trace.metadata.parentTraceId === 'string' ? 'compare with original' : 'compare'}
+              </Link>
+            </div>
+
+            {/* Replay */}
+            <div className="mt-6">
+              <ReplayPanel traceId={trace.traceId} />
             </div>
           </div>
         )}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState, useEffect, useCallback, use } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { TraceComparison } from '@/components/audit/TraceComparison';
+import type { TraceComparisonResponse } from '@/types/audit';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface TraceComparePageProps {
+  searchParams: Promise<{ a?: string; b?: string }>;
+}
+
+// ============================================================================
+// Main Page Component
+// ============================================================================
+
+export default function TraceComparePage({ searchParams }: TraceComparePageProps) {
+  const { a = '', b = '' } = use(searchParams);
+  const router = useRouter();
+  const [traceA, setTraceA] = useState(a);
+  const [traceB, setTraceB] = useState(b);
+  const [data, setData] = useState<TraceComparisonResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the inputs in step with the URL
+  useEffect(() => {
+    setTraceA(a);
+    setTraceB(b);
+  }, [a, b]);
+
+  const fetchComparison = useCallback(async () => {
+    if (!a || !b) {
+      setData(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ a, b });
+      const response = await fetch(`/api/audit/traces/compare?${params}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || 'Failed to compare traces');
+      }
+      setData(await response.json());
+    } catch (err) {
+      setData(null);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [a, b]);
+
+  useEffect(() => {
+    fetchComparison();
+  }, [fetchComparison]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const params = new URLSearchParams({ a: traceA.trim(), b: traceB.trim() });
+    router.push(`/audit/traces/compare?${params}`);
+  };
+
+  const handleSwap = () => {
+    const params = new URLSearchParams({ a: b, b: a });
+    router.push(`/audit/traces/compare?${params}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-[#fffef5]">
+      {/* Page Header */}
+      <div className="border-b border-[#1e293b] bg-[#fefcf3] px-6 py-4">
+        <div className="flex items-center gap-4">
+          <Link
+            href="/audit/traces"
+            className="font-mono text-sm text-[#64748b] hover:text-[#0f172a]"
+          >
+            {'\u2190'} traces
+          </Link>
+          <span className="text-[#cbd5e1]">/</span>
+          <span className="font-mono text-sm text-[#0f172a]">compare</span>
+        </div>
+        <p className="mt-1 text-sm text-[#64748b]">
+          Two runs side by side, with spans aligned by agent and operation type
+        </p>
+      </div>
+
+      <div className="p-6">
+        {/* Trace pickers */}
+        <form onSubmit={handleSubmit} className="mb-6 flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={traceA}
+            onChange={(e) => setTraceA(e.target.value)}
+            placeholder="trace A (baseline)"
+            className="min-w-0 flex-1 border border-[#1e293b] bg-[#fffef5] px-3 py-2 font-mono text-sm text-[#0f172a] placeholder:text-[#94a3b8]"
+          />
+          <input
+            type="text"
+            value={traceB}
+            onChange={(e) => setTraceB(e.target.value)}
+            placeholder="trace B"
+            className="min-w-0 flex-1 border border-[#1e293b] bg-[#fffef5] px-3 py-2 font-mono text-sm text-[#0f172a] placeholder:text-[#94a3b8]"
+          />
+          <button
+            type="submit"
+            disabled={!traceA.trim() || !traceB.trim()}
+            className="border border-[#0f172a] bg-[#0f172a] px-4 py-2 font-mono text-sm text-[#fefcf3] hover:bg-[#1e293b] disabled:opacity-50"
+          >
+            compare
+          </button>
+          {a && b && (
+            <button
+              type="button"
+              onClick={handleSwap}
+              className="border border-[#1e293b] bg-[#fffef5] px-4 py-2 font-mono text-sm text-[#0f172a] hover:bg-[#fefce8]"
+            >
+              swap
+            </button>
+          )}
+        </form>
+
+        {/* Error State */}
+        {error && (
+          <div className="mb-6 border border-[#ef4444] bg-[#fee2e2] p-4">
+            <p className="font-mono text-sm text-[#991b1b]">
+              {'\u2717'} Error: {error}
+            </p>
+            <button
+              onClick={() => fetchComparison()}
+              className="mt-2 text-xs text-[#991b1b] underline"
+            >
+              retry
+            </button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="font-mono text-sm text-[#64748b]">comparing traces...</p>
+        ) : data ? (
+          <TraceComparison comparison={data.comparison} />
+        ) : (
+          !error && (
+            <p className="font-mono text-sm text-[#64748b]">
+              Enter two trace IDs to compare them
+            </p>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
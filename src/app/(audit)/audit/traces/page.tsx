@@ -15,6 +15,13 @@ interface TracesResponse {
   hasMore: boolean;
 }
 
+/** Conformance filter options and the score range each selects */
+const CONFORMANCE_FILTERS: Record<string, { label: string; min?: number; max?: number }> = {
+  conforming: { label: 'conforming', min: 100 },
+  deviating: { label: 'deviating', max: 99 },
+  low: { label: 'below 70%', max: 69 },
+};
+
 // ============================================================================
 // Filter Bar Component
 // ============================================================================
@@ -27,6 +34,7 @@ function FilterBar({
     status: string;
     search: string;
     agentName: string;
+    conformance: string;
   };
   onFilterChange: (key: string, value: string) => void;
 }) {
@@ -56,6 +64,18 @@ function FilterBar({
         <option value="cancelled">cancelled</option>
       </select>
 
+      {/* Conformance filter */}
+      <select
+        value={filters.conformance}
+        onChange={(e) => onFilterChange('conformance', e.target.value)}
+        className="border border-[#1e293b] bg-[#fffef5] px-3 py-2 font-mono text-sm text-[#0f172a]"
+      >
+        <option value="">any conformance</option>
+        {Object.entries(CONFORMANCE_FILTERS).map(([value, option]) => (
+          <option key={value} value={value}>{option.label}</option>
+        ))}
+      </select>
+
       {/* Agent filter */}
       <input
         type="text"
@@ -111,6 +131,7 @@ export default function TracesPage() {
     status: '',
     search: '',
     agentName: '',
+    conformance: '',
   });
 
   const [stats, setStats] = useState({
@@ -136,6 +157,9 @@ export default function TracesPage() {
       if (filters.status) params.set('status', filters.status);
       if (filters.search) params.set('search', filters.search);
       if (filters.agentName) params.set('agentName', filters.agentName);
+      const conformance = CONFORMANCE_FILTERS[filters.conformance];
+      if (conformance?.min !== undefined) params.set('minConformance', String(conformance.min));
+      if (conformance?.max !== undefined) params.set('maxConformance', String(conformance.max));
       params.set('limit', '50');
       if (append) params.set('offset', String(tracesLengthRef.current));
 
@@ -172,7 +196,7 @@ export default function TracesPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [filters.status, filters.search, filters.agentName]);
+  }, [filters.status, filters.search, filters.agentName, filters.conformance]);
 
   // Initial fetch and refetch on filter change
   useEffect(() => {
@@ -187,17 +211,27 @@ export default function TracesPage() {
   useEffect(() => {
     if (!isLive) return;
 
-    const eventSource = new EventSource('/api/audit/traces/stream');
+    const params = new URLSearchParams();
+    if (filters.agentName) params.set('agentName', filters.agentName);
+
+    const eventSource = new EventSource(`/api/audit/traces/stream?${params}`);
 
     eventSource.onopen = () => {
       console.log('SSE connected');
     };
 
+    // Refresh the list when traces start or change
+    const handleTraceEvent = () => {
+      fetchTraces();
+    };
+    eventSource.addEventListener('trace.created', handleTraceEvent);
+    eventSource.addEventListener('trace.updated', handleTraceEvent);
+
     eventSource.onmessage = (event) => {
       try {
         const data = JSON.parse(event.data);
-        if (data.type === 'update' && data.latestTraces) {
-          // Refresh traces when we get an update
+        if (data.type === 'reset') {
+          // Missed events are gone, so reload the list
           fetchTraces();
         }
       } catch {
@@ -212,7 +246,7 @@ export default function TracesPage() {
     return () => {
       eventSource.close();
     };
-  }, [isLive, fetchTraces]);
+  }, [isLive, fetchTraces, filters.agentName]);
 
   const handleFilterChange = (key: string, value: string) => {
     setFilters((prev) => ({ ...prev, [key]: value }));
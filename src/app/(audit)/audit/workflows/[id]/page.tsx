@@ -0,0 +1,197 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { AgentBadge, WorkflowGraph } from '@/components/audit';
+import type { WorkflowPlanResponse, WorkflowStatsResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+const STATS_WINDOWS = ['24h', '7d', '30d', '90d', 'all'];
+const DEFAULT_STATS_WINDOW = '30d';
+
+interface WorkflowDetailPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+  searchParams: Promise<{
+    window?: string;
+  }>;
+}
+
+async function getPlan(id: string): Promise<WorkflowPlanResponse | null> {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+  try {
+    const res = await fetch(`${baseUrl}/api/audit/workflows/${encodeURIComponent(id)}/plan`, {
+      cache: 'no-store',
+    });
+
+    if (!res.ok) {
+      if (res.status === 404) {
+        return null;
+      }
+      throw new Error('Failed to fetch workflow plan');
+    }
+
+    return await res.json();
+  } catch (error) {
+    console.error('Error fetching workflow plan:', error);
+    return null;
+  }
+}
+
+async function getStats(id: string, window: string): Promise<WorkflowStatsResponse | null> {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+  try {
+    const res = await fetch(
+      `${baseUrl}/api/audit/workflows/${encodeURIComponent(id)}/stats?window=${window}`,
+      { cache: 'no-store' }
+    );
+
+    if (!res.ok) {
+      throw new Error('Failed to fetch workflow stats');
+    }
+
+    return await res.json();
+  } catch (error) {
+    // The graph is still useful without run data
+    console.error('Error fetching workflow stats:', error);
+    return null;
+  }
+}
+
+export default async function WorkflowDetailPage({ params, searchParams }: WorkflowDetailPageProps) {
+  const { id } = await params;
+  const { window: requestedWindow } = await searchParams;
+  const window = requestedWindow && STATS_WINDOWS.includes(requestedWindow)
+    ? requestedWindow
+    : DEFAULT_STATS_WINDOW;
+
+  const [data, statsData] = await Promise.all([getPlan(id), getStats(id, window)]);
+
+  if (!data) {
+    notFound();
+  }
+
+  const { plan, source } = data;
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="mb-6">
+        <Link
+          href="/audit/workflows"
+          className="text-sm text-[#1e293b]/70 hover:text-[#1e293b] transition-colors"
+        >
+          &larr; Back to Workflows
+        </Link>
+      </div>
+
+      <header className="mb-8 border-b border-[#1e293b] pb-4">
+        <h1 className="text-2xl font-bold text-[#1e293b]">{plan.name}</h1>
+        <p className="text-sm text-[#1e293b]/70 mt-1">
+          /{plan.id.replace(/-workflow$/, '')} &bull; {plan.phases.length} phase{plan.phases.length !== 1 ? 's' : ''}
+          {' '}&bull; {plan.gates.length} gate{plan.gates.length !== 1 ? 's' : ''}
+        </p>
+      </header>
+
+      <section className="mb-8">
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-sm text-[#1e293b]/50 uppercase tracking-wide">
+            Graph
+          </h2>
+          <div className="flex items-center gap-1 text-xs">
+            <span className="mr-1 text-[#1e293b]/50">runs from</span>
+            {STATS_WINDOWS.map((option) => (
+              <Link
+                key={option}
+                href={`/audit/workflows/${encodeURIComponent(plan.id)}?window=${option}`}
+                className={`border border-[#1e293b] px-2 py-0.5 ${
+                  option === window ? 'bg-[#1e293b] text-[#fefcf3]' : 'text-[#1e293b] hover:bg-[#fefce8]'
+                }`}
+              >
+                {option}
+              </Link>
+            ))}
+          </div>
+        </div>
+        <WorkflowGraph plan={plan} height={480} stats={statsData?.stats} />
+      </section>
+
+      <section className="mb-8">
+        <h2 className="text-sm text-[#1e293b]/50 uppercase tracking-wide mb-4">
+          Phases
+        </h2>
+        <div className="space-y-4">
+          {plan.phases.map((phase) => (
+            <div key={phase.number} className="border border-[#1e293b] p-4">
+              <h3 className="font-bold text-sm text-[#0f172a]">
+                Phase {phase.number}: {phase.name}
+              </h3>
+              <ol className="mt-3 space-y-3">
+                {phase.waves.map((wave, index) => (
+                  <li key={wave.id}>
+                    <p className="text-xs text-[#1e293b]/50">
+                      Wave {index + 1} &bull; {wave.parallel ? 'parallel' : 'sequential'}
+                    </p>
+                    <ul className="mt-1 space-y-1">
+                      {wave.tasks.map((task, taskIndex) => (
+                        <li key={taskIndex} className="flex items-start gap-2 text-sm text-[#1e293b]">
+                          <AgentBadge agentId={task.agent} />
+                          <span>
+                            {task.task}
+                            {task.deliverable && (
+                              <span className="text-[#1e293b]/50"> &rarr; {task.deliverable}</span>
+                            )}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {plan.gates.length > 0 && (
+        <section className="mb-8">
+          <h2 className="text-sm text-[#1e293b]/50 uppercase tracking-wide mb-4">
+            Gates ({plan.gates.length})
+          </h2>
+          <div className="border border-[#1e293b] p-4">
+            <ul className="space-y-2">
+              {plan.gates.map((gate, i) => (
+                <li key={i} className="flex items-start gap-2 text-[#1e293b]">
+                  <span className="text-[#1e293b]/50">{gate.blocking ? '\u25C6' : '\u25C7'}</span>
+                  <span>
+                    {gate.condition}
+                    <span className="ml-2 text-xs text-[#1e293b]/50">
+                      {gate.from} &rarr; {gate.to}{gate.blocking ? ' (blocking)' : ''}
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+      )}
+
+      {plan.handoffPrompt && (
+        <section className="mb-8">
+          <h2 className="text-sm text-[#1e293b]/50 uppercase tracking-wide mb-4">
+            Handoff Prompt
+          </h2>
+          <pre className="border border-[#1e293b] bg-[#fffef5] p-4 text-xs text-[#0f172a] whitespace-pre-wrap">
+            {plan.handoffPrompt}
+          </pre>
+        </section>
+      )}
+
+      <footer className="border-t border-[#1e293b] pt-4 text-xs text-[#1e293b]/50">
+        <p>Workflow ID: {plan.id}</p>
+        <p>Plan source: {source === 'database' ? 'last sync' : 'command file'}</p>
+      </footer>
+    </div>
+  );
+}
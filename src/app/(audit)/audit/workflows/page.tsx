@@ -1,5 +1,6 @@
 import { WorkflowsClient } from '@/components/audit';
 import type { WorkflowData } from '@/components/audit/WorkflowDiagram';
+import type { WorkflowQuestion } from '@/types/audit';
 
 export const dynamic = 'force-dynamic';
 
@@ -14,6 +15,7 @@ interface ApiWorkflow {
     action: string;
     output?: string;
   }>;
+  questions: WorkflowQuestion[];
   lastSynced: string;
 }
 
@@ -39,6 +41,7 @@ async function getWorkflows(): Promise<WorkflowData[]> {
       description: w.description,
       agents: w.agents,
       steps: w.steps,
+      questions: w.questions,
     }));
   } catch (error) {
     console.error('Error fetching workflows:', error);
@@ -0,0 +1,153 @@
+/**
+ * /api/audit/budgets/[id]
+ *
+ * GET    - Returns a budget with its usage in the current period.
+ *          Response: { budget: BudgetStatus }
+ * PATCH  - Updates any budget field (same fields as POST /api/audit/budgets).
+ *          Requires a signed-in user.
+ *          Response: { budget: Budget }
+ * DELETE - Deletes a budget and its alerts. Requires a signed-in user.
+ *          Response: { deleted: true }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { deleteBudget, getBudgetById, updateBudget, type Budget } from '@/lib/db';
+import { getBudgetStatus, validateBudgetInput, type BudgetStatus } from '@/lib/audit/budgets';
+import type { ErrorResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * Build a 404 response for a missing budget.
+ */
+function notFound(id: string): NextResponse<ErrorResponse> {
+  return NextResponse.json({
+    error: 'Not Found',
+    message: `Budget '${id}' not found`,
+    statusCode: 404,
+  }, { status: 404 });
+}
+
+/**
+ * Build a 401 response for a signed-out request.
+ */
+function unauthorized(message: string): NextResponse<ErrorResponse> {
+  return NextResponse.json({
+    error: 'Unauthorized',
+    message,
+    statusCode: 401,
+  }, { status: 401 });
+}
+
+/**
+ * Build a 500 response from an unexpected error.
+ */
+function serverError(error: unknown): NextResponse<ErrorResponse> {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+  return NextResponse.json({
+    error: 'Internal Server Error',
+    message: errorMessage,
+    statusCode: 500,
+  }, { status: 500 });
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<{ budget: BudgetStatus } | ErrorResponse>> {
+  try {
+    const { id } = await params;
+    const budget = await getBudgetById(id);
+    if (!budget) return notFound(id);
+
+    return NextResponse.json({ budget: await getBudgetStatus(budget) }, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<{ budget: Budget } | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return unauthorized('Sign in to change budgets');
+
+    const { id } = await params;
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: 'Invalid JSON body',
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: 'Request body must be a JSON object',
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    const errors = validateBudgetInput(body, true);
+    if (errors.length > 0) {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: errors.join('; '),
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    const budget = await updateBudget(id, {
+      name: typeof body.name === 'string' ? body.name.trim() : undefined,
+      scope_type: body.scope_type as Budget['scope_type'] | undefined,
+      scope_value: typeof body.scope_value === 'string' ? body.scope_value.trim() : undefined,
+      period: body.period as Budget['period'] | undefined,
+      metric: body.metric as Budget['metric'] | undefined,
+      limit_value: body.limit_value as number | undefined,
+      warn_threshold: body.warn_threshold as number | undefined,
+      enabled: body.enabled as boolean | undefined,
+    });
+    if (!budget) return notFound(id);
+
+    return NextResponse.json({ budget }, { status: 200 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<{ deleted: true } | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return unauthorized('Sign in to delete budgets');
+
+    const { id } = await params;
+    if (!(await deleteBudget(id))) return notFound(id);
+
+    return NextResponse.json({ deleted: true }, { status: 200 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
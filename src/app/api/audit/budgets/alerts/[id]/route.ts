@@ -0,0 +1,58 @@
+/**
+ * PATCH /api/audit/budgets/alerts/[id]
+ *
+ * Acknowledges a budget alert so it no longer shows on the dashboard.
+ * Requires a signed-in user.
+ *
+ * Response: { alert: BudgetAlert }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { acknowledgeBudgetAlert, type BudgetAlert } from '@/lib/db';
+import type { ErrorResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export async function PATCH(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<{ alert: BudgetAlert } | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({
+        error: 'Unauthorized',
+        message: 'Sign in to acknowledge budget alerts',
+        statusCode: 401,
+      }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const alert = await acknowledgeBudgetAlert(id);
+
+    if (!alert) {
+      return NextResponse.json({
+        error: 'Not Found',
+        message: `Budget alert '${id}' not found`,
+        statusCode: 404,
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ alert }, { status: 200 });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * GET /api/audit/budgets/alerts
+ *
+ * Lists budget alerts, newest first.
+ *
+ * Query Parameters:
+ *   - acknowledged: "true" or "false" to filter by acknowledgement (optional)
+ *   - budgetId: Only alerts for this budget (optional)
+ *   - limit: Maximum number of results (optional, default: 50, max: 200)
+ *
+ * Response: { alerts: BudgetAlert[] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getBudgetAlerts, type BudgetAlert } from '@/lib/db';
+import type { ErrorResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<{ alerts: BudgetAlert[] } | ErrorResponse>> {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const acknowledged = searchParams.get('acknowledged');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 200);
+
+    const alerts = await getBudgetAlerts({
+      budget_id: searchParams.get('budgetId') || undefined,
+      acknowledged: acknowledged === null ? undefined : acknowledged === 'true',
+      limit,
+    });
+
+    return NextResponse.json({ alerts }, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * /api/audit/budgets
+ *
+ * GET  - Lists all budgets with their usage in the current period.
+ *        Response: { budgets: BudgetStatus[] }
+ *
+ * POST - Creates a budget. Requires a signed-in user.
+ *        Request Body:
+ *          {
+ *            "name": string,
+ *            "scope_type": "agent" | "command" | "workflow",
+ *            "scope_value": string,
+ *            "period": "daily" | "weekly" | "monthly",
+ *            "metric": "tokens" | "cost",
+ *            "limit_value": number,
+ *            "warn_threshold": number (optional, 0-1, default: 0.8),
+ *            "enabled": boolean (optional, default: true)
+ *          }
+ *        Response: { budget: Budget }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { createBudget, type Budget } from '@/lib/db';
+import { getBudgetStatuses, validateBudgetInput, type BudgetStatus } from '@/lib/audit/budgets';
+import type { ErrorResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(): Promise<NextResponse<{ budgets: BudgetStatus[] } | ErrorResponse>> {
+  try {
+    const budgets = await getBudgetStatuses();
+
+    return NextResponse.json({ budgets }, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<{ budget: Budget } | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({
+        error: 'Unauthorized',
+        message: 'Sign in to create budgets',
+        statusCode: 401,
+      }, { status: 401 });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: 'Invalid JSON body',
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: 'Request body must be a JSON object',
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    const errors = validateBudgetInput(body);
+    if (errors.length > 0) {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: errors.join('; '),
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    const budget = await createBudget({
+      name: (body.name as string).trim(),
+      scope_type: body.scope_type as Budget['scope_type'],
+      scope_value: (body.scope_value as string).trim(),
+      period: body.period as Budget['period'],
+      metric: body.metric as Budget['metric'],
+      limit_value: body.limit_value as number,
+      warn_threshold: (body.warn_threshold as number | undefined) ?? 0.8,
+      enabled: (body.enabled as boolean | undefined) ?? true,
+    });
+
+    return NextResponse.json({ budget }, { status: 201 });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * GET /api/audit/handoffs
+ *
+ * Searches handoffs recorded from handoff spans across all traces.
+ *
+ * Query Parameters:
+ *   - fromAgent: Agent handing work off (optional)
+ *   - toAgent: Agent receiving work (optional)
+ *   - missing: Field (summary, filesTouched, openQuestions, risks) or
+ *     handoff template section the handoff left out (optional)
+ *   - valid: true or false, whether the handoff covers the template (optional)
+ *   - traceId: Limit to one trace (optional)
+ *   - search: Search in handoff summaries (optional)
+ *   - limit: Maximum number of results (optional, default: 50, max: 100)
+ *   - offset: Pagination offset (optional, default: 0)
+ *
+ * Response: HandoffsListResponse
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listHandoffs } from '@/lib/audit/handoffs';
+import type { HandoffFilters } from '@/lib/db';
+import type { ErrorResponse, HandoffsListResponse } from '@/types/audit';
+import type { HandoffField } from '@/types/orchestration';
+
+export const dynamic = 'force-dynamic';
+
+const HANDOFF_FIELDS: HandoffField[] = ['summary', 'filesTouched', 'openQuestions', 'risks'];
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<HandoffsListResponse | ErrorResponse>> {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const filters: HandoffFilters = {};
+
+    const fromAgent = searchParams.get('fromAgent');
+    if (fromAgent) filters.from_agent = fromAgent;
+
+    const toAgent = searchParams.get('toAgent');
+    if (toAgent) filters.to_agent = toAgent;
+
+    const missing = searchParams.get('missing');
+    if (missing) {
+      if (HANDOFF_FIELDS.includes(missing as HandoffField)) {
+        filters.missing_field = missing as HandoffField;
+      } else {
+        filters.missing_section = missing;
+      }
+    }
+
+    const valid = searchParams.get('valid');
+    if (valid === 'true' || valid === 'false') filters.valid = valid === 'true';
+
+    const traceId = searchParams.get('traceId');
+    if (traceId) filters.trace_id = traceId;
+
+    const search = searchParams.get('search');
+    if (search) filters.search = search;
+
+    const limit = searchParams.get('limit');
+    filters.limit = Math.min(Math.max(parseInt(limit || '50', 10) || 50, 1), 100);
+
+    const offset = searchParams.get('offset');
+    filters.offset = Math.max(parseInt(offset || '0', 10) || 0, 0);
+
+    const result = await listHandoffs(filters);
+
+    return NextResponse.json(result, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * POST /api/audit/metrics/rollups
+ *
+ * Backfill job that rebuilds the hourly and daily metric rollups from the
+ * traces in the active trace store. Existing rollups are replaced once
+ * the rebuild has finished. Requires a signed-in user.
+ *
+ * Request Body: None required (empty body or {})
+ *
+ * Response: { traces: number, spans: number, startedAt: string, completedAt: string }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { rebuildMetricRollups } from '@/lib/audit/rollups';
+import type { RollupRebuildResult } from '@/lib/audit/rollups';
+import type { ErrorResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  _request: NextRequest
+): Promise<NextResponse<RollupRebuildResult | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({
+        error: 'Unauthorized',
+        message: 'Sign in to rebuild metric rollups',
+        statusCode: 401,
+      }, { status: 401 });
+    }
+
+    const result = await rebuildMetricRollups();
+
+    return NextResponse.json(result, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: `Rollup rebuild failed: ${errorMessage}`,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -2,24 +2,33 @@
  * GET /api/audit/metrics
  *
  * Returns dashboard metrics and analytics data.
+ *
+ * Query Parameters:
+ *   - window: Time window to aggregate over (optional, one of
+ *     24h, 7d, 30d, 90d, all; default: 7d)
  */
 
-import { NextResponse } from 'next/server';
-import { getDashboardMetrics, getTracesOverTime } from '@/lib/audit/metrics';
+import { NextRequest, NextResponse } from 'next/server';
+import { getDashboardMetrics, parseMetricsWindow, METRICS_WINDOWS } from '@/lib/audit/metrics';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET(): Promise<NextResponse> {
+export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
-    const [metrics, timeSeriesData] = await Promise.all([
-      getDashboardMetrics(),
-      getTracesOverTime(7),
-    ]);
+    const { searchParams } = new URL(request.url);
+    const window = parseMetricsWindow(searchParams.get('window'));
 
-    return NextResponse.json({
-      ...metrics,
-      timeSeries: timeSeriesData,
-    }, {
+    if (!window) {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: `Invalid window. Expected one of: ${METRICS_WINDOWS.join(', ')}`,
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    const metrics = await getDashboardMetrics(window);
+
+    return NextResponse.json(metrics, {
       status: 200,
       headers: {
         'Cache-Control': 'no-store, must-revalidate',
@@ -0,0 +1,91 @@
+/**
+ * PATCH /api/audit/queue/[id]
+ *
+ * Pauses, resumes or cancels a queued run, or changes its priority.
+ * Paused runs keep their place but are not started until resumed.
+ * Cancelling a running run stops its agent CLI; the entry is marked
+ * cancelled once the CLI has exited. A run started by another server
+ * instance is flagged (cancelRequested) and stopped by that instance at
+ * its next heartbeat.
+ *
+ * Path Parameters:
+ *   - id: Queue entry ID
+ *
+ * Request Body: RunQueueUpdateRequest
+ *   {
+ *     "action": "pause" | "resume" | "cancel" (optional),
+ *     "priority": integer (optional; queued and paused runs only)
+ *   }
+ *
+ * Response: { entry: RunQueueEntry }
+ * Returns 409 when the run's status does not allow the change.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { updateQueueEntry } from '@/lib/audit/queue';
+import type { ErrorResponse, RunQueueEntry, RunQueueUpdateRequest } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+const QUEUE_ACTIONS = ['pause', 'resume', 'cancel'];
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * Build an error response.
+ */
+function errorResponse(error: string, message: string, statusCode: number): NextResponse<ErrorResponse> {
+  return NextResponse.json({ error, message, statusCode }, { status: statusCode });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<{ entry: RunQueueEntry } | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return errorResponse('Unauthorized', 'Sign in to change queued runs', 401);
+
+    const { id } = await params;
+    const entryId = decodeURIComponent(id);
+
+    let body: RunQueueUpdateRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Bad Request', 'Invalid JSON body', 400);
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return errorResponse('Bad Request', 'Request body must be a JSON object', 400);
+    }
+
+    if (body.action !== undefined && !QUEUE_ACTIONS.includes(body.action)) {
+      return errorResponse('Bad Request', `action must be one of: ${QUEUE_ACTIONS.join(', ')}`, 400);
+    }
+    if (body.priority !== undefined && !Number.isInteger(body.priority)) {
+      return errorResponse('Bad Request', 'priority must be an integer', 400);
+    }
+    if (body.action === undefined && body.priority === undefined) {
+      return errorResponse('Bad Request', 'action or priority is required', 400);
+    }
+
+    const result = await updateQueueEntry(entryId, body);
+    if (!result) {
+      return errorResponse('Not Found', `Queued run '${entryId}' not found`, 404);
+    }
+    if ('error' in result) {
+      return errorResponse('Conflict', result.error, 409);
+    }
+
+    return NextResponse.json({ entry: result.entry }, { status: 200 });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return errorResponse('Internal Server Error', errorMessage, 500);
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * POST /api/audit/queue/dispatch
+ *
+ * Starts waiting runs that fit the concurrency limits, such as runs left
+ * waiting when the server restarted. The queue is also dispatched when a
+ * run is queued, resumed or finishes.
+ *
+ * Requires a signed-in user.
+ *
+ * Response: RunQueueResponse (the queue after dispatching)
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { dispatchQueue, listQueue } from '@/lib/audit/queue';
+import type { ErrorResponse, RunQueueResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Build an error response.
+ */
+function errorResponse(error: string, message: string, statusCode: number): NextResponse<ErrorResponse> {
+  return NextResponse.json({ error, message, statusCode }, { status: statusCode });
+}
+
+export async function POST(): Promise<NextResponse<RunQueueResponse | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return errorResponse('Unauthorized', 'Sign in to start queued runs', 401);
+
+    await dispatchQueue();
+
+    return NextResponse.json(await listQueue(), { status: 200 });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return errorResponse('Internal Server Error', errorMessage, 500);
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * /api/audit/queue
+ *
+ * The run queue: launches waiting for, or started by, the headless runner
+ * (see src/lib/audit/queue.ts).
+ *
+ * GET  - Lists queue entries: running, then waiting in start order, then
+ *        finished, newest first.
+ *        Query Parameters:
+ *          - status: Comma-separated statuses (optional)
+ *          - workflowId: Only runs of this workflow (optional)
+ *          - limit: Maximum number of results (optional, default: 50, max: 100)
+ *          - offset: Pagination offset (optional, default: 0)
+ *        Response: RunQueueResponse
+ *
+ * POST - Queues a launch from POST /api/audit/workflows/launch.
+ *        Request Body: RunQueueRequest
+ *          {
+ *            "launchId": string,
+ *            "cwd": string (optional, default: AGENT_RUNNER_CWD),
+ *            "priority": integer (optional, default: 0)
+ *          }
+ *        Response: { entry: RunQueueEntry } (201)
+ *        Returns 401 when nobody is signed in, 503 when the runner is
+ *        disabled, 404 for unknown launches, and 400 for directories
+ *        outside AGENT_RUNNER_ALLOWED_DIRS.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getLaunch } from '@/lib/audit/launches';
+import { enqueueRun, listQueue, validateQueueInput } from '@/lib/audit/queue';
+import { getRunnerConfig, resolveRunCwd } from '@/lib/audit/runner';
+import type {
+  ErrorResponse,
+  RunQueueEntry,
+  RunQueueResponse,
+  RunQueueStatus,
+} from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+const QUEUE_STATUSES: RunQueueStatus[] = ['queued', 'paused', 'running', 'completed', 'failed', 'cancelled'];
+
+/**
+ * Build an error response.
+ */
+function errorResponse(error: string, message: string, statusCode: number): NextResponse<ErrorResponse> {
+  return NextResponse.json({ error, message, statusCode }, { status: statusCode });
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<RunQueueResponse | ErrorResponse>> {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const status = (searchParams.get('status') || '')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean);
+    const unknown = status.filter((value) => !QUEUE_STATUSES.includes(value as RunQueueStatus));
+    if (unknown.length > 0) {
+      return errorResponse('Bad Request', `Unknown status: ${unknown.join(', ')}`, 400);
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 100);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0);
+
+    const result = await listQueue({
+      status: status as RunQueueStatus[],
+      workflowId: searchParams.get('workflowId') || undefined,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json(result, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return errorResponse('Internal Server Error', errorMessage, 500);
+  }
+}
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<{ entry: RunQueueEntry } | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return errorResponse('Unauthorized', 'Sign in to run workflows', 401);
+
+    const config = getRunnerConfig();
+    if (!config.enabled) {
+      return errorResponse('Service Unavailable', 'The headless runner is disabled (AGENT_RUNNER_ENABLED)', 503);
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Bad Request', 'Invalid JSON body', 400);
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return errorResponse('Bad Request', 'Request body must be a JSON object', 400);
+    }
+
+    const errors = validateQueueInput(body);
+    if (errors.length > 0) {
+      return errorResponse('Bad Request', errors.join('; '), 400);
+    }
+
+    const launch = await getLaunch(body.launchId as string);
+    if (!launch) {
+      return errorResponse('Not Found', `Launch '${body.launchId}' not found`, 404);
+    }
+
+    const resolved = resolveRunCwd(body.cwd as string | undefined, config);
+    if ('error' in resolved) {
+      return errorResponse('Bad Request', resolved.error, 400);
+    }
+
+    const entry = await enqueueRun({
+      launch,
+      cwd: resolved.cwd,
+      priority: body.priority as number | undefined,
+      userId,
+    });
+
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return errorResponse('Internal Server Error', errorMessage, 500);
+  }
+}
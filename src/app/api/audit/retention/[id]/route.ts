@@ -0,0 +1,165 @@
+/**
+ * /api/audit/retention/[id]
+ *
+ * GET    - Returns a retention policy.
+ *          Response: { policy: RetentionPolicy }
+ * PATCH  - Updates any policy field (same fields as POST /api/audit/retention;
+ *          null clears a filter). Requires a signed-in user.
+ *          Response: { policy: RetentionPolicy }
+ * DELETE - Deletes a retention policy. Its audit log entries are kept.
+ *          Requires a signed-in user.
+ *          Response: { deleted: true }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import {
+  deleteRetentionPolicy,
+  getRetentionPolicyById,
+  updateRetentionPolicy,
+  type RetentionPolicy,
+} from '@/lib/db';
+import { validateRetentionPolicyInput } from '@/lib/audit/retention';
+import type { ErrorResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * Build a 404 response for a missing policy.
+ */
+function notFound(id: string): NextResponse<ErrorResponse> {
+  return NextResponse.json({
+    error: 'Not Found',
+    message: `Retention policy '${id}' not found`,
+    statusCode: 404,
+  }, { status: 404 });
+}
+
+/**
+ * Build a 401 response for a signed-out request.
+ */
+function unauthorized(message: string): NextResponse<ErrorResponse> {
+  return NextResponse.json({
+    error: 'Unauthorized',
+    message,
+    statusCode: 401,
+  }, { status: 401 });
+}
+
+/**
+ * Build a 500 response from an unexpected error.
+ */
+function serverError(error: unknown): NextResponse<ErrorResponse> {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+  return NextResponse.json({
+    error: 'Internal Server Error',
+    message: errorMessage,
+    statusCode: 500,
+  }, { status: 500 });
+}
+
+/**
+ * Read an optional filter field: undefined leaves it, null clears it.
+ */
+function optionalFilter(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) return value;
+  return String(value).trim();
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<{ policy: RetentionPolicy } | ErrorResponse>> {
+  try {
+    const { id } = await params;
+    const policy = await getRetentionPolicyById(id);
+    if (!policy) return notFound(id);
+
+    return NextResponse.json({ policy }, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<{ policy: RetentionPolicy } | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return unauthorized('Sign in to change retention policies');
+
+    const { id } = await params;
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: 'Invalid JSON body',
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: 'Request body must be a JSON object',
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    const errors = validateRetentionPolicyInput(body, true);
+    if (errors.length > 0) {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: errors.join('; '),
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    const policy = await updateRetentionPolicy(id, {
+      name: typeof body.name === 'string' ? body.name.trim() : undefined,
+      max_age_days: body.max_age_days as number | undefined,
+      status: body.status as RetentionPolicy['status'] | undefined,
+      agent_name: optionalFilter(body.agent_name),
+      environment: optionalFilter(body.environment),
+      enabled: body.enabled as boolean | undefined,
+    });
+    if (!policy) return notFound(id);
+
+    return NextResponse.json({ policy }, { status: 200 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<{ deleted: true } | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return unauthorized('Sign in to delete retention policies');
+
+    const { id } = await params;
+    if (!(await deleteRetentionPolicy(id))) return notFound(id);
+
+    return NextResponse.json({ deleted: true }, { status: 200 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
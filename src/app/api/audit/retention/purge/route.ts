@@ -0,0 +1,92 @@
+/**
+ * POST /api/audit/retention/purge
+ *
+ * Applies the enabled retention policies to the active trace store.
+ * Intended to be called on a schedule (e.g. a daily cron job); each
+ * policy run is written to the retention audit log.
+ *
+ * Requires the scheduler's secret or a signed-in user.
+ *
+ * Headers:
+ *   - Authorization: Bearer <RETENTION_CRON_SECRET> (when called by the scheduler)
+ *
+ * Query Parameters:
+ *   - dryRun: "true" to report matching traces without deleting them (optional)
+ *
+ * Request Body (optional):
+ *   {
+ *     "dryRun": boolean (optional, same as the query parameter),
+ *     "policyId": string (optional, run only this policy),
+ *     "triggeredBy": string (optional, recorded in the audit log, default: "schedule")
+ *   }
+ *
+ * Response: RetentionRunResult
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { runRetentionPolicies, type RetentionRunResult } from '@/lib/audit/retention';
+import type { ErrorResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+const CRON_SECRET = process.env.RETENTION_CRON_SECRET;
+
+/**
+ * Verify the scheduler's bearer token. Always fails when no secret is set.
+ */
+function verifyCronSecret(request: NextRequest): boolean {
+  if (!CRON_SECRET) return false;
+  return request.headers.get('Authorization') === `Bearer ${CRON_SECRET}`;
+}
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<RetentionRunResult | ErrorResponse>> {
+  if (!verifyCronSecret(request) && !(await auth()).userId) {
+    return NextResponse.json({
+      error: 'Unauthorized',
+      message: 'Sign in or provide the retention cron secret',
+      statusCode: 401,
+    }, { status: 401 });
+  }
+
+  let body: Record<string, unknown> = {};
+  try {
+    const text = await request.text();
+    if (text.trim()) body = JSON.parse(text);
+  } catch {
+    return NextResponse.json({
+      error: 'Bad Request',
+      message: 'Invalid JSON body',
+      statusCode: 400,
+    }, { status: 400 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const result = await runRetentionPolicies({
+      dryRun: body.dryRun === true || searchParams.get('dryRun') === 'true',
+      policyId: typeof body.policyId === 'string' ? body.policyId : undefined,
+      triggeredBy: typeof body.triggeredBy === 'string' ? body.triggeredBy : 'schedule',
+    });
+
+    return NextResponse.json(result, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: `Retention purge failed: ${errorMessage}`,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * GET /api/audit/retention/purges
+ *
+ * Lists the retention audit log (one entry per policy run), newest first.
+ *
+ * Query Parameters:
+ *   - policyId: Only runs of this policy (optional)
+ *   - dryRun: "true" or "false" to filter by dry-run mode (optional)
+ *   - limit: Maximum number of results (optional, default: 50, max: 200)
+ *
+ * Response: { purges: RetentionPurge[] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRetentionPurges, type RetentionPurge } from '@/lib/db';
+import type { ErrorResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<{ purges: RetentionPurge[] } | ErrorResponse>> {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const dryRun = searchParams.get('dryRun');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 200);
+
+    const purges = await getRetentionPurges({
+      policy_id: searchParams.get('policyId') || undefined,
+      dry_run: dryRun === null ? undefined : dryRun === 'true',
+      limit,
+    });
+
+    return NextResponse.json({ purges }, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * /api/audit/retention
+ *
+ * GET  - Lists all trace retention policies.
+ *        Response: { policies: RetentionPolicy[] }
+ *
+ * POST - Creates a retention policy. Requires a signed-in user.
+ *        Request Body:
+ *          {
+ *            "name": string,
+ *            "max_age_days": number (delete traces older than this),
+ *            "status": "running" | "completed" | "failed" | "cancelled" | null
+ *              (optional, default: any finished status),
+ *            "agent_name": string | null (optional),
+ *            "environment": string | null (optional, matches metadata.environment),
+ *            "enabled": boolean (optional, default: true)
+ *          }
+ *        Response: { policy: RetentionPolicy }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { createRetentionPolicy, getRetentionPolicies, type RetentionPolicy } from '@/lib/db';
+import { validateRetentionPolicyInput } from '@/lib/audit/retention';
+import type { ErrorResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(): Promise<NextResponse<{ policies: RetentionPolicy[] } | ErrorResponse>> {
+  try {
+    const policies = await getRetentionPolicies();
+
+    return NextResponse.json({ policies }, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<{ policy: RetentionPolicy } | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({
+        error: 'Unauthorized',
+        message: 'Sign in to create retention policies',
+        statusCode: 401,
+      }, { status: 401 });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: 'Invalid JSON body',
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: 'Request body must be a JSON object',
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    const errors = validateRetentionPolicyInput(body);
+    if (errors.length > 0) {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: errors.join('; '),
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    const policy = await createRetentionPolicy({
+      name: (body.name as string).trim(),
+      max_age_days: body.max_age_days as number,
+      status: (body.status as RetentionPolicy['status'] | undefined) ?? null,
+      agent_name: typeof body.agent_name === 'string' ? body.agent_name.trim() : null,
+      environment: typeof body.environment === 'string' ? body.environment.trim() : null,
+      enabled: (body.enabled as boolean | undefined) ?? true,
+    });
+
+    return NextResponse.json({ policy }, { status: 201 });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    }, { status: 500 });
+  }
+}
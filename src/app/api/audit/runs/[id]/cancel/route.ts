@@ -0,0 +1,65 @@
+/**
+ * POST /api/audit/runs/[id]/cancel
+ *
+ * Stops a running headless run. The agent CLI is sent SIGTERM (SIGKILL
+ * if it does not exit) and the run's trace is marked cancelled once it
+ * has exited. Cancelling a finished run changes nothing.
+ *
+ * Path Parameters:
+ *   - id: Run ID
+ *
+ * Response: { run: WorkflowRun }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { cancelRun } from '@/lib/audit/runner';
+import type { ErrorResponse, WorkflowRun } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export async function POST(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<{ run: WorkflowRun } | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({
+        error: 'Unauthorized',
+        message: 'Sign in to cancel runs',
+        statusCode: 401,
+      }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const runId = decodeURIComponent(id);
+
+    const run = cancelRun(runId);
+    if (!run) {
+      return NextResponse.json({
+        error: 'Not Found',
+        message: `Run '${runId}' not found`,
+        statusCode: 404,
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ run }, { status: 200 });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * GET /api/audit/runs/[id]
+ *
+ * Returns a headless run with the output its agent CLI has written so far.
+ * A pruned run (run.pruned) is returned with its final state and no output.
+ *
+ * Path Parameters:
+ *   - id: Run ID
+ *
+ * Response: WorkflowRunResponse
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRun, getRunOutput } from '@/lib/audit/runner';
+import type { ErrorResponse, WorkflowRunResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<WorkflowRunResponse | ErrorResponse>> {
+  try {
+    const { id } = await params;
+    const runId = decodeURIComponent(id);
+
+    const run = getRun(runId);
+    if (!run) {
+      const errorResponse: ErrorResponse = {
+        error: 'Not Found',
+        message: `Run '${runId}' not found`,
+        statusCode: 404,
+      };
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    return NextResponse.json({ run, output: getRunOutput(runId) }, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
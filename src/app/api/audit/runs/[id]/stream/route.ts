@@ -0,0 +1,124 @@
+/**
+ * GET /api/audit/runs/[id]/stream
+ *
+ * Server-Sent Events endpoint for a headless run's output. The output
+ * written so far is replayed first, then new lines are pushed as the
+ * agent CLI writes them. The stream closes once the run has finished.
+ *
+ * Path Parameters:
+ *   - id: Run ID
+ *
+ * Named events:
+ *   - output: a WorkflowRunOutputLine
+ *   - status: the WorkflowRun, sent on connect and when it finishes
+ *
+ * Returns 404 (not a stream) for unknown runs.
+ */
+
+import { NextRequest } from 'next/server';
+import { getRun, getRunOutput, subscribeRun, type RunEvent } from '@/lib/audit/runner';
+
+export const dynamic = 'force-dynamic';
+
+/** Keep-alive comment interval, so proxies do not close idle streams */
+const HEARTBEAT_MS = 25_000;
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * Format a run event as a named SSE event.
+ */
+function formatEvent(event: RunEvent): string {
+  const data = event.type === 'output' ? event.line : event.run;
+  return `event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<Response> {
+  const { id } = await params;
+  const runId = decodeURIComponent(id);
+
+  const run = getRun(runId);
+  if (!run) {
+    return Response.json({
+      error: 'Not Found',
+      message: `Run '${runId}' not found`,
+      statusCode: 404,
+    }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+
+  let unsubscribe: (() => void) | null = null;
+  let heartbeat: NodeJS.Timeout | null = null;
+
+  const cleanup = () => {
+    if (heartbeat) clearInterval(heartbeat);
+    unsubscribe?.();
+    heartbeat = null;
+    unsubscribe = null;
+  };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const close = () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed
+        }
+      };
+
+      const send = (event: RunEvent) => {
+        try {
+          controller.enqueue(encoder.encode(formatEvent(event)));
+        } catch {
+          // Stream already closed
+          cleanup();
+        }
+      };
+
+      // Replay and subscribe in one tick so no line falls in between
+      send({ type: 'status', run });
+      getRunOutput(runId).forEach((line) => send({ type: 'output', line }));
+
+      if (run.status !== 'running') {
+        close();
+        return;
+      }
+
+      unsubscribe = subscribeRun(runId, (event) => {
+        send(event);
+        if (event.type === 'status' && event.run.status !== 'running') close();
+      });
+
+      heartbeat = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(': heartbeat\n\n'));
+        } catch {
+          cleanup();
+        }
+      }, HEARTBEAT_MS);
+
+      // Cleanup on close
+      request.signal.addEventListener('abort', cleanup);
+    },
+
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,47 @@
+/**
+ * GET /api/audit/runs
+ *
+ * Lists the runs started by the headless runner against the local agent
+ * CLI (see src/lib/audit/runner.ts), newest first, and whether the runner
+ * is enabled. Runs are kept in memory by this server, and only runs still
+ * holding their output are listed: beyond the 50 most recent finished
+ * runs, older ones are pruned and can only be fetched by ID. Launches are
+ * run by queueing them with POST /api/audit/queue.
+ *
+ * Response: WorkflowRunsResponse
+ */
+
+import { NextResponse } from 'next/server';
+import { getRunnerConfig, listRuns } from '@/lib/audit/runner';
+import type { ErrorResponse, WorkflowRunsResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(): Promise<NextResponse<WorkflowRunsResponse | ErrorResponse>> {
+  try {
+    const config = getRunnerConfig();
+
+    const response: WorkflowRunsResponse = {
+      enabled: config.enabled,
+      defaultCwd: config.enabled ? config.defaultCwd : null,
+      runs: listRuns(),
+    };
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
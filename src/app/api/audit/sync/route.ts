@@ -5,9 +5,13 @@
  * This endpoint scans the .claude/agents/ and .claude/commands/ directories
  * and updates the internal registry with the latest configurations.
  *
+ * Command files whose frontmatter declares invalid questions are still
+ * synced (their workflows fall back to the default questions); the
+ * problems are reported in `errors`.
+ *
  * Request Body: None required (empty body or {})
  *
- * Response: { synced: number, agents: number, commands: number, workflows: number, timestamp: string }
+ * Response: { synced: number, agents: number, commands: number, workflows: number, timestamp: string, errors: string[] }
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -33,6 +37,7 @@ export async function POST(_request: NextRequest): Promise<NextResponse<SyncResp
       commands: commandCount,
       workflows: workflowCount,
       timestamp: syncResult.timestamp,
+      errors: syncResult.errors,
     };
 
     return NextResponse.json(response, {
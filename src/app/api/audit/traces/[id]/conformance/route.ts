@@ -0,0 +1,78 @@
+/**
+ * GET /api/audit/traces/[id]/conformance
+ *
+ * Retrieves how closely a trace followed its workflow's agent sequence:
+ * a 0-100 score and the skipped, out-of-order and unexpected agents and
+ * invalid handoffs. Finished runs return the report recorded when they
+ * finished; running ones are checked on request.
+ *
+ * Path Parameters:
+ *   - id: Trace ID
+ *
+ * Response:
+ *   - 200: TraceConformanceResponse
+ *   - 404: trace not found, or no workflow declares an agent sequence for it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadConformance } from '@/lib/audit/conformance';
+import { getTraceById } from '@/lib/langfuse';
+import type { ErrorResponse, TraceConformanceResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<TraceConformanceResponse | ErrorResponse>> {
+  try {
+    const { id } = await params;
+
+    const trace = await getTraceById(id);
+
+    if (!trace) {
+      return NextResponse.json(
+        {
+          error: 'Not Found',
+          message: `Trace not found: ${id}`,
+          statusCode: 404,
+        },
+        { status: 404 }
+      );
+    }
+
+    const report = await loadConformance(trace);
+
+    if (!report) {
+      return NextResponse.json(
+        {
+          error: 'Not Found',
+          message: `No workflow agent sequence for: ${trace.commandName || trace.workflowName || '(none)'}`,
+          statusCode: 404,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ traceId: trace.traceId, report }, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
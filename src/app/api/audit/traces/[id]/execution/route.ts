@@ -0,0 +1,77 @@
+/**
+ * GET /api/audit/traces/[id]/execution
+ *
+ * Retrieves the orchestration progress of a trace: the plan of its
+ * command's workflow and the phase, wave and task states derived from
+ * its subagent and handoff spans.
+ *
+ * Path Parameters:
+ *   - id: Trace ID
+ *
+ * Response:
+ *   - 200: TraceExecutionResponse
+ *   - 404: trace not found, or its command has no orchestration plan
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deriveTraceExecution } from '@/lib/audit/execution';
+import { getTraceById } from '@/lib/langfuse';
+import type { ErrorResponse, TraceExecutionResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<TraceExecutionResponse | ErrorResponse>> {
+  try {
+    const { id } = await params;
+
+    const trace = await getTraceById(id);
+
+    if (!trace) {
+      return NextResponse.json(
+        {
+          error: 'Not Found',
+          message: `Trace not found: ${id}`,
+          statusCode: 404,
+        },
+        { status: 404 }
+      );
+    }
+
+    const result = await deriveTraceExecution(trace);
+
+    if (!result) {
+      return NextResponse.json(
+        {
+          error: 'Not Found',
+          message: `No orchestration plan for command: ${trace.commandName || '(none)'}`,
+          statusCode: 404,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * GET /api/audit/traces/[id]/gates
+ *
+ * Retrieves the gate report of a trace: each gate of its workflow's plan
+ * with a pending, passed, failed or skipped result and the evidence spans.
+ * Finished runs return the results recorded when they finished; running
+ * ones are evaluated on request.
+ *
+ * Path Parameters:
+ *   - id: Trace ID
+ *
+ * Response:
+ *   - 200: TraceGatesResponse
+ *   - 404: trace not found, or its workflow plan has no gates
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadGateReport } from '@/lib/audit/gates';
+import { getTraceById } from '@/lib/langfuse';
+import type { ErrorResponse, TraceGatesResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<TraceGatesResponse | ErrorResponse>> {
+  try {
+    const { id } = await params;
+
+    const trace = await getTraceById(id);
+
+    if (!trace) {
+      return NextResponse.json(
+        {
+          error: 'Not Found',
+          message: `Trace not found: ${id}`,
+          statusCode: 404,
+        },
+        { status: 404 }
+      );
+    }
+
+    const report = await loadGateReport(trace);
+
+    if (!report) {
+      return NextResponse.json(
+        {
+          error: 'Not Found',
+          message: `No workflow gates for command: ${trace.commandName || '(none)'}`,
+          statusCode: 404,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ traceId: trace.traceId, report }, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
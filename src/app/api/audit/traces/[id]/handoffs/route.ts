@@ -0,0 +1,65 @@
+/**
+ * GET /api/audit/traces/[id]/handoffs
+ *
+ * Retrieves the handoffs of a trace, parsed from its handoff spans and
+ * validated against the handoff template, in the order they happened.
+ *
+ * Path Parameters:
+ *   - id: Trace ID
+ *
+ * Response:
+ *   - 200: TraceHandoffsResponse
+ *   - 404: trace not found
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTraceHandoffs } from '@/lib/audit/handoffs';
+import { getTraceById } from '@/lib/langfuse';
+import type { ErrorResponse, TraceHandoffsResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<TraceHandoffsResponse | ErrorResponse>> {
+  try {
+    const { id } = await params;
+
+    const trace = await getTraceById(id);
+
+    if (!trace) {
+      return NextResponse.json(
+        {
+          error: 'Not Found',
+          message: `Trace not found: ${id}`,
+          statusCode: 404,
+        },
+        { status: 404 }
+      );
+    }
+
+    const handoffs = await getTraceHandoffs(trace);
+
+    return NextResponse.json({ traceId: trace.traceId, handoffs }, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * /api/audit/traces/[id]/replay
+ *
+ * Re-launches a past run with the same input (see src/lib/audit/replay.ts).
+ *
+ * Path Parameters:
+ *   - id: Trace ID
+ *
+ * GET  - Previews the replay: the rebuilt command and input, and the
+ *        agents whose prompts changed since the trace's commit.
+ *        Response: TraceReplayPlanResponse
+ *        Returns 422 when the trace has no workflow or command.
+ *
+ * POST - Records a replay launch linked to the trace as its parent, and
+ *        optionally queues it for the headless runner.
+ *        Request Body: TraceReplayRequest
+ *          {
+ *            "version": "current" | "historical" (optional, default: "current"),
+ *            "run": boolean (optional, default: false),
+ *            "cwd": string (optional, default: AGENT_RUNNER_CWD),
+ *            "priority": integer (optional, default: 0)
+ *          }
+ *        Response: TraceReplayResponse (201)
+ *        Returns 401 when nobody is signed in, 503 when a run is requested
+ *        and the runner is disabled, 422 when the trace cannot be replayed
+ *        with the requested prompts, and 400 for directories outside
+ *        AGENT_RUNNER_ALLOWED_DIRS.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { enqueueRun } from '@/lib/audit/queue';
+import { buildReplayPlan, createReplay, validateReplayInput } from '@/lib/audit/replay';
+import { getRunnerConfig, resolveRunCwd } from '@/lib/audit/runner';
+import { getTraceById } from '@/lib/langfuse';
+import type {
+  ErrorResponse,
+  ReplayPromptVersion,
+  TraceReplayPlanResponse,
+  TraceReplayResponse,
+} from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Build an error response.
+ */
+function errorResponse(error: string, message: string, statusCode: number): NextResponse<ErrorResponse> {
+  return NextResponse.json({ error, message, statusCode }, { status: statusCode });
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<TraceReplayPlanResponse | ErrorResponse>> {
+  try {
+    const { id } = await params;
+
+    const trace = await getTraceById(id);
+    if (!trace) {
+      return errorResponse('Not Found', `Trace not found: ${id}`, 404);
+    }
+
+    const result = await buildReplayPlan(trace);
+    if ('error' in result) {
+      return errorResponse('Unprocessable Entity', result.error, 422);
+    }
+
+    return NextResponse.json({ plan: result.plan, runnerEnabled: getRunnerConfig().enabled }, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return errorResponse('Internal Server Error', errorMessage, 500);
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<TraceReplayResponse | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return errorResponse('Unauthorized', 'Sign in to replay traces', 401);
+
+    const { id } = await params;
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Bad Request', 'Invalid JSON body', 400);
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return errorResponse('Bad Request', 'Request body must be a JSON object', 400);
+    }
+
+    const errors = validateReplayInput(body);
+    if (errors.length > 0) {
+      return errorResponse('Bad Request', errors.join('; '), 400);
+    }
+
+    // Check the run can start before recording a launch for it
+    const config = getRunnerConfig();
+    let cwd: string | null = null;
+    if (body.run === true) {
+      if (!config.enabled) {
+        return errorResponse('Service Unavailable', 'The headless runner is disabled (AGENT_RUNNER_ENABLED)', 503);
+      }
+
+      const resolved = resolveRunCwd(body.cwd as string | undefined, config);
+      if ('error' in resolved) {
+        return errorResponse('Bad Request', resolved.error, 400);
+      }
+      cwd = resolved.cwd;
+    }
+
+    const trace = await getTraceById(id);
+    if (!trace) {
+      return errorResponse('Not Found', `Trace not found: ${id}`, 404);
+    }
+
+    const version = (body.version as ReplayPromptVersion | undefined) ?? 'current';
+    const result = await createReplay(trace, { version, userId });
+    if ('error' in result) {
+      return errorResponse('Unprocessable Entity', result.error, 422);
+    }
+
+    const { launch } = result;
+    const entry = cwd
+      ? await enqueueRun({ launch, cwd, priority: body.priority as number | undefined, userId })
+      : null;
+
+    const response: TraceReplayResponse = {
+      launchId: launch.id,
+      command: launch.command,
+      prompt: launch.prompt,
+      version,
+      entry,
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return errorResponse('Internal Server Error', errorMessage, 500);
+  }
+}
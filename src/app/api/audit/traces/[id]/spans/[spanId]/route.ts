@@ -0,0 +1,98 @@
+/**
+ * GET /api/audit/traces/[id]/spans/[spanId]
+ *
+ * Retrieves a single span of a trace with its tool calls, decisions,
+ * reasoning and direct child spans.
+ *
+ * Path Parameters:
+ *   - id: Trace ID
+ *   - spanId: Span ID
+ *
+ * Response: SpanDetailResponse
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSpanById, getTraceById } from '@/lib/langfuse';
+import type { SpanDetailResponse } from '@/lib/langfuse';
+
+export const dynamic = 'force-dynamic';
+
+interface ErrorResponse {
+  error: string;
+  message: string;
+  statusCode: number;
+}
+
+interface RouteParams {
+  params: Promise<{ id: string; spanId: string }>;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<SpanDetailResponse | ErrorResponse>> {
+  try {
+    const { id, spanId } = await params;
+
+    const trace = await getTraceById(id);
+
+    if (!trace) {
+      return NextResponse.json(
+        {
+          error: 'Not Found',
+          message: `Trace not found: ${id}`,
+          statusCode: 404,
+        },
+        { status: 404 }
+      );
+    }
+
+    const spans = trace.spans || [];
+
+    // Trace reads can lag behind span writes, so fall back to the store
+    let span = spans.find((s) => s.spanId === spanId) || await getSpanById(spanId);
+    if (span?.traceId && span.traceId !== trace.traceId) span = null;
+
+    if (!span) {
+      return NextResponse.json(
+        {
+          error: 'Not Found',
+          message: `Span not found: ${spanId}`,
+          statusCode: 404,
+        },
+        { status: 404 }
+      );
+    }
+
+    const children = spans
+      .filter((s) => s.parentSpanId === span.spanId)
+      .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+
+    return NextResponse.json(
+      {
+        traceId: trace.traceId,
+        span,
+        toolCalls: span.toolCalls || [],
+        decisions: span.decisions || [],
+        reasoning: span.reasoning,
+        children,
+      },
+      {
+        status: 200,
+        headers: {
+          'Cache-Control': 'no-store, must-revalidate',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * GET /api/audit/traces/compare
+ *
+ * Compares two traces side by side: their span trees aligned by agent and
+ * operation type, with added, missing and reordered spans, and the
+ * differences in duration, tokens, tool calls, decisions and output.
+ *
+ * Query Parameters:
+ *   - a: Baseline trace ID (required)
+ *   - b: Trace ID compared with the baseline (required)
+ *
+ * Response:
+ *   - 200: TraceComparisonResponse
+ *   - 400: a or b missing
+ *   - 404: either trace not found
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { compareTraces } from '@/lib/audit/compare';
+import { getTraceById } from '@/lib/langfuse';
+import type { ErrorResponse, TraceComparisonResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<TraceComparisonResponse | ErrorResponse>> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const idA = searchParams.get('a');
+    const idB = searchParams.get('b');
+
+    if (!idA || !idB) {
+      return NextResponse.json(
+        {
+          error: 'Bad Request',
+          message: 'Missing required parameters: a, b',
+          statusCode: 400,
+        },
+        { status: 400 }
+      );
+    }
+
+    const [traceA, traceB] = await Promise.all([getTraceById(idA), getTraceById(idB)]);
+
+    if (!traceA || !traceB) {
+      return NextResponse.json(
+        {
+          error: 'Not Found',
+          message: `Trace not found: ${!traceA ? idA : idB}`,
+          statusCode: 404,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ comparison: compareTraces(traceA, traceB) }, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
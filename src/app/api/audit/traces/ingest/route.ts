@@ -37,6 +37,10 @@
  *
  * Response (single): { success: boolean, traceId?: string, spanId?: string, errors?: string[] }
  * Response (batch): { success: boolean, batchId: string, processed: number, failed: number, errors?: [...] }
+ *
+ * Both responses include `budgetExhausted: true` and `budgetMessages` when
+ * trace.create or a finishing trace.update hits a budget over its limit
+ * (or over its warning threshold, with `budgetMessages` only).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
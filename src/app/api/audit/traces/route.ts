@@ -10,7 +10,10 @@
  *   - status: Filter by status (optional, comma-separated for multiple)
  *   - startDate: Filter by start date (ISO 8601) (optional)
  *   - endDate: Filter by end date (ISO 8601) (optional)
+ *   - tags: Filter by tags, all must match (optional, comma-separated)
  *   - search: Search in trace names (optional)
+ *   - minConformance: Minimum workflow conformance score, 0-100 (optional)
+ *   - maxConformance: Maximum workflow conformance score, 0-100 (optional)
  *   - limit: Maximum number of results (optional, default: 50, max: 100)
  *   - offset: Pagination offset (optional, default: 0)
  *   - sortBy: Sort field (optional, default: startedAt)
@@ -61,9 +64,18 @@ export async function GET(
     const endDate = searchParams.get('endDate');
     if (endDate) filters.endDate = endDate;
 
+    const tags = searchParams.get('tags');
+    if (tags) filters.tags = tags.split(',').map((tag) => tag.trim()).filter(Boolean);
+
     const search = searchParams.get('search');
     if (search) filters.search = search;
 
+    const minConformance = parseFloat(searchParams.get('minConformance') || '');
+    if (!Number.isNaN(minConformance)) filters.minConformance = minConformance;
+
+    const maxConformance = parseFloat(searchParams.get('maxConformance') || '');
+    if (!Number.isNaN(maxConformance)) filters.maxConformance = maxConformance;
+
     const limit = searchParams.get('limit');
     filters.limit = Math.min(parseInt(limit || '50', 10), 100);
 
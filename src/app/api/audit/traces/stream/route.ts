@@ -2,70 +2,155 @@
  * GET /api/audit/traces/stream
  *
  * Server-Sent Events endpoint for real-time trace updates.
- * Clients connect and receive trace updates as they occur.
+ * Ingest events are pushed to connected clients as they are processed,
+ * as named SSE events: trace.created, trace.updated, span.created and
+ * span.updated. Each event carries an ID for resuming.
+ *
+ * Query Parameters:
+ *   - agentName: Only events for this agent (optional)
+ *   - commandName: Only events for this command (optional)
+ *   - traceId: Only events for this trace (optional)
+ *   - lastEventId: Resume after this event ID (optional; the Last-Event-ID
+ *     header sent by reconnecting EventSource clients takes precedence)
+ *
+ * Other messages (unnamed, `type` in data):
+ *   - connected: sent on connect
+ *   - initial: recent traces matching the filters (or the traceId's trace),
+ *     sent on a fresh connection
+ *   - reset: missed events are no longer buffered; reload instead of resuming
  */
 
 import { NextRequest } from 'next/server';
-import { listTraces } from '@/lib/langfuse/client';
+import { getTraceById, listTraces } from '@/lib/langfuse/client';
+import {
+  getTraceEventsSince,
+  subscribeTraceEvents,
+  type TraceStreamEvent,
+  type TraceStreamFilters,
+} from '@/lib/langfuse/events';
+import type { LangfuseTrace } from '@/lib/langfuse/types';
 
 export const dynamic = 'force-dynamic';
 
-// Store connected clients for broadcasting
-const clients = new Set<ReadableStreamDefaultController>();
+/** Keep-alive comment interval, so proxies do not close idle streams */
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * Load the traces sent on a fresh connection, with the stream's filters.
+ */
+async function getInitialTraces(filters: TraceStreamFilters): Promise<LangfuseTrace[]> {
+  if (filters.traceId) {
+    const trace = await getTraceById(filters.traceId);
+    const matches = trace
+      && (!filters.agentName || trace.agentName === filters.agentName)
+      && (!filters.commandName || trace.commandName === filters.commandName);
+    return matches ? [trace] : [];
+  }
+
+  const { traces } = await listTraces({
+    limit: 10,
+    agentName: filters.agentName,
+    commandName: filters.commandName,
+  });
+  return traces;
+}
+
+/**
+ * Format an unnamed SSE message.
+ */
+function formatMessage(data: Record<string, unknown>): string {
+  return `data: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Format a trace event as a named SSE event with its ID.
+ */
+function formatEvent(event: TraceStreamEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
 
 export async function GET(request: NextRequest): Promise<Response> {
+  const { searchParams } = new URL(request.url);
   const encoder = new TextEncoder();
-  let pollInterval: NodeJS.Timeout | null = null;
+
+  const filters: TraceStreamFilters = {
+    agentName: searchParams.get('agentName') || undefined,
+    commandName: searchParams.get('commandName') || undefined,
+    traceId: searchParams.get('traceId') || undefined,
+  };
+
+  const lastEventIdValue = request.headers.get('Last-Event-ID') || searchParams.get('lastEventId');
+  const lastEventId = lastEventIdValue ? parseInt(lastEventIdValue, 10) : NaN;
+
+  let unsubscribe: (() => void) | null = null;
+  let heartbeat: NodeJS.Timeout | null = null;
+
+  const cleanup = () => {
+    if (heartbeat) clearInterval(heartbeat);
+    unsubscribe?.();
+    heartbeat = null;
+    unsubscribe = null;
+  };
 
   const stream = new ReadableStream({
     async start(controller) {
-      clients.add(controller);
-
-      // Send initial connection message
-      controller.enqueue(
-        encoder.encode(`data: ${JSON.stringify({ type: 'connected', timestamp: new Date().toISOString() })}\n\n`)
-      );
-
-      // Send current traces as initial data
-      try {
-        const { traces } = await listTraces({ limit: 10 });
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify({ type: 'initial', traces })}\n\n`)
-        );
-      } catch {
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify({ type: 'error', message: 'Failed to fetch initial traces' })}\n\n`)
-        );
-      }
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+          cleanup();
+        }
+      };
 
-      // Set up polling for new traces (every 5 seconds)
-      pollInterval = setInterval(async () => {
+      send(formatMessage({ type: 'connected', timestamp: new Date().toISOString() }));
+
+      // Subscribe before replaying so nothing published in between is lost
+      const pending: TraceStreamEvent[] = [];
+      let replaying = true;
+      let lastSentId = Number.isNaN(lastEventId) ? 0 : lastEventId;
+
+      const sendEvent = (event: TraceStreamEvent) => {
+        if (event.id <= lastSentId) return;
+        lastSentId = event.id;
+        send(formatEvent(event));
+      };
+
+      unsubscribe = subscribeTraceEvents((event) => {
+        if (replaying) pending.push(event);
+        else sendEvent(event);
+      }, filters);
+
+      if (!Number.isNaN(lastEventId)) {
+        const missed = getTraceEventsSince(lastEventId, filters);
+        if (missed) {
+          missed.forEach(sendEvent);
+        } else {
+          // IDs restart per instance, so stream new events from the start
+          lastSentId = 0;
+          send(formatMessage({ type: 'reset', timestamp: new Date().toISOString() }));
+        }
+      } else {
+        // Send current traces as initial data
         try {
-          const { traces } = await listTraces({ limit: 5 });
-          const runningTraces = traces.filter((t) => t.status === 'running');
-
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({
-              type: 'update',
-              runningCount: runningTraces.length,
-              latestTraces: traces.slice(0, 3),
-              timestamp: new Date().toISOString()
-            })}\n\n`)
-          );
+          const traces = await getInitialTraces(filters);
+          send(formatMessage({ type: 'initial', traces }));
         } catch {
-          // Silently handle polling errors
+          send(formatMessage({ type: 'error', message: 'Failed to fetch initial traces' }));
         }
-      }, 5000);
+      }
+
+      pending.forEach(sendEvent);
+      replaying = false;
+
+      heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS);
 
       // Cleanup on close
-      request.signal.addEventListener('abort', () => {
-        if (pollInterval) clearInterval(pollInterval);
-        clients.delete(controller);
-      });
+      request.signal.addEventListener('abort', cleanup);
     },
 
     cancel() {
-      if (pollInterval) clearInterval(pollInterval);
+      cleanup();
     },
   });
 
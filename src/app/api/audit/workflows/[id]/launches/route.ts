@@ -0,0 +1,61 @@
+/**
+ * GET /api/audit/workflows/[id]/launches
+ *
+ * Lists the prompts generated for a workflow by POST
+ * /api/audit/workflows/launch, newest first, with the trace each launch
+ * produced once a trace has echoed its launch ID.
+ *
+ * Path Parameters:
+ *   - id: Workflow ID (e.g., "feature-workflow")
+ *
+ * Query Parameters:
+ *   - limit: Maximum number of results (optional, default: 20, max: 100)
+ *   - offset: Pagination offset (optional, default: 0)
+ *
+ * Response: WorkflowLaunchesResponse
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listLaunches } from '@/lib/audit/launches';
+import type { ErrorResponse, WorkflowLaunchesResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<WorkflowLaunchesResponse | ErrorResponse>> {
+  try {
+    const { id } = await params;
+    const workflowId = decodeURIComponent(id);
+    const { searchParams } = new URL(request.url);
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0);
+
+    const result = await listLaunches(workflowId, { limit, offset });
+
+    return NextResponse.json(result, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * GET /api/audit/workflows/[id]/plan
+ *
+ * Retrieves the orchestration plan of a workflow: its phases, waves of
+ * agent tasks, gates and handoff prompt. Plans stored by the last sync are
+ * served first; otherwise the plan is parsed from the command file.
+ *
+ * Path Parameters:
+ *   - id: Workflow ID (e.g., "feature-workflow")
+ *
+ * Response:
+ *   - 200: { plan: OrchestrationPlan, source: 'database' | 'file' }
+ *   - 404: { error: string, message: string, statusCode: 404 }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrchestrationPlan } from '@/lib/audit/execution';
+import type { ErrorResponse, WorkflowPlanResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<WorkflowPlanResponse | ErrorResponse>> {
+  try {
+    const { id } = await params;
+    const workflowId = decodeURIComponent(id);
+
+    const response = await getOrchestrationPlan(workflowId);
+
+    if (!response) {
+      const errorResponse: ErrorResponse = {
+        error: 'Not Found',
+        message: `Workflow '${workflowId}' not found`,
+        statusCode: 404,
+      };
+
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * /api/audit/workflows/[id]/presets/[presetId]
+ *
+ * PATCH  - Renames, re-answers, shares or unshares a preset.
+ *          Request Body: any of { "name": string, "answers": WorkflowAnswer[], "shared": boolean }
+ *          Response: { preset: WorkflowPreset }
+ * DELETE - Deletes a preset. Launches made from it keep their history.
+ *          Response: { deleted: true }
+ *
+ * Only the user who saved a preset can change it (403 for others, 401 when
+ * nobody is signed in).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import {
+  deleteLaunchPreset,
+  getLaunchPresetById,
+  updateLaunchPreset,
+  type LaunchPreset,
+} from '@/lib/db';
+import { parseAllWorkflows } from '@/lib/audit/parser';
+import { DEFAULT_WORKFLOW_QUESTIONS, getUnknownQuestionIds } from '@/lib/audit/questions';
+import { canUsePreset, toWorkflowPreset, validatePresetInput } from '@/lib/audit/launches';
+import type { ErrorResponse, WorkflowAnswer, WorkflowPreset } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+    presetId: string;
+  }>;
+}
+
+type PresetLookup =
+  | { preset: LaunchPreset; response?: undefined }
+  | { preset?: undefined; response: NextResponse<ErrorResponse> };
+
+/**
+ * Build an error response.
+ */
+function errorResponse(statusCode: number, error: string, message: string): NextResponse<ErrorResponse> {
+  return NextResponse.json({ error, message, statusCode }, { status: statusCode });
+}
+
+/**
+ * Build a 500 response from an unexpected error.
+ */
+function serverError(error: unknown): NextResponse<ErrorResponse> {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+  return errorResponse(500, 'Internal Server Error', errorMessage);
+}
+
+/**
+ * Find a preset of the workflow that the signed-in user owns.
+ */
+async function findOwnPreset({ params }: RouteParams): Promise<PresetLookup> {
+  const { userId } = await auth();
+  if (!userId) return { response: errorResponse(401, 'Unauthorized', 'Sign in to use presets') };
+
+  const { id, presetId } = await params;
+  const workflowId = decodeURIComponent(id);
+
+  const preset = await getLaunchPresetById(presetId);
+  if (!preset || preset.workflow_id !== workflowId || !canUsePreset(preset, userId)) {
+    return { response: errorResponse(404, 'Not Found', `Preset '${presetId}' not found`) };
+  }
+  if (preset.owner_id !== userId) {
+    return { response: errorResponse(403, 'Forbidden', 'Only the owner can change a preset') };
+  }
+
+  return { preset };
+}
+
+export async function PATCH(
+  request: NextRequest,
+  routeParams: RouteParams
+): Promise<NextResponse<{ preset: WorkflowPreset } | ErrorResponse>> {
+  try {
+    const lookup = await findOwnPreset(routeParams);
+    if (lookup.response) return lookup.response;
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(400, 'Bad Request', 'Invalid JSON body');
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return errorResponse(400, 'Bad Request', 'Request body must be a JSON object');
+    }
+
+    const errors = validatePresetInput(body, true);
+    if (errors.length > 0) {
+      return errorResponse(400, 'Bad Request', errors.join('; '));
+    }
+
+    const answers = body.answers as WorkflowAnswer[] | undefined;
+    if (answers) {
+      const workflows = await parseAllWorkflows();
+      const workflow = workflows.find((w) => w.id === lookup.preset.workflow_id);
+      const unknownIds = getUnknownQuestionIds(workflow?.questions ?? DEFAULT_WORKFLOW_QUESTIONS, answers);
+      if (unknownIds.length > 0) {
+        return errorResponse(400, 'Bad Request', `Unknown question IDs: ${unknownIds.join(', ')}`);
+      }
+    }
+
+    const preset = await updateLaunchPreset(lookup.preset.id, {
+      name: typeof body.name === 'string' ? body.name.trim() : undefined,
+      answers,
+      shared: body.shared as boolean | undefined,
+    });
+    if (!preset) return errorResponse(404, 'Not Found', `Preset '${lookup.preset.id}' not found`);
+
+    return NextResponse.json({ preset: toWorkflowPreset(preset) }, { status: 200 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  routeParams: RouteParams
+): Promise<NextResponse<{ deleted: true } | ErrorResponse>> {
+  try {
+    const lookup = await findOwnPreset(routeParams);
+    if (lookup.response) return lookup.response;
+
+    if (!(await deleteLaunchPreset(lookup.preset.id))) {
+      return errorResponse(404, 'Not Found', `Preset '${lookup.preset.id}' not found`);
+    }
+
+    return NextResponse.json({ deleted: true }, { status: 200 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * /api/audit/workflows/[id]/presets
+ *
+ * Saved wizard answers for a workflow, per signed-in user.
+ *
+ * Path Parameters:
+ *   - id: Workflow ID (e.g., "feature-workflow")
+ *
+ * GET  - Lists the user's own presets and those shared with the team.
+ *        Response: WorkflowPresetsResponse
+ *
+ * POST - Saves a preset, replacing the user's preset of the same name.
+ *        Request Body:
+ *          {
+ *            "name": string,
+ *            "answers": WorkflowAnswer[],
+ *            "shared": boolean (optional, default: false)
+ *          }
+ *        Response: { preset: WorkflowPreset }
+ *
+ * Both return 401 when nobody is signed in, and 404 for unknown workflows.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { upsertLaunchPreset } from '@/lib/db';
+import { parseAllWorkflows } from '@/lib/audit/parser';
+import { DEFAULT_WORKFLOW_QUESTIONS, getUnknownQuestionIds } from '@/lib/audit/questions';
+import { listPresets, toWorkflowPreset, validatePresetInput } from '@/lib/audit/launches';
+import type {
+  ErrorResponse,
+  WorkflowAnswer,
+  WorkflowPreset,
+  WorkflowPresetsResponse,
+} from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * Build a 401 response for a request without a signed-in user.
+ */
+function unauthorized(): NextResponse<ErrorResponse> {
+  return NextResponse.json({
+    error: 'Unauthorized',
+    message: 'Sign in to use presets',
+    statusCode: 401,
+  }, { status: 401 });
+}
+
+/**
+ * Build a 404 response for a missing workflow.
+ */
+function notFound(workflowId: string): NextResponse<ErrorResponse> {
+  return NextResponse.json({
+    error: 'Not Found',
+    message: `Workflow '${workflowId}' not found`,
+    statusCode: 404,
+  }, { status: 404 });
+}
+
+/**
+ * Build a 500 response from an unexpected error.
+ */
+function serverError(error: unknown): NextResponse<ErrorResponse> {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+  return NextResponse.json({
+    error: 'Internal Server Error',
+    message: errorMessage,
+    statusCode: 500,
+  }, { status: 500 });
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<WorkflowPresetsResponse | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const workflowId = decodeURIComponent(id);
+
+    const workflows = await parseAllWorkflows();
+    if (!workflows.some((w) => w.id === workflowId)) return notFound(workflowId);
+
+    const response: WorkflowPresetsResponse = {
+      presets: await listPresets(workflowId, userId),
+      userId,
+    };
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<{ preset: WorkflowPreset } | ErrorResponse>> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const workflowId = decodeURIComponent(id);
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: 'Invalid JSON body',
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: 'Request body must be a JSON object',
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    const errors = validatePresetInput(body);
+    if (errors.length > 0) {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: errors.join('; '),
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    const workflows = await parseAllWorkflows();
+    const workflow = workflows.find((w) => w.id === workflowId);
+    if (!workflow) return notFound(workflowId);
+
+    const answers = body.answers as WorkflowAnswer[];
+    const unknownIds = getUnknownQuestionIds(workflow.questions ?? DEFAULT_WORKFLOW_QUESTIONS, answers);
+    if (unknownIds.length > 0) {
+      return NextResponse.json({
+        error: 'Bad Request',
+        message: `Unknown question IDs for '${workflowId}': ${unknownIds.join(', ')}`,
+        statusCode: 400,
+      }, { status: 400 });
+    }
+
+    const preset = await upsertLaunchPreset({
+      workflow_id: workflowId,
+      name: (body.name as string).trim(),
+      answers,
+      owner_id: userId,
+      shared: (body.shared as boolean | undefined) ?? false,
+    });
+
+    return NextResponse.json({ preset: toWorkflowPreset(preset) }, { status: 201 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * GET /api/audit/workflows/[id]/stats
+ *
+ * Retrieves a workflow's orchestration plan with execution data of its
+ * recent finished runs: per-task success rate, median duration and skip
+ * rate, and which agents ran compared to the plan.
+ *
+ * Path Parameters:
+ *   - id: Workflow ID (e.g., "bugfix-workflow")
+ *
+ * Query Parameters:
+ *   - window: Time window runs started in (optional, one of
+ *     24h, 7d, 30d, 90d, all; default: 30d)
+ *   - limit: Most recent runs to include (optional, default: 100, max: 500)
+ *
+ * Response:
+ *   - 200: { workflowId: string, plan: OrchestrationPlan, stats: WorkflowRunStats }
+ *   - 400: Invalid window
+ *   - 404: { error: string, message: string, statusCode: 404 }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { METRICS_WINDOWS } from '@/lib/audit/metrics';
+import { DEFAULT_STATS_MAX_RUNS, DEFAULT_STATS_WINDOW, getWorkflowRunStats } from '@/lib/audit/stats';
+import type { MetricsWindow } from '@/lib/audit/metrics';
+import type { ErrorResponse, WorkflowStatsResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_RUNS_LIMIT = 500;
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<WorkflowStatsResponse | ErrorResponse>> {
+  try {
+    const { id } = await params;
+    const workflowId = decodeURIComponent(id);
+    const { searchParams } = new URL(request.url);
+
+    const window = (searchParams.get('window') || DEFAULT_STATS_WINDOW) as MetricsWindow;
+    if (!METRICS_WINDOWS.includes(window)) {
+      const errorResponse: ErrorResponse = {
+        error: 'Bad Request',
+        message: `Invalid window. Expected one of: ${METRICS_WINDOWS.join(', ')}`,
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_STATS_MAX_RUNS), 10);
+    const maxRuns = Math.min(Math.max(Number.isNaN(limit) ? DEFAULT_STATS_MAX_RUNS : limit, 1), MAX_RUNS_LIMIT);
+
+    const response = await getWorkflowRunStats(workflowId, { window, maxRuns });
+
+    if (!response) {
+      const errorResponse: ErrorResponse = {
+        error: 'Not Found',
+        message: `Workflow '${workflowId}' not found`,
+        statusCode: 404,
+      };
+
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
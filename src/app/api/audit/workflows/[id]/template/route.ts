@@ -0,0 +1,76 @@
+/**
+ * GET /api/audit/workflows/[id]/template
+ *
+ * Retrieves the launch prompt template of a workflow: the template its
+ * command declares in frontmatter or in a sibling <command>.prompt.md
+ * file, or the built-in default. The wizard renders its prompt preview
+ * from it.
+ *
+ * Path Parameters:
+ *   - id: Workflow ID (e.g., "feature-workflow")
+ *
+ * Response:
+ *   - 200: WorkflowTemplateResponse
+ *   - 404: { error: string, message: string, statusCode: 404 }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAllWorkflows, parsePromptTemplate } from '@/lib/audit/parser';
+import { DEFAULT_PROMPT_TEMPLATE, validatePromptTemplate } from '@/lib/audit/templates';
+import type { ErrorResponse, WorkflowTemplateResponse } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<WorkflowTemplateResponse | ErrorResponse>> {
+  try {
+    const { id } = await params;
+    const workflowId = decodeURIComponent(id);
+
+    const workflows = await parseAllWorkflows();
+    if (!workflows.some((w) => w.id === workflowId)) {
+      const errorResponse: ErrorResponse = {
+        error: 'Not Found',
+        message: `Workflow '${workflowId}' not found`,
+        statusCode: 404,
+      };
+
+      return NextResponse.json(errorResponse, { status: 404 });
+    }
+
+    const declared = await parsePromptTemplate(workflowId);
+    const template = declared?.template ?? DEFAULT_PROMPT_TEMPLATE;
+
+    const response: WorkflowTemplateResponse = {
+      workflowId,
+      template,
+      source: declared?.source ?? 'default',
+      error: validatePromptTemplate(template),
+    };
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
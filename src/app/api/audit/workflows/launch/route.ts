@@ -3,62 +3,59 @@
  *
  * Generates the launch command and prompt for a workflow based on user answers.
  * This endpoint takes a workflow ID and the user's configuration answers,
- * then generates a formatted prompt ready for Claude to execute.
+ * then renders the command's launch prompt template (or the built-in
+ * default, see src/lib/audit/templates.ts) with them. Answers must belong
+ * to the workflow's questions (declared in the command's frontmatter, or
+ * the defaults) or select its agents; unknown question IDs are rejected.
+ *
+ * Each launch gets an ID, added as the prompt's last line and recorded with
+ * the prompt in the launch history. A trace that echoes it (as
+ * `metadata.launchId`, or in its input) is linked back to the launch.
  *
  * Request Body:
  *   {
  *     "workflowId": "spot-workflow",
  *     "answers": [
  *       { "questionId": "agents", "selectedOptions": ["api-designer", "backend-developer"] },
- *       { "questionId": "changeType", "selectedOptions": ["Feature"], "customText": "Add user auth" }
- *     ]
+ *       { "questionId": "change-type", "selectedOptions": ["New functionality"] },
+ *       { "questionId": "description", "selectedOptions": [], "customText": "Add user auth" }
+ *     ],
+ *     "presetId": "..." (optional, the preset the answers came from)
  *   }
  *
  * Response:
  *   {
  *     "command": "claude --plan '/spot'",
- *     "prompt": "/spot\n\nContext:\n- Change Type: Feature\n...",
- *     "copyableText": "/spot\n\nContext:\n..."
+ *     "prompt": "/spot\n\nContext:\n- Change Type: New functionality\n...\n\nLaunch ID: launch_3f9c2a1b7d04",
+ *     "copyableText": "/spot\n\nContext:\n...",
+ *     "launchId": "launch_3f9c2a1b7d04"
  *   }
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { parseAllWorkflows } from '@/lib/audit/parser';
+import { auth } from '@clerk/nextjs/server';
+import { getLaunchPresetById } from '@/lib/db';
+import { parseAllWorkflows, parsePromptTemplate } from '@/lib/audit/parser';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  buildPromptContext,
+  renderPromptTemplate,
+  sanitizeInput,
+} from '@/lib/audit/templates';
+import {
+  DEFAULT_WORKFLOW_QUESTIONS,
+  getQuestionLabels,
+  getUnknownQuestionIds,
+} from '@/lib/audit/questions';
+import { appendLaunchId, canUsePreset, createLaunchId, recordLaunch } from '@/lib/audit/launches';
 import type {
   WorkflowLaunchRequest,
   WorkflowLaunchResponse,
-  WorkflowAnswer,
   ErrorResponse,
 } from '@/types/audit';
 
 export const dynamic = 'force-dynamic';
 
-/**
- * Sanitize user input to prevent injection attacks.
- * Removes potentially dangerous characters while preserving readability.
- */
-function sanitizeInput(input: string): string {
-  if (!input || typeof input !== 'string') {
-    return '';
-  }
-  // Remove control characters and limit length
-  return input
-    .replace(/[\x00-\x1f\x7f]/g, '') // Remove control characters
-    .replace(/[<>]/g, '') // Remove angle brackets
-    .trim()
-    .slice(0, 2000); // Limit length to prevent abuse
-}
-
-/**
- * Sanitize an array of strings.
- */
-function sanitizeArray(arr: string[]): string[] {
-  if (!Array.isArray(arr)) {
-    return [];
-  }
-  return arr.map(sanitizeInput).filter(Boolean);
-}
-
 /**
  * Validate the request body structure.
  */
@@ -79,6 +76,11 @@ function isValidRequest(body: unknown): body is WorkflowLaunchRequest {
     return false;
   }
 
+  // Check presetId
+  if (req.presetId !== undefined && typeof req.presetId !== 'string') {
+    return false;
+  }
+
   // Validate each answer
   for (const answer of req.answers) {
     if (typeof answer !== 'object' || answer === null) {
@@ -107,102 +109,10 @@ function extractCommandName(workflowId: string): string {
   return workflowId.replace(/-workflow$/, '');
 }
 
-/**
- * Find an answer by question ID.
- */
-function findAnswer(answers: WorkflowAnswer[], questionId: string): WorkflowAnswer | undefined {
-  return answers.find((a) => a.questionId === questionId);
-}
-
-/**
- * Build the context section of the prompt from answers.
- */
-function buildContextSection(answers: WorkflowAnswer[]): string {
-  const lines: string[] = [];
-
-  // Change Type
-  const changeTypeAnswer = findAnswer(answers, 'changeType');
-  if (changeTypeAnswer && changeTypeAnswer.selectedOptions.length > 0) {
-    lines.push(`- Change Type: ${sanitizeArray(changeTypeAnswer.selectedOptions).join(', ')}`);
-  }
-
-  // Affected Area
-  const areaAnswer = findAnswer(answers, 'affectedArea');
-  if (areaAnswer && areaAnswer.selectedOptions.length > 0) {
-    lines.push(`- Affected Area: ${sanitizeArray(areaAnswer.selectedOptions).join(', ')}`);
-  }
-
-  // Description (from customText)
-  const descAnswer = findAnswer(answers, 'description');
-  if (descAnswer && descAnswer.customText) {
-    lines.push(`- Description: ${sanitizeInput(descAnswer.customText)}`);
-  }
-
-  // Files
-  const filesAnswer = findAnswer(answers, 'files');
-  if (filesAnswer && filesAnswer.customText) {
-    lines.push(`- Files: ${sanitizeInput(filesAnswer.customText)}`);
-  }
-
-  // Scope
-  const scopeAnswer = findAnswer(answers, 'scope');
-  if (scopeAnswer && scopeAnswer.selectedOptions.length > 0) {
-    lines.push(`- Scope: ${sanitizeArray(scopeAnswer.selectedOptions).join(', ')}`);
-  }
-
-  // Priority
-  const priorityAnswer = findAnswer(answers, 'priority');
-  if (priorityAnswer && priorityAnswer.selectedOptions.length > 0) {
-    lines.push(`- Priority: ${sanitizeArray(priorityAnswer.selectedOptions).join(', ')}`);
-  }
-
-  // Handle any additional custom text fields
-  for (const answer of answers) {
-    const knownIds = ['changeType', 'affectedArea', 'description', 'files', 'scope', 'priority', 'agents'];
-    if (!knownIds.includes(answer.questionId) && answer.customText) {
-      const label = answer.questionId
-        .replace(/([A-Z])/g, ' $1')
-        .replace(/^./, (s) => s.toUpperCase())
-        .trim();
-      lines.push(`- ${label}: ${sanitizeInput(answer.customText)}`);
-    }
-  }
-
-  return lines.length > 0 ? lines.join('\n') : '- No additional context provided';
-}
-
-/**
- * Build the selected agents section.
- */
-function buildAgentsSection(answers: WorkflowAnswer[]): string {
-  const agentsAnswer = findAnswer(answers, 'agents');
-  if (agentsAnswer && agentsAnswer.selectedOptions.length > 0) {
-    return sanitizeArray(agentsAnswer.selectedOptions).join(', ');
-  }
-  return 'Default workflow agents';
-}
-
-/**
- * Generate the full prompt for the workflow.
- */
-function generatePrompt(commandName: string, answers: WorkflowAnswer[]): string {
-  const contextSection = buildContextSection(answers);
-  const agentsSection = buildAgentsSection(answers);
-
-  return `/${commandName}
-
-Context:
-${contextSection}
-
-Selected Agents: ${agentsSection}`;
-}
-
 /**
  * Generate the copyable text for easy copy-paste.
  */
-function generateCopyableText(commandName: string, answers: WorkflowAnswer[]): string {
-  const prompt = generatePrompt(commandName, answers);
-
+function generateCopyableText(prompt: string): string {
   // Add a separator for clarity when pasting
   return `${prompt}
 
@@ -241,7 +151,8 @@ export async function POST(
       );
     }
 
-    const { workflowId, answers } = body;
+    const { workflowId, answers, presetId } = body;
+    const { userId } = await auth();
 
     // Parse all workflows to find the requested one
     const workflows = await parseAllWorkflows();
@@ -258,18 +169,87 @@ export async function POST(
       );
     }
 
+    // Answers must belong to the workflow's questions
+    const questions = workflow.questions ?? DEFAULT_WORKFLOW_QUESTIONS;
+    const unknownIds = getUnknownQuestionIds(questions, answers);
+
+    if (unknownIds.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Bad Request',
+          message: `Unknown question ID${unknownIds.length === 1 ? '' : 's'} for "${workflowId}": ${unknownIds
+            .map(sanitizeInput)
+            .join(', ')}`,
+          statusCode: 400,
+        },
+        { status: 400 }
+      );
+    }
+
+    // The preset must belong to the workflow and be visible to the user
+    if (presetId) {
+      const preset = await getLaunchPresetById(presetId);
+      if (!preset || preset.workflow_id !== workflowId || !canUsePreset(preset, userId)) {
+        return NextResponse.json(
+          {
+            error: 'Not Found',
+            message: `Preset "${sanitizeInput(presetId)}" not found for "${workflowId}"`,
+            statusCode: 404,
+          },
+          { status: 404 }
+        );
+      }
+    }
+
     // Extract command name from workflow ID
     const commandName = extractCommandName(workflowId);
 
-    // Generate the prompt and response
-    const prompt = generatePrompt(commandName, answers);
-    const copyableText = generateCopyableText(commandName, answers);
+    // Render the prompt from the command's template
+    const declared = await parsePromptTemplate(workflowId);
+    const context = buildPromptContext(
+      { id: workflowId, name: workflow.name },
+      answers,
+      getQuestionLabels(questions)
+    );
+
+    let prompt: string;
+    try {
+      prompt = renderPromptTemplate(declared?.template ?? DEFAULT_PROMPT_TEMPLATE, context);
+    } catch (templateError) {
+      return NextResponse.json(
+        {
+          error: 'Unprocessable Entity',
+          message: `Invalid prompt template for "${workflowId}": ${
+            templateError instanceof Error ? templateError.message : 'unknown error'
+          }`,
+          statusCode: 422,
+        },
+        { status: 422 }
+      );
+    }
+
+    const launchId = createLaunchId();
+    prompt = appendLaunchId(prompt, launchId);
+
+    const copyableText = generateCopyableText(prompt);
     const command = `claude --plan '/${commandName}'`;
 
+    await recordLaunch({
+      id: launchId,
+      workflowId,
+      command,
+      prompt,
+      answers,
+      presetId: presetId ?? null,
+      userId,
+      parentTraceId: null,
+    });
+
     const response: WorkflowLaunchResponse = {
       command,
       prompt,
       copyableText,
+      launchId,
     };
 
     return NextResponse.json(response, {
@@ -311,20 +291,23 @@ export async function GET(): Promise<NextResponse> {
           customText: 'string? - Optional custom text input',
         },
       ],
+      presetId: 'string? - Preset the answers were loaded from',
     },
     responseSchema: {
       command: 'string - CLI command to execute',
       prompt: 'string - Generated prompt with context',
       copyableText: 'string - Formatted text for easy copy-paste',
+      launchId: 'string - Launch ID on the prompt\'s last line, to echo as metadata.launchId',
     },
-    knownQuestionIds: [
-      'agents',
-      'changeType',
-      'affectedArea',
-      'description',
-      'files',
-      'scope',
-      'priority',
+    templateVariables: [
+      'command',
+      'workflowId',
+      'workflowName',
+      'answers.<questionId> (id, label, selected, text, value)',
+      'context - answered questions other than agents',
+      'agents - selected agents',
     ],
+    questionIds: 'agents, plus the IDs of the workflow\'s questions (see GET /api/audit/workflows)',
+    defaultQuestionIds: ['agents', ...DEFAULT_WORKFLOW_QUESTIONS.map((question) => question.id)],
   });
 }
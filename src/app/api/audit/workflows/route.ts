@@ -3,12 +3,15 @@
  *
  * Lists all workflows that orchestrate multiple agents.
  * Workflows are extracted from command files that define agent sequences.
+ * Each workflow carries the questions its launch wizard asks: those its
+ * command declares in frontmatter, or the default questions.
  *
  * Response: { workflows: Workflow[] }
  */
 
 import { NextResponse } from 'next/server';
 import { parseAllWorkflows } from '@/lib/audit/parser';
+import { DEFAULT_WORKFLOW_QUESTIONS } from '@/lib/audit/questions';
 import type { Workflow, WorkflowsListResponse, ErrorResponse } from '@/types/audit';
 
 export const dynamic = 'force-dynamic';
@@ -25,6 +28,7 @@ export async function GET(): Promise<NextResponse<WorkflowsListResponse | ErrorR
       description: parsed.description,
       agents: parsed.agents,
       steps: parsed.steps,
+      questions: parsed.questions ?? DEFAULT_WORKFLOW_QUESTIONS,
       lastSynced: parsed.lastSynced,
     }));
 
@@ -12,7 +12,9 @@ const navItems: NavItem[] = [
   { href: '/audit', label: 'Dashboard' },
   { href: '/audit/agents', label: 'Agents' },
   { href: '/audit/workflows', label: 'Workflows' },
+  { href: '/audit/runs', label: 'Runs' },
   { href: '/audit/traces', label: 'Traces' },
+  { href: '/audit/handoffs', label: 'Handoffs' },
   { href: '/audit/metrics', label: 'Metrics' },
   { href: '/audit/prompts', label: 'Prompts' },
 ];
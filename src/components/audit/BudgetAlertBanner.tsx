@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+
+export interface BudgetAlertBannerAlert {
+  id: string;
+  level: 'warning' | 'exceeded';
+  message: string;
+  created_at: string;
+}
+
+export interface BudgetAlertBannerProps {
+  alerts: BudgetAlertBannerAlert[];
+}
+
+const levelStyles: Record<BudgetAlertBannerAlert['level'], string> = {
+  exceeded: 'border-[#ef4444] bg-[#fee2e2] text-[#991b1b]',
+  warning: 'border-[#f59e0b] bg-[#fef3c7] text-[#92400e]',
+};
+
+export function BudgetAlertBanner({ alerts: initialAlerts }: BudgetAlertBannerProps) {
+  const [alerts, setAlerts] = useState(initialAlerts);
+
+  const acknowledge = async (id: string) => {
+    setAlerts((current) => current.filter((alert) => alert.id !== id));
+
+    try {
+      await fetch(`/api/audit/budgets/alerts/${id}`, { method: 'PATCH' });
+    } catch (error) {
+      console.error('Failed to acknowledge budget alert:', error);
+    }
+  };
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <section className="mb-8 space-y-2 font-mono">
+      {alerts.map((alert) => (
+        <div
+          key={alert.id}
+          className={`flex items-center justify-between gap-4 border px-4 py-3 text-sm ${levelStyles[alert.level]}`}
+        >
+          <div className="flex items-center gap-3">
+            <span className="text-xs font-bold uppercase">
+              {alert.level === 'exceeded' ? 'budget exhausted' : 'budget warning'}
+            </span>
+            <span>{alert.message}</span>
+          </div>
+          <div className="flex items-center gap-3 text-xs">
+            <span className="opacity-70">{new Date(alert.created_at).toLocaleString()}</span>
+            <button
+              onClick={() => acknowledge(alert.id)}
+              className="border border-current px-2 py-0.5 hover:bg-white/50"
+            >
+              dismiss
+            </button>
+          </div>
+        </div>
+      ))}
+    </section>
+  );
+}
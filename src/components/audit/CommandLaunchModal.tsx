@@ -2,6 +2,11 @@
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import type { WorkflowAnswer } from '@/types/audit';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  buildPromptContext,
+  renderPromptTemplate,
+} from '@/lib/audit/templates';
 
 export interface CommandLaunchModalProps {
   /** Whether the modal is open */
@@ -14,41 +19,24 @@ export interface CommandLaunchModalProps {
   answers: WorkflowAnswer[];
   /** Pre-generated prompt text (optional) */
   generatedPrompt?: string;
+  /** Callback to queue the launch for the headless runner; shown when set */
+  onRun?: (cwd: string, priority: number) => void;
+  /** Runner's default working directory */
+  defaultCwd?: string;
+  /** Whether the run is being queued */
+  isStartingRun?: boolean;
+  /** Why the last run could not be queued */
+  runError?: string | null;
 }
 
 /**
- * Generates a copyable command/prompt from workflow answers.
+ * Renders the built-in launch prompt from workflow answers, for when no
+ * prompt was generated by the launch route.
  */
 function generateCopyableText(workflowName: string, answers: WorkflowAnswer[]): string {
-  const answerMap = new Map(answers.map((a) => [a.questionId, a]));
-
-  const changeType = answerMap.get('change-type')?.selectedOptions[0] || 'General change';
-  const affectedAreas = answerMap.get('affected-area')?.selectedOptions || [];
-  const description = answerMap.get('description')?.customText || '';
-  const filesInvolved = answerMap.get('files-involved')?.customText || '';
-
-  // Format the command as a structured prompt
-  const lines: string[] = [
-    `/${workflowName.toLowerCase().replace(/\s+/g, '-')}`,
-    '',
-    '## Context',
-    '',
-    `**Change Type:** ${changeType}`,
-  ];
-
-  if (affectedAreas.length > 0) {
-    lines.push(`**Affected Areas:** ${affectedAreas.join(', ')}`);
-  }
-
-  if (description) {
-    lines.push('', '**Description:**', description);
-  }
-
-  if (filesInvolved) {
-    lines.push('', '**Files Involved:**', filesInvolved);
-  }
-
-  return lines.join('\n');
+  const workflowId = workflowName.toLowerCase().replace(/\s+/g, '-');
+  const context = buildPromptContext({ id: workflowId, name: workflowName }, answers);
+  return renderPromptTemplate(DEFAULT_PROMPT_TEMPLATE, context);
 }
 
 export function CommandLaunchModal({
@@ -57,8 +45,14 @@ export function CommandLaunchModal({
   workflowName,
   answers,
   generatedPrompt,
+  onRun,
+  defaultCwd = '',
+  isStartingRun = false,
+  runError,
 }: CommandLaunchModalProps) {
   const [copied, setCopied] = useState(false);
+  const [cwd, setCwd] = useState(defaultCwd);
+  const [priority, setPriority] = useState(0);
   const modalRef = useRef<HTMLDivElement>(null);
 
   const copyableText = generatedPrompt || generateCopyableText(workflowName, answers);
@@ -199,6 +193,52 @@ export function CommandLaunchModal({
           </div>
         </div>
 
+        {/* Headless run */}
+        {onRun && (
+          <div className="border-t border-[#1e293b] bg-[#fffef5] px-6 py-4">
+            <div className="text-xs text-[#1e293b] opacity-60 uppercase mb-2">
+              Or Run Locally
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={cwd}
+                onChange={(e) => setCwd(e.target.value)}
+                placeholder="working directory"
+                className="flex-1 border border-[#1e293b] bg-[#fefcf3] px-3 py-1.5 text-xs text-[#0f172a] placeholder:text-[#94a3b8]"
+                style={{ borderRadius: 0 }}
+                aria-label="Working directory"
+              />
+              <input
+                type="number"
+                value={priority}
+                onChange={(e) => setPriority(parseInt(e.target.value, 10) || 0)}
+                className="w-20 border border-[#1e293b] bg-[#fefcf3] px-3 py-1.5 text-xs text-[#0f172a]"
+                style={{ borderRadius: 0 }}
+                aria-label="Priority"
+                title="Priority: higher runs start first"
+              />
+              <button
+                type="button"
+                onClick={() => onRun(cwd.trim(), priority)}
+                disabled={isStartingRun}
+                className="border border-[#0f172a] bg-[#0f172a] px-3 py-1.5 text-xs text-[#fefcf3] hover:bg-[#1e293b] disabled:opacity-50"
+                style={{ borderRadius: 0 }}
+              >
+                {isStartingRun ? 'Queueing...' : 'Queue Run'}
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-[#1e293b] opacity-60">
+              Queues the launch to run with the agent CLI on this server; follow it on the runs page
+            </p>
+            {runError && (
+              <p className="mt-2 border border-red-600 bg-red-50 px-3 py-2 text-xs text-red-600">
+                {runError}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Footer with tips */}
         <div className="border-t border-[#1e293b] px-6 py-4">
           <div className="text-xs text-[#1e293b] opacity-60">
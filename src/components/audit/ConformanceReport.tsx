@@ -0,0 +1,126 @@
+'use client';
+
+import type {
+  ConformanceDeviation,
+  ConformanceReport as ConformanceReportData,
+} from '@/types/orchestration';
+import { AgentBadge } from './AgentBadge';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ConformanceReportProps {
+  report: ConformanceReportData;
+}
+
+// ============================================================================
+// Deviation Styles
+// ============================================================================
+
+const DEVIATION_LABELS: Record<ConformanceDeviation['type'], string> = {
+  skipped_agent: 'skipped',
+  out_of_order: 'out of order',
+  unexpected_agent: 'unexpected',
+  invalid_handoff: 'handoff',
+};
+
+const SEVERITY_STYLES: Record<ConformanceDeviation['severity'], string> = {
+  major: 'bg-[#fee2e2] text-[#991b1b] border-[#ef4444]',
+  minor: 'bg-[#e5e7eb] text-[#374151] border-[#6b7280]',
+};
+
+function getScoreStyle(score: number): string {
+  if (score === 100) return 'bg-[#d1fae5] text-[#065f46] border-[#10b981]';
+  if (score >= 70) return 'bg-[#fef3c7] text-[#92400e] border-[#f59e0b]';
+  return 'bg-[#fee2e2] text-[#991b1b] border-[#ef4444]';
+}
+
+// ============================================================================
+// Sequence Row Component
+// ============================================================================
+
+function SequenceRow({ label, agents }: { label: string; agents: string[] }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="w-16 font-mono text-xs text-[#64748b]">{label}</span>
+      {agents.length > 0 ? (
+        agents.map((agent, index) => (
+          <span key={`${agent}-${index}`} className="flex items-center gap-2">
+            {index > 0 && <span className="font-mono text-xs text-[#94a3b8]">{'\u2192'}</span>}
+            <AgentBadge agentId={agent} />
+          </span>
+        ))
+      ) : (
+        <span className="font-mono text-xs text-[#94a3b8]">--</span>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Deviation Row Component
+// ============================================================================
+
+function DeviationRow({ deviation }: { deviation: ConformanceDeviation }) {
+  return (
+    <div className="flex items-start gap-3 px-4 py-3">
+      <span className={`inline-block shrink-0 border px-2 py-0.5 font-mono text-xs ${SEVERITY_STYLES[deviation.severity]}`}>
+        {DEVIATION_LABELS[deviation.type]}
+      </span>
+      <div className="min-w-0 flex-1">
+        <p className="font-mono text-sm text-[#0f172a]">{deviation.message}</p>
+        {deviation.spanIds.length > 0 && (
+          <div className="mt-1 flex flex-wrap gap-2 font-mono text-xs">
+            {deviation.spanIds.map((spanId) => (
+              <a key={spanId} href={`#span-${spanId}`} className="text-[#0f172a] underline">
+                {spanId}
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function ConformanceReport({ report }: ConformanceReportProps) {
+  const major = report.deviations.filter((deviation) => deviation.severity === 'major').length;
+
+  return (
+    <div className="border border-[#1e293b] bg-[#fefcf3]">
+      <div className="flex items-center justify-between border-b border-[#1e293b] px-4 py-3">
+        <div>
+          <span className="font-mono text-sm font-medium text-[#0f172a]">conformance</span>
+          <span className="ml-3 font-mono text-xs text-[#64748b]">
+            {report.workflowId} {'\u00B7'} {major} major deviation{major === 1 ? '' : 's'}
+          </span>
+        </div>
+        <span className={`inline-block border px-2 py-0.5 font-mono text-xs ${getScoreStyle(report.score)}`}>
+          {report.score}%
+        </span>
+      </div>
+
+      <div className="space-y-2 border-b border-dashed border-[#1e293b] px-4 py-3">
+        <SequenceRow label="declared" agents={report.expectedSequence} />
+        <SequenceRow label="observed" agents={report.observedSequence} />
+      </div>
+
+      {report.deviations.length > 0 ? (
+        <div className="divide-y divide-dashed divide-[#1e293b]">
+          {report.deviations.map((deviation, index) => (
+            <DeviationRow key={`${deviation.type}-${deviation.agent}-${index}`} deviation={deviation} />
+          ))}
+        </div>
+      ) : (
+        <p className="px-4 py-3 font-mono text-xs text-[#065f46]">
+          {'\u2713'} The run followed the declared sequence
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import type {
+  OrchestrationExecutionState,
+  OrchestrationPlan,
+  TaskExecutionState,
+  WaveExecutionState,
+} from '@/types/orchestration';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ExecutionProgressProps {
+  plan: OrchestrationPlan;
+  execution: OrchestrationExecutionState;
+}
+
+// ============================================================================
+// Status Styles
+// ============================================================================
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-[#e0e7ff] text-[#3730a3] border-[#6366f1]',
+  in_progress: 'bg-[#fef3c7] text-[#92400e] border-[#f59e0b]',
+  running: 'bg-[#fef3c7] text-[#92400e] border-[#f59e0b]',
+  completed: 'bg-[#d1fae5] text-[#065f46] border-[#10b981]',
+  failed: 'bg-[#fee2e2] text-[#991b1b] border-[#ef4444]',
+  blocked: 'bg-[#e5e7eb] text-[#374151] border-[#6b7280]',
+  paused: 'bg-[#e5e7eb] text-[#374151] border-[#6b7280]',
+};
+
+const STATUS_ICONS: Record<string, string> = {
+  pending: '\u25CB',
+  in_progress: '\u25D0',
+  completed: '\u2713',
+  failed: '\u2717',
+  blocked: '\u2298',
+};
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <span className={`inline-block border px-2 py-0.5 font-mono text-xs ${STATUS_STYLES[status] || STATUS_STYLES.pending}`}>
+      {status.replace('_', ' ')}
+    </span>
+  );
+}
+
+// ============================================================================
+// Task Chip Component
+// ============================================================================
+
+function TaskChip({ task }: { task: TaskExecutionState }) {
+  const label = (
+    <>
+      <span>{STATUS_ICONS[task.status]}</span>
+      <span>{task.agent}</span>
+    </>
+  );
+  const className = `flex items-center gap-1.5 border px-2 py-1 font-mono text-xs ${STATUS_STYLES[task.status]}`;
+  const spanId = task.spanIds[0];
+
+  return spanId ? (
+    <a href={`#span-${spanId}`} title={task.error} className={`${className} hover:underline`}>
+      {label}
+    </a>
+  ) : (
+    <span title={task.error} className={className}>
+      {label}
+    </span>
+  );
+}
+
+// ============================================================================
+// Wave Row Component
+// ============================================================================
+
+function WaveRow({
+  wave,
+  index,
+  parallel,
+  isCurrent,
+}: {
+  wave: WaveExecutionState;
+  index: number;
+  parallel: boolean;
+  isCurrent: boolean;
+}) {
+  return (
+    <div className={`border border-[#1e293b] bg-[#fffef5] p-3 ${isCurrent ? 'outline outline-2 outline-[#f59e0b]' : ''}`}>
+      <div className="flex items-center justify-between gap-4">
+        <span className="font-mono text-xs text-[#64748b]">
+          wave {index + 1} {'\u00B7'} {parallel ? 'parallel' : 'sequential'}
+        </span>
+        <div className="flex items-center gap-3">
+          <span className="font-mono text-xs text-[#0f172a]">{wave.progress}%</span>
+          <StatusBadge status={wave.status} />
+        </div>
+      </div>
+
+      <div className="mt-2 h-1.5 w-full bg-[#e2e8f0]">
+        <div
+          className={`h-full ${wave.status === 'failed' ? 'bg-[#ef4444]' : 'bg-[#10b981]'}`}
+          style={{ width: `${wave.progress}%` }}
+        />
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {wave.tasks.map((task, taskIndex) => (
+          <TaskChip key={`${task.agent}-${taskIndex}`} task={task} />
+        ))}
+      </div>
+
+      {wave.error && (
+        <p className="mt-2 font-mono text-xs text-[#991b1b]">{wave.error}</p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function ExecutionProgress({ plan, execution }: ExecutionProgressProps) {
+  const totalWaves = execution.phases.reduce((sum, phase) => sum + phase.waves.length, 0);
+  const completedWaves = execution.phases.reduce(
+    (sum, phase) => sum + phase.waves.filter((wave) => wave.status === 'completed').length,
+    0
+  );
+
+  return (
+    <div className="border border-[#1e293b] bg-[#fefcf3]">
+      {/* Header */}
+      <div className="flex items-center justify-between border-b border-[#1e293b] px-4 py-3">
+        <div>
+          <span className="font-mono text-sm font-medium text-[#0f172a]">{plan.name}</span>
+          <span className="ml-3 font-mono text-xs text-[#64748b]">
+            {completedWaves}/{totalWaves} waves complete
+          </span>
+        </div>
+        <StatusBadge status={execution.status} />
+      </div>
+
+      {/* Phases */}
+      <div className="divide-y divide-dashed divide-[#1e293b]">
+        {plan.phases.map((phase) => {
+          const phaseState = execution.phases.find((p) => p.phaseNumber === phase.number);
+          if (!phaseState) return null;
+
+          return (
+            <div key={phase.number} className="px-4 py-3">
+              <div className="mb-2 flex items-center justify-between">
+                <span className="font-mono text-sm text-[#0f172a]">
+                  phase {phase.number}: {phase.name}
+                </span>
+                <StatusBadge status={phaseState.status} />
+              </div>
+
+              <div className="space-y-2">
+                {phaseState.waves.map((wave, index) => (
+                  <WaveRow
+                    key={wave.waveId}
+                    wave={wave}
+                    index={index}
+                    parallel={phase.waves.find((w) => w.id === wave.waveId)?.parallel ?? false}
+                    isCurrent={execution.status === 'running' && wave.waveId === execution.currentWave}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
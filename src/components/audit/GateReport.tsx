@@ -0,0 +1,112 @@
+'use client';
+
+import type { GateEvaluation, GateReport as GateReportData } from '@/types/orchestration';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GateReportProps {
+  report: GateReportData;
+}
+
+// ============================================================================
+// Status Styles
+// ============================================================================
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-[#e0e7ff] text-[#3730a3] border-[#6366f1]',
+  passed: 'bg-[#d1fae5] text-[#065f46] border-[#10b981]',
+  failed: 'bg-[#fee2e2] text-[#991b1b] border-[#ef4444]',
+  skipped: 'bg-[#e5e7eb] text-[#374151] border-[#6b7280]',
+};
+
+const STATUS_ICONS: Record<string, string> = {
+  pending: '\u25CB',
+  passed: '\u2713',
+  failed: '\u2717',
+  skipped: '\u2298',
+};
+
+const ICON_COLORS: Record<string, string> = {
+  pending: 'text-[#6366f1]',
+  passed: 'text-[#10b981]',
+  failed: 'text-[#ef4444]',
+  skipped: 'text-[#6b7280]',
+};
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <span className={`inline-block border px-2 py-0.5 font-mono text-xs ${STATUS_STYLES[status] || STATUS_STYLES.pending}`}>
+      {status}
+    </span>
+  );
+}
+
+// ============================================================================
+// Gate Row Component
+// ============================================================================
+
+function GateRow({ gate }: { gate: GateEvaluation }) {
+  return (
+    <div className="flex items-start gap-3 px-4 py-3">
+      <span className={`mt-0.5 font-mono text-sm ${ICON_COLORS[gate.status]}`}>
+        {STATUS_ICONS[gate.status]}
+      </span>
+      <div className="min-w-0 flex-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-mono text-sm text-[#0f172a]">{gate.condition}</span>
+          {gate.blocking && (
+            <span className="border border-[#1e293b] px-1.5 py-0.5 font-mono text-[10px] uppercase text-[#1e293b]">
+              blocking
+            </span>
+          )}
+          {gate.blocking && gate.status === 'failed' && gate.missingEvidence && (
+            <span className="font-mono text-[10px] text-[#64748b]">not enforced: no evidence found</span>
+          )}
+        </div>
+        <p className="mt-1 font-mono text-xs text-[#64748b]">
+          {gate.from} {'\u2192'} {gate.to} {'\u00B7'} {gate.reason}
+        </p>
+        {gate.evidenceSpanIds.length > 0 && (
+          <div className="mt-1 flex flex-wrap gap-2 font-mono text-xs">
+            {gate.evidenceSpanIds.map((spanId) => (
+              <a key={spanId} href={`#span-${spanId}`} className="text-[#0f172a] underline">
+                {spanId}
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+      <StatusBadge status={gate.status} />
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function GateReport({ report }: GateReportProps) {
+  const passed = report.gates.filter((gate) => gate.status === 'passed').length;
+
+  return (
+    <div className="border border-[#1e293b] bg-[#fefcf3]">
+      <div className="flex items-center justify-between border-b border-[#1e293b] px-4 py-3">
+        <div>
+          <span className="font-mono text-sm font-medium text-[#0f172a]">gates</span>
+          <span className="ml-3 font-mono text-xs text-[#64748b]">
+            {passed}/{report.gates.length} passed
+          </span>
+        </div>
+        <StatusBadge status={report.status} />
+      </div>
+
+      <div className="divide-y divide-dashed divide-[#1e293b]">
+        {report.gates.map((gate) => (
+          <GateRow key={gate.gateIndex} gate={gate} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import Link from 'next/link';
+import type { Handoff, HandoffField } from '@/types/orchestration';
+import { AgentBadge } from './AgentBadge';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HandoffListProps {
+  handoffs: Handoff[];
+  /** Link each handoff to its trace, for lists spanning several traces */
+  showTrace?: boolean;
+}
+
+// ============================================================================
+// Labels
+// ============================================================================
+
+const FIELD_LABELS: Record<HandoffField, string> = {
+  summary: 'summary',
+  filesTouched: 'files touched',
+  openQuestions: 'open questions',
+  risks: 'risks',
+};
+
+// ============================================================================
+// Item List Component
+// ============================================================================
+
+function ItemList({ label, items, mono }: { label: string; items: string[]; mono?: boolean }) {
+  if (items.length === 0) return null;
+
+  return (
+    <div>
+      <div className="mb-1 font-mono text-xs text-[#64748b]">{label}</div>
+      <ul className="space-y-0.5">
+        {items.map((item, index) => (
+          <li key={`${item}-${index}`} className={`text-sm text-[#0f172a] ${mono ? 'font-mono text-xs' : ''}`}>
+            {'\u2022'} {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// ============================================================================
+// Handoff Row Component
+// ============================================================================
+
+function HandoffRow({ handoff, showTrace }: { handoff: Handoff; showTrace?: boolean }) {
+  const spanHref = showTrace
+    ? `/audit/traces/${encodeURIComponent(handoff.traceId)}#span-${handoff.spanId}`
+    : `#span-${handoff.spanId}`;
+
+  return (
+    <div className="space-y-3 px-4 py-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <AgentBadge agentId={handoff.fromAgent} />
+        <span className="font-mono text-xs text-[#94a3b8]">{'\u2192'}</span>
+        {handoff.toAgent ? (
+          <AgentBadge agentId={handoff.toAgent} />
+        ) : (
+          <span className="font-mono text-xs text-[#991b1b]">no target</span>
+        )}
+        <span
+          className={`ml-auto inline-block border px-2 py-0.5 font-mono text-xs ${
+            handoff.valid
+              ? 'bg-[#d1fae5] text-[#065f46] border-[#10b981]'
+              : 'bg-[#fee2e2] text-[#991b1b] border-[#ef4444]'
+          }`}
+        >
+          {handoff.valid ? 'valid' : 'incomplete'}
+        </span>
+      </div>
+
+      <p className={`text-sm ${handoff.summary ? 'text-[#0f172a]' : 'font-mono text-xs text-[#94a3b8]'}`}>
+        {handoff.summary || 'No summary'}
+      </p>
+
+      <div className="grid gap-3 md:grid-cols-3">
+        <ItemList label="files touched" items={handoff.filesTouched} mono />
+        <ItemList label="open questions" items={handoff.openQuestions} />
+        <ItemList label="risks" items={handoff.risks} />
+      </div>
+
+      {(handoff.missingFields.length > 0 || handoff.missingSections.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2 font-mono text-xs">
+          <span className="text-[#64748b]">missing:</span>
+          {handoff.missingFields.map((field) => (
+            <span key={field} className="border border-[#f59e0b] bg-[#fef3c7] px-2 py-0.5 text-[#92400e]">
+              {FIELD_LABELS[field]}
+            </span>
+          ))}
+          {handoff.missingSections.map((section) => (
+            <span key={section} className="border border-[#6b7280] bg-[#e5e7eb] px-2 py-0.5 text-[#374151]">
+              {section}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-4 font-mono text-xs text-[#64748b]">
+        <span>{new Date(handoff.createdAt).toLocaleString()}</span>
+        {showTrace ? (
+          <Link href={spanHref} className="text-[#0f172a] underline">
+            {handoff.traceId}
+          </Link>
+        ) : (
+          <a href={spanHref} className="text-[#0f172a] underline">
+            {handoff.spanId}
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function HandoffList({ handoffs, showTrace }: HandoffListProps) {
+  const incomplete = handoffs.filter((handoff) => !handoff.valid).length;
+
+  return (
+    <div className="border border-[#1e293b] bg-[#fefcf3]">
+      <div className="border-b border-[#1e293b] px-4 py-3">
+        <span className="font-mono text-sm font-medium text-[#0f172a]">handoffs</span>
+        <span className="ml-3 font-mono text-xs text-[#64748b]">
+          {handoffs.length} handoff{handoffs.length === 1 ? '' : 's'} {'\u00B7'} {incomplete} incomplete
+        </span>
+      </div>
+
+      {handoffs.length > 0 ? (
+        <div className="divide-y divide-dashed divide-[#1e293b]">
+          {handoffs.map((handoff) => (
+            <HandoffRow key={handoff.spanId} handoff={handoff} showTrace={showTrace} />
+          ))}
+        </div>
+      ) : (
+        <p className="px-4 py-3 font-mono text-xs text-[#64748b]">No handoffs found</p>
+      )}
+    </div>
+  );
+}
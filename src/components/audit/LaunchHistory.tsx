@@ -0,0 +1,85 @@
+'use client';
+
+import Link from 'next/link';
+import type { WorkflowLaunch } from '@/types/audit';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LaunchHistoryProps {
+  launches: WorkflowLaunch[];
+  /** Total number of launches, when more exist than are shown */
+  total?: number;
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function LaunchHistory({ launches, total = launches.length }: LaunchHistoryProps) {
+  return (
+    <div className="border border-[#1e293b] bg-[#fefcf3]">
+      <div className="border-b border-[#1e293b] px-4 py-3">
+        <span className="font-mono text-sm font-medium text-[#0f172a]">launch history</span>
+        <span className="ml-3 font-mono text-xs text-[#64748b]">
+          {total} launch{total === 1 ? '' : 'es'}
+          {total > launches.length && <> {'\u00B7'} latest {launches.length}</>}
+        </span>
+      </div>
+
+      {launches.length > 0 ? (
+        <table className="w-full font-mono text-xs">
+          <thead>
+            <tr className="border-b border-[#1e293b] text-left text-[#64748b]">
+              <th className="px-4 py-2 font-normal">launched</th>
+              <th className="px-4 py-2 font-normal">launch id</th>
+              <th className="px-4 py-2 font-normal">by</th>
+              <th className="px-4 py-2 font-normal">answers</th>
+              <th className="px-4 py-2 font-normal">trace</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-dashed divide-[#1e293b]">
+            {launches.map((launch) => (
+              <tr key={launch.id} className="align-top text-[#0f172a]">
+                <td className="px-4 py-2 whitespace-nowrap">{new Date(launch.createdAt).toLocaleString()}</td>
+                <td className="px-4 py-2">
+                  <details>
+                    <summary className="cursor-pointer">{launch.id}</summary>
+                    <pre className="mt-2 max-w-md whitespace-pre-wrap border border-[#1e293b] bg-[#fffef5] p-2 text-[#0f172a]">
+                      {launch.prompt}
+                    </pre>
+                  </details>
+                </td>
+                <td className="px-4 py-2 text-[#64748b]">{launch.userId || 'anonymous'}</td>
+                <td className="px-4 py-2">
+                  {launch.answers.length}
+                  {launch.presetId && <span className="ml-2 text-[#64748b]">from preset</span>}
+                </td>
+                <td className="px-4 py-2">
+                  {launch.traceId ? (
+                    <Link href={`/audit/traces/${encodeURIComponent(launch.traceId)}`} className="underline">
+                      {launch.traceId}
+                    </Link>
+                  ) : (
+                    <span className="text-[#94a3b8]">no trace yet</span>
+                  )}
+                  {launch.parentTraceId && (
+                    <p className="text-[#64748b]">
+                      replay of{' '}
+                      <Link href={`/audit/traces/${encodeURIComponent(launch.parentTraceId)}`} className="underline">
+                        {launch.parentTraceId}
+                      </Link>
+                    </p>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="px-4 py-3 font-mono text-xs text-[#64748b]">No launches yet</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { WorkflowAnswer, WorkflowPreset, WorkflowPresetsResponse } from '@/types/audit';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LaunchPresetsProps {
+  /** Workflow the presets belong to */
+  workflowId: string;
+  /** Current wizard answers, saved by "save preset" */
+  answers: WorkflowAnswer[];
+  /** Preset currently loaded into the wizard */
+  activePresetId?: string | null;
+  /** Callback to load a preset's answers into the wizard */
+  onApply: (preset: WorkflowPreset) => void;
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function LaunchPresets({ workflowId, answers, activePresetId, onApply }: LaunchPresetsProps) {
+  const [presets, setPresets] = useState<WorkflowPreset[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const presetsUrl = `/api/audit/workflows/${encodeURIComponent(workflowId)}/presets`;
+
+  const fetchPresets = useCallback(async () => {
+    try {
+      const response = await fetch(presetsUrl);
+      if (response.status === 401) {
+        setError('Sign in to save presets');
+        return;
+      }
+      if (!response.ok) throw new Error('Failed to load presets');
+
+      const data: WorkflowPresetsResponse = await response.json();
+      setPresets(data.presets);
+      setUserId(data.userId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load presets');
+    }
+  }, [presetsUrl]);
+
+  useEffect(() => {
+    fetchPresets();
+  }, [fetchPresets]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(presetsUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), answers, shared }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || 'Failed to save preset');
+      }
+
+      setName('');
+      setShared(false);
+      await fetchPresets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save preset');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = async (preset: WorkflowPreset, init: RequestInit) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`${presetsUrl}/${encodeURIComponent(preset.id)}`, init);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || 'Failed to update preset');
+      }
+      await fetchPresets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update preset');
+    }
+  };
+
+  const toggleShared = (preset: WorkflowPreset) =>
+    handleUpdate(preset, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ shared: !preset.shared }),
+    });
+
+  const deletePreset = (preset: WorkflowPreset) => handleUpdate(preset, { method: 'DELETE' });
+
+  return (
+    <div className="border border-[#1e293b] bg-[#fefcf3]">
+      <div className="border-b border-[#1e293b] px-4 py-3">
+        <span className="font-mono text-sm font-medium text-[#0f172a]">presets</span>
+        <span className="ml-3 font-mono text-xs text-[#64748b]">
+          saved answers {'\u00B7'} yours and shared with the team
+        </span>
+      </div>
+
+      {presets.length > 0 ? (
+        <div className="divide-y divide-dashed divide-[#1e293b]">
+          {presets.map((preset) => {
+            const owned = preset.ownerId === userId;
+            const active = preset.id === activePresetId;
+
+            return (
+              <div key={preset.id} className="flex flex-wrap items-center gap-2 px-4 py-2 font-mono text-xs">
+                <button
+                  type="button"
+                  onClick={() => onApply(preset)}
+                  className={`border px-2 py-1 ${
+                    active
+                      ? 'border-[#1e293b] bg-[#1e293b] text-[#fefcf3]'
+                      : 'border-[#1e293b] bg-[#fffef5] text-[#0f172a] hover:bg-[#fefce8]'
+                  }`}
+                >
+                  {preset.name}
+                </button>
+                <span className="text-[#64748b]">
+                  {preset.answers.length} answer{preset.answers.length === 1 ? '' : 's'}
+                </span>
+                {preset.shared && (
+                  <span className="border border-[#6b7280] bg-[#e5e7eb] px-2 py-0.5 text-[#374151]">shared</span>
+                )}
+                {!owned && <span className="text-[#94a3b8]">from a teammate</span>}
+                {owned && (
+                  <span className="ml-auto flex gap-3">
+                    <button type="button" onClick={() => toggleShared(preset)} className="text-[#0f172a] underline">
+                      {preset.shared ? 'unshare' : 'share'}
+                    </button>
+                    <button type="button" onClick={() => deletePreset(preset)} className="text-[#991b1b] underline">
+                      delete
+                    </button>
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="px-4 py-3 font-mono text-xs text-[#64748b]">No presets saved for this workflow</p>
+      )}
+
+      {/* Save current answers */}
+      <div className="flex flex-wrap items-center gap-3 border-t border-[#1e293b] bg-[#fefce8] px-4 py-3">
+        <input
+          type="text"
+          placeholder="preset name..."
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="flex-1 border border-[#1e293b] bg-[#fffef5] px-3 py-1.5 font-mono text-xs text-[#0f172a] placeholder:text-[#94a3b8]"
+        />
+        <label className="flex cursor-pointer items-center gap-2 font-mono text-xs text-[#1e293b]">
+          <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+          share with team
+        </label>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || !name.trim() || answers.length === 0}
+          className="border border-[#1e293b] bg-[#1e293b] px-3 py-1.5 font-mono text-xs text-[#fefcf3] disabled:opacity-50"
+        >
+          {isSaving ? 'saving...' : 'save preset'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="border-t border-[#ef4444] bg-[#fee2e2] px-4 py-2 font-mono text-xs text-[#991b1b]">
+          {'\u2717'} {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type {
+  ReplayPromptVersion,
+  TraceReplayPlanResponse,
+  TraceReplayRequest,
+  TraceReplayResponse,
+} from '@/types/audit';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReplayPanelProps {
+  /** Trace to replay */
+  traceId: string;
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function ReplayPanel({ traceId }: ReplayPanelProps) {
+  const [data, setData] = useState<TraceReplayPlanResponse | null>(null);
+  const [unavailable, setUnavailable] = useState<string | null>(null);
+  const [version, setVersion] = useState<ReplayPromptVersion>('current');
+  const [cwd, setCwd] = useState('');
+  const [replay, setReplay] = useState<TraceReplayResponse | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/audit/traces/${encodeURIComponent(traceId)}/replay`);
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({}));
+          setUnavailable(body.message || 'This trace cannot be replayed');
+          return;
+        }
+        setData(await response.json());
+      } catch (err) {
+        setUnavailable(err instanceof Error ? err.message : 'Failed to load replay');
+      }
+    };
+
+    load();
+  }, [traceId]);
+
+  const handleReplay = async (run: boolean) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const request: TraceReplayRequest = run ? { version, run, cwd: cwd || undefined } : { version };
+      const response = await fetch(`/api/audit/traces/${encodeURIComponent(traceId)}/replay`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || 'Failed to replay trace');
+      }
+      setReplay(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to replay trace');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopy = useCallback(async () => {
+    if (!replay) return;
+    try {
+      await navigator.clipboard.writeText(replay.prompt);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+    }
+  }, [replay]);
+
+  if (unavailable) {
+    return (
+      <div className="border border-[#1e293b] bg-[#fefcf3] px-4 py-3 font-mono text-xs text-[#64748b]">
+        replay unavailable: {unavailable}
+      </div>
+    );
+  }
+
+  if (!data) return null;
+
+  const { plan, runnerEnabled } = data;
+  const changedAgents = plan.agents.filter((agent) => agent.changed);
+
+  return (
+    <div className="border border-[#1e293b] bg-[#fefcf3] font-mono">
+      <div className="flex flex-wrap items-center gap-3 border-b border-[#1e293b] px-4 py-3">
+        <span className="text-sm font-medium text-[#0f172a]">replay</span>
+        <span className="text-xs text-[#64748b]">
+          {plan.command}
+          {plan.commitHash && <> {'\u00B7'} commit {plan.commitHash.slice(0, 7)}</>}
+        </span>
+      </div>
+
+      <div className="space-y-4 p-4 text-xs">
+        <div>
+          <p className="mb-1 text-[#64748b]">input</p>
+          <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap break-words border border-[#1e293b] bg-[#fffef5] p-3 text-[#0f172a]">
+            {plan.input}
+          </pre>
+        </div>
+
+        {plan.agents.length > 0 && (
+          <div>
+            <p className="mb-1 text-[#64748b]">agent prompts</p>
+            <ul className="space-y-1">
+              {plan.agents.map((agent) => (
+                <li key={agent.agent} className="flex items-center gap-2 text-[#0f172a]">
+                  <span>{agent.agent}</span>
+                  {agent.changed ? (
+                    <span className="border border-[#f59e0b] bg-[#fef3c7] px-2 py-0.5 text-[#92400e]">
+                      {agent.currentAvailable ? 'changed since trace' : 'removed since trace'}
+                    </span>
+                  ) : !agent.historicalAvailable && plan.commitHash ? (
+                    <span className="border border-[#6b7280] bg-[#e5e7eb] px-2 py-0.5 text-[#374151]">
+                      added since trace
+                    </span>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-[#0f172a]">
+            <input
+              type="radio"
+              name="replay-version"
+              checked={version === 'current'}
+              onChange={() => setVersion('current')}
+            />
+            current prompts
+          </label>
+          <label className={`flex items-center gap-2 ${plan.historicalAvailable ? 'text-[#0f172a]' : 'text-[#94a3b8]'}`}>
+            <input
+              type="radio"
+              name="replay-version"
+              checked={version === 'historical'}
+              disabled={!plan.historicalAvailable}
+              onChange={() => setVersion('historical')}
+            />
+            prompts at trace commit
+            {plan.historicalAvailable && changedAgents.length > 0 && (
+              <span className="text-[#64748b]">({changedAgents.length} changed)</span>
+            )}
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={() => handleReplay(false)}
+            disabled={isSubmitting}
+            className="border border-[#1e293b] bg-[#fffef5] px-4 py-2 text-sm text-[#0f172a] hover:bg-[#fefce8] disabled:opacity-50"
+          >
+            generate prompt
+          </button>
+          {runnerEnabled && (
+            <>
+              <input
+                type="text"
+                value={cwd}
+                onChange={(e) => setCwd(e.target.value)}
+                placeholder="working directory (default)"
+                className="border border-[#1e293b] bg-[#fffef5] px-3 py-2 text-sm text-[#0f172a]"
+              />
+              <button
+                type="button"
+                onClick={() => handleReplay(true)}
+                disabled={isSubmitting}
+                className="border border-[#0f172a] bg-[#0f172a] px-4 py-2 text-sm text-[#fefcf3] hover:bg-[#1e293b] disabled:opacity-50"
+              >
+                {isSubmitting ? 'replaying...' : 'queue run'}
+              </button>
+            </>
+          )}
+        </div>
+
+        {error && (
+          <p className="border border-[#ef4444] bg-[#fee2e2] px-3 py-2 text-[#991b1b]">
+            {'\u2717'} {error}
+          </p>
+        )}
+
+        {replay && (
+          <div className="border border-[#10b981] bg-[#d1fae5] p-3 text-[#065f46]">
+            <div className="flex flex-wrap items-center gap-3">
+              <span>
+                {'\u2713'} {replay.launchId} ({replay.version} prompts)
+              </span>
+              {replay.entry && (
+                <Link href="/audit/runs" className="underline">
+                  queued {'\u00B7'} view runs
+                </Link>
+              )}
+              <button type="button" onClick={handleCopy} className="ml-auto underline">
+                {copied ? 'copied' : 'copy prompt'}
+              </button>
+            </div>
+            <pre className="mt-3 max-h-64 overflow-y-auto whitespace-pre-wrap break-words bg-[#0f172a] p-3 text-[#fefcf3]">
+              {replay.prompt}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import type { WorkflowRun, WorkflowRunOutputLine, WorkflowRunStatus } from '@/types/audit';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RunConsoleProps {
+  /** Run to follow, as returned when it was started */
+  run: WorkflowRun;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STATUS_STYLES: Record<WorkflowRunStatus, string> = {
+  running: 'border-[#f59e0b] bg-[#fef3c7] text-[#92400e]',
+  completed: 'border-[#10b981] bg-[#d1fae5] text-[#065f46]',
+  failed: 'border-[#ef4444] bg-[#fee2e2] text-[#991b1b]',
+  cancelled: 'border-[#6b7280] bg-[#e5e7eb] text-[#374151]',
+};
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function RunConsole({ run: initialRun }: RunConsoleProps) {
+  const [run, setRun] = useState<WorkflowRun>(initialRun);
+  const [lines, setLines] = useState<WorkflowRunOutputLine[]>([]);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const outputRef = useRef<HTMLPreElement>(null);
+
+  const runId = initialRun.id;
+
+  // Follow the run's output until it finishes; the stream replays what
+  // was written before connecting
+  useEffect(() => {
+    setLines([]);
+    const source = new EventSource(`/api/audit/runs/${encodeURIComponent(runId)}/stream`);
+
+    source.addEventListener('output', (event) => {
+      const line: WorkflowRunOutputLine = JSON.parse((event as MessageEvent).data);
+      setLines((prev) => [...prev, line]);
+    });
+
+    source.addEventListener('status', (event) => {
+      const next: WorkflowRun = JSON.parse((event as MessageEvent).data);
+      setRun(next);
+      if (next.status !== 'running') source.close();
+    });
+
+    source.onerror = () => {
+      // The server closes the stream when the run ends
+      source.close();
+    };
+
+    return () => source.close();
+  }, [runId]);
+
+  // Keep the latest output in view
+  useEffect(() => {
+    if (outputRef.current) outputRef.current.scrollTop = outputRef.current.scrollHeight;
+  }, [lines]);
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/audit/runs/${encodeURIComponent(runId)}/cancel`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || 'Failed to cancel run');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel run');
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <div className="border border-[#1e293b] bg-[#fefcf3] font-mono">
+      <div className="flex flex-wrap items-center gap-3 border-b border-[#1e293b] px-4 py-3">
+        <span className="text-sm font-medium text-[#0f172a]">run</span>
+        <span className={`border px-2 py-0.5 text-xs ${STATUS_STYLES[run.status]}`}>{run.status}</span>
+        <span className="text-xs text-[#64748b]">
+          {run.command} {'\u00B7'} {run.cwd}
+        </span>
+        <span className="ml-auto flex items-center gap-3 text-xs">
+          <Link href={`/audit/traces/${encodeURIComponent(run.traceId)}`} className="text-[#0f172a] underline">
+            view trace
+          </Link>
+          {run.status === 'running' && (
+            <button
+              type="button"
+              onClick={handleCancel}
+              disabled={isCancelling}
+              className="border border-[#991b1b] px-3 py-1 text-[#991b1b] hover:bg-[#fee2e2] disabled:opacity-50"
+            >
+              {isCancelling ? 'cancelling...' : 'cancel'}
+            </button>
+          )}
+        </span>
+      </div>
+
+      <pre
+        ref={outputRef}
+        className="max-h-96 overflow-y-auto whitespace-pre-wrap break-words bg-[#0f172a] p-4 text-xs text-[#fefcf3]"
+      >
+        {lines.length === 0 && run.status === 'running' && (
+          <span className="text-[#94a3b8]">waiting for output...</span>
+        )}
+        {lines.map((line, index) => (
+          <div key={index} className={line.stream === 'stderr' ? 'text-[#ef4444]' : undefined}>
+            {line.text || ' '}
+          </div>
+        ))}
+      </pre>
+
+      {(run.error || error) && (
+        <p className="border-t border-[#ef4444] bg-[#fee2e2] px-4 py-2 text-xs text-[#991b1b]">
+          {'\u2717'} {error || run.error}
+        </p>
+      )}
+      {run.status !== 'running' && !run.error && (
+        <p className="border-t border-[#1e293b] px-4 py-2 text-xs text-[#64748b]">
+          finished {run.completedAt && new Date(run.completedAt).toLocaleString()}
+          {run.exitCode !== null && <> {'\u00B7'} exit code {run.exitCode}</>}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import Link from 'next/link';
+import type { RunQueueEntry, RunQueueStatus, RunQueueUpdateRequest, WorkflowRun } from '@/types/audit';
+import { RunConsole } from './RunConsole';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RunQueueProps {
+  entries: RunQueueEntry[];
+  /** Runs this server still holds, keyed by run ID, for their output */
+  runs?: Record<string, WorkflowRun>;
+  /** Callback to pause, resume or cancel an entry, or change its priority */
+  onUpdate: (entry: RunQueueEntry, update: RunQueueUpdateRequest) => void;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STATUS_STYLES: Record<RunQueueStatus, string> = {
+  queued: 'border-[#6b7280] bg-[#fffef5] text-[#374151]',
+  paused: 'border-[#6b7280] bg-[#e5e7eb] text-[#374151]',
+  running: 'border-[#f59e0b] bg-[#fef3c7] text-[#92400e]',
+  completed: 'border-[#10b981] bg-[#d1fae5] text-[#065f46]',
+  failed: 'border-[#ef4444] bg-[#fee2e2] text-[#991b1b]',
+  cancelled: 'border-[#6b7280] bg-[#e5e7eb] text-[#374151]',
+};
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function RunQueue({ entries, runs = {}, onUpdate }: RunQueueProps) {
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+
+  if (entries.length === 0) {
+    return (
+      <div className="border border-[#1e293b] bg-[#fefcf3] p-8 text-center font-mono text-sm text-[#64748b]">
+        No runs in the queue
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-[#1e293b] bg-[#fefcf3]">
+      <table className="w-full font-mono text-xs">
+        <thead>
+          <tr className="border-b border-[#1e293b] text-left text-[#64748b]">
+            <th className="px-4 py-2 font-normal">status</th>
+            <th className="px-4 py-2 font-normal">workflow</th>
+            <th className="px-4 py-2 font-normal">priority</th>
+            <th className="px-4 py-2 font-normal">queued</th>
+            <th className="px-4 py-2 font-normal">directory</th>
+            <th className="px-4 py-2 font-normal">trace</th>
+            <th className="px-4 py-2 font-normal" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-dashed divide-[#1e293b]">
+          {entries.map((entry) => {
+            const waiting = entry.status === 'queued' || entry.status === 'paused';
+            const run = entry.runId ? runs[entry.runId] : undefined;
+            const open = run !== undefined && openRunId === run.id;
+
+            return (
+              <Fragment key={entry.id}>
+                <tr className="align-top text-[#0f172a]">
+                  <td className="px-4 py-2">
+                    <span className={`border px-2 py-0.5 ${STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+                    {entry.cancelRequested && <p className="mt-1 text-[#92400e]">cancelling</p>}
+                    {entry.error && <p className="mt-1 max-w-xs text-[#991b1b]">{entry.error}</p>}
+                  </td>
+                  <td className="px-4 py-2">
+                    <Link href={`/audit/workflows/${encodeURIComponent(entry.workflowId)}`} className="underline">
+                      {entry.workflowId}
+                    </Link>
+                    <p className="text-[#94a3b8]">{entry.launchId}</p>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    {entry.priority}
+                    {waiting && (
+                      <span className="ml-2">
+                        <button
+                          type="button"
+                          onClick={() => onUpdate(entry, { priority: entry.priority + 1 })}
+                          className="px-1 text-[#0f172a] hover:bg-[#fefce8]"
+                          aria-label="Raise priority"
+                        >
+                          {'\u2191'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => onUpdate(entry, { priority: entry.priority - 1 })}
+                          className="px-1 text-[#0f172a] hover:bg-[#fefce8]"
+                          aria-label="Lower priority"
+                        >
+                          {'\u2193'}
+                        </button>
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    {new Date(entry.createdAt).toLocaleString()}
+                    {entry.enqueuedBy && <p className="text-[#64748b]">{entry.enqueuedBy}</p>}
+                  </td>
+                  <td className="px-4 py-2 text-[#64748b]">{entry.cwd}</td>
+                  <td className="px-4 py-2">
+                    {entry.traceId ? (
+                      <Link href={`/audit/traces/${encodeURIComponent(entry.traceId)}`} className="underline">
+                        {entry.traceId}
+                      </Link>
+                    ) : (
+                      <span className="text-[#94a3b8]">not started</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className="flex justify-end gap-3 whitespace-nowrap">
+                      {run && (
+                        <button
+                          type="button"
+                          onClick={() => setOpenRunId(open ? null : run.id)}
+                          className="text-[#0f172a] underline"
+                        >
+                          {open ? 'hide output' : 'output'}
+                        </button>
+                      )}
+                      {entry.status === 'queued' && (
+                        <button
+                          type="button"
+                          onClick={() => onUpdate(entry, { action: 'pause' })}
+                          className="text-[#0f172a] underline"
+                        >
+                          pause
+                        </button>
+                      )}
+                      {entry.status === 'paused' && (
+                        <button
+                          type="button"
+                          onClick={() => onUpdate(entry, { action: 'resume' })}
+                          className="text-[#0f172a] underline"
+                        >
+                          resume
+                        </button>
+                      )}
+                      {(waiting || (entry.status === 'running' && !entry.cancelRequested)) && (
+                        <button
+                          type="button"
+                          onClick={() => onUpdate(entry, { action: 'cancel' })}
+                          className="text-[#991b1b] underline"
+                        >
+                          cancel
+                        </button>
+                      )}
+                    </span>
+                  </td>
+                </tr>
+                {open && run && (
+                  <tr>
+                    <td colSpan={7} className="bg-[#fffef5] p-4">
+                      <RunConsole run={run} />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
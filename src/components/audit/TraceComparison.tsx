@@ -0,0 +1,304 @@
+'use client';
+
+import Link from 'next/link';
+import type {
+  ComparedSpan,
+  ComparedTrace,
+  ComparedValue,
+  SpanAlignment,
+  TraceComparison as TraceComparisonData,
+} from '@/types/audit';
+import { AgentBadge } from './AgentBadge';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TraceComparisonProps {
+  comparison: TraceComparisonData;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ALIGNMENT_STYLES: Record<SpanAlignment, string> = {
+  matched: 'border-[#6b7280] bg-[#fffef5] text-[#374151]',
+  reordered: 'border-[#f59e0b] bg-[#fef3c7] text-[#92400e]',
+  added: 'border-[#10b981] bg-[#d1fae5] text-[#065f46]',
+  missing: 'border-[#ef4444] bg-[#fee2e2] text-[#991b1b]',
+};
+
+const ALIGNMENT_LABELS: Record<SpanAlignment, string> = {
+  matched: 'matched',
+  reordered: 'reordered',
+  added: 'only in B',
+  missing: 'only in A',
+};
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '--';
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60_000).toFixed(1)}m`;
+}
+
+function formatCount(value: number | null): string {
+  return value === null ? '--' : value.toLocaleString();
+}
+
+function formatCost(value: number | null): string {
+  return value === null ? '--' : `$${value.toFixed(4)}`;
+}
+
+/**
+ * Color a change. For costs (lower is better) a drop is green; for
+ * counts any change is only marked.
+ */
+function getDeltaStyle(delta: number | null, lowerIsBetter: boolean): string {
+  if (delta === null || delta === 0) return 'text-[#94a3b8]';
+  if (!lowerIsBetter) return 'text-[#0f172a]';
+  return delta < 0 ? 'text-[#065f46]' : 'text-[#991b1b]';
+}
+
+function formatDelta(delta: number | null, format: (value: number) => string): string {
+  if (delta === null || delta === 0) return '--';
+  return `${delta > 0 ? '+' : '-'}${format(Math.abs(delta))}`;
+}
+
+// ============================================================================
+// Trace Header Component
+// ============================================================================
+
+function TraceHeader({ label, trace }: { label: string; trace: ComparedTrace }) {
+  return (
+    <div className="px-4 py-3">
+      <span className="text-xs text-[#64748b]">{label}</span>
+      <p className="text-sm font-medium text-[#0f172a]">
+        <Link href={`/audit/traces/${encodeURIComponent(trace.traceId)}`} className="underline">
+          {trace.name}
+        </Link>
+      </p>
+      <p className="text-xs text-[#64748b]">
+        {trace.status} {'\u00B7'} {new Date(trace.startedAt).toLocaleString()}
+        {trace.commitHash && <> {'\u00B7'} commit {trace.commitHash.slice(0, 7)}</>}
+      </p>
+      <p className="text-xs text-[#94a3b8]">{trace.traceId}</p>
+    </div>
+  );
+}
+
+// ============================================================================
+// Metric Row Component
+// ============================================================================
+
+function MetricRow({
+  label,
+  value,
+  format,
+  lowerIsBetter = true,
+  indent = false,
+}: {
+  label: string;
+  value: ComparedValue;
+  format: (value: number | null) => string;
+  lowerIsBetter?: boolean;
+  /** Show as a breakdown of the row above */
+  indent?: boolean;
+}) {
+  return (
+    <tr>
+      <td className={`py-2 pr-4 text-[#64748b] ${indent ? 'pl-8' : 'pl-4'}`}>{label}</td>
+      <td className="px-4 py-2 text-right text-[#0f172a]">{format(value.a)}</td>
+      <td className="px-4 py-2 text-right text-[#0f172a]">{format(value.b)}</td>
+      <td className={`px-4 py-2 text-right ${getDeltaStyle(value.delta, lowerIsBetter)}`}>
+        {formatDelta(value.delta, format)}
+      </td>
+    </tr>
+  );
+}
+
+// ============================================================================
+// Span Row Component
+// ============================================================================
+
+function SpanRow({ span, traceA, traceB }: { span: ComparedSpan; traceA: string; traceB: string }) {
+  const pair = (value: ComparedValue, format: (value: number | null) => string) => (
+    <>
+      {format(value.a)} {'\u2192'} {format(value.b)}
+    </>
+  );
+
+  return (
+    <tr className={`align-top ${span.changed ? 'bg-[#fefce8]' : ''}`}>
+      <td className="px-4 py-2">
+        <div className="flex items-center gap-2" style={{ paddingLeft: `${span.depth * 16}px` }}>
+          <AgentBadge agentId={span.agentName} />
+          <span className="text-[#0f172a]">{span.name}</span>
+        </div>
+        <p className="mt-1 text-[#94a3b8]" style={{ paddingLeft: `${span.depth * 16}px` }}>
+          {span.operationType}
+        </p>
+        {span.decisions.length > 0 && (
+          <ul className="mt-2 space-y-1" style={{ paddingLeft: `${span.depth * 16}px` }}>
+            {span.decisions.map((decision) => (
+              <li key={decision.question} className="text-[#64748b]">
+                {decision.question}:{' '}
+                <span className="text-[#991b1b] line-through">{decision.a ?? 'no decision'}</span>{' '}
+                {'\u2192'} <span className="text-[#065f46]">{decision.b ?? 'no decision'}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </td>
+      <td className="px-4 py-2 whitespace-nowrap">
+        <span className={`border px-2 py-0.5 ${ALIGNMENT_STYLES[span.alignment]}`}>
+          {ALIGNMENT_LABELS[span.alignment]}
+        </span>
+        {span.outputChanged && <p className="mt-1 text-[#92400e]">output differs</p>}
+      </td>
+      <td className="px-4 py-2 whitespace-nowrap text-right">{pair(span.durationMs, formatDuration)}</td>
+      <td className="px-4 py-2 whitespace-nowrap text-right">{pair(span.tokens, formatCount)}</td>
+      <td className="px-4 py-2 whitespace-nowrap text-right">{pair(span.toolCalls, formatCount)}</td>
+      <td className="px-4 py-2 whitespace-nowrap">
+        <span className="flex justify-end gap-3">
+          {span.spanIdA && (
+            <Link
+              href={`/audit/traces/${encodeURIComponent(traceA)}#span-${encodeURIComponent(span.spanIdA)}`}
+              className="text-[#0f172a] underline"
+            >
+              A
+            </Link>
+          )}
+          {span.spanIdB && (
+            <Link
+              href={`/audit/traces/${encodeURIComponent(traceB)}#span-${encodeURIComponent(span.spanIdB)}`}
+              className="text-[#0f172a] underline"
+            >
+              B
+            </Link>
+          )}
+        </span>
+      </td>
+    </tr>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function TraceComparison({ comparison }: TraceComparisonProps) {
+  const { a, b, counts } = comparison;
+  const outputChanged = comparison.output.some((line) => line.type !== 'same');
+
+  return (
+    <div className="space-y-6 font-mono">
+      {/* Traces */}
+      <div className="grid grid-cols-1 divide-y divide-[#1e293b] border border-[#1e293b] bg-[#fefcf3] md:grid-cols-2 md:divide-x md:divide-y-0">
+        <TraceHeader label="A (baseline)" trace={a} />
+        <TraceHeader label="B" trace={b} />
+      </div>
+
+      {/* Totals */}
+      <div className="border border-[#1e293b] bg-[#fefcf3]">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-[#1e293b] text-[#64748b]">
+              <th className="px-4 py-2 text-left font-normal" />
+              <th className="px-4 py-2 text-right font-normal">A</th>
+              <th className="px-4 py-2 text-right font-normal">B</th>
+              <th className="px-4 py-2 text-right font-normal">change</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-dashed divide-[#1e293b]">
+            <MetricRow label="duration" value={comparison.durationMs} format={formatDuration} />
+            <MetricRow label="tokens" value={comparison.tokens} format={formatCount} />
+            <MetricRow label="cost" value={comparison.cost} format={formatCost} />
+            <MetricRow label="tool calls" value={comparison.toolCalls} format={formatCount} lowerIsBetter={false} />
+            {comparison.tools.map((tool) => (
+              <MetricRow
+                key={tool.name}
+                label={tool.name}
+                value={tool}
+                format={formatCount}
+                lowerIsBetter={false}
+                indent
+              />
+            ))}
+            <MetricRow label="decisions" value={comparison.decisions} format={formatCount} lowerIsBetter={false} />
+          </tbody>
+        </table>
+      </div>
+
+      {/* Span alignment */}
+      <div className="border border-[#1e293b] bg-[#fefcf3]">
+        <div className="flex flex-wrap items-center gap-3 border-b border-[#1e293b] px-4 py-3 text-xs">
+          <span className="text-sm font-medium text-[#0f172a]">spans</span>
+          {(Object.keys(ALIGNMENT_LABELS) as SpanAlignment[]).map((alignment) => (
+            <span key={alignment} className={`border px-2 py-0.5 ${ALIGNMENT_STYLES[alignment]}`}>
+              {counts[alignment]} {ALIGNMENT_LABELS[alignment]}
+            </span>
+          ))}
+          <span className="text-[#64748b]">{counts.changed} changed</span>
+        </div>
+
+        {comparison.spans.length === 0 ? (
+          <p className="p-8 text-center text-sm text-[#64748b]">Neither trace has spans</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-[#1e293b] text-left text-[#64748b]">
+                <th className="px-4 py-2 font-normal">span</th>
+                <th className="px-4 py-2 font-normal">alignment</th>
+                <th className="px-4 py-2 text-right font-normal">duration</th>
+                <th className="px-4 py-2 text-right font-normal">tokens</th>
+                <th className="px-4 py-2 text-right font-normal">tool calls</th>
+                <th className="px-4 py-2 font-normal" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-dashed divide-[#1e293b]">
+              {comparison.spans.map((span, index) => (
+                <SpanRow key={index} span={span} traceA={a.traceId} traceB={b.traceId} />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Output */}
+      <div className="border border-[#1e293b] bg-[#fefcf3]">
+        <div className="flex items-center gap-3 border-b border-[#1e293b] px-4 py-3 text-xs">
+          <span className="text-sm font-medium text-[#0f172a]">output</span>
+          <span className="text-[#64748b]">{outputChanged ? 'differs' : 'identical'}</span>
+          {comparison.outputTruncated && <span className="text-[#92400e]">long outputs cut for the diff</span>}
+        </div>
+        {comparison.output.length === 0 ? (
+          <p className="p-4 text-xs text-[#64748b]">Neither trace has output</p>
+        ) : (
+          <pre className="max-h-96 overflow-y-auto whitespace-pre-wrap break-words bg-[#0f172a] p-4 text-xs">
+            {comparison.output.map((line, index) => (
+              <div
+                key={index}
+                className={
+                  line.type === 'added'
+                    ? 'bg-[#065f46] text-[#d1fae5]'
+                    : line.type === 'removed'
+                      ? 'bg-[#991b1b] text-[#fee2e2]'
+                      : 'text-[#fefcf3]'
+                }
+              >
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                {line.text}
+              </div>
+            ))}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+}
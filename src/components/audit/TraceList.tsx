@@ -113,6 +113,14 @@ function TraceRow({ trace }: { trace: LangfuseTrace }) {
               <DurationDisplay ms={trace.durationMs} />
             </p>
           </div>
+          {typeof trace.metadata?.conformanceScore === 'number' && (
+            <div className="text-right">
+              <span className="text-[#94a3b8]">conformance</span>
+              <p className={trace.metadata.conformanceScore === 100 ? 'text-[#065f46]' : 'text-[#92400e]'}>
+                {trace.metadata.conformanceScore}%
+              </p>
+            </div>
+          )}
           <div className="text-right">
             <span className="text-[#94a3b8]">tokens</span>
             <p className="text-[#0f172a]">
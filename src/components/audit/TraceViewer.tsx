@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import type { LangfuseTrace, LangfuseSpan } from '@/lib/langfuse';
 import { AgentBadge } from './AgentBadge';
 
@@ -10,12 +10,20 @@ import { AgentBadge } from './AgentBadge';
 
 interface TraceViewerProps {
   trace: LangfuseTrace;
+  /** Span to expand and scroll to (e.g. from the URL fragment) */
+  selectedSpanId?: string | null;
 }
 
 interface SpanNodeProps {
   span: LangfuseSpan;
   depth: number;
   isLast: boolean;
+  isSelected: boolean;
+}
+
+interface SpanTreeEntry {
+  span: LangfuseSpan;
+  depth: number;
 }
 
 // ============================================================================
@@ -62,18 +70,49 @@ function DurationDisplay({ ms }: { ms?: number }) {
   }
 }
 
+// ============================================================================
+// Elapsed Time Hook
+// ============================================================================
+
+/**
+ * Milliseconds since `startedAt`, ticking every second while `running`.
+ * Returns undefined once the operation is no longer running.
+ */
+function useElapsedMs(startedAt: string, running: boolean): number | undefined {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  return running ? Math.max(now - new Date(startedAt).getTime(), 0) : undefined;
+}
+
 // ============================================================================
 // Span Node Component
 // ============================================================================
 
-function SpanNode({ span, depth, isLast: _isLast }: SpanNodeProps) {
-  const [isExpanded, setIsExpanded] = useState(false);
+function SpanNode({ span, depth, isLast: _isLast, isSelected }: SpanNodeProps) {
+  const [isExpanded, setIsExpanded] = useState(isSelected);
+  const nodeRef = useRef<HTMLDivElement>(null);
+  const elapsedMs = useElapsedMs(span.startedAt, span.status === 'running');
+
+  useEffect(() => {
+    if (isSelected) {
+      setIsExpanded(true);
+      nodeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [isSelected]);
 
   const hasDetails =
-    span.input || span.output || span.reasoning || (span.toolCalls && span.toolCalls.length > 0);
+    span.input || span.output || span.reasoning ||
+    (span.toolCalls && span.toolCalls.length > 0) ||
+    (span.decisions && span.decisions.length > 0);
 
   return (
-    <div className="relative">
+    <div id={`span-${span.spanId}`} ref={nodeRef} className="relative">
       {/* Connector lines */}
       {depth > 0 && (
         <div
@@ -83,7 +122,9 @@ function SpanNode({ span, depth, isLast: _isLast }: SpanNodeProps) {
       )}
 
       <div
-        className="relative border-b border-[#1e293b] bg-[#fefcf3] py-2"
+        className={`relative border-b border-[#1e293b] py-2 ${
+          isSelected ? 'bg-[#fefce8] outline outline-2 outline-[#f59e0b]' : 'bg-[#fefcf3]'
+        }`}
         style={{ paddingLeft: `${depth * 24 + 12}px` }}
       >
         {/* Horizontal connector */}
@@ -107,7 +148,12 @@ function SpanNode({ span, depth, isLast: _isLast }: SpanNodeProps) {
 
           <div className="flex flex-1 items-center gap-3 font-mono text-sm">
             <span className="text-[#64748b]">{span.operationType}</span>
-            <span className="font-medium text-[#0f172a]">{span.name || span.spanId}</span>
+            <a
+              href={`#span-${span.spanId}`}
+              className="font-medium text-[#0f172a] hover:underline"
+            >
+              {span.name || span.spanId}
+            </a>
             {span.agentName && (
               <AgentBadge agentId={span.agentName} />
             )}
@@ -116,7 +162,7 @@ function SpanNode({ span, depth, isLast: _isLast }: SpanNodeProps) {
           <div className="flex items-center gap-3 text-xs">
             <StatusBadge status={span.status} />
             <span className="font-mono text-[#64748b]">
-              <DurationDisplay ms={span.durationMs} />
+              <DurationDisplay ms={span.durationMs ?? elapsedMs} />
             </span>
           </div>
         </div>
@@ -167,6 +213,24 @@ function SpanNode({ span, depth, isLast: _isLast }: SpanNodeProps) {
               </div>
             )}
 
+            {/* Decisions */}
+            {span.decisions && span.decisions.length > 0 && (
+              <div>
+                <span className="text-xs text-[#64748b]">
+                  decisions: ({span.decisions.length})
+                </span>
+                <div className="mt-1 space-y-1">
+                  {span.decisions.map((decision, idx) => (
+                    <div key={idx} className="bg-[#fffef5] p-2 text-xs">
+                      <span className="font-mono text-[#64748b]">{decision.question}</span>
+                      <span className="mx-2 text-[#cbd5e1]">{'\u2192'}</span>
+                      <span className="font-mono font-medium text-[#0f172a]">{decision.answer}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Output */}
             {span.output && Object.keys(span.output).length > 0 && (
               <div>
@@ -188,6 +252,8 @@ function SpanNode({ span, depth, isLast: _isLast }: SpanNodeProps) {
 // ============================================================================
 
 function TraceHeader({ trace }: { trace: LangfuseTrace }) {
+  const elapsedMs = useElapsedMs(trace.startedAt, trace.status === 'running');
+
   return (
     <div className="border-b border-[#1e293b] bg-[#fefcf3] p-4">
       <div className="flex items-start justify-between">
@@ -211,7 +277,7 @@ function TraceHeader({ trace }: { trace: LangfuseTrace }) {
         <div>
           <span className="text-xs text-[#64748b]">duration</span>
           <p className="font-mono text-sm font-medium text-[#0f172a]">
-            <DurationDisplay ms={trace.durationMs} />
+            <DurationDisplay ms={trace.durationMs ?? elapsedMs} />
           </p>
         </div>
         <div>
@@ -289,14 +355,33 @@ function TraceIOPanel({ trace }: { trace: LangfuseTrace }) {
 // Main TraceViewer Component
 // ============================================================================
 
-export function TraceViewer({ trace }: TraceViewerProps) {
-  // Build span tree from flat list
-  const buildSpanTree = (spans: LangfuseSpan[]): LangfuseSpan[] => {
-    // For now, return flat list - tree building can be enhanced later
-    return spans || [];
+/**
+ * Flatten spans into depth-first tree order using parentSpanId.
+ * Spans whose parent is not in the trace are treated as roots.
+ */
+function buildSpanTree(spans: LangfuseSpan[]): SpanTreeEntry[] {
+  const ids = new Set(spans.map((span) => span.spanId));
+  const children = new Map<string | undefined, LangfuseSpan[]>();
+
+  for (const span of spans) {
+    const parent = span.parentSpanId && ids.has(span.parentSpanId) ? span.parentSpanId : undefined;
+    children.set(parent, [...(children.get(parent) || []), span]);
+  }
+
+  const entries: SpanTreeEntry[] = [];
+  const visit = (parent: string | undefined, depth: number) => {
+    for (const span of children.get(parent) || []) {
+      entries.push({ span, depth });
+      visit(span.spanId, depth + 1);
+    }
   };
+  visit(undefined, 0);
+
+  return entries;
+}
 
-  const spanTree = buildSpanTree(trace.spans);
+export function TraceViewer({ trace, selectedSpanId }: TraceViewerProps) {
+  const spanTree = buildSpanTree(trace.spans || []);
 
   return (
     <div className="border border-[#1e293b]">
@@ -312,12 +397,13 @@ export function TraceViewer({ trace }: TraceViewerProps) {
         </div>
         {spanTree.length > 0 ? (
           <div>
-            {spanTree.map((span, index) => (
+            {spanTree.map(({ span, depth }, index) => (
               <SpanNode
                 key={span.id || span.spanId}
                 span={span}
-                depth={0}
+                depth={depth}
                 isLast={index === spanTree.length - 1}
+                isSelected={span.spanId === selectedSpanId}
               />
             ))}
           </div>
@@ -1,5 +1,7 @@
 'use client';
 
+import type { WorkflowQuestion } from '@/types/audit';
+
 export interface WorkflowStep {
   order: number;
   agent: string;
@@ -13,6 +15,8 @@ export interface WorkflowData {
   description?: string;
   agents: string[];
   steps: WorkflowStep[];
+  /** Questions the launch wizard asks (defaults when omitted) */
+  questions?: WorkflowQuestion[];
 }
 
 export interface WorkflowDiagramProps {
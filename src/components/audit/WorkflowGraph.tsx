@@ -0,0 +1,626 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import type {
+  OrchestrationGate,
+  OrchestrationPlan,
+  OrchestrationWave,
+  TaskRunStats,
+  WorkflowRunStats,
+} from '@/types/orchestration';
+import { AgentBadge, getAgentInfo } from './AgentBadge';
+
+/**
+ * WorkflowGraph - Draws an orchestration plan as a directed acyclic graph.
+ * Waves are laid out in columns by dependency depth, tasks of a parallel
+ * wave are stacked in one column, phases are shaded bands and gates are
+ * diamonds on the edges they guard. Scroll to zoom, drag to pan.
+ *
+ * With run stats, each agent node shows its success rate, median duration
+ * and skip rate, and agents that ran outside the plan are listed below.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WorkflowGraphProps {
+  plan: OrchestrationPlan;
+  /** Height of the viewport in pixels */
+  height?: number;
+  /** Aggregated run data to overlay on the nodes */
+  stats?: WorkflowRunStats;
+}
+
+interface NodeLayout {
+  agent: string;
+  task: string;
+  stats?: TaskRunStats;
+  x: number;
+  y: number;
+}
+
+interface WaveLayout {
+  wave: OrchestrationWave;
+  phaseNumber: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  nodes: NodeLayout[];
+}
+
+interface EdgeLayout {
+  from: string;
+  to: string;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  gates: OrchestrationGate[];
+}
+
+interface PhaseLayout {
+  number: number;
+  name: string;
+  x: number;
+  width: number;
+}
+
+interface GraphLayout {
+  waves: WaveLayout[];
+  edges: EdgeLayout[];
+  phases: PhaseLayout[];
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+  nodeHeight: number;
+  width: number;
+  height: number;
+}
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 34;
+const NODE_STATS_HEIGHT = 18;
+const NODE_GAP = 8;
+const GROUP_PADDING = 10;
+const COLUMN_GAP = 72;
+const ROW_GAP = 24;
+const PHASE_LABEL_HEIGHT = 32;
+const TERMINAL_RADIUS = 10;
+const MARGIN = 24;
+
+const START_ID = 'start';
+const END_ID = 'complete';
+
+/**
+ * Lay out a plan: each wave's column is one past the deepest wave it
+ * depends on, and waves sharing a column are stacked. Nodes grow to fit
+ * a stats line when there is run data.
+ */
+function layoutGraph(plan: OrchestrationPlan, stats?: WorkflowRunStats): GraphLayout {
+  const hasRuns = !!stats && stats.totalRuns > 0;
+  const nodeHeight = hasRuns ? NODE_HEIGHT + NODE_STATS_HEIGHT : NODE_HEIGHT;
+  const taskStats = new Map(
+    (hasRuns ? stats.tasks : []).map((task) => [`${task.waveId}:${task.taskIndex}`, task])
+  );
+  const entries = plan.phases.flatMap((phase) =>
+    phase.waves.map((wave) => ({ wave, phaseNumber: phase.number }))
+  );
+  const byId = new Map(entries.map((entry) => [entry.wave.id, entry]));
+
+  // Column of each wave by longest dependency path
+  const columns = new Map<string, number>();
+  const getColumn = (id: string, seen: Set<string> = new Set()): number => {
+    const known = columns.get(id);
+    if (known !== undefined) return known;
+    if (seen.has(id)) return 0;
+    seen.add(id);
+
+    const deps = (byId.get(id)?.wave.dependencies || []).filter((dep) => byId.has(dep));
+    const column = deps.length === 0 ? 0 : Math.max(...deps.map((dep) => getColumn(dep, seen))) + 1;
+    columns.set(id, column);
+    return column;
+  };
+  entries.forEach((entry) => getColumn(entry.wave.id));
+
+  const columnCount = Math.max(0, ...columns.values()) + 1;
+  const columnWaves: typeof entries[] = Array.from({ length: columnCount }, () => []);
+  entries.forEach((entry) => columnWaves[columns.get(entry.wave.id)!].push(entry));
+
+  const groupWidth = NODE_WIDTH + GROUP_PADDING * 2;
+  const groupHeight = (taskCount: number) =>
+    Math.max(taskCount, 1) * (nodeHeight + NODE_GAP) - NODE_GAP + GROUP_PADDING * 2;
+  const columnHeight = (waves: typeof entries) =>
+    waves.reduce((sum, entry) => sum + groupHeight(entry.wave.tasks.length), 0) +
+    Math.max(waves.length - 1, 0) * ROW_GAP;
+
+  const contentHeight = Math.max(...columnWaves.map(columnHeight), nodeHeight);
+  const top = MARGIN + PHASE_LABEL_HEIGHT;
+  const centerY = top + contentHeight / 2;
+  const firstColumnX = MARGIN + TERMINAL_RADIUS * 2 + COLUMN_GAP;
+
+  const waves: WaveLayout[] = [];
+  columnWaves.forEach((waveEntries, column) => {
+    const x = firstColumnX + column * (groupWidth + COLUMN_GAP);
+    let y = top + (contentHeight - columnHeight(waveEntries)) / 2;
+
+    for (const { wave, phaseNumber } of waveEntries) {
+      const height = groupHeight(wave.tasks.length);
+      waves.push({
+        wave,
+        phaseNumber,
+        x,
+        y,
+        width: groupWidth,
+        height,
+        nodes: wave.tasks.map((task, index) => ({
+          agent: task.agent,
+          task: task.task,
+          stats: taskStats.get(`${wave.id}:${index}`),
+          x: x + GROUP_PADDING,
+          y: y + GROUP_PADDING + index * (nodeHeight + NODE_GAP),
+        })),
+      });
+      y += height + ROW_GAP;
+    }
+  });
+
+  const lastColumnRight = firstColumnX + columnCount * (groupWidth + COLUMN_GAP) - COLUMN_GAP;
+  const start = { x: MARGIN + TERMINAL_RADIUS, y: centerY };
+  const end = { x: lastColumnRight + COLUMN_GAP + TERMINAL_RADIUS, y: centerY };
+  const waveById = new Map(waves.map((layout) => [layout.wave.id, layout]));
+
+  // Edges between dependent waves, from the start and into the end
+  const edges: EdgeLayout[] = [];
+  const addEdge = (from: string, to: string) => {
+    const source = waveById.get(from);
+    const target = waveById.get(to);
+    edges.push({
+      from,
+      to,
+      x1: source ? source.x + source.width : start.x + TERMINAL_RADIUS,
+      y1: source ? source.y + source.height / 2 : start.y,
+      x2: target ? target.x : end.x - TERMINAL_RADIUS,
+      y2: target ? target.y + target.height / 2 : end.y,
+      gates: [],
+    });
+  };
+
+  const dependedOn = new Set<string>();
+  for (const layout of waves) {
+    const deps = layout.wave.dependencies.filter((dep) => waveById.has(dep));
+    deps.forEach((dep) => dependedOn.add(dep));
+    if (deps.length === 0) addEdge(START_ID, layout.wave.id);
+    deps.forEach((dep) => addEdge(dep, layout.wave.id));
+  }
+  waves.filter((layout) => !dependedOn.has(layout.wave.id)).forEach((layout) => addEdge(layout.wave.id, END_ID));
+  if (waves.length === 0) addEdge(START_ID, END_ID);
+
+  // Gates sit on their edge, or on the first edge leaving their source wave
+  for (const gate of plan.gates) {
+    const edge = edges.find((e) => e.from === gate.from && e.to === gate.to)
+      || edges.find((e) => e.from === gate.from)
+      || edges[edges.length - 1];
+    edge?.gates.push(gate);
+  }
+
+  const phases: PhaseLayout[] = plan.phases.flatMap((phase) => {
+    const phaseWaves = waves.filter((layout) => layout.phaseNumber === phase.number);
+    if (phaseWaves.length === 0) return [];
+
+    const left = Math.min(...phaseWaves.map((layout) => layout.x)) - COLUMN_GAP / 4;
+    const right = Math.max(...phaseWaves.map((layout) => layout.x + layout.width)) + COLUMN_GAP / 4;
+    return [{ number: phase.number, name: phase.name, x: left, width: right - left }];
+  });
+
+  return {
+    waves,
+    edges,
+    phases,
+    start,
+    end,
+    nodeHeight,
+    width: end.x + TERMINAL_RADIUS + MARGIN,
+    height: top + contentHeight + MARGIN,
+  };
+}
+
+// ============================================================================
+// Zoom and Pan
+// ============================================================================
+
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 2.5;
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Fit the graph inside the viewport, never enlarging it.
+ */
+function fitTransform(layout: GraphLayout, width: number, height: number): ViewTransform {
+  const scale = Math.min(1, width / layout.width, height / layout.height);
+  return {
+    scale,
+    x: (width - layout.width * scale) / 2,
+    y: (height - layout.height * scale) / 2,
+  };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function formatDuration(ms: number | null): string {
+  if (ms === null || ms <= 0) return '--';
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60_000).toFixed(1)}m`;
+}
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function getSuccessColor(rate: number): string {
+  if (rate >= 0.9) return '#10b981';
+  if (rate >= 0.6) return '#f59e0b';
+  return '#ef4444';
+}
+
+// ============================================================================
+// Agent Node Component
+// ============================================================================
+
+function AgentNode({ node, height }: { node: NodeLayout; height: number }) {
+  const stats = node.stats;
+  const ran = !stats || stats.skipRate < 1;
+  const title = stats
+    ? `${node.task}\n${stats.completed} completed, ${stats.failed} failed, ${stats.skipped} skipped`
+    : node.task;
+
+  return (
+    <g opacity={ran ? 1 : 0.5}>
+      <title>{title}</title>
+      <rect
+        x={node.x}
+        y={node.y}
+        width={NODE_WIDTH}
+        height={height}
+        fill="#fefcf3"
+        stroke={getAgentInfo(node.agent).color}
+        strokeDasharray={ran ? undefined : '3 3'}
+      />
+      <foreignObject x={node.x} y={node.y} width={NODE_WIDTH} height={NODE_HEIGHT}>
+        <div className="flex h-full items-center px-2">
+          <AgentBadge agentId={node.agent} className="max-w-full truncate" />
+        </div>
+      </foreignObject>
+      {stats && (
+        <>
+          <text x={node.x + 8} y={node.y + NODE_HEIGHT + 6} className="fill-[#64748b] font-mono text-[10px]">
+            {ran
+              ? `${formatPercent(stats.successRate)} ok \u00B7 ${formatDuration(stats.medianDurationMs)} \u00B7 ${formatPercent(stats.skipRate)} skip`
+              : 'never ran'}
+          </text>
+          {ran && (
+            <rect
+              x={node.x}
+              y={node.y + height - 3}
+              width={NODE_WIDTH * stats.successRate}
+              height={3}
+              fill={getSuccessColor(stats.successRate)}
+            />
+          )}
+        </>
+      )}
+    </g>
+  );
+}
+
+// ============================================================================
+// Run Summary Component
+// ============================================================================
+
+function RunSummary({ stats }: { stats: WorkflowRunStats }) {
+  const totalDuration = stats.agents.reduce((sum, agent) => sum + agent.totalDurationMs, 0);
+  const unplanned = stats.agents.filter((agent) => !agent.planned && agent.runs > 0);
+  const neverRan = stats.agents.filter((agent) => agent.planned && agent.runs === 0);
+  const busiest = stats.agents.filter((agent) => agent.totalDurationMs > 0).slice(0, 5);
+
+  return (
+    <div className="space-y-2 border-t border-[#1e293b] bg-[#fefcf3] px-3 py-2 text-xs text-[#64748b]">
+      <div>
+        <span className="text-[#0f172a]">{stats.totalRuns}</span> run{stats.totalRuns === 1 ? '' : 's'}
+        {stats.since && <> since {new Date(stats.since).toLocaleDateString()}</>}
+        {stats.totalRuns > 0 && (
+          <>
+            {' \u00B7 '}<span className="text-[#0f172a]">{formatPercent(stats.successRate)}</span> completed
+            {' \u00B7 '}median <span className="text-[#0f172a]">{formatDuration(stats.medianDurationMs)}</span>
+          </>
+        )}
+      </div>
+
+      {busiest.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span>time spent:</span>
+          {busiest.map((agent) => (
+            <span key={agent.agent} className="flex items-center gap-1">
+              <AgentBadge agentId={agent.agent} />
+              <span className="text-[#0f172a]">{formatPercent(agent.totalDurationMs / totalDuration)}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {unplanned.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span>ran but not planned:</span>
+          {unplanned.map((agent) => (
+            <span key={agent.agent} className="flex items-center gap-1">
+              <AgentBadge agentId={agent.agent} />
+              <span>{agent.runs}/{stats.totalRuns}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {stats.totalRuns > 0 && neverRan.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span>planned but never ran:</span>
+          {neverRan.map((agent) => (
+            <AgentBadge key={agent.agent} agentId={agent.agent} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Gate Marker Component
+// ============================================================================
+
+function GateMarker({ edge }: { edge: EdgeLayout }) {
+  const size = 7;
+  const x = (edge.x1 + edge.x2) / 2;
+  const y = (edge.y1 + edge.y2) / 2;
+  const blocking = edge.gates.some((gate) => gate.blocking);
+
+  return (
+    <g>
+      <title>
+        {edge.gates.map((gate) => `${gate.blocking ? '[blocking] ' : ''}${gate.condition}`).join('\n')}
+      </title>
+      <polygon
+        points={`${x},${y - size} ${x + size},${y} ${x},${y + size} ${x - size},${y}`}
+        fill={blocking ? '#1e293b' : '#fffef5'}
+        stroke="#1e293b"
+        strokeWidth={1.5}
+      />
+      {edge.gates.length > 1 && (
+        <text x={x} y={y - size - 4} textAnchor="middle" className="fill-[#1e293b] font-mono text-[10px]">
+          {edge.gates.length}
+        </text>
+      )}
+    </g>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function WorkflowGraph({ plan, height = 420, stats }: WorkflowGraphProps) {
+  const layout = useMemo(() => layoutGraph(plan, stats), [plan, stats]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [view, setView] = useState<ViewTransform>({ scale: 1, x: 0, y: 0 });
+
+  const resetView = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setView(fitTransform(layout, container.clientWidth, container.clientHeight));
+  }, [layout]);
+
+  useEffect(() => {
+    resetView();
+  }, [resetView]);
+
+  const zoomAt = useCallback((factor: number, originX: number, originY: number) => {
+    setView((prev) => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, prev.scale * factor));
+      const ratio = scale / prev.scale;
+      return {
+        scale,
+        x: originX - (originX - prev.x) * ratio,
+        y: originY - (originY - prev.y) * ratio,
+      };
+    });
+  }, []);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomAt(event.deltaY < 0 ? 1.1 : 1 / 1.1, event.clientX - rect.left, event.clientY - rect.top);
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    dragRef.current = { x: event.clientX, y: event.clientY };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.x;
+    const dy = event.clientY - drag.y;
+    dragRef.current = { x: event.clientX, y: event.clientY };
+    setView((prev) => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    dragRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  const zoomCenter = (factor: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    zoomAt(factor, container.clientWidth / 2, container.clientHeight / 2);
+  };
+
+  return (
+    <div className="border border-[#1e293b] bg-[#fffef5] font-mono">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between border-b border-[#1e293b] bg-[#fefcf3] px-3 py-2">
+        <div className="flex items-center gap-4 text-xs text-[#64748b]">
+          <span className="flex items-center gap-1.5">
+            <svg width="12" height="12"><polygon points="6,0 12,6 6,12 0,6" fill="#1e293b" /></svg>
+            blocking gate
+          </span>
+          <span className="flex items-center gap-1.5">
+            <svg width="12" height="12"><polygon points="6,1 11,6 6,11 1,6" fill="#fffef5" stroke="#1e293b" /></svg>
+            advisory gate
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="inline-block h-3 w-4 border border-dashed border-[#1e293b]" />
+            parallel wave
+          </span>
+          {stats && (
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block h-[3px] w-4 bg-[#10b981]" />
+              success rate
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => zoomCenter(1 / 1.2)}
+            className="border border-[#1e293b] px-2 text-xs text-[#0f172a] hover:bg-[#fefce8]"
+            aria-label="Zoom out"
+          >
+            {'\u2212'}
+          </button>
+          <span className="w-12 text-center text-xs text-[#64748b]">{Math.round(view.scale * 100)}%</span>
+          <button
+            type="button"
+            onClick={() => zoomCenter(1.2)}
+            className="border border-[#1e293b] px-2 text-xs text-[#0f172a] hover:bg-[#fefce8]"
+            aria-label="Zoom in"
+          >
+            +
+          </button>
+          <button
+            type="button"
+            onClick={resetView}
+            className="ml-2 border border-[#1e293b] px-2 text-xs text-[#0f172a] hover:bg-[#fefce8]"
+          >
+            fit
+          </button>
+        </div>
+      </div>
+
+      {/* Canvas */}
+      <div
+        ref={containerRef}
+        className="relative cursor-grab overflow-hidden active:cursor-grabbing"
+        style={{ height, touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <svg width="100%" height="100%" role="img" aria-label={`${plan.name} workflow graph`}>
+          <defs>
+            <marker id="workflow-graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto">
+              <path d="M0,0 L10,5 L0,10 z" fill="#1e293b" />
+            </marker>
+          </defs>
+
+          <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+            {/* Phase bands */}
+            {layout.phases.map((phase, index) => (
+              <g key={phase.number}>
+                <rect
+                  x={phase.x}
+                  y={MARGIN}
+                  width={phase.width}
+                  height={layout.height - MARGIN * 2}
+                  fill={index % 2 === 0 ? '#fefcf3' : '#fefce8'}
+                  stroke="#cbd5e1"
+                  strokeDasharray="2 4"
+                />
+                <text x={phase.x + 8} y={MARGIN + 18} className="fill-[#64748b] font-mono text-[11px]">
+                  phase {phase.number}: {phase.name}
+                </text>
+              </g>
+            ))}
+
+            {/* Edges */}
+            {layout.edges.map((edge) => {
+              const midX = (edge.x1 + edge.x2) / 2;
+              return (
+                <path
+                  key={`${edge.from}-${edge.to}`}
+                  d={`M${edge.x1},${edge.y1} C${midX},${edge.y1} ${midX},${edge.y2} ${edge.x2},${edge.y2}`}
+                  fill="none"
+                  stroke="#1e293b"
+                  strokeWidth={1.25}
+                  markerEnd="url(#workflow-graph-arrow)"
+                />
+              );
+            })}
+
+            {/* Wave groups and agent nodes */}
+            {layout.waves.map((waveLayout) => (
+              <g key={waveLayout.wave.id}>
+                <title>{`${waveLayout.wave.id}${waveLayout.wave.parallel ? ' (parallel)' : ''}`}</title>
+                <rect
+                  x={waveLayout.x}
+                  y={waveLayout.y}
+                  width={waveLayout.width}
+                  height={waveLayout.height}
+                  fill="#fffef5"
+                  stroke="#1e293b"
+                  strokeDasharray={waveLayout.wave.parallel ? '4 3' : undefined}
+                />
+                {waveLayout.nodes.map((node, index) => (
+                  <AgentNode key={`${node.agent}-${index}`} node={node} height={layout.nodeHeight} />
+                ))}
+              </g>
+            ))}
+
+            {/* Gate markers */}
+            {layout.edges.filter((edge) => edge.gates.length > 0).map((edge) => (
+              <GateMarker key={`gate-${edge.from}-${edge.to}`} edge={edge} />
+            ))}
+
+            {/* Start and end */}
+            <circle cx={layout.start.x} cy={layout.start.y} r={TERMINAL_RADIUS} fill="#1e293b" />
+            <circle cx={layout.end.x} cy={layout.end.y} r={TERMINAL_RADIUS} fill="#fffef5" stroke="#1e293b" strokeWidth={3} />
+          </g>
+        </svg>
+      </div>
+
+      {stats && <RunSummary stats={stats} />}
+    </div>
+  );
+}
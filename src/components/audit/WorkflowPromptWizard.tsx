@@ -1,56 +1,13 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import type { WorkflowQuestion, WorkflowAnswer } from '@/types/audit';
-
-/**
- * Default questions for workflow launch configuration.
- * These questions help gather context for the templated prompt.
- */
-const DEFAULT_QUESTIONS: WorkflowQuestion[] = [
-  {
-    id: 'change-type',
-    header: 'Change Type',
-    question: 'What type of change is this?',
-    multiSelect: false,
-    options: [
-      { label: 'New functionality', description: 'Adding new features or capabilities' },
-      { label: 'Bug fix', description: 'Fixing incorrect behavior or errors' },
-      { label: 'Refactor', description: 'Improving code structure without changing behavior' },
-      { label: 'Performance', description: 'Optimizing speed or resource usage' },
-      { label: 'Documentation', description: 'Adding or updating documentation' },
-      { label: 'Testing', description: 'Adding or improving tests' },
-    ],
-  },
-  {
-    id: 'affected-area',
-    header: 'Affected Area',
-    question: 'Which areas of the codebase are affected?',
-    multiSelect: true,
-    options: [
-      { label: 'Frontend', description: 'UI components, pages, client-side logic' },
-      { label: 'Backend', description: 'API routes, server-side logic' },
-      { label: 'Database', description: 'Schema, migrations, queries' },
-      { label: 'Infrastructure', description: 'Deployment, CI/CD, configuration' },
-      { label: 'Testing', description: 'Test files, test utilities' },
-      { label: 'Documentation', description: 'README, docs, comments' },
-    ],
-  },
-  {
-    id: 'description',
-    header: 'Description',
-    question: 'Describe what you want to accomplish:',
-    multiSelect: false,
-    options: [], // Empty options = free text input
-  },
-  {
-    id: 'files-involved',
-    header: 'Files Involved',
-    question: 'Are there specific files or directories involved? (optional)',
-    multiSelect: false,
-    options: [], // Empty options = free text input
-  },
-];
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  buildPromptContext,
+  renderPromptTemplate,
+} from '@/lib/audit/templates';
+import { DEFAULT_WORKFLOW_QUESTIONS, getQuestionLabels } from '@/lib/audit/questions';
 
 export interface WorkflowPromptWizardProps {
   /** The workflow ID being configured */
@@ -59,6 +16,12 @@ export interface WorkflowPromptWizardProps {
   workflowName?: string;
   /** Custom questions to use instead of defaults */
   questions?: WorkflowQuestion[];
+  /** Launch prompt template to preview answers with (defaults to the built-in template) */
+  promptTemplate?: string;
+  /** Answers to start from, such as a saved preset's */
+  initialAnswers?: WorkflowAnswer[];
+  /** Callback whenever an answer changes */
+  onAnswersChange?: (answers: WorkflowAnswer[]) => void;
   /** Callback when wizard is completed with all answers */
   onComplete: (answers: WorkflowAnswer[]) => void;
   /** Callback to cancel the wizard */
@@ -68,12 +31,26 @@ export interface WorkflowPromptWizardProps {
 export function WorkflowPromptWizard({
   workflowId,
   workflowName,
-  questions = DEFAULT_QUESTIONS,
+  questions = DEFAULT_WORKFLOW_QUESTIONS,
+  promptTemplate = DEFAULT_PROMPT_TEMPLATE,
+  initialAnswers,
+  onAnswersChange,
   onComplete,
   onCancel,
 }: WorkflowPromptWizardProps) {
   const [currentStep, setCurrentStep] = useState(0);
-  const [answers, setAnswers] = useState<Map<string, WorkflowAnswer>>(new Map());
+  // Answers to questions the workflow no longer asks are dropped
+  const [answers, setAnswers] = useState<Map<string, WorkflowAnswer>>(
+    () => new Map(
+      (initialAnswers || [])
+        .filter((answer) => questions.some((question) => question.id === answer.questionId))
+        .map((answer) => [answer.questionId, answer])
+    )
+  );
+
+  useEffect(() => {
+    onAnswersChange?.(Array.from(answers.values()));
+  }, [answers, onAnswersChange]);
 
   const currentQuestion = questions[currentStep];
   const isLastStep = currentStep === questions.length - 1;
@@ -150,8 +127,22 @@ export function WorkflowPromptWizard({
     ? customText.trim().length > 0
     : selectedOptions.length > 0;
 
-  // For optional questions (like files-involved), allow skipping
-  const isOptional = currentQuestion?.id === 'files-involved';
+  // Optional questions can be skipped
+  const isOptional = currentQuestion?.optional === true;
+
+  // Render the prompt as it will be launched, with the answers so far
+  const preview = useMemo(() => {
+    try {
+      const context = buildPromptContext(
+        { id: workflowId, name: workflowName || workflowId },
+        Array.from(answers.values()),
+        getQuestionLabels(questions)
+      );
+      return { text: renderPromptTemplate(promptTemplate, context), error: null };
+    } catch (err) {
+      return { text: '', error: err instanceof Error ? err.message : 'Invalid template' };
+    }
+  }, [workflowId, workflowName, answers, questions, promptTemplate]);
 
   return (
     <div className="font-mono">
@@ -248,6 +239,20 @@ export function WorkflowPromptWizard({
         </div>
       )}
 
+      {/* Prompt preview */}
+      <div className="mb-6 border border-[#1e293b] bg-[#fffef5]">
+        <div className="border-b border-[#1e293b] px-3 py-2 text-xs text-[#1e293b] opacity-70">
+          Prompt preview
+        </div>
+        {preview.error ? (
+          <p className="px-3 py-2 text-xs text-red-600">{preview.error}</p>
+        ) : (
+          <pre className="max-h-48 overflow-auto whitespace-pre-wrap px-3 py-2 text-xs text-[#0f172a]">
+            {preview.text}
+          </pre>
+        )}
+      </div>
+
       {/* Navigation buttons */}
       <div className="flex items-center justify-between border-t border-[#1e293b] pt-4">
         <div>
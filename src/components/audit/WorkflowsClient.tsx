@@ -1,11 +1,24 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import type { WorkflowData } from './WorkflowDiagram';
-import type { WorkflowAnswer, WorkflowLaunchResponse } from '@/types/audit';
+import type {
+  WorkflowAnswer,
+  WorkflowLaunchesResponse,
+  WorkflowLaunchResponse,
+  WorkflowPreset,
+  WorkflowRunsResponse,
+  WorkflowStatsResponse,
+  WorkflowTemplateResponse,
+} from '@/types/audit';
 import { WorkflowDiagram } from './WorkflowDiagram';
+import { WorkflowGraph } from './WorkflowGraph';
 import { WorkflowPromptWizard } from './WorkflowPromptWizard';
 import { CommandLaunchModal } from './CommandLaunchModal';
+import { LaunchPresets } from './LaunchPresets';
+import { LaunchHistory } from './LaunchHistory';
 
 export interface WorkflowsClientProps {
   /** Array of workflows to display */
@@ -15,12 +28,85 @@ export interface WorkflowsClientProps {
 type ViewState = 'list' | 'wizard' | 'modal';
 
 export function WorkflowsClient({ workflows }: WorkflowsClientProps) {
+  const router = useRouter();
   const [viewState, setViewState] = useState<ViewState>('list');
   const [selectedWorkflow, setSelectedWorkflow] = useState<WorkflowData | null>(null);
   const [wizardAnswers, setWizardAnswers] = useState<WorkflowAnswer[]>([]);
   const [generatedPrompt, setGeneratedPrompt] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [graph, setGraph] = useState<WorkflowStatsResponse | null>(null);
+  const [template, setTemplate] = useState<WorkflowTemplateResponse | null>(null);
+  const [currentAnswers, setCurrentAnswers] = useState<WorkflowAnswer[]>([]);
+  const [preset, setPreset] = useState<WorkflowPreset | null>(null);
+  const [launches, setLaunches] = useState<WorkflowLaunchesResponse | null>(null);
+  const [launchId, setLaunchId] = useState<string | null>(null);
+  const [runner, setRunner] = useState<Pick<WorkflowRunsResponse, 'enabled' | 'defaultCwd'> | null>(null);
+  const [isStartingRun, setIsStartingRun] = useState(false);
+
+  // Check once whether launches can be run headless on this server
+  useEffect(() => {
+    fetch('/api/audit/runs')
+      .then(async (response) => {
+        if (!response.ok) return;
+        const data: WorkflowRunsResponse = await response.json();
+        setRunner({ enabled: data.enabled, defaultCwd: data.defaultCwd });
+      })
+      .catch(() => {
+        // Launches can still be copied without the runner
+      });
+  }, []);
+
+  const fetchLaunches = useCallback(async (workflowId: string) => {
+    try {
+      const response = await fetch(`/api/audit/workflows/${encodeURIComponent(workflowId)}/launches?limit=10`);
+      if (!response.ok) return;
+      const data: WorkflowLaunchesResponse = await response.json();
+      setLaunches(data);
+    } catch {
+      // The wizard works without the launch history
+    }
+  }, []);
+
+  // Load the selected workflow's plan and run data for its graph, and its
+  // launch prompt template for the wizard's preview
+  useEffect(() => {
+    if (!selectedWorkflow) {
+      setGraph(null);
+      setTemplate(null);
+      setLaunches(null);
+      return;
+    }
+
+    let cancelled = false;
+    const workflowId = selectedWorkflow.id || selectedWorkflow.name.toLowerCase().replace(/\s+/g, '-');
+
+    fetch(`/api/audit/workflows/${encodeURIComponent(workflowId)}/stats`)
+      .then(async (response) => {
+        if (!response.ok) return;
+        const data: WorkflowStatsResponse = await response.json();
+        if (!cancelled) setGraph(data);
+      })
+      .catch(() => {
+        // The wizard works without the graph
+      });
+
+    fetch(`/api/audit/workflows/${encodeURIComponent(workflowId)}/template`)
+      .then(async (response) => {
+        if (!response.ok) return;
+        const data: WorkflowTemplateResponse = await response.json();
+        if (!cancelled) setTemplate(data);
+      })
+      .catch(() => {
+        // The preview falls back to the built-in template
+      });
+
+    fetchLaunches(workflowId);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedWorkflow, fetchLaunches]);
 
   // Handle workflow tile click - show the wizard
   const handleWorkflowClick = useCallback((workflowId: string) => {
@@ -29,6 +115,7 @@ export function WorkflowsClient({ workflows }: WorkflowsClientProps) {
     );
     if (workflow) {
       setSelectedWorkflow(workflow);
+      setPreset(null);
       setViewState('wizard');
       setError(null);
     }
@@ -53,6 +140,7 @@ export function WorkflowsClient({ workflows }: WorkflowsClientProps) {
         body: JSON.stringify({
           workflowId,
           answers,
+          presetId: preset?.id,
         }),
       });
 
@@ -63,7 +151,9 @@ export function WorkflowsClient({ workflows }: WorkflowsClientProps) {
 
       const data: WorkflowLaunchResponse = await response.json();
       setGeneratedPrompt(data.copyableText);
+      setLaunchId(data.launchId);
       setViewState('modal');
+      fetchLaunches(workflowId);
     } catch (err) {
       console.error('Error generating command:', err);
       setError(err instanceof Error ? err.message : 'Failed to generate command');
@@ -71,11 +161,12 @@ export function WorkflowsClient({ workflows }: WorkflowsClientProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [selectedWorkflow]);
+  }, [selectedWorkflow, preset, fetchLaunches]);
 
   // Handle wizard cancel - return to list
   const handleWizardCancel = useCallback(() => {
     setSelectedWorkflow(null);
+    setPreset(null);
     setViewState('list');
     setError(null);
   }, []);
@@ -83,13 +174,46 @@ export function WorkflowsClient({ workflows }: WorkflowsClientProps) {
   // Handle modal close - return to list
   const handleModalClose = useCallback(() => {
     setSelectedWorkflow(null);
+    setPreset(null);
     setWizardAnswers([]);
     setGeneratedPrompt('');
+    setLaunchId(null);
     setViewState('list');
   }, []);
 
+  // Handle headless run - queue the launch and follow it on the runs page
+  const handleRun = useCallback(async (cwd: string, priority: number) => {
+    if (!launchId) return;
+
+    setIsStartingRun(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/audit/queue', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ launchId, cwd: cwd || undefined, priority }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Failed to queue run');
+      }
+
+      router.push('/audit/runs');
+    } catch (err) {
+      console.error('Error queueing run:', err);
+      setError(err instanceof Error ? err.message : 'Failed to queue run');
+      setIsStartingRun(false);
+    }
+  }, [launchId, router]);
+
   // Render based on current view state
   if (viewState === 'wizard' && selectedWorkflow) {
+    const workflowId = selectedWorkflow.id || selectedWorkflow.name.toLowerCase().replace(/\s+/g, '-');
+
     return (
       <div className="max-w-2xl mx-auto">
         {/* Back button */}
@@ -101,6 +225,19 @@ export function WorkflowsClient({ workflows }: WorkflowsClientProps) {
           {'\u2190'} Back to workflows
         </button>
 
+        {/* Workflow graph */}
+        {graph && graph.plan.phases.length > 0 && (
+          <div className="mb-4">
+            <WorkflowGraph plan={graph.plan} stats={graph.stats} height={280} />
+            <Link
+              href={`/audit/workflows/${encodeURIComponent(graph.plan.id)}`}
+              className="mt-2 inline-block text-xs text-[#1e293b] opacity-70 hover:opacity-100 transition-opacity"
+            >
+              View workflow details {'\u2192'}
+            </Link>
+          </div>
+        )}
+
         {/* Error display */}
         {error && (
           <div className="mb-4 border border-red-600 bg-red-50 px-4 py-3 text-sm text-red-600">
@@ -115,15 +252,37 @@ export function WorkflowsClient({ workflows }: WorkflowsClientProps) {
           </div>
         )}
 
-        {/* Wizard */}
+        {/* Saved presets */}
+        <div className="mb-4">
+          <LaunchPresets
+            workflowId={workflowId}
+            answers={currentAnswers}
+            activePresetId={preset?.id}
+            onApply={setPreset}
+          />
+        </div>
+
+        {/* Wizard, restarted with a preset's answers when one is applied */}
         <div className="border border-[#1e293b] bg-[#fefcf3] p-6">
           <WorkflowPromptWizard
-            workflowId={selectedWorkflow.id || selectedWorkflow.name.toLowerCase().replace(/\s+/g, '-')}
+            key={preset?.id || 'blank'}
+            workflowId={workflowId}
             workflowName={selectedWorkflow.name}
+            questions={selectedWorkflow.questions}
+            promptTemplate={template?.template}
+            initialAnswers={preset?.answers}
+            onAnswersChange={setCurrentAnswers}
             onComplete={handleWizardComplete}
             onCancel={handleWizardCancel}
           />
         </div>
+
+        {/* Launch history */}
+        {launches && (
+          <div className="mt-4">
+            <LaunchHistory launches={launches.launches} total={launches.total} />
+          </div>
+        )}
       </div>
     );
   }
@@ -169,6 +328,10 @@ export function WorkflowsClient({ workflows }: WorkflowsClientProps) {
           workflowName={selectedWorkflow.name}
           answers={wizardAnswers}
           generatedPrompt={generatedPrompt}
+          onRun={runner?.enabled && launchId ? handleRun : undefined}
+          defaultCwd={runner?.defaultCwd || ''}
+          isStartingRun={isStartingRun}
+          runError={viewState === 'modal' ? error : null}
         />
       )}
     </>
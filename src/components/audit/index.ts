@@ -12,6 +12,9 @@ export type { AgentRosterProps, AgentRosterAgent } from './AgentRoster';
 
 export { AuditNav } from './AuditNav';
 
+export { BudgetAlertBanner } from './BudgetAlertBanner';
+export type { BudgetAlertBannerProps, BudgetAlertBannerAlert } from './BudgetAlertBanner';
+
 export { PromptViewer } from './PromptViewer';
 export type { PromptViewerProps } from './PromptViewer';
 
@@ -24,12 +27,29 @@ export type { StatCardProps } from './StatCard';
 export { WorkflowDiagram } from './WorkflowDiagram';
 export type { WorkflowDiagramProps, WorkflowData, WorkflowStep } from './WorkflowDiagram';
 
+export { WorkflowGraph } from './WorkflowGraph';
+export type { WorkflowGraphProps } from './WorkflowGraph';
+
 export { WorkflowPromptWizard } from './WorkflowPromptWizard';
 export type { WorkflowPromptWizardProps } from './WorkflowPromptWizard';
 
 export { CommandLaunchModal } from './CommandLaunchModal';
 export type { CommandLaunchModalProps } from './CommandLaunchModal';
 
+export { LaunchPresets } from './LaunchPresets';
+export type { LaunchPresetsProps } from './LaunchPresets';
+
+export { LaunchHistory } from './LaunchHistory';
+export type { LaunchHistoryProps } from './LaunchHistory';
+export { RunConsole } from './RunConsole';
+export type { RunConsoleProps } from './RunConsole';
+export { RunQueue } from './RunQueue';
+export type { RunQueueProps } from './RunQueue';
+export { ReplayPanel } from './ReplayPanel';
+export type { ReplayPanelProps } from './ReplayPanel';
+export { TraceComparison } from './TraceComparison';
+export type { TraceComparisonProps } from './TraceComparison';
+
 export { WorkflowsClient } from './WorkflowsClient';
 export type { WorkflowsClientProps } from './WorkflowsClient';
 
@@ -38,3 +58,11 @@ export { TraceViewer } from './TraceViewer';
 export { TraceList } from './TraceList';
 export { DecisionTree } from './DecisionTree';
 export { ExportPanel } from './ExportPanel';
+export { ConformanceReport } from './ConformanceReport';
+export type { ConformanceReportProps } from './ConformanceReport';
+export { HandoffList } from './HandoffList';
+export type { HandoffListProps } from './HandoffList';
+export { ExecutionProgress } from './ExecutionProgress';
+export type { ExecutionProgressProps } from './ExecutionProgress';
+export { GateReport } from './GateReport';
+export type { GateReportProps } from './GateReport';
@@ -0,0 +1,257 @@
+/**
+ * Budgets for BigTurbo Agent Audit System
+ *
+ * Evaluates daily, weekly and monthly token or dollar caps per agent,
+ * command or workflow against the metric rollups, and records an alert
+ * when a budget nears or passes its limit. Usage counts finished traces
+ * only, since traces are rolled up when they complete.
+ */
+
+import {
+  createBudgetAlert,
+  getBudgets,
+  getMetricRollups,
+  type Budget,
+  type BudgetMetric,
+  type BudgetPeriod,
+  type BudgetScope,
+} from '@/lib/db';
+import { getBucketStart } from './rollups';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  budget: Budget;
+  periodStart: string;
+  usage: number;
+  remaining: number;
+  ratio: number;
+  level: BudgetLevel;
+}
+
+/**
+ * Agent, command and workflow names of a trace, used to find the
+ * budgets that cover it.
+ */
+export interface BudgetSubject {
+  agentName?: string;
+  commandName?: string;
+  workflowName?: string;
+}
+
+export interface BudgetCheckResult {
+  exhausted: boolean;
+  statuses: BudgetStatus[];
+  messages: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const BUDGET_SCOPES: BudgetScope[] = ['agent', 'command', 'workflow'];
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['daily', 'weekly', 'monthly'];
+
+export const BUDGET_METRICS: BudgetMetric[] = ['tokens', 'cost'];
+
+const PERIOD_NOUNS: Record<BudgetPeriod, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+};
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Get the start of the current budget period (UTC). Weeks start on Monday.
+ */
+export function getPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  const start = getBucketStart(now, 'day');
+
+  if (period === 'weekly') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  }
+
+  if (period === 'monthly') {
+    start.setUTCDate(1);
+  }
+
+  return start;
+}
+
+/**
+ * Sum a budget's metric over the daily rollups since the period start.
+ */
+async function getBudgetUsage(budget: Budget, periodStart: Date): Promise<number> {
+  const rows = await getMetricRollups({
+    granularity: 'day',
+    dimension: budget.scope_type,
+    dimension_value: budget.scope_value,
+    date_from: periodStart,
+  });
+
+  return rows.reduce(
+    (sum, row) => sum + (budget.metric === 'cost' ? row.cost : row.tokens_used),
+    0
+  );
+}
+
+/**
+ * Evaluate a budget for its current period.
+ */
+export async function getBudgetStatus(budget: Budget, now: Date = new Date()): Promise<BudgetStatus> {
+  const periodStart = getPeriodStart(budget.period, now);
+  const usage = await getBudgetUsage(budget, periodStart);
+  const ratio = budget.limit_value > 0 ? usage / budget.limit_value : 0;
+
+  let level: BudgetLevel = 'ok';
+  if (ratio >= 1) level = 'exceeded';
+  else if (ratio >= budget.warn_threshold) level = 'warning';
+
+  return {
+    budget,
+    periodStart: periodStart.toISOString(),
+    usage,
+    remaining: Math.max(budget.limit_value - usage, 0),
+    ratio,
+    level,
+  };
+}
+
+/**
+ * Evaluate every budget, enabled or not.
+ */
+export async function getBudgetStatuses(): Promise<BudgetStatus[]> {
+  const budgets = await getBudgets();
+  return Promise.all(budgets.map((budget) => getBudgetStatus(budget)));
+}
+
+/**
+ * Format a budget amount in its metric's unit.
+ */
+function formatAmount(metric: BudgetMetric, value: number): string {
+  return metric === 'cost' ? `$${value.toFixed(2)}` : `${Math.round(value).toLocaleString()} tokens`;
+}
+
+/**
+ * Describe a budget that is near or over its limit.
+ */
+export function formatBudgetMessage(status: BudgetStatus): string {
+  const { budget } = status;
+  const state = status.level === 'exceeded' ? 'exhausted' : `at ${Math.round(status.ratio * 100)}%`;
+
+  return `Budget "${budget.name}" ${state}: ${formatAmount(budget.metric, status.usage)} of ` +
+    `${formatAmount(budget.metric, budget.limit_value)} used this ${PERIOD_NOUNS[budget.period]} ` +
+    `(${budget.scope_type} ${budget.scope_value})`;
+}
+
+/**
+ * Check whether a budget covers a trace's agent, command or workflow.
+ */
+function coversSubject(budget: Budget, subject: BudgetSubject): boolean {
+  switch (budget.scope_type) {
+    case 'agent':
+      return budget.scope_value === subject.agentName;
+    case 'command':
+      return budget.scope_value === subject.commandName;
+    case 'workflow':
+      return budget.scope_value === subject.workflowName;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate the enabled budgets covering a trace and record an alert for
+ * each one that is over its warning threshold or limit.
+ *
+ * @returns Statuses of the matching budgets plus messages for the hook
+ */
+export async function checkBudgets(
+  subject: BudgetSubject,
+  traceId?: string
+): Promise<BudgetCheckResult> {
+  const budgets = (await getBudgets({ enabled: true }))
+    .filter((budget) => coversSubject(budget, subject));
+
+  const statuses = await Promise.all(budgets.map((budget) => getBudgetStatus(budget)));
+  const messages: string[] = [];
+
+  for (const status of statuses) {
+    if (status.level === 'ok') continue;
+
+    const message = formatBudgetMessage(status);
+    messages.push(message);
+
+    await createBudgetAlert({
+      budget_id: status.budget.id,
+      level: status.level,
+      period_start: new Date(status.periodStart),
+      usage: status.usage,
+      limit_value: status.budget.limit_value,
+      message,
+      trace_id: traceId || null,
+    });
+  }
+
+  return {
+    exhausted: statuses.some((status) => status.level === 'exceeded'),
+    statuses,
+    messages,
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a budget create (or, with `partial`, update) request body.
+ */
+export function validateBudgetInput(input: Record<string, unknown>, partial = false): string[] {
+  const errors: string[] = [];
+  const has = (field: string) => input[field] !== undefined;
+
+  if ((!partial || has('name')) && (typeof input.name !== 'string' || !input.name.trim())) {
+    errors.push('name is required and must be a string');
+  }
+
+  if ((!partial || has('scope_type')) && !BUDGET_SCOPES.includes(input.scope_type as BudgetScope)) {
+    errors.push(`scope_type must be one of: ${BUDGET_SCOPES.join(', ')}`);
+  }
+
+  if ((!partial || has('scope_value')) && (typeof input.scope_value !== 'string' || !input.scope_value.trim())) {
+    errors.push('scope_value is required and must be a string');
+  }
+
+  if ((!partial || has('period')) && !BUDGET_PERIODS.includes(input.period as BudgetPeriod)) {
+    errors.push(`period must be one of: ${BUDGET_PERIODS.join(', ')}`);
+  }
+
+  if ((!partial || has('metric')) && !BUDGET_METRICS.includes(input.metric as BudgetMetric)) {
+    errors.push(`metric must be one of: ${BUDGET_METRICS.join(', ')}`);
+  }
+
+  if ((!partial || has('limit_value')) && (typeof input.limit_value !== 'number' || input.limit_value <= 0)) {
+    errors.push('limit_value is required and must be a positive number');
+  }
+
+  if (has('warn_threshold') && (
+    typeof input.warn_threshold !== 'number' || input.warn_threshold <= 0 || input.warn_threshold > 1
+  )) {
+    errors.push('warn_threshold must be a number between 0 and 1');
+  }
+
+  if (has('enabled') && typeof input.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+
+  return errors;
+}
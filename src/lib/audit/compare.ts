@@ -0,0 +1,333 @@
+/**
+ * Trace Comparison for BigTurbo Agent Audit System
+ *
+ * Compares two runs, such as runs of the same command before and after an
+ * agent prompt change. The span trees are aligned by agent and operation
+ * type: the nth span of an agent and operation type in one trace pairs
+ * with the nth in the other. Unpaired spans are missing (only in A) or
+ * added (only in B), and paired spans that started out of A's order are
+ * reordered. Paired spans are diffed on duration, tokens, tool calls,
+ * decisions and output, and the final outputs are diffed line by line.
+ */
+
+import type { Decision, LangfuseSpan, LangfuseTrace } from '@/lib/langfuse/types';
+import type {
+  ComparedSpan,
+  ComparedTrace,
+  ComparedValue,
+  DecisionDiff,
+  OutputDiffLine,
+  SpanAlignment,
+  TraceComparison,
+} from '@/types/audit';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SpanPair {
+  a: LangfuseSpan | null;
+  b: LangfuseSpan | null;
+  alignment: SpanAlignment;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Output lines diffed per trace; longer outputs are cut */
+const MAX_OUTPUT_LINES = 400;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function compareValues(a: number | null | undefined, b: number | null | undefined): ComparedValue {
+  const left = a ?? null;
+  const right = b ?? null;
+  return { a: left, b: right, delta: left !== null && right !== null ? right - left : null };
+}
+
+function getAlignmentKey(span: LangfuseSpan): string {
+  return `${span.agentName}\u0000${span.operationType}`;
+}
+
+function sortByStart(spans: LangfuseSpan[]): LangfuseSpan[] {
+  return [...spans].sort((x, y) => new Date(x.startedAt).getTime() - new Date(y.startedAt).getTime());
+}
+
+/**
+ * Nesting depth of each span by span ID, following parentSpanId.
+ */
+function getDepths(spans: LangfuseSpan[]): Map<string, number> {
+  const parents = new Map(spans.map((span) => [span.spanId, span.parentSpanId]));
+  const depths = new Map<string, number>();
+
+  for (const span of spans) {
+    let depth = 0;
+    let parentId = span.parentSpanId;
+    const seen = new Set<string>([span.spanId]);
+    while (parentId && parents.has(parentId) && !seen.has(parentId)) {
+      seen.add(parentId);
+      depth++;
+      parentId = parents.get(parentId);
+    }
+    depths.set(span.spanId, depth);
+  }
+
+  return depths;
+}
+
+/**
+ * Indexes of the longest increasing subsequence of a list of numbers.
+ */
+function longestIncreasing(values: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  values.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) previous[index] = tails[low - 1];
+    tails[low] = index;
+  });
+
+  const result = new Set<number>();
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index >= 0; index = previous[index]) {
+    result.add(index);
+  }
+  return result;
+}
+
+// ============================================================================
+// Alignment
+// ============================================================================
+
+/**
+ * Pair the spans of two traces and lay them out as one list: A's spans in
+ * order, with each added span placed after the span that ran before it
+ * in B.
+ */
+function alignSpans(spansA: LangfuseSpan[], spansB: LangfuseSpan[]): SpanPair[] {
+  // Pair the nth span of each key in A with the nth in B
+  const queues = new Map<string, number[]>();
+  spansB.forEach((span, index) => {
+    const key = getAlignmentKey(span);
+    queues.set(key, [...(queues.get(key) ?? []), index]);
+  });
+
+  const matchOfA = spansA.map((span) => queues.get(getAlignmentKey(span))?.shift() ?? -1);
+
+  // Pairs outside the longest run kept in A's order were reordered
+  const pairedA = matchOfA.flatMap((indexB, indexA) => (indexB >= 0 ? [indexA] : []));
+  const inOrder = longestIncreasing(pairedA.map((indexA) => matchOfA[indexA]));
+  const reordered = new Set(pairedA.filter((_, position) => !inOrder.has(position)));
+
+  const rows: SpanPair[] = spansA.map((span, indexA) => {
+    const indexB = matchOfA[indexA];
+    return {
+      a: span,
+      b: indexB >= 0 ? spansB[indexB] : null,
+      alignment: indexB < 0 ? 'missing' : reordered.has(indexA) ? 'reordered' : 'matched',
+    };
+  });
+
+  const rowOfB = new Map<number, SpanPair>();
+  rows.forEach((row, indexA) => {
+    if (matchOfA[indexA] >= 0) rowOfB.set(matchOfA[indexA], row);
+  });
+
+  spansB.forEach((span, indexB) => {
+    if (rowOfB.has(indexB)) return;
+
+    const row: SpanPair = { a: null, b: span, alignment: 'added' };
+    const before = indexB > 0 ? rowOfB.get(indexB - 1) : undefined;
+    rows.splice(before ? rows.indexOf(before) + 1 : 0, 0, row);
+    rowOfB.set(indexB, row);
+  });
+
+  return rows;
+}
+
+// ============================================================================
+// Diffs
+// ============================================================================
+
+/**
+ * List the decisions answered differently, or made in only one span.
+ */
+function diffDecisions(a: Decision[], b: Decision[]): DecisionDiff[] {
+  const answersB = new Map(b.map((decision) => [decision.question, decision.answer]));
+  const diffs: DecisionDiff[] = [];
+
+  for (const decision of a) {
+    const answer = answersB.get(decision.question);
+    if (answer !== decision.answer) {
+      diffs.push({ question: decision.question, a: decision.answer, b: answer ?? null });
+    }
+    answersB.delete(decision.question);
+  }
+  for (const [question, answer] of answersB) {
+    diffs.push({ question, a: null, b: answer });
+  }
+
+  return diffs;
+}
+
+function countToolCalls(span: LangfuseSpan | null): number | null {
+  return span ? span.toolCalls?.length ?? 0 : null;
+}
+
+function compareSpanPair(pair: SpanPair, depths: { a: Map<string, number>; b: Map<string, number> }): ComparedSpan {
+  const { a, b } = pair;
+  const span = (a ?? b)!;
+  const decisions = diffDecisions(a?.decisions ?? [], b?.decisions ?? []);
+  const toolCalls = compareValues(countToolCalls(a), countToolCalls(b));
+  const outputChanged = a !== null && b !== null
+    && JSON.stringify(a.output ?? null) !== JSON.stringify(b.output ?? null);
+
+  return {
+    agentName: span.agentName,
+    operationType: span.operationType,
+    name: span.name,
+    depth: (a ? depths.a.get(a.spanId) : depths.b.get(span.spanId)) ?? 0,
+    alignment: pair.alignment,
+    spanIdA: a?.spanId ?? null,
+    spanIdB: b?.spanId ?? null,
+    durationMs: compareValues(a?.durationMs, b?.durationMs),
+    tokens: compareValues(a?.tokens?.total, b?.tokens?.total),
+    toolCalls,
+    decisions,
+    outputChanged,
+    changed: a !== null && b !== null && (outputChanged || decisions.length > 0 || toolCalls.delta !== 0),
+  };
+}
+
+/**
+ * Text of a trace's final output: its response when it has one, else JSON.
+ */
+function getOutputText(trace: LangfuseTrace): string {
+  if (!trace.output) return '';
+  if (typeof trace.output.response === 'string') return trace.output.response;
+  return JSON.stringify(trace.output, null, 2);
+}
+
+/**
+ * Diff two texts line by line (longest common subsequence).
+ */
+function diffLines(a: string[], b: string[]): OutputDiffLine[] {
+  const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: OutputDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+function splitOutput(trace: LangfuseTrace): string[] {
+  const text = getOutputText(trace);
+  return text ? text.split(/\r?\n/) : [];
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+function toComparedTrace(trace: LangfuseTrace): ComparedTrace {
+  return {
+    traceId: trace.traceId,
+    name: trace.name,
+    agentName: trace.agentName,
+    commandName: trace.commandName ?? null,
+    status: trace.status,
+    commitHash: typeof trace.metadata.commitHash === 'string' ? trace.metadata.commitHash : null,
+    startedAt: trace.startedAt,
+  };
+}
+
+function countTools(spans: LangfuseSpan[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const call of spans.flatMap((span) => span.toolCalls ?? [])) {
+    counts.set(call.name, (counts.get(call.name) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function sumSpans(spans: LangfuseSpan[], value: (span: LangfuseSpan) => number): number {
+  return spans.reduce((sum, span) => sum + value(span), 0);
+}
+
+/**
+ * Compare two traces side by side.
+ *
+ * @param traceA - Baseline trace
+ * @param traceB - Trace compared with the baseline
+ * @returns Aligned spans and the differences between the traces
+ */
+export function compareTraces(traceA: LangfuseTrace, traceB: LangfuseTrace): TraceComparison {
+  const spansA = sortByStart(traceA.spans ?? []);
+  const spansB = sortByStart(traceB.spans ?? []);
+  const depths = { a: getDepths(spansA), b: getDepths(spansB) };
+
+  const spans = alignSpans(spansA, spansB).map((pair) => compareSpanPair(pair, depths));
+
+  const counts: TraceComparison['counts'] = { matched: 0, reordered: 0, added: 0, missing: 0, changed: 0 };
+  for (const span of spans) {
+    counts[span.alignment]++;
+    if (span.changed) counts.changed++;
+  }
+
+  const toolsA = countTools(spansA);
+  const toolsB = countTools(spansB);
+  const tools = [...new Set([...toolsA.keys(), ...toolsB.keys()])]
+    .map((name) => ({ name, ...compareValues(toolsA.get(name) ?? 0, toolsB.get(name) ?? 0) }))
+    .sort((x, y) => Math.max(y.a ?? 0, y.b ?? 0) - Math.max(x.a ?? 0, x.b ?? 0) || x.name.localeCompare(y.name));
+
+  const outputA = splitOutput(traceA);
+  const outputB = splitOutput(traceB);
+
+  return {
+    a: toComparedTrace(traceA),
+    b: toComparedTrace(traceB),
+    spans,
+    counts,
+    durationMs: compareValues(traceA.durationMs, traceB.durationMs),
+    tokens: compareValues(traceA.totalTokens, traceB.totalTokens),
+    cost: compareValues(traceA.totalCost, traceB.totalCost),
+    toolCalls: compareValues(
+      sumSpans(spansA, (span) => span.toolCalls?.length ?? 0),
+      sumSpans(spansB, (span) => span.toolCalls?.length ?? 0)
+    ),
+    decisions: compareValues(
+      sumSpans(spansA, (span) => span.decisions?.length ?? 0),
+      sumSpans(spansB, (span) => span.decisions?.length ?? 0)
+    ),
+    tools,
+    output: diffLines(outputA.slice(0, MAX_OUTPUT_LINES), outputB.slice(0, MAX_OUTPUT_LINES)),
+    outputTruncated: outputA.length > MAX_OUTPUT_LINES || outputB.length > MAX_OUTPUT_LINES,
+  };
+}
@@ -0,0 +1,306 @@
+/**
+ * Workflow Conformance for BigTurbo Agent Audit System
+ *
+ * Compares a run with the agent sequence its workflow declares (see
+ * toWorkflowInput in ./parser). Deviations are agents that never ran,
+ * agents that ran out of the declared order, agents the workflow does not
+ * name, and handoffs that break the charter's protocol of handing work
+ * forward along the sequence. Agents the charter's escalation rules allow
+ * any workflow to pull in are reported as minor deviations.
+ *
+ * The score is the share of the declared sequence that ran in order,
+ * with each major unexpected agent or invalid handoff counting against
+ * it. Reports are recorded per run when the trace finishes, and the score
+ * is kept in the trace's metadata (conformanceScore) for filtering.
+ */
+
+import { getTraceConformance, upsertTraceConformance } from '@/lib/db';
+import type { LangfuseSpan, LangfuseTrace, TraceStatus } from '@/lib/langfuse/types';
+import type { ConformanceDeviation, ConformanceReport } from '@/types/orchestration';
+import { getHandoffTarget, getWorkflowIdForCommand } from './execution';
+import { parseAgentCharter, parseWorkflowInput } from './parser';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface AgentRun {
+  agent: string;
+  at: string;
+  spanIds: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const FINISHED_STATUSES: TraceStatus[] = ['completed', 'failed', 'cancelled'];
+
+// ============================================================================
+// Observation
+// ============================================================================
+
+/**
+ * List the agents of a run in the order they first ran. Handoff targets
+ * count from the handoff; the trace's own (orchestrating) agent is left out
+ * unless the workflow names it.
+ */
+function getObservedAgents(trace: LangfuseTrace, expected: string[]): AgentRun[] {
+  const orchestrator = trace.agentName?.toLowerCase();
+  const runs = new Map<string, AgentRun>();
+
+  const record = (agent: string | undefined, span: LangfuseSpan) => {
+    if (!agent || (agent === orchestrator && !expected.includes(agent))) return;
+
+    const run = runs.get(agent);
+    if (run) {
+      run.spanIds.push(span.spanId);
+    } else {
+      runs.set(agent, { agent, at: span.startedAt, spanIds: [span.spanId] });
+    }
+  };
+
+  const spans = [...(trace.spans || [])].sort(
+    (a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime()
+  );
+
+  for (const span of spans) {
+    record(span.agentName?.toLowerCase(), span);
+    if (span.operationType === 'handoff') record(getHandoffTarget(span), span);
+  }
+
+  return [...runs.values()];
+}
+
+/**
+ * Longest common subsequence of two agent lists: the agents that ran in
+ * the declared order.
+ */
+function getInOrderAgents(expected: string[], observed: string[]): Set<string> {
+  const lengths = Array.from({ length: expected.length + 1 }, () => new Array(observed.length + 1).fill(0));
+
+  for (let i = expected.length - 1; i >= 0; i--) {
+    for (let j = observed.length - 1; j >= 0; j--) {
+      lengths[i][j] = expected[i] === observed[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const inOrder = new Set<string>();
+  for (let i = 0, j = 0; i < expected.length && j < observed.length;) {
+    if (expected[i] === observed[j]) {
+      inOrder.add(expected[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return inOrder;
+}
+
+// ============================================================================
+// Checking
+// ============================================================================
+
+/**
+ * Check a handoff span against the charter: work is handed forward along
+ * the sequence, or to an agent the escalation rules allow.
+ */
+function checkHandoff(
+  span: LangfuseSpan,
+  expected: string[],
+  escalationAgents: Set<string>
+): ConformanceDeviation | null {
+  const from = span.agentName?.toLowerCase() || 'unknown';
+  const to = getHandoffTarget(span);
+
+  const deviation = (agent: string, message: string): ConformanceDeviation => ({
+    type: 'invalid_handoff',
+    agent,
+    severity: 'major',
+    message,
+    spanIds: [span.spanId],
+  });
+
+  if (!to) return deviation(from, `Handoff from ${from} names no target agent`);
+  if (to === from || escalationAgents.has(to)) return null;
+
+  const toIndex = expected.indexOf(to);
+  if (toIndex === -1) {
+    return deviation(to, `Handoff from ${from} to ${to}, which the workflow does not name`);
+  }
+
+  const fromIndex = expected.indexOf(from);
+  if (fromIndex !== -1 && toIndex < fromIndex) {
+    return deviation(to, `Handoff from ${from} back to ${to}, which comes earlier in the sequence`);
+  }
+
+  return null;
+}
+
+/**
+ * Compare a run with a declared agent sequence.
+ *
+ * @param workflowId - Workflow the sequence belongs to
+ * @param expected - Agents in the order the workflow declares them
+ * @param trace - Trace of the run, with its spans
+ * @param escalationAgents - Agents the charter allows any workflow to pull in
+ * @returns Conformance report
+ */
+export function checkConformance(
+  workflowId: string,
+  expected: string[],
+  trace: LangfuseTrace,
+  escalationAgents: string[] = []
+): ConformanceReport {
+  const escalations = new Set(escalationAgents);
+  const observed = getObservedAgents(trace, expected);
+  const observedExpected = observed.filter((run) => expected.includes(run.agent));
+  const inOrder = getInOrderAgents(expected, observedExpected.map((run) => run.agent));
+  const deviations: ConformanceDeviation[] = [];
+
+  for (const agent of expected) {
+    if (!observed.some((run) => run.agent === agent)) {
+      deviations.push({
+        type: 'skipped_agent',
+        agent,
+        severity: 'major',
+        message: `${agent} never ran (step ${expected.indexOf(agent) + 1} of ${expected.length})`,
+        spanIds: [],
+      });
+    }
+  }
+
+  observedExpected.forEach((run, index) => {
+    if (inOrder.has(run.agent)) return;
+    deviations.push({
+      type: 'out_of_order',
+      agent: run.agent,
+      severity: 'major',
+      message: `${run.agent} ran as agent ${index + 1}; the workflow declares it at step ${expected.indexOf(run.agent) + 1}`,
+      spanIds: run.spanIds.slice(0, 1),
+    });
+  });
+
+  for (const run of observed) {
+    if (expected.includes(run.agent)) continue;
+    const escalation = escalations.has(run.agent);
+    deviations.push({
+      type: 'unexpected_agent',
+      agent: run.agent,
+      severity: escalation ? 'minor' : 'major',
+      message: escalation
+        ? `${run.agent} was pulled in as an escalation allowed by the charter`
+        : `${run.agent} ran but is not part of the workflow`,
+      spanIds: run.spanIds.slice(0, 1),
+    });
+  }
+
+  for (const span of trace.spans || []) {
+    if (span.operationType !== 'handoff') continue;
+    const deviation = checkHandoff(span, expected, escalations);
+    if (deviation) deviations.push(deviation);
+  }
+
+  const penalties = deviations.filter(
+    (d) => d.severity === 'major' && (d.type === 'unexpected_agent' || d.type === 'invalid_handoff')
+  ).length;
+  const score = expected.length > 0
+    ? Math.round((100 * inOrder.size) / (expected.length + penalties))
+    : 0;
+
+  return {
+    workflowId,
+    score,
+    expectedSequence: expected,
+    observedSequence: observed.map((run) => run.agent),
+    deviations,
+    evaluatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Check a trace against the workflow of its command or workflow name.
+ *
+ * @returns Conformance report, or null if no workflow declares a sequence
+ */
+export async function evaluateTraceConformance(trace: LangfuseTrace): Promise<ConformanceReport | null> {
+  const name = trace.commandName || trace.workflowName;
+  if (!name) return null;
+
+  const workflowId = getWorkflowIdForCommand(name);
+  const [workflow, charter] = await Promise.all([
+    parseWorkflowInput(workflowId),
+    parseAgentCharter(),
+  ]);
+  if (!workflow || workflow.agentSequence.length === 0) return null;
+
+  return checkConformance(workflowId, workflow.agentSequence, trace, charter.escalationAgents);
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Check and record the conformance of a finished run. The report is
+ * returned even if the database cannot store it, so the score still
+ * reaches the trace's metadata.
+ *
+ * @param trace - The run's trace
+ * @returns Conformance report, or null if no workflow declares a sequence
+ */
+export async function recordConformance(trace: LangfuseTrace): Promise<ConformanceReport | null> {
+  const report = await evaluateTraceConformance(trace);
+  if (!report) return null;
+
+  try {
+    await upsertTraceConformance({
+      trace_id: trace.traceId,
+      workflow_id: report.workflowId,
+      score: report.score,
+      expected_sequence: report.expectedSequence,
+      observed_sequence: report.observedSequence,
+      deviations: report.deviations,
+    });
+  } catch (error) {
+    // The database is optional; the score is still kept on the trace
+    console.warn('Failed to store conformance:', error);
+  }
+
+  return report;
+}
+
+/**
+ * Get the conformance of a run: the recorded report once it has finished,
+ * otherwise a live check.
+ *
+ * @returns Conformance report, or null if no workflow declares a sequence
+ */
+export async function loadConformance(trace: LangfuseTrace): Promise<ConformanceReport | null> {
+  if (FINISHED_STATUSES.includes(trace.status)) {
+    try {
+      const row = await getTraceConformance(trace.traceId);
+      if (row) {
+        return {
+          workflowId: row.workflow_id,
+          score: row.score,
+          expectedSequence: row.expected_sequence,
+          observedSequence: row.observed_sequence,
+          deviations: row.deviations,
+          evaluatedAt: new Date(row.evaluated_at).toISOString(),
+        };
+      }
+    } catch (error) {
+      // The database is optional; check the trace instead
+      console.warn('Failed to load recorded conformance:', error);
+    }
+  }
+
+  return evaluateTraceConformance(trace);
+}
@@ -0,0 +1,353 @@
+/**
+ * Orchestration Execution for BigTurbo Agent Audit System
+ *
+ * Derives the progress of a workflow run from its trace. Subagent launch,
+ * subagent completion and handoff spans are matched to the agent tasks of
+ * the plan of the trace's command, and task progress is rolled up into
+ * wave and phase states. States are stored per trace and refreshed as
+ * ingest events arrive.
+ */
+
+import { getWorkflowPlan, upsertTraceExecution } from '@/lib/db';
+import { getTraceById } from '@/lib/langfuse/client';
+import type { LangfuseSpan, LangfuseTrace, OperationType } from '@/lib/langfuse/types';
+import type { TraceExecutionResponse, WorkflowPlanResponse } from '@/types/audit';
+import type {
+  OrchestrationExecutionState,
+  OrchestrationPlan,
+  OrchestrationWave,
+  PhaseExecutionState,
+  TaskExecutionState,
+  WaveExecutionState,
+} from '@/types/orchestration';
+import { parseOrchestrationPlan } from './parser';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Span operation types that move a plan's tasks forward */
+export const EXECUTION_OPERATION_TYPES: OperationType[] = [
+  'subagent_launch',
+  'subagent_completion',
+  'handoff',
+];
+
+/** Span metadata or input fields naming the agent a handoff goes to */
+const HANDOFF_TARGET_FIELDS = ['toAgent', 'to_agent', 'targetAgent', 'to'];
+
+// ============================================================================
+// Plans
+// ============================================================================
+
+/**
+ * Get the workflow ID of a command (e.g., "/feature" -> "feature-workflow").
+ */
+export function getWorkflowIdForCommand(commandName: string): string {
+  const name = commandName.trim().replace(/^\//, '');
+  return name.endsWith('-workflow') ? name : `${name}-workflow`;
+}
+
+/**
+ * Load a workflow's orchestration plan: the copy stored by the last sync
+ * if the database has one, otherwise the plan parsed from the command file.
+ *
+ * @returns Plan and where it came from, or null if the workflow has none
+ */
+export async function getOrchestrationPlan(workflowId: string): Promise<WorkflowPlanResponse | null> {
+  try {
+    const stored = await getWorkflowPlan(workflowId);
+    if (stored) return { plan: stored.plan, source: 'database' };
+  } catch (error) {
+    // The database is optional; fall back to the command file
+    console.warn('Failed to load stored workflow plan:', error);
+  }
+
+  const plan = await parseOrchestrationPlan(workflowId);
+  return plan ? { plan, source: 'file' } : null;
+}
+
+// ============================================================================
+// Derivation
+// ============================================================================
+
+interface TaskEntry {
+  waveId: string;
+  state: TaskExecutionState;
+  /** Finished by its launch span, so a later completion span is a duplicate */
+  finishedByLaunch: boolean;
+}
+
+interface SpanSignal {
+  at: string;
+  kind: 'start' | 'finish' | 'complete' | 'handoff';
+  span: LangfuseSpan;
+}
+
+/**
+ * Read the agent a handoff span hands work to, if it names one.
+ */
+export function getHandoffTarget(span: LangfuseSpan): string | undefined {
+  for (const source of [span.metadata, span.input]) {
+    for (const field of HANDOFF_TARGET_FIELDS) {
+      const value = source?.[field];
+      if (typeof value === 'string' && value.trim()) return value.trim().toLowerCase();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Turn execution spans into time-ordered signals. A launch span starts a
+ * task and, once it has finished, finishes the same task.
+ */
+function getSpanSignals(spans: LangfuseSpan[]): SpanSignal[] {
+  const signals: SpanSignal[] = [];
+
+  for (const span of spans) {
+    switch (span.operationType) {
+      case 'subagent_launch':
+        signals.push({ at: span.startedAt, kind: 'start', span });
+        if (span.status === 'completed' || span.status === 'failed') {
+          signals.push({ at: span.completedAt || span.startedAt, kind: 'finish', span });
+        }
+        break;
+      case 'subagent_completion':
+        signals.push({ at: span.completedAt || span.startedAt, kind: 'complete', span });
+        break;
+      case 'handoff':
+        signals.push({ at: span.startedAt, kind: 'handoff', span });
+        break;
+    }
+  }
+
+  return signals.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
+
+/**
+ * Match a trace's execution spans to plan tasks. Agents that appear in
+ * several tasks are matched in plan order.
+ */
+function matchTasks(plan: OrchestrationPlan, trace: LangfuseTrace): TaskEntry[] {
+  const entries: TaskEntry[] = plan.phases.flatMap((phase) =>
+    phase.waves.flatMap((wave) =>
+      wave.tasks.map((task) => ({
+        waveId: wave.id,
+        state: { agent: task.agent, status: 'pending' as const, spanIds: [] },
+        finishedByLaunch: false,
+      }))
+    )
+  );
+
+  const find = (agent: string, status: TaskExecutionState['status']) =>
+    entries.find((entry) => entry.state.agent === agent && entry.state.status === status);
+
+  const start = (agent: string, span: LangfuseSpan, at: string): TaskEntry | undefined => {
+    const entry = find(agent, 'pending');
+    if (entry) {
+      entry.state.status = 'in_progress';
+      entry.state.startedAt = at;
+      entry.state.spanIds.push(span.spanId);
+    }
+    return entry;
+  };
+
+  const finish = (entry: TaskEntry, span: LangfuseSpan, at: string) => {
+    entry.state.status = span.status === 'failed' ? 'failed' : 'completed';
+    entry.state.completedAt = at;
+    if (span.status === 'failed') {
+      const error = span.output?.error;
+      entry.state.error = typeof error === 'string' ? error : `${span.name} failed`;
+    }
+    if (!entry.state.spanIds.includes(span.spanId)) entry.state.spanIds.push(span.spanId);
+  };
+
+  for (const { at, kind, span } of getSpanSignals(trace.spans || [])) {
+    const agent = (span.agentName || '').toLowerCase();
+
+    switch (kind) {
+      case 'start':
+        start(agent, span, at);
+        break;
+
+      case 'finish': {
+        const entry = entries.find((e) => e.state.spanIds.includes(span.spanId));
+        if (entry && entry.state.status === 'in_progress') {
+          finish(entry, span, at);
+          entry.finishedByLaunch = true;
+        }
+        break;
+      }
+
+      case 'complete': {
+        const running = find(agent, 'in_progress');
+        if (running) {
+          finish(running, span, at);
+          break;
+        }
+
+        const duplicate = entries.find((e) => e.state.agent === agent && e.finishedByLaunch);
+        if (duplicate) {
+          duplicate.finishedByLaunch = false;
+          if (span.status === 'failed') finish(duplicate, span, at);
+          break;
+        }
+
+        // Completion without a launch span
+        const entry = start(agent, span, span.startedAt);
+        if (entry) finish(entry, span, at);
+        break;
+      }
+
+      case 'handoff': {
+        const running = find(agent, 'in_progress');
+        if (running) finish(running, span, at);
+
+        const target = getHandoffTarget(span);
+        if (target) start(target, span, at);
+        break;
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Roll a wave's task states up into the wave state.
+ */
+function getWaveState(
+  wave: OrchestrationWave,
+  tasks: TaskExecutionState[],
+  stalledWaves: Set<string>
+): WaveExecutionState {
+  const completed = tasks.filter((task) => task.status === 'completed').length;
+  const failed = tasks.find((task) => task.status === 'failed');
+  const started = tasks.filter((task) => task.startedAt).map((task) => task.startedAt!).sort();
+  const finished = tasks.filter((task) => task.completedAt).map((task) => task.completedAt!).sort();
+
+  let status: WaveExecutionState['status'] = 'pending';
+  if (failed) status = 'failed';
+  else if (tasks.length > 0 && completed === tasks.length) status = 'completed';
+  else if (started.length > 0) status = 'in_progress';
+  else if (wave.dependencies.some((id) => stalledWaves.has(id))) status = 'blocked';
+
+  if (status === 'failed' || status === 'blocked') stalledWaves.add(wave.id);
+
+  return {
+    waveId: wave.id,
+    status,
+    startedAt: started[0],
+    completedAt: status === 'completed' || status === 'failed' ? finished[finished.length - 1] : undefined,
+    error: failed?.error,
+    progress: tasks.length > 0 ? Math.round((completed / tasks.length) * 100) : 0,
+    tasks,
+  };
+}
+
+/**
+ * Derive the execution state of a trace against an orchestration plan.
+ *
+ * @param plan - Plan of the trace's workflow
+ * @param trace - Trace with its spans
+ * @returns Phase, wave and task progress of the run
+ */
+export function deriveExecutionState(
+  plan: OrchestrationPlan,
+  trace: LangfuseTrace
+): OrchestrationExecutionState {
+  const entries = matchTasks(plan, trace);
+  const stalledWaves = new Set<string>();
+
+  const phases: PhaseExecutionState[] = plan.phases.map((phase) => {
+    const waves = phase.waves.map((wave) =>
+      getWaveState(
+        wave,
+        entries.filter((entry) => entry.waveId === wave.id).map((entry) => entry.state),
+        stalledWaves
+      )
+    );
+
+    let status: PhaseExecutionState['status'] = 'pending';
+    if (waves.some((wave) => wave.status === 'failed')) status = 'failed';
+    else if (waves.length > 0 && waves.every((wave) => wave.status === 'completed')) status = 'completed';
+    else if (waves.some((wave) => wave.startedAt)) status = 'in_progress';
+
+    return {
+      phaseNumber: phase.number,
+      status,
+      waves,
+      startedAt: waves.find((wave) => wave.startedAt)?.startedAt,
+      completedAt: status === 'completed' ? waves[waves.length - 1]?.completedAt : undefined,
+    };
+  });
+
+  const current = phases.find((phase) => phase.status !== 'completed') || phases[phases.length - 1];
+  const currentWave = current?.waves.find((wave) => wave.status === 'in_progress')
+    || current?.waves.find((wave) => wave.status !== 'completed');
+
+  let status: OrchestrationExecutionState['status'];
+  switch (trace.status) {
+    case 'completed':
+      status = 'completed';
+      break;
+    case 'failed':
+    case 'cancelled':
+      status = 'failed';
+      break;
+    default:
+      status = entries.some((entry) => entry.state.startedAt) ? 'running' : 'pending';
+  }
+
+  return {
+    planId: plan.id,
+    currentPhase: current?.phaseNumber ?? 0,
+    currentWave: currentWave?.waveId ?? '',
+    phases,
+    status,
+    startedAt: trace.startedAt,
+    completedAt: trace.completedAt,
+  };
+}
+
+// ============================================================================
+// Tracking
+// ============================================================================
+
+/**
+ * Derive a trace's execution state and its plan, or null if the trace's
+ * command has no orchestration plan.
+ */
+export async function deriveTraceExecution(trace: LangfuseTrace): Promise<TraceExecutionResponse | null> {
+  if (!trace.commandName) return null;
+
+  const loaded = await getOrchestrationPlan(getWorkflowIdForCommand(trace.commandName));
+  if (!loaded || loaded.plan.phases.length === 0) return null;
+
+  return {
+    traceId: trace.traceId,
+    plan: loaded.plan,
+    execution: deriveExecutionState(loaded.plan, trace),
+  };
+}
+
+/**
+ * Re-derive and store the execution state of a trace.
+ *
+ * @param traceId - Trace to refresh
+ * @param loaded - The trace, when the caller has already loaded it
+ * @returns Stored state, or null if the trace has no plan
+ */
+export async function refreshExecutionState(
+  traceId: string,
+  loaded?: LangfuseTrace
+): Promise<OrchestrationExecutionState | null> {
+  const trace = loaded ?? await getTraceById(traceId);
+  if (!trace) return null;
+
+  const result = await deriveTraceExecution(trace);
+  if (!result) return null;
+
+  await upsertTraceExecution(trace.traceId, result.execution);
+  return result.execution;
+}
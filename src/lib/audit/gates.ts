@@ -0,0 +1,357 @@
+/**
+ * Gate Evaluation for BigTurbo Agent Audit System
+ *
+ * Evaluates the gates of a workflow's orchestration plan against the
+ * evidence in a run's trace. A gate's condition text is turned into
+ * checks: agents it names must have run (or been handed work), and the
+ * activities it mentions (tests, lint, type checks, builds, security
+ * review, validation) must show up in span names or tool calls. The
+ * latest matching span decides each check, so a retried test run counts.
+ *
+ * Results are recorded per run when the trace finishes; a failed blocking
+ * gate turns a completed run into a failed one.
+ */
+
+import { getGateResults, replaceGateResults } from '@/lib/db';
+import type { LangfuseSpan, LangfuseTrace, TraceStatus } from '@/lib/langfuse/types';
+import type {
+  GateEvaluation,
+  GateReport,
+  OrchestrationExecutionState,
+  OrchestrationGate,
+  OrchestrationPlan,
+} from '@/types/orchestration';
+import { deriveTraceExecution, getHandoffTarget } from './execution';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface GateCheck {
+  label: string;
+  /** Spans that count as evidence for the check */
+  matches: (span: LangfuseSpan) => boolean;
+  /** Whether a matching span succeeded */
+  succeeded?: (span: LangfuseSpan) => boolean;
+}
+
+type CheckOutcome = { status: 'passed' | 'failed' | 'missing'; span?: LangfuseSpan };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Activities recognized in gate conditions, with the text that marks a
+ * span or tool call as evidence of them.
+ */
+const ACTIVITY_CHECKS: Array<{ label: string; condition: RegExp; evidence: RegExp }> = [
+  { label: 'tests', condition: /\btests?\b|\bspecs?\b|coverage/i, evidence: /\b(test|tests|jest|vitest|pytest|playwright|spec|coverage)\b/i },
+  { label: 'lint', condition: /\blint/i, evidence: /\b(e?slint|lint)\b/i },
+  { label: 'type check', condition: /type[- ]?check|\btsc\b|typescript/i, evidence: /\btsc\b|type-?check/i },
+  { label: 'build', condition: /\bbuild/i, evidence: /\bbuild\b/i },
+  { label: 'security review', condition: /security/i, evidence: /security|audit/i },
+];
+
+/** Agent-like names recognized in conditions even if the plan never uses them */
+const AGENT_ROLE_PATTERN = /-(expert|auditor|developer|engineer|reviewer|designer|architect|specialist|analyst|writer|manager)$/;
+
+/** Conditions that only ask for something to have been validated */
+const VALIDATION_CONDITION = /validat|verif|approv|review|pass/i;
+
+const FINISHED_STATUSES: TraceStatus[] = ['completed', 'failed', 'cancelled'];
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Text of a span that evidence patterns are matched against: its name,
+ * and the names and arguments of its tool calls.
+ */
+function getSpanText(span: LangfuseSpan): string {
+  const calls = (span.toolCalls || []).map((call) => `${call.name} ${JSON.stringify(call.arguments)}`);
+  return [span.name, ...calls].join('\n');
+}
+
+/**
+ * A span succeeded if it completed and none of its matching tool calls failed.
+ */
+function spanSucceeded(span: LangfuseSpan, evidence?: RegExp): boolean {
+  if (span.status !== 'completed') return false;
+  if (!evidence) return true;
+
+  return !(span.toolCalls || []).some((call) =>
+    call.success === false && evidence.test(`${call.name} ${JSON.stringify(call.arguments)}`)
+  );
+}
+
+/**
+ * Build the checks a gate condition asks for. Agent names are recognized
+ * when they belong to the plan, appear in the trace or look like a role.
+ * Phase names are ignored, so "after Build" does not ask for a build.
+ */
+function buildChecks(condition: string, knownAgents: Set<string>, phaseNames: string[]): GateCheck[] {
+  const checks: GateCheck[] = [];
+  let text = condition.toLowerCase();
+
+  const agents = [...new Set(text.match(/\b[a-z]+(?:-[a-z]+){1,2}\b/g) || [])]
+    .filter((name) => knownAgents.has(name) || AGENT_ROLE_PATTERN.test(name));
+
+  for (const name of [...agents, ...phaseNames.map((phase) => phase.toLowerCase())]) {
+    text = text.split(name).join(' ');
+  }
+
+  for (const agent of agents) {
+    checks.push({
+      label: agent,
+      matches: (span) =>
+        span.agentName?.toLowerCase() === agent ||
+        (span.operationType === 'handoff' && getHandoffTarget(span) === agent),
+      succeeded: (span) => span.status !== 'failed',
+    });
+  }
+
+  for (const activity of ACTIVITY_CHECKS) {
+    if (!activity.condition.test(text)) continue;
+    checks.push({
+      label: activity.label,
+      matches: (span) =>
+        activity.evidence.test(getSpanText(span)) ||
+        (span.operationType === 'validation' && activity.evidence.test(JSON.stringify(span.output || {}))),
+      succeeded: (span) => spanSucceeded(span, activity.evidence),
+    });
+  }
+
+  if (checks.length === 0 && VALIDATION_CONDITION.test(text)) {
+    checks.push({
+      label: 'validation',
+      matches: (span) => span.operationType === 'validation',
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Decide a check from the latest span that matches it.
+ */
+function runCheck(check: GateCheck, spans: LangfuseSpan[]): CheckOutcome {
+  const matching = spans
+    .filter((span) => span.status !== 'pending' && span.status !== 'running' && check.matches(span))
+    .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+
+  const latest = matching[matching.length - 1];
+  if (!latest) return { status: 'missing' };
+
+  const succeeded = check.succeeded ? check.succeeded(latest) : spanSucceeded(latest);
+  return { status: succeeded ? 'passed' : 'failed', span: latest };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Check whether the wave a gate follows has finished.
+ */
+function isGateReached(gate: OrchestrationGate, execution: OrchestrationExecutionState): boolean {
+  if (gate.from === 'start') return true;
+
+  const wave = execution.phases
+    .flatMap((phase) => phase.waves)
+    .find((w) => w.waveId === gate.from);
+
+  return wave?.status === 'completed' || wave?.status === 'failed';
+}
+
+/**
+ * Evaluate one gate against a run's spans.
+ */
+function evaluateGate(
+  gate: OrchestrationGate,
+  gateIndex: number,
+  spans: LangfuseSpan[],
+  knownAgents: Set<string>,
+  phaseNames: string[],
+  execution: OrchestrationExecutionState,
+  finished: boolean
+): GateEvaluation {
+  const result = (
+    status: GateEvaluation['status'],
+    reason: string,
+    evidence: LangfuseSpan[] = [],
+    missingEvidence = false
+  ) => ({
+    gateIndex,
+    condition: gate.condition,
+    from: gate.from,
+    to: gate.to,
+    blocking: gate.blocking,
+    status,
+    reason,
+    evidenceSpanIds: evidence.map((span) => span.spanId),
+    missingEvidence,
+  });
+
+  const checks = buildChecks(gate.condition, knownAgents, phaseNames);
+  if (checks.length === 0) {
+    return result('skipped', 'No checkable evidence in condition');
+  }
+
+  const outcomes = checks.map((check) => ({ check, ...runCheck(check, spans) }));
+  const evidence = outcomes.flatMap((outcome) => (outcome.span ? [outcome.span] : []));
+  const failed = outcomes.filter((outcome) => outcome.status === 'failed');
+  const missing = outcomes.filter((outcome) => outcome.status === 'missing');
+
+  if (failed.length > 0) {
+    return result('failed', `Failed: ${failed.map((o) => o.check.label).join(', ')}`, evidence);
+  }
+
+  if (missing.length === 0) {
+    return result('passed', `Evidence: ${outcomes.map((o) => o.check.label).join(', ')}`, evidence);
+  }
+
+  const reached = isGateReached(gate, execution);
+  if (!finished) {
+    return result('pending', reached ? 'Awaiting evidence' : 'Not reached yet', evidence);
+  }
+
+  if (!reached) {
+    return result('skipped', 'Gate not reached', evidence);
+  }
+
+  return result('failed', `No evidence: ${missing.map((o) => o.check.label).join(', ')}`, evidence, true);
+}
+
+/**
+ * Evaluate every gate of a plan against a run.
+ *
+ * @param plan - Plan of the run's workflow
+ * @param trace - Trace of the run
+ * @param execution - Execution state derived from the trace
+ * @returns Gate report
+ */
+export function evaluateGates(
+  plan: OrchestrationPlan,
+  trace: LangfuseTrace,
+  execution: OrchestrationExecutionState
+): GateReport {
+  const spans = trace.spans || [];
+  const finished = FINISHED_STATUSES.includes(trace.status);
+  const knownAgents = new Set([
+    ...plan.phases.flatMap((phase) => phase.waves.flatMap((wave) => wave.tasks.map((task) => task.agent))),
+    ...spans.map((span) => span.agentName?.toLowerCase()).filter(Boolean),
+  ]);
+
+  const phaseNames = plan.phases.map((phase) => phase.name);
+
+  const gates = plan.gates.map((gate, index) =>
+    evaluateGate(gate, index, spans, knownAgents, phaseNames, execution, finished)
+  );
+
+  let status: GateReport['status'] = 'passed';
+  if (gates.some((gate) => gate.blocking && gate.status === 'failed')) status = 'failed';
+  else if (gates.some((gate) => gate.status === 'pending')) status = 'pending';
+
+  return {
+    planId: plan.id,
+    status,
+    gates,
+    evaluatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * List the blocking gates whose evidence failed. Gates that only lack
+ * evidence are left out: evidence is matched by keyword, so a run can
+ * meet a gate in a way the check does not recognize.
+ */
+export function getFailedBlockingGates(report: GateReport): GateEvaluation[] {
+  return report.gates.filter((gate) => gate.blocking && gate.status === 'failed' && !gate.missingEvidence);
+}
+
+/**
+ * Describe the blocking gates whose evidence failed, for the trace error.
+ */
+export function formatGateFailure(report: GateReport): string {
+  const failed = getFailedBlockingGates(report);
+  return `Blocking gate${failed.length === 1 ? '' : 's'} failed: ` +
+    failed.map((gate) => `"${gate.condition}" (${gate.reason})`).join('; ');
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Evaluate and record the gates of a finished run.
+ *
+ * @param stored - The run's trace as stored
+ * @param status - Final status of the run (the stored trace may still say running)
+ * @returns Gate report, or null if the trace's command has no plan
+ */
+export async function recordGateResults(stored: LangfuseTrace, status: TraceStatus): Promise<GateReport | null> {
+  const trace = { ...stored, status };
+  const result = await deriveTraceExecution(trace);
+  if (!result || result.plan.gates.length === 0) return null;
+
+  const report = evaluateGates(result.plan, trace, result.execution);
+
+  await replaceGateResults(trace.traceId, report.gates.map((gate) => ({
+    plan_id: report.planId,
+    gate_index: gate.gateIndex,
+    condition: gate.condition,
+    from_wave: gate.from,
+    to_wave: gate.to,
+    blocking: gate.blocking,
+    status: gate.status,
+    reason: gate.reason,
+    evidence_span_ids: gate.evidenceSpanIds,
+    missing_evidence: gate.missingEvidence,
+  })));
+
+  return report;
+}
+
+/**
+ * Get the gate report of a run: the recorded results once it has
+ * finished, otherwise a live evaluation.
+ *
+ * @returns Gate report, or null if the trace's command has no plan
+ */
+export async function loadGateReport(trace: LangfuseTrace): Promise<GateReport | null> {
+  const result = await deriveTraceExecution(trace);
+  if (!result || result.plan.gates.length === 0) return null;
+
+  if (FINISHED_STATUSES.includes(trace.status)) {
+    try {
+      const rows = await getGateResults(trace.traceId);
+      if (rows.length > 0) {
+        const gates: GateEvaluation[] = rows.map((row) => ({
+          gateIndex: row.gate_index,
+          condition: row.condition,
+          from: row.from_wave,
+          to: row.to_wave,
+          blocking: row.blocking,
+          status: row.status,
+          reason: row.reason,
+          evidenceSpanIds: row.evidence_span_ids,
+          missingEvidence: row.missing_evidence,
+        }));
+
+        return {
+          planId: rows[0].plan_id,
+          status: gates.some((gate) => gate.blocking && gate.status === 'failed') ? 'failed' : 'passed',
+          gates,
+          evaluatedAt: new Date(rows[0].evaluated_at).toISOString(),
+        };
+      }
+    } catch (error) {
+      // The database is optional; evaluate the trace instead
+      console.warn('Failed to load recorded gate results:', error);
+    }
+  }
+
+  return evaluateGates(result.plan, trace, result.execution);
+}
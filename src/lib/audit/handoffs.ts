@@ -0,0 +1,335 @@
+/**
+ * Handoff Capture for BigTurbo Agent Audit System
+ *
+ * Parses handoff spans into structured handoffs: who handed work to whom,
+ * a summary, files touched, open questions and risks. Fields come from
+ * structured span output when the agent provides them, otherwise from the
+ * handoff's markdown, where headings and bold labels ("**Risks:**") mark
+ * sections. Each handoff is validated against the sections of the handoff
+ * template (docs/ai/HANDOFF_TEMPLATE.md).
+ *
+ * Handoffs are recorded as their spans are ingested so they can be
+ * searched across traces.
+ */
+
+import { searchHandoffs, upsertHandoff, type HandoffFilters, type TraceHandoff } from '@/lib/db';
+import { getSpanById } from '@/lib/langfuse/client';
+import type { LangfuseSpan, LangfuseTrace } from '@/lib/langfuse/types';
+import type { HandoffsListResponse } from '@/types/audit';
+import type { Handoff, HandoffField } from '@/types/orchestration';
+import { getHandoffTarget } from './execution';
+import { parseHandoffTemplate } from './parser';
+import type { HandoffTemplate } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface HandoffBlock {
+  title: string;
+  body: string;
+}
+
+interface HandoffFields {
+  summary: string | null;
+  filesTouched: string[];
+  openQuestions: string[];
+  risks: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Span fields that hold the handoff's markdown, checked in output then input */
+const HANDOFF_TEXT_FIELDS = ['handoff', 'content', 'text', 'message', 'prompt'];
+
+/** Structured span fields for each part of a handoff */
+const STRUCTURED_FIELDS: Record<HandoffField, string[]> = {
+  summary: ['summary'],
+  filesTouched: ['filesTouched', 'files_touched', 'files'],
+  openQuestions: ['openQuestions', 'open_questions', 'questions'],
+  risks: ['risks'],
+};
+
+/** Section titles that hold each part of a handoff */
+const SECTION_PATTERNS: Record<HandoffField, RegExp> = {
+  summary: /^(summary|context|problem)/,
+  filesTouched: /^(files?\b|affected area|area$|implementation)/,
+  openQuestions: /question/,
+  risks: /risk/,
+};
+
+const HANDOFF_FIELDS = Object.keys(SECTION_PATTERNS) as HandoffField[];
+
+/** Markdown heading: "## Risks" */
+const HEADING_PATTERN = /^#{1,4}\s+(.+?)\s*#*$/;
+
+/** Bold label, optionally followed by text: "**Risks:** none" */
+const LABEL_PATTERN = /^\*\*([^*]+?):?\*\*:?\s*(.*)$/;
+
+/** Backticked text */
+const CODE_PATTERN = /`([^`\s]+)`/g;
+
+/** Bare file path with a directory and an extension: "src/lib/db.ts" */
+const PATH_PATTERN = /(?:^|[\s(|])((?:\.{0,2}\/)?(?:[\w@.-]+\/)+[\w@.-]+\.[a-z0-9]{1,5})(?=$|[\s),:;|])/gim;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Find the handoff's markdown in a span.
+ */
+function getHandoffText(span: LangfuseSpan): string {
+  for (const source of [span.output, span.input]) {
+    for (const field of HANDOFF_TEXT_FIELDS) {
+      const value = source?.[field];
+      if (typeof value === 'string' && value.trim()) return value;
+    }
+  }
+  return '';
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/^\d+\.\s*/, '').replace(/[*:]+$/g, '').trim();
+}
+
+/**
+ * Split a handoff's markdown into blocks at headings and bold labels.
+ */
+function splitBlocks(text: string): HandoffBlock[] {
+  const blocks: HandoffBlock[] = [];
+  let current: HandoffBlock | null = null;
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    const heading = trimmed.match(HEADING_PATTERN);
+    const label = heading ? null : trimmed.match(LABEL_PATTERN);
+
+    if (heading || label) {
+      current = { title: normalizeTitle((heading || label)![1]), body: label?.[2] || '' };
+      blocks.push(current);
+    } else if (current) {
+      current.body += `\n${line}`;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * List entries of a block: its list items, or its lines if it has none.
+ * Template placeholders (quotes, empty checkboxes) are left out.
+ */
+function getListItems(body: string): string[] {
+  const lines = body.split('\n').map((line) => line.trim()).filter(Boolean);
+  const items = lines.filter((line) => /^([-*+]|\d+\.)\s/.test(line));
+
+  return (items.length > 0 ? items : lines)
+    .map((line) => line.replace(/^([-*+]|\d+\.)\s+/, '').replace(/^\[[ xX]\]\s*/, '').trim())
+    .filter((line) => line && !line.startsWith('>') && !/^\|?[-\s|:]+\|?$/.test(line));
+}
+
+/**
+ * Collect file paths mentioned in text.
+ */
+function getPaths(text: string): string[] {
+  const code = [...text.matchAll(CODE_PATTERN)]
+    .map((match) => match[1])
+    .filter((value) => value.includes('/') || /\w\.[a-z0-9]{1,5}$/i.test(value));
+  const bare = [...text.matchAll(PATH_PATTERN)].map((match) => match[1]);
+
+  return [...new Set([...code, ...bare])];
+}
+
+function getStringList(value: unknown): string[] {
+  if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map((item) => item.trim());
+}
+
+/**
+ * Read the parts of a handoff the agent provided as structured output.
+ */
+function getStructuredFields(span: LangfuseSpan): Partial<HandoffFields> {
+  const sources = [span.output?.handoff, span.output, span.metadata?.handoff, span.metadata]
+    .filter((source): source is Record<string, unknown> => typeof source === 'object' && source !== null);
+  const find = (field: HandoffField) => {
+    for (const source of sources) {
+      for (const key of STRUCTURED_FIELDS[field]) {
+        if (source[key] !== undefined) return source[key];
+      }
+    }
+    return undefined;
+  };
+
+  const summary = find('summary');
+  return {
+    summary: typeof summary === 'string' && summary.trim() ? summary.trim() : undefined,
+    filesTouched: getStringList(find('filesTouched')),
+    openQuestions: getStringList(find('openQuestions')),
+    risks: getStringList(find('risks')),
+  };
+}
+
+/**
+ * Read the parts of a handoff from its markdown blocks.
+ */
+function getMarkdownFields(text: string, blocks: HandoffBlock[]): HandoffFields {
+  const matching = (field: HandoffField) => blocks.filter((block) => SECTION_PATTERNS[field].test(block.title));
+
+  const summaryBlock = matching('summary').find((block) => getListItems(block.body).length > 0);
+  const firstParagraph = blocks.length === 0 ? text.trim().split(/\n\s*\n/)[0]?.trim() : undefined;
+  const summary = summaryBlock ? getListItems(summaryBlock.body).join(' ') : firstParagraph;
+
+  return {
+    summary: summary || null,
+    filesTouched: [...new Set(matching('filesTouched').flatMap((block) => getPaths(block.body)))],
+    openQuestions: matching('openQuestions').flatMap((block) => getListItems(block.body)),
+    risks: matching('risks').flatMap((block) => getListItems(block.body)),
+  };
+}
+
+/**
+ * Check whether a handoff block covers a template section. "Testing" covers
+ * "Testing Plan" and "Rollout" covers "Release Notes / Rollout".
+ */
+function coversSection(title: string, section: string): boolean {
+  return section
+    .toLowerCase()
+    .split('/')
+    .map((alternative) => alternative.trim())
+    .some((alternative) => title === alternative || title.startsWith(alternative.split(/\s+/)[0]));
+}
+
+/**
+ * Parse a handoff span and validate it against the handoff template.
+ *
+ * @param span - Handoff span
+ * @param traceId - Trace the span belongs to
+ * @param template - Sections a handoff must cover
+ * @returns Structured handoff
+ */
+export function parseHandoff(span: LangfuseSpan, traceId: string, template: HandoffTemplate): Handoff {
+  const text = getHandoffText(span);
+  const blocks = splitBlocks(text);
+  const structured = getStructuredFields(span);
+  const parsed = getMarkdownFields(text, blocks);
+
+  const fields: HandoffFields = {
+    summary: structured.summary ?? parsed.summary,
+    filesTouched: structured.filesTouched?.length ? structured.filesTouched : parsed.filesTouched,
+    openQuestions: structured.openQuestions?.length ? structured.openQuestions : parsed.openQuestions,
+    risks: structured.risks?.length ? structured.risks : parsed.risks,
+  };
+
+  const sections = template.sections.filter((section) => blocks.some((block) => coversSection(block.title, section)));
+  const missingSections = template.sections.filter((section) => !sections.includes(section));
+  const missingFields = HANDOFF_FIELDS.filter((field) => {
+    const value = fields[field];
+    return Array.isArray(value) ? value.length === 0 : !value;
+  });
+  const toAgent = getHandoffTarget(span) || null;
+
+  return {
+    traceId,
+    spanId: span.spanId,
+    fromAgent: span.agentName?.toLowerCase() || 'unknown',
+    toAgent,
+    ...fields,
+    sections,
+    missingSections,
+    missingFields,
+    valid: toAgent !== null && missingSections.length === 0,
+    createdAt: span.startedAt,
+  };
+}
+
+/**
+ * Parse the handoffs of a trace, in the order they happened.
+ *
+ * @param trace - Trace with its spans
+ * @returns Handoffs of the trace
+ */
+export async function getTraceHandoffs(trace: LangfuseTrace): Promise<Handoff[]> {
+  const spans = (trace.spans || [])
+    .filter((span) => span.operationType === 'handoff')
+    .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+  if (spans.length === 0) return [];
+
+  const template = await parseHandoffTemplate();
+  return spans.map((span) => parseHandoff(span, trace.traceId, template));
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+function toHandoff(row: TraceHandoff): Handoff {
+  return {
+    traceId: row.trace_id,
+    spanId: row.span_id,
+    fromAgent: row.from_agent,
+    toAgent: row.to_agent,
+    summary: row.summary,
+    filesTouched: row.files_touched,
+    openQuestions: row.open_questions,
+    risks: row.risks,
+    sections: row.sections,
+    missingSections: row.missing_sections,
+    missingFields: row.missing_fields,
+    valid: row.valid,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * Parse and record the handoff of a span that was created or updated.
+ *
+ * @param traceId - Trace the span belongs to
+ * @param spanId - Handoff span ID
+ * @returns Recorded handoff, or null if the span is not a handoff
+ */
+export async function recordHandoff(traceId: string, spanId: string): Promise<Handoff | null> {
+  const span = await getSpanById(spanId);
+  if (!span || span.operationType !== 'handoff') return null;
+
+  const handoff = parseHandoff(span, traceId, await parseHandoffTemplate());
+
+  await upsertHandoff({
+    span_id: handoff.spanId,
+    trace_id: handoff.traceId,
+    from_agent: handoff.fromAgent,
+    to_agent: handoff.toAgent,
+    summary: handoff.summary,
+    files_touched: handoff.filesTouched,
+    open_questions: handoff.openQuestions,
+    risks: handoff.risks,
+    sections: handoff.sections,
+    missing_sections: handoff.missingSections,
+    missing_fields: handoff.missingFields,
+    valid: handoff.valid,
+    created_at: new Date(handoff.createdAt),
+  });
+
+  return handoff;
+}
+
+/**
+ * Search recorded handoffs across traces.
+ *
+ * @param filters - Agents, omitted fields or sections, validity and summary text
+ * @returns Matching handoffs, newest first
+ */
+export async function listHandoffs(filters: HandoffFilters = {}): Promise<HandoffsListResponse> {
+  const limit = filters.limit ?? 50;
+  const offset = filters.offset ?? 0;
+  const { handoffs, total } = await searchHandoffs({ ...filters, limit, offset });
+
+  return {
+    handoffs: handoffs.map(toHandoff),
+    total,
+    hasMore: offset + handoffs.length < total,
+  };
+}
@@ -15,6 +15,13 @@ export {
   toAgentInput,
   toCommandInput,
   toWorkflowInput,
+  parseWorkflowInput,
+  parseAgentCharter,
+  parseHandoffTemplate,
+  parsePromptTemplate,
+  buildOrchestrationPlan,
+  toOrchestrationPlan,
+  parseOrchestrationPlan,
   syncToDatabase,
   findAgentByName,
   findCommandByName,
@@ -54,6 +61,9 @@ export type {
   SyncError,
   ExtractedAgentMetadata,
   ExtractedCommandMetadata,
+  AgentCharter,
+  HandoffTemplate,
+  CommandPromptTemplate,
   // Legacy types
   ParsedAgent,
   ParsedCommand,
@@ -0,0 +1,227 @@
+/**
+ * Workflow Launches for BigTurbo Agent Audit System
+ *
+ * Saved answer presets for the launch wizard and the history of launch
+ * prompts. Presets belong to the Clerk user who saved them and can be
+ * shared with the whole team. Each generated prompt gets a launch ID,
+ * written on its last line ("Launch ID: launch_..."); a trace that echoes
+ * it, as `metadata.launchId` or anywhere in its input, is linked back to
+ * the launch when it is created.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  createLaunchRecord,
+  getLaunchPresets,
+  getLaunchRecordById,
+  getLaunchRecords,
+  linkLaunchTrace,
+  type LaunchPreset,
+  type LaunchRecord,
+} from '@/lib/db';
+import type {
+  WorkflowAnswer,
+  WorkflowLaunch,
+  WorkflowLaunchesResponse,
+  WorkflowPreset,
+} from '@/types/audit';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LAUNCH_ID_PATTERN = /\blaunch_[0-9a-f]{12}\b/;
+
+const MAX_PRESET_NAME_LENGTH = 100;
+
+// ============================================================================
+// Launch IDs
+// ============================================================================
+
+/**
+ * Generate a launch ID.
+ */
+export function createLaunchId(): string {
+  return `launch_${randomUUID().replace(/-/g, '').slice(0, 12)}`;
+}
+
+/**
+ * Add the launch ID line to a prompt.
+ */
+export function appendLaunchId(prompt: string, launchId: string): string {
+  return `${prompt}\n\nLaunch ID: ${launchId}`;
+}
+
+/**
+ * Find a launch ID in a trace's input or any other value.
+ *
+ * @param value - Text or JSON value to search
+ * @returns Launch ID, or undefined if there is none
+ */
+export function extractLaunchId(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.match(LAUNCH_ID_PATTERN)?.[0];
+}
+
+// ============================================================================
+// Presets
+// ============================================================================
+
+function isWorkflowAnswer(value: unknown): value is WorkflowAnswer {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const answer = value as Record<string, unknown>;
+  return (
+    typeof answer.questionId === 'string' &&
+    Array.isArray(answer.selectedOptions) &&
+    answer.selectedOptions.every((option) => typeof option === 'string') &&
+    (answer.customText === undefined || typeof answer.customText === 'string')
+  );
+}
+
+/**
+ * Validate a preset create (or, with `partial`, update) request body.
+ */
+export function validatePresetInput(input: Record<string, unknown>, partial = false): string[] {
+  const errors: string[] = [];
+  const has = (field: string) => input[field] !== undefined;
+
+  if ((!partial || has('name')) && (
+    typeof input.name !== 'string' || !input.name.trim() || input.name.trim().length > MAX_PRESET_NAME_LENGTH
+  )) {
+    errors.push(`name is required and must be a string of at most ${MAX_PRESET_NAME_LENGTH} characters`);
+  }
+
+  if ((!partial || has('answers')) && (!Array.isArray(input.answers) || !input.answers.every(isWorkflowAnswer))) {
+    errors.push('answers is required and must be a list of { questionId, selectedOptions, customText? }');
+  }
+
+  if (has('shared') && typeof input.shared !== 'boolean') {
+    errors.push('shared must be a boolean');
+  }
+
+  return errors;
+}
+
+/**
+ * Convert a stored preset to its API form.
+ */
+export function toWorkflowPreset(row: LaunchPreset): WorkflowPreset {
+  return {
+    id: row.id,
+    workflowId: row.workflow_id,
+    name: row.name,
+    answers: row.answers,
+    ownerId: row.owner_id,
+    shared: row.shared,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+/**
+ * List the presets of a workflow a user can use: their own and shared ones.
+ *
+ * @param workflowId - Workflow ID
+ * @param userId - Clerk user ID
+ * @returns Presets ordered by name
+ */
+export async function listPresets(workflowId: string, userId: string): Promise<WorkflowPreset[]> {
+  const rows = await getLaunchPresets(workflowId, userId);
+  return rows.map(toWorkflowPreset);
+}
+
+/**
+ * Check whether a user can launch with a preset.
+ */
+export function canUsePreset(preset: LaunchPreset, userId: string | null): boolean {
+  return preset.shared || preset.owner_id === userId;
+}
+
+// ============================================================================
+// Launch History
+// ============================================================================
+
+function toWorkflowLaunch(row: LaunchRecord): WorkflowLaunch {
+  return {
+    id: row.id,
+    workflowId: row.workflow_id,
+    command: row.command,
+    prompt: row.prompt,
+    answers: row.answers,
+    presetId: row.preset_id,
+    userId: row.user_id,
+    traceId: row.trace_id,
+    parentTraceId: row.parent_trace_id,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * Record a generated launch prompt in the launch history.
+ *
+ * @param launch - Launch ID, workflow, prompt, answers, preset, user and replayed trace
+ */
+export async function recordLaunch(launch: Omit<WorkflowLaunch, 'traceId' | 'createdAt'>): Promise<void> {
+  try {
+    await createLaunchRecord({
+      id: launch.id,
+      workflow_id: launch.workflowId,
+      command: launch.command,
+      prompt: launch.prompt,
+      answers: launch.answers,
+      preset_id: launch.presetId,
+      user_id: launch.userId,
+      parent_trace_id: launch.parentTraceId,
+    });
+  } catch (error) {
+    // The database is optional; the prompt still carries its launch ID
+    console.warn('Failed to record launch:', error);
+  }
+}
+
+/**
+ * Get a launch by ID.
+ *
+ * @param launchId - Launch ID
+ * @returns Launch, or null if not found
+ */
+export async function getLaunch(launchId: string): Promise<WorkflowLaunch | null> {
+  const row = await getLaunchRecordById(launchId);
+  return row ? toWorkflowLaunch(row) : null;
+}
+
+/**
+ * Link a launch to the trace that echoed its ID.
+ *
+ * @param launchId - Launch ID
+ * @param traceId - Trace ID
+ * @returns True if the launch was linked
+ */
+export async function recordLaunchTrace(launchId: string, traceId: string): Promise<boolean> {
+  return (await linkLaunchTrace(launchId, traceId)) !== null;
+}
+
+/**
+ * List a workflow's launches, newest first.
+ *
+ * @param workflowId - Workflow ID
+ * @param options - Pagination
+ * @returns Launches of the workflow
+ */
+export async function listLaunches(
+  workflowId: string,
+  options: { limit?: number; offset?: number } = {}
+): Promise<WorkflowLaunchesResponse> {
+  const limit = options.limit ?? 20;
+  const offset = options.offset ?? 0;
+  const { launches, total } = await getLaunchRecords({ workflow_id: workflowId, limit, offset });
+
+  return {
+    launches: launches.map(toWorkflowLaunch),
+    total,
+    hasMore: offset + launches.length < total,
+  };
+}
@@ -1,16 +1,54 @@
 /**
  * Metrics and Analytics for BigTurbo Agent Audit System
  *
- * Performance queries and statistics for agent monitoring.
+ * Performance queries and statistics for agent monitoring. Aggregates are
+ * read from the hourly/daily rollup tables maintained on ingest (see
+ * ./rollups.ts) rather than from raw traces.
  */
 
-import { listTraces, getTraceStats } from '@/lib/langfuse/client';
+import {
+  getConformanceSummaries,
+  getMetricRollups,
+  type MetricRollup,
+  type RollupDimension,
+  type RollupGranularity,
+} from '@/lib/db';
+import type { ConformanceDeviationType } from '@/types/orchestration';
+import { listTraces } from '@/lib/langfuse/client';
 import { parseAllAgents, extractAgentMetadata } from './parser';
+import { getBucketStart, getDurationBuckets } from './rollups';
 
 // ============================================================================
 // Types
 // ============================================================================
 
+/**
+ * Time window metrics are aggregated over, ending now.
+ */
+export type MetricsWindow = '24h' | '7d' | '30d' | '90d' | 'all';
+
+/**
+ * Duration percentiles (ms) estimated from a rollup histogram.
+ */
+export interface DurationPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+/**
+ * One slot of a duration histogram, covering durations above `minMs` up
+ * to `maxMs`. `maxMs` and `maxLabel` are null for the open-ended last slot.
+ */
+export interface DurationHistogramBucket {
+  label: string;
+  minMs: number;
+  maxMs: number | null;
+  minLabel: string;
+  maxLabel: string | null;
+  count: number;
+}
+
 export interface AgentMetrics {
   agentId: string;
   humanName: string;
@@ -18,7 +56,10 @@ export interface AgentMetrics {
   totalTraces: number;
   successRate: number;
   avgDurationMs: number;
+  durationPercentiles: DurationPercentiles;
+  durationHistogram: DurationHistogramBucket[];
   totalTokens: number;
+  totalCost: number;
   lastActive: string | null;
 }
 
@@ -27,6 +68,8 @@ export interface ToolUsageMetrics {
   usageCount: number;
   successRate: number;
   avgDurationMs: number;
+  durationPercentiles: DurationPercentiles;
+  durationHistogram: DurationHistogramBucket[];
 }
 
 export interface WorkflowMetrics {
@@ -37,7 +80,36 @@ export interface WorkflowMetrics {
   bottleneckAgent: string | null;
 }
 
+export interface WorkflowConformanceMetrics {
+  workflowId: string;
+  checkedRuns: number;
+  avgScore: number;
+  /** Share of runs that followed the sequence exactly (0-1) */
+  conformingRate: number;
+  deviationCounts: Partial<Record<ConformanceDeviationType, number>>;
+}
+
+export interface CommandMetrics {
+  commandName: string;
+  totalRuns: number;
+  successRate: number;
+  avgDurationMs: number;
+  durationPercentiles: DurationPercentiles;
+  durationHistogram: DurationHistogramBucket[];
+  totalTokens: number;
+  totalCost: number;
+}
+
+export interface TimeSeriesPoint {
+  date: string;
+  total: number;
+  success: number;
+  failed: number;
+  cost: number;
+}
+
 export interface DashboardMetrics {
+  window: MetricsWindow;
   overview: {
     totalTraces: number;
     runningTraces: number;
@@ -45,8 +117,12 @@ export interface DashboardMetrics {
     failedTraces: number;
     avgDurationMs: number;
     totalTokens: number;
+    totalCost: number;
   };
   agentMetrics: AgentMetrics[];
+  commandMetrics: CommandMetrics[];
+  workflowMetrics: WorkflowMetrics[];
+  conformanceMetrics: WorkflowConformanceMetrics[];
   toolUsage: ToolUsageMetrics[];
   recentActivity: {
     timestamp: string;
@@ -54,181 +130,353 @@ export interface DashboardMetrics {
     action: string;
     status: string;
   }[];
+  timeSeries: TimeSeriesPoint[];
 }
 
 // ============================================================================
-// Agent Metrics
+// Time Windows
 // ============================================================================
 
+export const METRICS_WINDOWS: MetricsWindow[] = ['24h', '7d', '30d', '90d', 'all'];
+
+export const DEFAULT_METRICS_WINDOW: MetricsWindow = '7d';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WINDOW_DURATION_MS: Record<Exclude<MetricsWindow, 'all'>, number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS,
+};
+
 /**
- * Get metrics for all agents.
+ * Parse a metrics window query value, returning null for unknown values.
  */
-export async function getAgentMetrics(): Promise<AgentMetrics[]> {
-  const [{ agents }, { traces }] = await Promise.all([
-    parseAllAgents(),
-    listTraces({ limit: 100 }),
-  ]);
+export function parseMetricsWindow(value: string | null | undefined): MetricsWindow | null {
+  if (!value) return DEFAULT_METRICS_WINDOW;
+  return METRICS_WINDOWS.includes(value as MetricsWindow) ? (value as MetricsWindow) : null;
+}
 
-  const agentStats = new Map<string, {
-    total: number;
-    success: number;
-    failed: number;
-    durations: number[];
-    tokens: number;
-    lastActive: string | null;
-  }>();
-
-  // Initialize stats for all agents
-  for (const agent of agents) {
-    const metadata = extractAgentMetadata(agent);
-    agentStats.set(metadata.name, {
-      total: 0,
-      success: 0,
-      failed: 0,
-      durations: [],
-      tokens: 0,
-      lastActive: null,
-    });
-  }
+/**
+ * Get the start of a window, or null for the full history.
+ */
+export function getWindowStart(window: MetricsWindow, now: Date = new Date()): Date | null {
+  if (window === 'all') return null;
+  return new Date(now.getTime() - WINDOW_DURATION_MS[window]);
+}
 
-  // Aggregate trace data by agent
-  for (const trace of traces) {
-    if (trace.agentName && agentStats.has(trace.agentName)) {
-      const stats = agentStats.get(trace.agentName)!;
-      stats.total++;
+/**
+ * Rollup granularity used for a window. The 24h window reads hourly rows;
+ * longer windows read daily rows and start at the first whole UTC day.
+ */
+function getWindowGranularity(window: MetricsWindow): RollupGranularity {
+  return window === '24h' ? 'hour' : 'day';
+}
 
-      if (trace.status === 'completed') stats.success++;
-      if (trace.status === 'failed') stats.failed++;
-      if (trace.durationMs) stats.durations.push(trace.durationMs);
-      if (trace.totalTokens) stats.tokens += trace.totalTokens;
+// ============================================================================
+// Rollup Aggregation
+// ============================================================================
 
-      if (!stats.lastActive || trace.startedAt > stats.lastActive) {
-        stats.lastActive = trace.startedAt;
-      }
-    }
-  }
+interface RollupSummary {
+  total: number;
+  success: number;
+  failure: number;
+  cancelled: number;
+  durationCount: number;
+  durationSumMs: number;
+  durationMaxMs: number | null;
+  histogram: number[];
+  tokens: number;
+  cost: number;
+  lastSeenAt: string | null;
+}
 
-  // Build metrics array
-  const metrics: AgentMetrics[] = [];
+/**
+ * Load the rollup rows of one dimension covering a window.
+ */
+async function loadRollups(
+  window: MetricsWindow,
+  dimension: RollupDimension
+): Promise<MetricRollup[]> {
+  const granularity = getWindowGranularity(window);
+  const windowStart = getWindowStart(window);
+
+  return getMetricRollups({
+    granularity,
+    dimension,
+    date_from: windowStart ? getBucketStart(windowStart, granularity) : undefined,
+  });
+}
 
-  for (const agent of agents) {
-    const metadata = extractAgentMetadata(agent);
-    const stats = agentStats.get(metadata.name);
-
-    if (stats) {
-      const avgDuration = stats.durations.length > 0
-        ? stats.durations.reduce((a, b) => a + b, 0) / stats.durations.length
-        : 0;
-
-      metrics.push({
-        agentId: metadata.name,
-        humanName: metadata.humanName || metadata.name,
-        color: metadata.color || '#64748b',
-        totalTraces: stats.total,
-        successRate: stats.total > 0 ? stats.success / stats.total : 0,
-        avgDurationMs: avgDuration,
-        totalTokens: stats.tokens,
-        lastActive: stats.lastActive,
+/**
+ * Merge rollup rows into one summary per dimension value.
+ */
+function summarizeRollups(rows: MetricRollup[]): Map<string, RollupSummary> {
+  const summaries = new Map<string, RollupSummary>();
+
+  for (const row of rows) {
+    if (!summaries.has(row.dimension_value)) {
+      summaries.set(row.dimension_value, {
+        total: 0,
+        success: 0,
+        failure: 0,
+        cancelled: 0,
+        durationCount: 0,
+        durationSumMs: 0,
+        durationMaxMs: null,
+        histogram: [],
+        tokens: 0,
+        cost: 0,
+        lastSeenAt: null,
       });
     }
+
+    const summary = summaries.get(row.dimension_value)!;
+    summary.total += row.total_count;
+    summary.success += row.success_count;
+    summary.failure += row.failure_count;
+    summary.cancelled += row.cancelled_count;
+    summary.durationCount += row.duration_count;
+    summary.durationSumMs += row.duration_sum_ms;
+    if (row.duration_max_ms !== null) {
+      summary.durationMaxMs = Math.max(summary.durationMaxMs ?? 0, row.duration_max_ms);
+    }
+    summary.tokens += row.tokens_used;
+    summary.cost += row.cost;
+
+    row.duration_histogram.forEach((count, slot) => {
+      summary.histogram[slot] = (summary.histogram[slot] || 0) + count;
+    });
+
+    const lastSeenAt = row.last_seen_at ? new Date(row.last_seen_at).toISOString() : null;
+    if (lastSeenAt && (!summary.lastSeenAt || lastSeenAt > summary.lastSeenAt)) {
+      summary.lastSeenAt = lastSeenAt;
+    }
   }
 
-  // Sort by total traces descending
-  return metrics.sort((a, b) => b.totalTraces - a.totalTraces);
+  return summaries;
+}
+
+/**
+ * Average duration of a summary (0 when no durations were recorded).
+ */
+function averageDuration(summary: RollupSummary): number {
+  return summary.durationCount > 0 ? summary.durationSumMs / summary.durationCount : 0;
 }
 
 // ============================================================================
-// Tool Usage Metrics
+// Duration Distributions
 // ============================================================================
 
 /**
- * Get tool usage statistics.
+ * Format a histogram bound as a short label (e.g. 500ms, 15s, 2m, 1h).
  */
-export async function getToolUsageMetrics(): Promise<ToolUsageMetrics[]> {
-  const { traces } = await listTraces({ limit: 100 });
-
-  const toolStats = new Map<string, {
-    count: number;
-    success: number;
-    durations: number[];
-  }>();
-
-  // Aggregate tool calls from spans
-  for (const trace of traces) {
-    if (trace.spans) {
-      for (const span of trace.spans) {
-        if (span.toolCalls) {
-          for (const call of span.toolCalls) {
-            if (!toolStats.has(call.name)) {
-              toolStats.set(call.name, { count: 0, success: 0, durations: [] });
-            }
-
-            const stats = toolStats.get(call.name)!;
-            stats.count++;
-            if (call.success) stats.success++;
-            if (call.durationMs) stats.durations.push(call.durationMs);
-          }
-        }
-      }
-    }
-  }
+function formatBound(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${ms / 1000}s`;
+  if (ms < 3_600_000) return `${ms / 60_000}m`;
+  return `${ms / 3_600_000}h`;
+}
 
-  // Build metrics array
-  const metrics: ToolUsageMetrics[] = [];
+/**
+ * Expand histogram counts into labeled buckets.
+ */
+function toHistogramBuckets(histogram: number[], bounds: number[]): DurationHistogramBucket[] {
+  return [...bounds, null].map((maxMs, slot) => {
+    const minMs = slot === 0 ? 0 : bounds[slot - 1];
+    const minLabel = formatBound(minMs);
+    const maxLabel = maxMs === null ? null : formatBound(maxMs);
+    const label = maxLabel === null
+      ? `>${minLabel}`
+      : slot === 0
+        ? `\u2264${maxLabel}`
+        : `${minLabel}-${maxLabel}`;
+
+    return { label, minMs, maxMs, minLabel, maxLabel, count: histogram[slot] || 0 };
+  });
+}
 
-  for (const [toolName, stats] of toolStats) {
-    const avgDuration = stats.durations.length > 0
-      ? stats.durations.reduce((a, b) => a + b, 0) / stats.durations.length
-      : 0;
+/**
+ * Estimate a percentile from histogram counts, interpolating linearly
+ * within the slot that holds the target rank. The open-ended last slot
+ * is bounded by the longest duration observed; rows rolled up before it
+ * was recorded report the slot's lower bound.
+ */
+function estimatePercentile(
+  histogram: number[],
+  bounds: number[],
+  durationMaxMs: number | null,
+  percentile: number
+): number {
+  const total = histogram.reduce((sum, count) => sum + (count || 0), 0);
+  if (total === 0) return 0;
+
+  const rank = (percentile / 100) * total;
+  let seen = 0;
+
+  for (let slot = 0; slot <= bounds.length; slot++) {
+    const count = histogram[slot] || 0;
+    if (count === 0 || seen + count < rank) {
+      seen += count;
+      continue;
+    }
 
-    metrics.push({
-      toolName,
-      usageCount: stats.count,
-      successRate: stats.count > 0 ? stats.success / stats.count : 0,
-      avgDurationMs: avgDuration,
-    });
+    const minMs = slot === 0 ? 0 : bounds[slot - 1];
+    const maxMs = slot === bounds.length ? Math.max(durationMaxMs ?? minMs, minMs) : bounds[slot];
+    return Math.round(minMs + ((rank - seen) / count) * (maxMs - minMs));
   }
 
-  // Sort by usage count descending
-  return metrics.sort((a, b) => b.usageCount - a.usageCount);
+  return durationMaxMs ?? bounds[bounds.length - 1];
+}
+
+/**
+ * Build the duration percentiles and histogram for a summary of one
+ * rollup dimension.
+ */
+function durationDistribution(summary: RollupSummary | undefined, dimension: RollupDimension): {
+  durationPercentiles: DurationPercentiles;
+  durationHistogram: DurationHistogramBucket[];
+} {
+  const histogram = summary?.histogram || [];
+  const bounds = getDurationBuckets(dimension);
+  const maxMs = summary?.durationMaxMs ?? null;
+
+  return {
+    durationPercentiles: {
+      p50: estimatePercentile(histogram, bounds, maxMs, 50),
+      p90: estimatePercentile(histogram, bounds, maxMs, 90),
+      p99: estimatePercentile(histogram, bounds, maxMs, 99),
+    },
+    durationHistogram: toHistogramBuckets(histogram, bounds),
+  };
 }
 
 // ============================================================================
-// Dashboard Overview
+// Agent Metrics
 // ============================================================================
 
 /**
- * Get complete dashboard metrics.
+ * Get metrics for all agents within a time window.
  */
-export async function getDashboardMetrics(): Promise<DashboardMetrics> {
-  const [overview, agentMetrics, toolUsage, { traces }] = await Promise.all([
-    getTraceStats(),
-    getAgentMetrics(),
-    getToolUsageMetrics(),
-    listTraces({ limit: 10 }),
+export async function getAgentMetrics(
+  window: MetricsWindow = DEFAULT_METRICS_WINDOW
+): Promise<AgentMetrics[]> {
+  const [{ agents }, rows] = await Promise.all([
+    parseAllAgents(),
+    loadRollups(window, 'agent'),
   ]);
 
-  // Build recent activity from latest traces
-  const recentActivity = traces.slice(0, 5).map((trace) => ({
-    timestamp: trace.startedAt,
-    agentId: trace.agentName || 'unknown',
-    action: trace.name,
-    status: trace.status,
+  const summaries = summarizeRollups(rows);
+
+  // Build metrics array
+  const metrics: AgentMetrics[] = agents.map((agent) => {
+    const metadata = extractAgentMetadata(agent);
+    const summary = summaries.get(metadata.name);
+
+    return {
+      agentId: metadata.name,
+      humanName: metadata.humanName || metadata.name,
+      color: metadata.color || '#64748b',
+      totalTraces: summary?.total || 0,
+      successRate: summary && summary.total > 0 ? summary.success / summary.total : 0,
+      avgDurationMs: summary ? averageDuration(summary) : 0,
+      ...durationDistribution(summary, 'agent'),
+      totalTokens: summary?.tokens || 0,
+      totalCost: summary?.cost || 0,
+      lastActive: summary?.lastSeenAt || null,
+    };
+  });
+
+  // Sort by total traces descending
+  return metrics.sort((a, b) => b.totalTraces - a.totalTraces);
+}
+
+// ============================================================================
+// Command and Workflow Metrics
+// ============================================================================
+
+/**
+ * Get metrics per command within a time window.
+ */
+export async function getCommandMetrics(
+  window: MetricsWindow = DEFAULT_METRICS_WINDOW
+): Promise<CommandMetrics[]> {
+  const summaries = summarizeRollups(await loadRollups(window, 'command'));
+
+  return Array.from(summaries.entries())
+    .map(([commandName, summary]) => ({
+      commandName,
+      totalRuns: summary.total,
+      successRate: summary.total > 0 ? summary.success / summary.total : 0,
+      avgDurationMs: averageDuration(summary),
+      ...durationDistribution(summary, 'command'),
+      totalTokens: summary.tokens,
+      totalCost: summary.cost,
+    }))
+    .sort((a, b) => b.totalRuns - a.totalRuns);
+}
+
+/**
+ * Get metrics per workflow within a time window.
+ */
+export async function getWorkflowMetrics(
+  window: MetricsWindow = DEFAULT_METRICS_WINDOW
+): Promise<WorkflowMetrics[]> {
+  const summaries = summarizeRollups(await loadRollups(window, 'workflow'));
+
+  return Array.from(summaries.entries())
+    .map(([workflowName, summary]) => ({
+      workflowName,
+      totalRuns: summary.total,
+      successRate: summary.total > 0 ? summary.success / summary.total : 0,
+      avgDurationMs: averageDuration(summary),
+      bottleneckAgent: null,
+    }))
+    .sort((a, b) => b.totalRuns - a.totalRuns);
+}
+
+/**
+ * Get workflow conformance per workflow for runs checked within a time
+ * window. Conformance is recorded when runs finish (see ./conformance.ts).
+ */
+export async function getConformanceMetrics(
+  window: MetricsWindow = DEFAULT_METRICS_WINDOW
+): Promise<WorkflowConformanceMetrics[]> {
+  const summaries = await getConformanceSummaries({
+    date_from: getWindowStart(window) ?? undefined,
+  });
+
+  return summaries.map((summary) => ({
+    workflowId: summary.workflow_id,
+    checkedRuns: summary.runs,
+    avgScore: Math.round(summary.avg_score),
+    conformingRate: summary.runs > 0 ? summary.conforming_runs / summary.runs : 0,
+    deviationCounts: summary.deviation_counts,
   }));
+}
 
-  return {
-    overview: {
-      totalTraces: overview.total,
-      runningTraces: overview.running,
-      completedTraces: overview.completed,
-      failedTraces: overview.failed,
-      avgDurationMs: overview.avgDurationMs,
-      totalTokens: overview.totalTokens,
-    },
-    agentMetrics,
-    toolUsage,
-    recentActivity,
-  };
+// ============================================================================
+// Tool Usage Metrics
+// ============================================================================
+
+/**
+ * Get tool usage statistics within a time window.
+ */
+export async function getToolUsageMetrics(
+  window: MetricsWindow = DEFAULT_METRICS_WINDOW
+): Promise<ToolUsageMetrics[]> {
+  const summaries = summarizeRollups(await loadRollups(window, 'tool'));
+
+  return Array.from(summaries.entries())
+    .map(([toolName, summary]) => ({
+      toolName,
+      usageCount: summary.total,
+      successRate: summary.total > 0 ? summary.success / summary.total : 0,
+      avgDurationMs: averageDuration(summary),
+      ...durationDistribution(summary, 'tool'),
+    }))
+    .sort((a, b) => b.usageCount - a.usageCount);
 }
 
 // ============================================================================
@@ -236,37 +484,37 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
 // ============================================================================
 
 /**
- * Get traces over time for charting.
+ * Get finished traces and their cost per day for charting. Every trace has an agent, so
+ * the agent rollups are summed per day to get totals.
  */
-export async function getTracesOverTime(days: number = 7): Promise<{
-  date: string;
-  total: number;
-  success: number;
-  failed: number;
-}[]> {
-  const { traces } = await listTraces({ limit: 500 });
+export async function getTracesOverTime(
+  window: MetricsWindow = DEFAULT_METRICS_WINDOW
+): Promise<TimeSeriesPoint[]> {
+  const rows = await loadRollups(window, 'agent');
+  const windowStart = getWindowStart(window);
 
-  const now = new Date();
-  const startDate = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  // The full history starts at the oldest rollup row
+  const startDate = windowStart || (rows[0] ? new Date(rows[0].bucket_start) : new Date());
+  const today = new Date().toISOString().split('T')[0];
 
-  // Group by date
-  const byDate = new Map<string, { total: number; success: number; failed: number }>();
+  const byDate = new Map<string, { total: number; success: number; failed: number; cost: number }>();
 
   // Initialize all dates
-  for (let i = 0; i < days; i++) {
-    const date = new Date(startDate.getTime() + i * 24 * 60 * 60 * 1000);
-    const key = date.toISOString().split('T')[0];
-    byDate.set(key, { total: 0, success: 0, failed: 0 });
+  for (let time = startDate.getTime(); ; time += DAY_MS) {
+    const key = new Date(time).toISOString().split('T')[0];
+    byDate.set(key, { total: 0, success: 0, failed: 0, cost: 0 });
+    if (key >= today) break;
   }
 
-  // Aggregate traces
-  for (const trace of traces) {
-    const date = new Date(trace.startedAt).toISOString().split('T')[0];
+  // Aggregate rollups
+  for (const row of rows) {
+    const date = new Date(row.bucket_start).toISOString().split('T')[0];
     if (byDate.has(date)) {
       const stats = byDate.get(date)!;
-      stats.total++;
-      if (trace.status === 'completed') stats.success++;
-      if (trace.status === 'failed') stats.failed++;
+      stats.total += row.total_count;
+      stats.success += row.success_count;
+      stats.failed += row.failure_count;
+      stats.cost += row.cost;
     }
   }
 
@@ -275,3 +523,63 @@ export async function getTracesOverTime(days: number = 7): Promise<{
     .map(([date, stats]) => ({ date, ...stats }))
     .sort((a, b) => a.date.localeCompare(b.date));
 }
+
+// ============================================================================
+// Dashboard Overview
+// ============================================================================
+
+/**
+ * Get complete dashboard metrics for a time window.
+ * Totals come from the rollups; running traces are counted from the store
+ * since they are only rolled up once they finish.
+ */
+export async function getDashboardMetrics(
+  window: MetricsWindow = DEFAULT_METRICS_WINDOW
+): Promise<DashboardMetrics> {
+  const windowStart = getWindowStart(window);
+
+  const [agentRows, agentMetrics, commandMetrics, workflowMetrics, conformanceMetrics, toolUsage, timeSeries, running, recent] =
+    await Promise.all([
+      loadRollups(window, 'agent'),
+      getAgentMetrics(window),
+      getCommandMetrics(window),
+      getWorkflowMetrics(window),
+      getConformanceMetrics(window),
+      getToolUsageMetrics(window),
+      getTracesOverTime(window),
+      listTraces({ status: 'running', startDate: windowStart?.toISOString(), limit: 1 }),
+      listTraces({ limit: 5 }),
+    ]);
+
+  const totals = summarizeRollups(
+    agentRows.map((row) => ({ ...row, dimension_value: '*' }))
+  ).get('*');
+
+  // Build recent activity from latest traces
+  const recentActivity = recent.traces.slice(0, 5).map((trace) => ({
+    timestamp: trace.startedAt,
+    agentId: trace.agentName || 'unknown',
+    action: trace.name,
+    status: trace.status,
+  }));
+
+  return {
+    window,
+    overview: {
+      totalTraces: (totals?.total || 0) + running.count,
+      runningTraces: running.count,
+      completedTraces: totals?.success || 0,
+      failedTraces: totals?.failure || 0,
+      avgDurationMs: totals ? averageDuration(totals) : 0,
+      totalTokens: totals?.tokens || 0,
+      totalCost: totals?.cost || 0,
+    },
+    agentMetrics,
+    commandMetrics,
+    workflowMetrics,
+    conformanceMetrics,
+    toolUsage,
+    recentActivity,
+    timeSeries,
+  };
+}
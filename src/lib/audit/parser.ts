@@ -10,7 +10,8 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import matter from 'gray-matter';
-import { query, queryOne } from '../db';
+import { query, queryOne, upsertWorkflowPlan } from '../db';
+import { parseWorkflowQuestions } from './questions';
 import type {
   Agent,
   AgentInput,
@@ -30,12 +31,22 @@ import type {
   SyncResult,
   ExtractedAgentMetadata,
   ExtractedCommandMetadata,
+  AgentCharter,
+  HandoffTemplate,
+  CommandPromptTemplate,
   // Legacy types for backward compatibility
   ParsedAgent,
   ParsedCommand,
   ParsedWorkflow,
   ParsedWorkflowStep,
 } from './types';
+import type {
+  AgentTask,
+  OrchestrationGate,
+  OrchestrationPhase,
+  OrchestrationPlan,
+  OrchestrationWave,
+} from '@/types/orchestration';
 
 // ============================================================================
 // Constants and Default Paths
@@ -54,12 +65,21 @@ function getCommandsDir(basePath: string = DEFAULT_BASE_PATH): string {
   return path.join(basePath, '.claude', 'commands');
 }
 
+/** Suffix of a command's sibling launch prompt template file */
+const PROMPT_TEMPLATE_SUFFIX = '.prompt.md';
+
+/** Get the AI docs directory path (charter, handoff template) */
+function getAiDocsDir(basePath: string = DEFAULT_BASE_PATH): string {
+  return path.join(basePath, 'docs', 'ai');
+}
+
 // ============================================================================
 // File System Utilities
 // ============================================================================
 
 /**
- * Get all markdown files from a directory.
+ * Get all markdown files from a directory. Launch prompt templates
+ * (<command>.prompt.md) are not commands and are left out.
  *
  * @param directory - Directory path to scan
  * @returns Array of absolute file paths
@@ -68,7 +88,7 @@ async function getMarkdownFiles(directory: string): Promise<string[]> {
   try {
     const entries = await fs.readdir(directory, { withFileTypes: true });
     return entries
-      .filter((entry) => entry.isFile() && entry.name.endsWith('.md'))
+      .filter((entry) => entry.isFile() && entry.name.endsWith('.md') && !entry.name.endsWith(PROMPT_TEMPLATE_SUFFIX))
       .map((entry) => path.join(directory, entry.name));
   } catch (error) {
     console.error(`Error reading directory ${directory}:`, error);
@@ -76,6 +96,21 @@ async function getMarkdownFiles(directory: string): Promise<string[]> {
   }
 }
 
+/**
+ * Check whether a file exists.
+ *
+ * @param filePath - Path to the file
+ * @returns True if the file can be accessed
+ */
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Get file statistics (creation and modification times).
  *
@@ -434,6 +469,10 @@ export async function parseCommandFile(filePath: string): Promise<ParsedCommandF
     // Use gray-matter to parse frontmatter (may be empty for command files)
     const { data, content } = matter(fileContent);
 
+    // Questions are only used when the whole set is valid
+    const { questions, errors: questionErrors } =
+      data.questions === undefined ? { questions: [], errors: [] } : parseWorkflowQuestions(data.questions);
+
     // Type the frontmatter (most fields may be undefined)
     const frontmatter: CommandFrontmatter = {
       name: data.name,
@@ -442,11 +481,14 @@ export async function parseCommandFile(filePath: string): Promise<ParsedCommandF
       minAgents: data.minAgents,
       maxAgents: data.maxAgents,
       allowsParallel: data.allowsParallel,
+      promptTemplate: typeof data.promptTemplate === 'string' ? data.promptTemplate : undefined,
+      questions: questions.length > 0 && questionErrors.length === 0 ? questions : undefined,
     };
 
     return {
       frontmatter,
       content: data.name ? content : fileContent, // Use full content if no frontmatter
+      questionErrors,
       filePath,
       createdAt: stats.createdAt,
       updatedAt: stats.updatedAt,
@@ -661,6 +703,341 @@ export function toWorkflowInput(
   };
 }
 
+/**
+ * Parse the workflow a command file declares, for its agent sequence.
+ *
+ * @param workflowId - Workflow ID (e.g., "feature-workflow")
+ * @param basePath - Base path to the project
+ * @returns Workflow input or null if no command file declares the workflow
+ */
+export async function parseWorkflowInput(
+  workflowId: string,
+  basePath?: string
+): Promise<WorkflowInput | null> {
+  const commandId = workflowId.replace(/-workflow$/, '');
+  if (!/^[a-z0-9][a-z0-9_-]*$/i.test(commandId)) return null;
+
+  const filePath = path.join(getCommandsDir(basePath), `${commandId}.md`);
+  if (!(await fileExists(filePath))) return null;
+
+  const parsed = await parseCommandFile(filePath);
+  if (!parsed) return null;
+
+  return toWorkflowInput(toCommandInput(parsed), extractCommandMetadata(parsed));
+}
+
+// ============================================================================
+// Launch Prompt Templates
+// ============================================================================
+
+/**
+ * Load the launch prompt template a workflow's command declares, from its
+ * frontmatter (`promptTemplate`) or a sibling <command>.prompt.md file.
+ * The frontmatter wins when both exist.
+ *
+ * @param workflowId - Workflow ID (e.g., "bugfix-workflow")
+ * @param basePath - Base path to the project
+ * @returns Template, or null if the command declares none
+ */
+export async function parsePromptTemplate(
+  workflowId: string,
+  basePath?: string
+): Promise<CommandPromptTemplate | null> {
+  const commandId = workflowId.replace(/-workflow$/, '');
+  if (!/^[a-z0-9][a-z0-9_-]*$/i.test(commandId)) return null;
+
+  const commandPath = path.join(getCommandsDir(basePath), `${commandId}.md`);
+  if (await fileExists(commandPath)) {
+    const parsed = await parseCommandFile(commandPath);
+    if (parsed?.frontmatter.promptTemplate?.trim()) {
+      return { template: parsed.frontmatter.promptTemplate, source: 'frontmatter' };
+    }
+  }
+
+  const templatePath = path.join(getCommandsDir(basePath), `${commandId}${PROMPT_TEMPLATE_SUFFIX}`);
+  if (await fileExists(templatePath)) {
+    return { template: await fs.readFile(templatePath, 'utf-8'), source: 'file' };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Agent Charter
+// ============================================================================
+
+/** Team table row: "| **agent-name** | responsibility |" */
+const CHARTER_AGENT_PATTERN = /^\|\s*\*\*([a-z]+-[a-z]+(?:-[a-z]+)?)\*\*\s*\|/gim;
+
+/** Escalation rule heading: "### When to pull in `agent-name`:" */
+const CHARTER_ESCALATION_PATTERN = /^#{2,4}\s+When to pull in `([a-z]+-[a-z]+(?:-[a-z]+)?)`/gim;
+
+/**
+ * Parse the agent charter for its team and escalation rules.
+ *
+ * @param basePath - Base path to the project
+ * @returns Charter rules; empty if the charter is missing
+ */
+export async function parseAgentCharter(basePath?: string): Promise<AgentCharter> {
+  const filePath = path.join(getAiDocsDir(basePath), 'AGENT_CHARTER.md');
+  if (!(await fileExists(filePath))) return { agents: [], escalationAgents: [] };
+
+  const content = await fs.readFile(filePath, 'utf-8');
+  const collect = (pattern: RegExp) =>
+    [...new Set([...content.matchAll(pattern)].map((match) => match[1].toLowerCase()))];
+
+  return {
+    agents: collect(CHARTER_AGENT_PATTERN),
+    escalationAgents: collect(CHARTER_ESCALATION_PATTERN),
+  };
+}
+
+// ============================================================================
+// Handoff Template
+// ============================================================================
+
+/** Numbered template section: "## 1. Context" */
+const TEMPLATE_SECTION_PATTERN = /^##\s+\d+\.\s+(.+?)\s*$/gm;
+
+/**
+ * Parse the handoff template for the sections a handoff must cover.
+ *
+ * @param basePath - Base path to the project
+ * @returns Template sections; empty if the template is missing
+ */
+export async function parseHandoffTemplate(basePath?: string): Promise<HandoffTemplate> {
+  const filePath = path.join(getAiDocsDir(basePath), 'HANDOFF_TEMPLATE.md');
+  if (!(await fileExists(filePath))) return { sections: [] };
+
+  const content = await fs.readFile(filePath, 'utf-8');
+  return {
+    sections: [...content.matchAll(TEMPLATE_SECTION_PATTERN)].map((match) => match[1]),
+  };
+}
+
+// ============================================================================
+// Orchestration Plans
+// ============================================================================
+
+/** Bold agent reference on a numbered list item: "1. **agent-name** -> task" */
+const NUMBERED_TASK_PATTERN = /^\s*\d+\.\s*\*\*([a-z]+-[a-z]+(?:-[a-z]+)?)\*\*\s*(?:->|→|:|-|—)?\s*(.*)$/i;
+
+/** Bold agent reference on a bullet item: "- **agent-name**: task" */
+const BULLET_TASK_PATTERN = /^\s*[-*]\s+\*\*([a-z]+-[a-z]+(?:-[a-z]+)?)\*\*\s*(?:->|→|:|-|—)?\s*(.*)$/i;
+
+/** Sections that restate the flow rather than define it */
+const NON_PHASE_HEADING_PATTERN = /gates?|checklist|handoff/i;
+
+/**
+ * Build a workflow ID from a command file name (matches parseAllWorkflows).
+ */
+function toWorkflowId(commandId: string): string {
+  return `${commandId}-workflow`;
+}
+
+/**
+ * Build a task from a list item's agent and trailing text.
+ */
+function toAgentTask(agent: string, text: string): AgentTask {
+  const task = text.replace(/\*\*|__/g, '').trim();
+  const deliverable = task.match(/(?:deliverables?|produces|output):\s*(.+)$/i);
+  const files = [...task.matchAll(/`([^`\s]+(?:\/[^`\s]+|\.[a-z]{1,5}))`/gi)].map((m) => m[1]);
+
+  return {
+    agent: agent.toLowerCase(),
+    task: task.replace(/`/g, '') || `Execute ${agent} responsibilities`,
+    deliverable: deliverable ? deliverable[1].replace(/`/g, '').trim() : '',
+    files: [...new Set(files)],
+  };
+}
+
+/**
+ * Split markdown into level 2 and 3 heading sections, ignoring code blocks.
+ */
+function splitHeadingSections(content: string): Array<{ heading: string; body: string }> {
+  const withoutCode = content.replace(/```[\s\S]*?```/g, '');
+  const sections: Array<{ heading: string; body: string }> = [];
+  const headingPattern = /^#{2,3}\s+(.+)$/gm;
+  const headings = [...withoutCode.matchAll(headingPattern)];
+
+  headings.forEach((match, index) => {
+    const start = match.index! + match[0].length;
+    const end = index + 1 < headings.length ? headings[index + 1].index! : withoutCode.length;
+    sections.push({ heading: match[1].trim(), body: withoutCode.slice(start, end) });
+  });
+
+  return sections;
+}
+
+/**
+ * Extract waves from a section body. Each numbered agent item is its own
+ * sequential wave; consecutive bulleted agent items form one wave, run in
+ * parallel when there are several or the preceding text says "parallel".
+ */
+function extractWaves(body: string): Array<Omit<OrchestrationWave, 'id' | 'dependencies'>> {
+  const waves: Array<Omit<OrchestrationWave, 'id' | 'dependencies'>> = [];
+  let group: AgentTask[] = [];
+  let parallelHint = false;
+
+  const closeGroup = () => {
+    if (group.length > 0) {
+      waves.push({ parallel: group.length > 1 || parallelHint, tasks: group });
+      parallelHint = false;
+    }
+    group = [];
+  };
+
+  for (const line of body.split('\n')) {
+    if (!line.trim()) continue;
+
+    // Checklist items restate tasks defined elsewhere
+    if (/^\s*[-*]\s*\[[ x]\]/i.test(line)) continue;
+
+    const numbered = line.match(NUMBERED_TASK_PATTERN);
+    if (numbered) {
+      closeGroup();
+      waves.push({ parallel: false, tasks: [toAgentTask(numbered[1], numbered[2])] });
+      continue;
+    }
+
+    const bullet = line.match(BULLET_TASK_PATTERN);
+    if (bullet) {
+      group.push(toAgentTask(bullet[1], bullet[2]));
+      continue;
+    }
+
+    closeGroup();
+    if (/parallel/i.test(line)) parallelHint = true;
+  }
+
+  closeGroup();
+  return waves;
+}
+
+/**
+ * Build an orchestration plan from command markdown.
+ *
+ * Phases come from level 2 and 3 headings whose sections list agents,
+ * waves from numbered (sequential) or bulleted/parallel agent lists, and
+ * gates from the Gates section. Each wave depends on the one before it.
+ * Files without agent lists fall back to a single phase built from the
+ * extracted workflow steps.
+ *
+ * @param id - Plan ID (the workflow ID)
+ * @param name - Plan display name
+ * @param content - Command markdown content
+ * @returns Orchestration plan
+ */
+export function buildOrchestrationPlan(id: string, name: string, content: string): OrchestrationPlan {
+  const phases: OrchestrationPhase[] = [];
+  let previousWaveId: string | null = null;
+
+  const addPhase = (phaseName: string, waves: Array<Omit<OrchestrationWave, 'id' | 'dependencies'>>) => {
+    const number = phases.length + 1;
+    phases.push({
+      number,
+      name: phaseName,
+      waves: waves.map((wave, index) => {
+        const waveId = `phase-${number}-wave-${index + 1}`;
+        const dependencies = previousWaveId ? [previousWaveId] : [];
+        previousWaveId = waveId;
+        return { id: waveId, dependencies, ...wave };
+      }),
+    });
+  };
+
+  for (const section of splitHeadingSections(content)) {
+    if (NON_PHASE_HEADING_PATTERN.test(section.heading)) continue;
+
+    const waves = extractWaves(section.body);
+    if (waves.length === 0) continue;
+
+    const phaseName = section.heading
+      .replace(/\*\*|`/g, '')
+      .replace(/^phase\s+\d+\s*[:.-]?\s*/i, '')
+      .trim();
+    addPhase(phaseName || section.heading, waves);
+  }
+
+  if (phases.length === 0) {
+    const steps = extractWorkflowSteps(content);
+    const agentSteps = steps
+      .map((step) => step.match(/^([a-z]+(?:-[a-z]+)+):\s*(.*)$/))
+      .filter((match): match is RegExpMatchArray => match !== null);
+
+    if (agentSteps.length > 0) {
+      addPhase('Workflow', agentSteps.map((match) => ({
+        parallel: false,
+        tasks: [toAgentTask(match[1], match[2])],
+      })));
+    }
+  }
+
+  // A gate naming a phase sits after it; other gates guard completion
+  const gates: OrchestrationGate[] = extractGates(content).map((condition) => {
+    const phaseIndex = phases.findIndex((phase) =>
+      condition.toLowerCase().includes(phase.name.toLowerCase())
+    );
+    const index = phaseIndex === -1 ? phases.length - 1 : phaseIndex;
+    const phase = phases[index];
+    const nextPhase = phases[index + 1];
+
+    return {
+      from: phase?.waves[phase.waves.length - 1]?.id || 'start',
+      to: nextPhase?.waves[0]?.id || 'complete',
+      condition,
+      blocking: /must|require|block/i.test(condition),
+    };
+  });
+
+  const handoffSection = content.match(/^#{2,3}\s+[^\n]*handoff[^\n]*\n([\s\S]*?)(?=\n#{1,3}\s|(?![\s\S]))/im);
+
+  return {
+    id,
+    name,
+    phases,
+    gates,
+    handoffPrompt: handoffSection ? handoffSection[1].trim() : '',
+  };
+}
+
+/**
+ * Build the orchestration plan of one command file, keyed by its workflow ID.
+ *
+ * @param parsed - Parsed command file
+ * @returns Orchestration plan
+ */
+export function toOrchestrationPlan(parsed: ParsedCommandFile): OrchestrationPlan {
+  const commandId = path.basename(parsed.filePath, '.md');
+  const name = commandId.split('-').map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(' ') + ' Workflow';
+
+  return buildOrchestrationPlan(toWorkflowId(commandId), name, parsed.content);
+}
+
+/**
+ * Parse the orchestration plan for a workflow from its command file.
+ *
+ * @param workflowId - Workflow ID (e.g., "feature-workflow")
+ * @param basePath - Base path to the project
+ * @returns Orchestration plan or null if no command file defines the workflow
+ */
+export async function parseOrchestrationPlan(
+  workflowId: string,
+  basePath?: string
+): Promise<OrchestrationPlan | null> {
+  const commandId = workflowId.replace(/-workflow$/, '');
+  if (!/^[a-z0-9][a-z0-9_-]*$/i.test(commandId)) return null;
+
+  const filePath = path.join(getCommandsDir(basePath), `${commandId}.md`);
+  if (!(await fileExists(filePath))) return null;
+
+  const parsed = await parseCommandFile(filePath);
+  if (!parsed) return null;
+
+  const plan = toOrchestrationPlan(parsed);
+  return plan.phases.length > 0 ? plan : null;
+}
+
 // ============================================================================
 // Database Sync
 // ============================================================================
@@ -888,6 +1265,14 @@ export async function syncToDatabase(basePath?: string): Promise<SyncResult> {
 
   // Sync commands and workflows
   for (const parsed of commandsResult.commands) {
+    for (const message of parsed.questionErrors) {
+      result.errors.push({
+        entityType: 'command',
+        entityName: parsed.frontmatter.name || path.basename(parsed.filePath, '.md'),
+        message,
+      });
+    }
+
     try {
       const commandInput = toCommandInput(parsed);
       const metadata = extractCommandMetadata(parsed);
@@ -911,6 +1296,14 @@ export async function syncToDatabase(basePath?: string): Promise<SyncResult> {
         if (!existingWorkflow) {
           result.workflowsCreated++;
         }
+
+        const plan = toOrchestrationPlan(parsed);
+        await upsertWorkflowPlan({
+          workflow_id: plan.id,
+          workflow_name: plan.name,
+          source_file: parsed.filePath,
+          plan,
+        });
       }
 
       await upsertCommand(commandInput);
@@ -945,6 +1338,8 @@ export interface ParseSyncResult {
   agents: ParsedAgent[];
   commands: ParsedCommand[];
   workflows: ParsedWorkflow[];
+  /** Problems found in command files, as "<command>: <message>" */
+  errors: string[];
   timestamp: string;
 }
 
@@ -999,6 +1394,8 @@ export async function parseLegacyCommandFile(filePath: string): Promise<ParsedCo
     usage: `/${fileName} [options]`,
     examples: examples.slice(0, 5),
     rawContent: parsed.content,
+    questions: parsed.frontmatter.questions,
+    questionErrors: parsed.questionErrors,
     lastSynced: new Date().toISOString(),
   };
 }
@@ -1070,16 +1467,22 @@ export async function syncLegacy(basePath?: string): Promise<ParseSyncResult> {
         description: command.description,
         agents: agentNames,
         steps: workflowSteps,
+        questions: command.questions,
         sourceFile: command.filePath,
         lastSynced: new Date().toISOString(),
       });
     }
   }
 
+  const errors = commands.flatMap((command) =>
+    command.questionErrors.map((message) => `${command.id}: ${message}`)
+  );
+
   return {
     agents,
     commands,
     workflows,
+    errors,
     timestamp: new Date().toISOString(),
   };
 }
@@ -1119,6 +1522,7 @@ export async function parseAllWorkflows(basePath?: string): Promise<ParsedWorkfl
         description: command.description,
         agents: agentNames,
         steps: workflowSteps,
+        questions: command.questions,
         sourceFile: command.filePath,
         lastSynced: new Date().toISOString(),
       });
@@ -0,0 +1,210 @@
+/**
+ * Workflow Questions for BigTurbo Agent Audit System
+ *
+ * Questions the launch wizard asks before generating a workflow's prompt.
+ * A command can declare its own list under `questions` in its frontmatter:
+ *
+ *   questions:
+ *     - id: severity
+ *       header: Severity
+ *       question: How severe is the bug?
+ *       options:
+ *         - label: Critical
+ *           description: Production is down
+ *         - Minor
+ *     - id: repro
+ *       header: Reproduction
+ *       question: How can the bug be reproduced?
+ *       optional: true
+ *
+ * Questions without options take free text. Commands without a list use
+ * DEFAULT_WORKFLOW_QUESTIONS. This module has no server dependencies, so
+ * the wizard and the launch route share it.
+ */
+
+import type { WorkflowAnswer, WorkflowQuestion, WorkflowQuestionOption } from '@/types/audit';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Answer that selects the workflow's agents. Accepted by every workflow
+ * and never declared as a question.
+ */
+export const AGENTS_QUESTION_ID = 'agents';
+
+/**
+ * Default questions for workflow launch configuration.
+ * These questions help gather context for the templated prompt.
+ */
+export const DEFAULT_WORKFLOW_QUESTIONS: WorkflowQuestion[] = [
+  {
+    id: 'change-type',
+    header: 'Change Type',
+    question: 'What type of change is this?',
+    multiSelect: false,
+    options: [
+      { label: 'New functionality', description: 'Adding new features or capabilities' },
+      { label: 'Bug fix', description: 'Fixing incorrect behavior or errors' },
+      { label: 'Refactor', description: 'Improving code structure without changing behavior' },
+      { label: 'Performance', description: 'Optimizing speed or resource usage' },
+      { label: 'Documentation', description: 'Adding or updating documentation' },
+      { label: 'Testing', description: 'Adding or improving tests' },
+    ],
+  },
+  {
+    id: 'affected-area',
+    header: 'Affected Area',
+    question: 'Which areas of the codebase are affected?',
+    multiSelect: true,
+    options: [
+      { label: 'Frontend', description: 'UI components, pages, client-side logic' },
+      { label: 'Backend', description: 'API routes, server-side logic' },
+      { label: 'Database', description: 'Schema, migrations, queries' },
+      { label: 'Infrastructure', description: 'Deployment, CI/CD, configuration' },
+      { label: 'Testing', description: 'Test files, test utilities' },
+      { label: 'Documentation', description: 'README, docs, comments' },
+    ],
+  },
+  {
+    id: 'description',
+    header: 'Description',
+    question: 'Describe what you want to accomplish:',
+    multiSelect: false,
+    options: [], // Empty options = free text input
+  },
+  {
+    id: 'files-involved',
+    header: 'Files Involved',
+    question: 'Are there specific files or directories involved? (optional)',
+    multiSelect: false,
+    options: [], // Empty options = free text input
+    optional: true,
+  },
+];
+
+const QUESTION_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate one option: a label, or an object with a label and description.
+ */
+function parseOption(raw: unknown, where: string, errors: string[]): WorkflowQuestionOption | null {
+  if (typeof raw === 'string' && raw.trim()) {
+    return { label: raw.trim(), description: '' };
+  }
+  if (!isRecord(raw) || typeof raw.label !== 'string' || !raw.label.trim()) {
+    errors.push(`${where} needs a label`);
+    return null;
+  }
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    errors.push(`${where}.description must be text`);
+    return null;
+  }
+  return { label: raw.label.trim(), description: raw.description?.trim() || '' };
+}
+
+/**
+ * Validate one question.
+ */
+function parseQuestion(raw: unknown, where: string, errors: string[]): WorkflowQuestion | null {
+  if (!isRecord(raw)) {
+    errors.push(`${where} must be a mapping`);
+    return null;
+  }
+
+  const count = errors.length;
+  const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+
+  if (!QUESTION_ID_PATTERN.test(id)) {
+    errors.push(`${where}.id must be letters, digits, "-" or "_"`);
+  } else if (id === AGENTS_QUESTION_ID) {
+    errors.push(`${where}.id "${AGENTS_QUESTION_ID}" is reserved for agent selection`);
+  }
+  if (typeof raw.question !== 'string' || !raw.question.trim()) {
+    errors.push(`${where}.question is required`);
+  }
+  if (raw.header !== undefined && typeof raw.header !== 'string') {
+    errors.push(`${where}.header must be text`);
+  }
+  for (const flag of ['multiSelect', 'optional']) {
+    if (raw[flag] !== undefined && typeof raw[flag] !== 'boolean') {
+      errors.push(`${where}.${flag} must be true or false`);
+    }
+  }
+  if (raw.options !== undefined && !Array.isArray(raw.options)) {
+    errors.push(`${where}.options must be a list`);
+  }
+
+  const options = (Array.isArray(raw.options) ? raw.options : [])
+    .map((option, index) => parseOption(option, `${where}.options[${index}]`, errors))
+    .filter((option): option is WorkflowQuestionOption => option !== null);
+
+  const labels = options.map((option) => option.label);
+  const duplicate = labels.find((label, index) => labels.indexOf(label) !== index);
+  if (duplicate) errors.push(`${where}.options has "${duplicate}" twice`);
+
+  if (errors.length > count) return null;
+
+  return {
+    id,
+    header: typeof raw.header === 'string' && raw.header.trim() ? raw.header.trim() : id,
+    question: (raw.question as string).trim(),
+    multiSelect: raw.multiSelect === true,
+    options,
+    ...(raw.optional === true ? { optional: true } : {}),
+  };
+}
+
+/**
+ * Validate the questions a command declares in its frontmatter.
+ *
+ * @param raw - Value of the frontmatter's `questions` field
+ * @returns Valid questions and a message for each problem found
+ */
+export function parseWorkflowQuestions(raw: unknown): { questions: WorkflowQuestion[]; errors: string[] } {
+  if (!Array.isArray(raw)) {
+    return { questions: [], errors: ['questions must be a list'] };
+  }
+  if (raw.length === 0) {
+    return { questions: [], errors: ['questions must not be empty'] };
+  }
+
+  const errors: string[] = [];
+  const questions = raw
+    .map((question, index) => parseQuestion(question, `questions[${index}]`, errors))
+    .filter((question): question is WorkflowQuestion => question !== null);
+
+  const ids = questions.map((question) => question.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) errors.push(`questions has the id "${duplicate}" twice`);
+
+  return { questions, errors };
+}
+
+/**
+ * Find answers to questions a workflow does not ask.
+ *
+ * @param questions - Questions of the workflow
+ * @param answers - Submitted answers
+ * @returns Unknown question IDs
+ */
+export function getUnknownQuestionIds(questions: WorkflowQuestion[], answers: WorkflowAnswer[]): string[] {
+  const known = new Set([AGENTS_QUESTION_ID, ...questions.map((question) => question.id)]);
+  return [...new Set(answers.map((answer) => answer.questionId).filter((id) => !known.has(id)))];
+}
+
+/**
+ * Question headers keyed by question ID, for prompt labels.
+ */
+export function getQuestionLabels(questions: WorkflowQuestion[]): Record<string, string> {
+  return Object.fromEntries(questions.map((question) => [question.id, question.header]));
+}
@@ -0,0 +1,472 @@
+/**
+ * Run Queue for BigTurbo Agent Audit System
+ *
+ * Queues launches in Postgres and starts them with the headless runner as
+ * concurrency allows. Waiting runs start by priority, highest first, then
+ * in the order they were queued, as long as fewer than RUN_QUEUE_MAX_CONCURRENT
+ * runs are going overall and fewer than the workflow's limit are going for
+ * its workflow (RUN_QUEUE_MAX_PER_WORKFLOW, or an override from
+ * RUN_QUEUE_WORKFLOW_LIMITS such as "feature-workflow=2,bugfix-workflow=1").
+ *
+ * The queue is dispatched when a run is queued, resumed or finishes, and
+ * on request (POST /api/audit/queue/dispatch). Runs live in the server
+ * instance that claimed them, which records itself as the entry's owner
+ * and refreshes a heartbeat while the run lasts. A dispatch settles only
+ * the entries its own instance owns, plus entries whose owner's heartbeat
+ * has gone stale, so several instances can share one queue. Claims check
+ * the limits in Postgres under a lock, so instances do not overshoot them
+ * together. A run owned by another instance is cancelled by flagging its
+ * entry; the owner stops the run at its next heartbeat.
+ */
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import {
+  claimNextQueuedRun,
+  countQueuedRuns,
+  createQueuedRun,
+  failStaleQueuedRuns,
+  getQueuedRunById,
+  getQueuedRuns,
+  heartbeatQueuedRuns,
+  requestQueuedRunCancel,
+  updateQueuedRun,
+  type QueuedRun,
+} from '@/lib/db';
+import { getLaunch } from './launches';
+import { cancelRun, getRun, isRunnerEnabled, resolveRunCwd, startRun, subscribeRun } from './runner';
+import type {
+  RunQueueEntry,
+  RunQueueLimits,
+  RunQueueResponse,
+  RunQueueStatus,
+  RunQueueUpdateRequest,
+  WorkflowLaunch,
+  WorkflowRun,
+} from '@/types/audit';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_MAX_CONCURRENT = 2;
+const DEFAULT_MAX_PER_WORKFLOW = 1;
+
+/** Running entries checked per dispatch */
+const DISPATCH_BATCH = 100;
+
+/** How often an instance refreshes the heartbeat of the runs it owns */
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+/** Heartbeat age after which another instance's run is taken as lost */
+const HEARTBEAT_TIMEOUT_MS = 2 * 60_000;
+
+const FINISHED_STATUSES: RunQueueStatus[] = ['completed', 'failed', 'cancelled'];
+
+function parseLimit(value: string | undefined, fallback: number): number {
+  const limit = parseInt(value || '', 10);
+  return limit > 0 ? limit : fallback;
+}
+
+/**
+ * Read the queue's concurrency limits from the environment.
+ */
+export function getQueueLimits(): RunQueueLimits {
+  const workflows: Record<string, number> = {};
+
+  for (const entry of (process.env.RUN_QUEUE_WORKFLOW_LIMITS || '').split(',')) {
+    const [workflowId, value] = entry.split('=').map((part) => part.trim());
+    const limit = parseInt(value || '', 10);
+    if (workflowId && limit > 0) workflows[workflowId] = limit;
+  }
+
+  return {
+    global: parseLimit(process.env.RUN_QUEUE_MAX_CONCURRENT, DEFAULT_MAX_CONCURRENT),
+    perWorkflow: parseLimit(process.env.RUN_QUEUE_MAX_PER_WORKFLOW, DEFAULT_MAX_PER_WORKFLOW),
+    workflows,
+  };
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+interface QueueState {
+  /** Identifies this server instance as the owner of the runs it claims */
+  instanceId: string;
+  dispatch: Promise<void>;
+  /** Queue entries this instance is running */
+  owned: Set<string>;
+  heartbeat: ReturnType<typeof setInterval> | null;
+}
+
+// Kept on globalThis so route bundles (and dev reloads) share one dispatcher
+const globalForQueue = globalThis as typeof globalThis & {
+  bigturboRunQueue?: QueueState;
+};
+
+const state = globalForQueue.bigturboRunQueue ??= {
+  instanceId: `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`,
+  dispatch: Promise.resolve(),
+  owned: new Set(),
+  heartbeat: null,
+};
+
+// ============================================================================
+// Conversion and Validation
+// ============================================================================
+
+/**
+ * Convert a stored queue entry to its API form.
+ */
+export function toRunQueueEntry(row: QueuedRun): RunQueueEntry {
+  return {
+    id: row.id,
+    launchId: row.launch_id,
+    workflowId: row.workflow_id,
+    cwd: row.cwd,
+    priority: row.priority,
+    status: row.status,
+    runId: row.run_id,
+    traceId: row.trace_id,
+    error: row.error,
+    enqueuedBy: row.enqueued_by,
+    createdAt: new Date(row.created_at).toISOString(),
+    startedAt: row.started_at ? new Date(row.started_at).toISOString() : null,
+    completedAt: row.completed_at ? new Date(row.completed_at).toISOString() : null,
+    cancelRequested: row.status === 'running' && row.cancel_requested,
+  };
+}
+
+/**
+ * Validate a queue request body: `launchId`, and optional `cwd` and `priority`.
+ */
+export function validateQueueInput(input: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  if (typeof input.launchId !== 'string' || !input.launchId) {
+    errors.push('launchId is required');
+  }
+  if (input.cwd !== undefined && typeof input.cwd !== 'string') {
+    errors.push('cwd must be a string');
+  }
+  if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+    errors.push('priority must be an integer');
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// Heartbeat
+// ============================================================================
+
+/**
+ * Refresh the heartbeat of the runs this instance owns and stop those
+ * whose cancellation was requested from another instance, stopping the
+ * timer once it owns none.
+ */
+function beat(): void {
+  if (state.owned.size === 0) {
+    if (state.heartbeat) clearInterval(state.heartbeat);
+    state.heartbeat = null;
+    return;
+  }
+
+  heartbeatQueuedRuns([...state.owned], state.instanceId)
+    .then((rows) => {
+      for (const row of rows) {
+        if (row.cancel_requested && row.run_id) cancelRun(row.run_id);
+      }
+    })
+    .catch((error) => {
+      console.error('Failed to refresh the run queue heartbeat:', error);
+    });
+}
+
+/**
+ * Track a run this instance started and keep its heartbeat fresh.
+ */
+function own(id: string): void {
+  state.owned.add(id);
+  if (!state.heartbeat) {
+    state.heartbeat = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    state.heartbeat.unref?.();
+  }
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+/**
+ * Record how a run ended, then start whatever can run next.
+ */
+async function finishQueuedRun(id: string, run: WorkflowRun): Promise<void> {
+  state.owned.delete(id);
+
+  try {
+    await updateQueuedRun(id, {
+      status: run.status,
+      error: run.error,
+      completed_at: run.completedAt ? new Date(run.completedAt) : new Date(),
+    }, ['running']);
+  } catch (error) {
+    console.error(`Failed to record the end of queued run ${id}:`, error);
+  }
+
+  void dispatchQueue();
+}
+
+/**
+ * Fail a queued run that could not be started.
+ */
+async function failQueuedRun(id: string, error: string): Promise<void> {
+  state.owned.delete(id);
+  await updateQueuedRun(id, { status: 'failed', error, completed_at: new Date() }, ['running']);
+}
+
+/**
+ * Start a claimed entry with the runner and follow it to the end.
+ */
+async function startQueuedRun(row: QueuedRun): Promise<void> {
+  const launch: WorkflowLaunch | null = await getLaunch(row.launch_id);
+  if (!launch) {
+    await failQueuedRun(row.id, `Launch '${row.launch_id}' not found`);
+    return;
+  }
+
+  // The directory was allowed when queued but may be gone by now
+  const resolved = resolveRunCwd(row.cwd);
+  if ('error' in resolved) {
+    await failQueuedRun(row.id, resolved.error);
+    return;
+  }
+
+  let run: WorkflowRun;
+  try {
+    run = await startRun({ launch, cwd: resolved.cwd, userId: row.enqueued_by });
+  } catch (error) {
+    await failQueuedRun(row.id, error instanceof Error ? error.message : 'Failed to start run');
+    return;
+  }
+
+  own(row.id);
+  const updated = await updateQueuedRun(row.id, { run_id: run.id, trace_id: run.traceId });
+
+  // Cancelled between the claim and the start
+  if (updated?.cancel_requested) cancelRun(run.id);
+
+  const unsubscribe = subscribeRun(run.id, (event) => {
+    if (event.type !== 'status' || event.run.status === 'running') return;
+    unsubscribe();
+    void finishQueuedRun(row.id, event.run);
+  });
+
+  // The run may have ended before the subscription, such as a missing CLI
+  const current = getRun(run.id);
+  if (current && current.status !== 'running') {
+    unsubscribe();
+    await finishQueuedRun(row.id, current);
+  }
+}
+
+/**
+ * Settle running entries whose run has ended or was lost: this instance's
+ * entries whose run it no longer has, and other instances' entries whose
+ * heartbeat is stale, such as runs lost when their server restarted.
+ */
+async function reconcileRunning(running: QueuedRun[]): Promise<void> {
+  const stale = await failStaleQueuedRuns(
+    state.instanceId,
+    HEARTBEAT_TIMEOUT_MS,
+    'Run was lost when its server stopped responding'
+  );
+  const staleIds = new Set(stale.map((row) => row.id));
+
+  for (const row of running) {
+    // Stale, or another instance's run still sending heartbeats
+    if (staleIds.has(row.id) || row.owner_id !== state.instanceId) continue;
+
+    const run = row.run_id ? getRun(row.run_id) : null;
+
+    if (run?.status === 'running') continue;
+
+    if (run) {
+      state.owned.delete(row.id);
+      await updateQueuedRun(row.id, {
+        status: run.status,
+        error: run.error,
+        completed_at: run.completedAt ? new Date(run.completedAt) : new Date(),
+      }, ['running']);
+    } else {
+      await failQueuedRun(row.id, 'Run was lost when the server restarted');
+    }
+  }
+}
+
+/**
+ * Start waiting runs while the concurrency limits allow. Each claim skips
+ * workflows already at their limit, so a long backlog for one workflow
+ * does not hold up the others.
+ */
+async function runDispatch(): Promise<void> {
+  if (!isRunnerEnabled()) return;
+
+  const limits = getQueueLimits();
+  const { runs: running } = await getQueuedRuns({ status: ['running'], limit: DISPATCH_BATCH });
+  await reconcileRunning(running);
+
+  for (;;) {
+    const claimed = await claimNextQueuedRun(state.instanceId, limits);
+    if (!claimed) break;
+
+    await startQueuedRun(claimed);
+  }
+}
+
+/**
+ * Start waiting runs while the concurrency limits allow. Dispatches in
+ * this server run one at a time, so limits are not overshot.
+ */
+export function dispatchQueue(): Promise<void> {
+  state.dispatch = state.dispatch.then(runDispatch).catch((error) => {
+    console.error('Failed to dispatch the run queue:', error);
+  });
+  return state.dispatch;
+}
+
+// ============================================================================
+// Queue Operations
+// ============================================================================
+
+/**
+ * Queue a launch and start it if a slot is free.
+ *
+ * @param options - Launch, working directory, priority and user
+ * @returns The queue entry, running if it has already started
+ */
+export async function enqueueRun(options: {
+  launch: WorkflowLaunch;
+  cwd: string;
+  priority?: number;
+  userId: string | null;
+}): Promise<RunQueueEntry> {
+  const row = await createQueuedRun({
+    launch_id: options.launch.id,
+    workflow_id: options.launch.workflowId,
+    cwd: options.cwd,
+    priority: options.priority ?? 0,
+    enqueued_by: options.userId,
+  });
+
+  await dispatchQueue();
+
+  return toRunQueueEntry((await getQueuedRunById(row.id)) ?? row);
+}
+
+/**
+ * Pause, resume or cancel a queued run, or change its priority.
+ *
+ * @param id - Queue entry ID
+ * @param update - Action and/or new priority
+ * @returns Updated entry, an error for a change its status does not
+ *   allow, or null if not found
+ */
+export async function updateQueueEntry(
+  id: string,
+  update: RunQueueUpdateRequest
+): Promise<{ entry: RunQueueEntry } | { error: string } | null> {
+  let row = await getQueuedRunById(id);
+  if (!row) return null;
+
+  if (update.priority !== undefined) {
+    const updated = await updateQueuedRun(id, { priority: update.priority }, ['queued', 'paused']);
+    if (!updated) return { error: 'Only queued or paused runs can be reprioritized' };
+    row = updated;
+  }
+
+  switch (update.action) {
+    case 'pause': {
+      const updated = await updateQueuedRun(id, { status: 'paused' }, ['queued']);
+      if (!updated) return { error: 'Only queued runs can be paused' };
+      row = updated;
+      break;
+    }
+
+    case 'resume': {
+      const updated = await updateQueuedRun(id, { status: 'queued' }, ['paused']);
+      if (!updated) return { error: 'Only paused runs can be resumed' };
+      await dispatchQueue();
+      row = (await getQueuedRunById(id)) ?? updated;
+      break;
+    }
+
+    case 'cancel': {
+      if (FINISHED_STATUSES.includes(row.status)) {
+        return { error: `Run has already ${row.status === 'cancelled' ? 'been cancelled' : row.status}` };
+      }
+
+      // A running run is marked cancelled once its CLI has exited. Runs of
+      // other instances, or not started yet, are flagged for their owner.
+      if (row.status === 'running') {
+        if (row.owner_id === state.instanceId && row.run_id && cancelRun(row.run_id)) break;
+
+        if (row.owner_id !== state.instanceId || !row.run_id) {
+          const requested = await requestQueuedRunCancel(id);
+          if (!requested) return { error: 'Run has already finished' };
+          row = requested;
+          break;
+        }
+      }
+
+      const updated = await updateQueuedRun(id, {
+        status: 'cancelled',
+        error: 'Cancelled by user',
+        completed_at: new Date(),
+      }, ['queued', 'paused', 'running']);
+      if (!updated) return { error: 'Run has already finished' };
+      row = updated;
+      break;
+    }
+  }
+
+  return { entry: toRunQueueEntry(row) };
+}
+
+/**
+ * List the run queue with its counts and limits.
+ *
+ * @param options - Status and workflow filters, and pagination
+ * @returns Queue entries, counts by status and limits
+ */
+export async function listQueue(options: {
+  status?: RunQueueStatus[];
+  workflowId?: string;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<RunQueueResponse> {
+  const limit = options.limit ?? 50;
+  const offset = options.offset ?? 0;
+
+  const [{ runs, total }, counts] = await Promise.all([
+    getQueuedRuns({ status: options.status, workflow_id: options.workflowId, limit, offset }),
+    countQueuedRuns(),
+  ]);
+
+  return {
+    entries: runs.map(toRunQueueEntry),
+    total,
+    hasMore: offset + runs.length < total,
+    counts: {
+      queued: counts.queued ?? 0,
+      paused: counts.paused ?? 0,
+      running: counts.running ?? 0,
+      completed: counts.completed ?? 0,
+      failed: counts.failed ?? 0,
+      cancelled: counts.cancelled ?? 0,
+    },
+    limits: getQueueLimits(),
+    enabled: isRunnerEnabled(),
+  };
+}
@@ -0,0 +1,275 @@
+/**
+ * Trace Replay for BigTurbo Agent Audit System
+ *
+ * Re-launches a past run with the same input. The command and input are
+ * rebuilt from the trace (or from the launch that produced it), and the
+ * replay can run with the agent prompts as they are now or as they were
+ * at the commit the trace recorded in `metadata.commitHash`. A replay is
+ * recorded as a launch whose parent is the original trace; the trace the
+ * replay starts picks the parent up from its launch ID.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getFileAtCommit } from './git';
+import { appendLaunchId, createLaunchId, getLaunch, recordLaunch } from './launches';
+import type { LangfuseTrace } from '@/lib/langfuse/types';
+import type {
+  ReplayAgentPrompt,
+  ReplayPromptVersion,
+  TraceReplayPlan,
+  WorkflowLaunch,
+} from '@/types/audit';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface AgentPromptFiles {
+  agent: string;
+  current: string | null;
+  historical: string | null;
+}
+
+interface ReplaySource {
+  plan: TraceReplayPlan;
+  prompts: AgentPromptFiles[];
+  launch: WorkflowLaunch | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const REPLAY_VERSIONS: ReplayPromptVersion[] = ['current', 'historical'];
+
+/** Agent names that map to a file in .claude/agents */
+const AGENT_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+const COMMIT_HASH_PATTERN = /^[0-9a-fA-F]{4,40}$/;
+
+/** The launch ID line appended to every generated prompt */
+const LAUNCH_ID_LINE_PATTERN = /\n*Launch ID: launch_[0-9a-f]{12}\s*$/;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a replay request body.
+ */
+export function validateReplayInput(input: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  if (input.version !== undefined && !REPLAY_VERSIONS.includes(input.version as ReplayPromptVersion)) {
+    errors.push(`version must be one of: ${REPLAY_VERSIONS.join(', ')}`);
+  }
+  if (input.run !== undefined && typeof input.run !== 'boolean') {
+    errors.push('run must be a boolean');
+  }
+  if (input.cwd !== undefined && typeof input.cwd !== 'string') {
+    errors.push('cwd must be a string');
+  }
+  if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+    errors.push('priority must be an integer');
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// Source
+// ============================================================================
+
+/**
+ * Get the launch that produced a trace. The database is optional, so a
+ * missing launch table only loses the original prompt.
+ */
+async function findLaunch(launchId: unknown): Promise<WorkflowLaunch | null> {
+  if (typeof launchId !== 'string') return null;
+
+  try {
+    return await getLaunch(launchId);
+  } catch (error) {
+    console.warn('Failed to load launch for replay:', error);
+    return null;
+  }
+}
+
+/**
+ * Rebuild the text a trace was started with, without its launch ID.
+ */
+function getReplayInput(trace: LangfuseTrace, launch: WorkflowLaunch | null): string {
+  const text = launch
+    ? launch.prompt
+    : typeof trace.input.prompt === 'string'
+      ? trace.input.prompt
+      : JSON.stringify(trace.input, null, 2);
+
+  return text.replace(LAUNCH_ID_LINE_PATTERN, '');
+}
+
+/**
+ * List the agents of a trace: the one that started it, then the span
+ * agents in the order they first appeared.
+ */
+function getTraceAgents(trace: LangfuseTrace): string[] {
+  const agents = [trace.agentName, ...(trace.spans ?? []).map((span) => span.agentName)];
+  return [...new Set(agents)].filter((agent) => AGENT_NAME_PATTERN.test(agent));
+}
+
+function getAgentPath(agent: string): string {
+  return path.join(process.cwd(), '.claude', 'agents', `${agent}.md`);
+}
+
+async function readAgentPrompt(agent: string): Promise<string | null> {
+  try {
+    return await fs.readFile(getAgentPath(agent), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the current and historical prompt file of each agent. Agents with
+ * neither (such as the headless runner) are left out.
+ */
+async function loadAgentPrompts(agents: string[], commitHash: string | null): Promise<AgentPromptFiles[]> {
+  const prompts = await Promise.all(
+    agents.map(async (agent) => ({
+      agent,
+      current: await readAgentPrompt(agent),
+      historical: commitHash ? await getFileAtCommit(getAgentPath(agent), commitHash) : null,
+    }))
+  );
+
+  return prompts.filter((prompt) => prompt.current !== null || prompt.historical !== null);
+}
+
+function toReplayAgentPrompt(prompt: AgentPromptFiles): ReplayAgentPrompt {
+  return {
+    agent: prompt.agent,
+    currentAvailable: prompt.current !== null,
+    historicalAvailable: prompt.historical !== null,
+    changed: prompt.historical !== null && prompt.historical !== prompt.current,
+  };
+}
+
+/**
+ * Work out what a replay of a trace launches.
+ */
+async function getReplaySource(trace: LangfuseTrace): Promise<ReplaySource | { error: string }> {
+  const launch = await findLaunch(trace.metadata.launchId);
+  const workflowId = launch?.workflowId
+    ?? trace.workflowName
+    ?? (trace.commandName ? `${trace.commandName}-workflow` : null);
+
+  if (!workflowId) {
+    return { error: `Trace ${trace.traceId} has no workflow or command to replay` };
+  }
+
+  const commandName = trace.commandName ?? workflowId.replace(/-workflow$/, '');
+  const commitHash = typeof trace.metadata.commitHash === 'string'
+    && COMMIT_HASH_PATTERN.test(trace.metadata.commitHash)
+    ? trace.metadata.commitHash
+    : null;
+
+  const prompts = await loadAgentPrompts(getTraceAgents(trace), commitHash);
+
+  return {
+    plan: {
+      traceId: trace.traceId,
+      workflowId,
+      command: launch?.command ?? `claude --plan '/${commandName}'`,
+      input: getReplayInput(trace, launch),
+      commitHash,
+      launchId: launch?.id ?? null,
+      agents: prompts.map(toReplayAgentPrompt),
+      historicalAvailable: prompts.some((prompt) => prompt.historical !== null),
+    },
+    prompts,
+    launch,
+  };
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * Describe what replaying a trace would launch.
+ *
+ * @param trace - Trace to replay
+ * @returns Replay plan, or an error if the trace cannot be replayed
+ */
+export async function buildReplayPlan(trace: LangfuseTrace): Promise<{ plan: TraceReplayPlan } | { error: string }> {
+  const source = await getReplaySource(trace);
+  return 'error' in source ? source : { plan: source.plan };
+}
+
+/**
+ * Write the replay prompt. Historical replays carry the agent definitions
+ * that changed since the trace's commit, since the agent CLI reads the
+ * current files.
+ */
+function buildReplayPrompt(source: ReplaySource, version: ReplayPromptVersion): string {
+  const { plan } = source;
+  const lines = [plan.input, '', '---', `Replay of trace ${plan.traceId}.`];
+
+  if (version === 'historical' && plan.commitHash) {
+    const commit = plan.commitHash.slice(0, 7);
+    const changed = source.prompts.filter((prompt) => prompt.historical !== null && prompt.historical !== prompt.current);
+
+    if (changed.length === 0) {
+      lines.push(`The agent definitions in .claude/agents have not changed since commit ${commit}.`);
+    } else {
+      lines.push(`Use these agent definitions from commit ${commit} instead of the current files in .claude/agents:`);
+      for (const prompt of changed) {
+        lines.push('', `### ${prompt.agent} (.claude/agents/${prompt.agent}.md @ ${commit})`, '', '````markdown', prompt.historical!.trimEnd(), '````');
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Replay a trace: record a launch with the rebuilt prompt, linked to the
+ * trace as its parent.
+ *
+ * @param trace - Trace to replay
+ * @param options - Agent prompts to use and the user replaying
+ * @returns The replay's launch, or an error if it cannot be replayed
+ */
+export async function createReplay(
+  trace: LangfuseTrace,
+  options: { version: ReplayPromptVersion; userId: string | null }
+): Promise<{ launch: WorkflowLaunch } | { error: string }> {
+  const source = await getReplaySource(trace);
+  if ('error' in source) return source;
+
+  if (options.version === 'historical' && !source.plan.historicalAvailable) {
+    return {
+      error: source.plan.commitHash
+        ? `No agent prompts of trace ${trace.traceId} exist at commit ${source.plan.commitHash}`
+        : `Trace ${trace.traceId} has no commit hash to replay its prompts from`,
+    };
+  }
+
+  const launchId = createLaunchId();
+  const launch: WorkflowLaunch = {
+    id: launchId,
+    workflowId: source.plan.workflowId,
+    command: source.plan.command,
+    prompt: appendLaunchId(buildReplayPrompt(source, options.version), launchId),
+    answers: source.launch?.answers ?? [],
+    presetId: null,
+    userId: options.userId,
+    traceId: null,
+    parentTraceId: trace.traceId,
+    createdAt: new Date().toISOString(),
+  };
+
+  await recordLaunch(launch);
+  return { launch };
+}
@@ -0,0 +1,224 @@
+/**
+ * Trace Retention for BigTurbo Agent Audit System
+ *
+ * Applies retention policies to the active trace store. A policy deletes
+ * traces older than its age limit, optionally narrowed to one status,
+ * agent or environment (TraceMetadata.environment). Every run, including
+ * dry runs, is written to the retention audit log.
+ *
+ * A purge also deletes the handoffs, gate results, conformance and
+ * execution state recorded for the purged traces. Metric rollups are not
+ * touched, so dashboards keep purged history.
+ */
+
+import {
+  createRetentionPurge,
+  deleteTraceRecords,
+  getRetentionPolicies,
+  getRetentionPolicyById,
+  type RetentionPolicy,
+  type RetentionPurge,
+} from '@/lib/db';
+import { deleteTraces, getTraceStoreBackend, scanTraces } from '@/lib/langfuse/client';
+import type { LangfuseTrace, TraceStatus } from '@/lib/langfuse/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RetentionRunOptions {
+  /** Report matching traces without deleting them */
+  dryRun?: boolean;
+  /** Apply only this policy (enabled or not) */
+  policyId?: string;
+  /** Who or what started the run, recorded in the audit log */
+  triggeredBy?: string;
+}
+
+export interface RetentionRunResult {
+  dryRun: boolean;
+  matched: number;
+  deleted: number;
+  purges: RetentionPurge[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const RETENTION_STATUSES: TraceStatus[] = ['running', 'completed', 'failed', 'cancelled'];
+
+/** Statuses purged when a policy does not name one; running traces are kept */
+const FINISHED_STATUSES: TraceStatus[] = ['completed', 'failed', 'cancelled'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Check the filters the trace store cannot apply itself.
+ */
+function matchesEnvironment(trace: LangfuseTrace, policy: RetentionPolicy): boolean {
+  if (!policy.environment) return true;
+  return trace.metadata?.environment === policy.environment;
+}
+
+/**
+ * Find the IDs of traces a policy would delete, in a single scan of the store.
+ */
+export async function findRetentionCandidates(
+  policy: RetentionPolicy,
+  now: Date = new Date()
+): Promise<string[]> {
+  const cutoff = new Date(now.getTime() - policy.max_age_days * DAY_MS);
+  const traceIds: string[] = [];
+
+  await scanTraces(
+    {
+      status: policy.status ?? FINISHED_STATUSES,
+      agentName: policy.agent_name ?? undefined,
+      endDate: cutoff.toISOString(),
+    },
+    (traces) => {
+      for (const trace of traces) {
+        if (matchesEnvironment(trace, policy)) traceIds.push(trace.traceId);
+      }
+    }
+  );
+
+  return traceIds;
+}
+
+// ============================================================================
+// Purging
+// ============================================================================
+
+/**
+ * Apply one policy and record the run in the audit log.
+ * Failures are logged with the error rather than thrown. When the store
+ * deletes only part of the matched traces, the purge records how many were
+ * deleted alongside the failures.
+ */
+export async function applyRetentionPolicy(
+  policy: RetentionPolicy,
+  options: RetentionRunOptions = {}
+): Promise<RetentionPurge> {
+  const startedAt = new Date();
+  const dryRun = options.dryRun ?? false;
+  let traceIds: string[] = [];
+  let deleted = 0;
+  let error: string | null = null;
+
+  try {
+    traceIds = await findRetentionCandidates(policy, startedAt);
+    if (!dryRun) {
+      // Only traces the store actually deleted lose their decision records
+      const result = await deleteTraces(traceIds);
+      deleted = result.deletedIds.length;
+      await deleteTraceRecords(result.deletedIds);
+      if (result.errors.length > 0) {
+        error = result.errors.join('; ');
+        console.error(`Retention policy "${policy.name}" deleted ${deleted} of ${traceIds.length} traces:`, error);
+      }
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Unknown error';
+    console.error(`Retention policy "${policy.name}" failed:`, err);
+  }
+
+  return createRetentionPurge({
+    policy_id: policy.id,
+    policy_name: policy.name,
+    backend: getTraceStoreBackend(),
+    dry_run: dryRun,
+    matched_count: traceIds.length,
+    deleted_count: deleted,
+    trace_ids: traceIds,
+    triggered_by: options.triggeredBy || 'manual',
+    error,
+    started_at: startedAt,
+  });
+}
+
+/**
+ * Apply every enabled policy (or the one named by `policyId`).
+ *
+ * @returns Totals plus the audit log entry of each policy run
+ */
+export async function runRetentionPolicies(
+  options: RetentionRunOptions = {}
+): Promise<RetentionRunResult> {
+  let policies: RetentionPolicy[];
+
+  if (options.policyId) {
+    const policy = await getRetentionPolicyById(options.policyId);
+    if (!policy) {
+      throw new Error(`Retention policy '${options.policyId}' not found`);
+    }
+    policies = [policy];
+  } else {
+    policies = await getRetentionPolicies({ enabled: true });
+  }
+
+  const purges: RetentionPurge[] = [];
+  for (const policy of policies) {
+    purges.push(await applyRetentionPolicy(policy, options));
+  }
+
+  return {
+    dryRun: options.dryRun ?? false,
+    matched: purges.reduce((sum, purge) => sum + purge.matched_count, 0),
+    deleted: purges.reduce((sum, purge) => sum + purge.deleted_count, 0),
+    purges,
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a retention policy create (or, with `partial`, update) request body.
+ * Optional filters may be null to clear them.
+ */
+export function validateRetentionPolicyInput(
+  input: Record<string, unknown>,
+  partial = false
+): string[] {
+  const errors: string[] = [];
+  const has = (field: string) => input[field] !== undefined;
+  const isOptionalString = (value: unknown) =>
+    value === null || (typeof value === 'string' && value.trim().length > 0);
+
+  if ((!partial || has('name')) && (typeof input.name !== 'string' || !input.name.trim())) {
+    errors.push('name is required and must be a string');
+  }
+
+  if ((!partial || has('max_age_days')) && (
+    typeof input.max_age_days !== 'number' ||
+    !Number.isInteger(input.max_age_days) ||
+    input.max_age_days < 1
+  )) {
+    errors.push('max_age_days is required and must be a positive integer');
+  }
+
+  if (has('status') && input.status !== null && !RETENTION_STATUSES.includes(input.status as TraceStatus)) {
+    errors.push(`status must be null or one of: ${RETENTION_STATUSES.join(', ')}`);
+  }
+
+  if (has('agent_name') && !isOptionalString(input.agent_name)) {
+    errors.push('agent_name must be null or a non-empty string');
+  }
+
+  if (has('environment') && !isOptionalString(input.environment)) {
+    errors.push('environment must be null or a non-empty string');
+  }
+
+  if (has('enabled') && typeof input.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+
+  return errors;
+}
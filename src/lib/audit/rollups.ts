@@ -0,0 +1,363 @@
+/**
+ * Metric Rollups for BigTurbo Agent Audit System
+ *
+ * Maintains hourly and daily aggregate rows per agent, command, workflow
+ * and tool as traces and spans finish, so dashboards do not have to
+ * re-read trace history. Rollups can be rebuilt from stored traces.
+ */
+
+import {
+  claimRollupSource,
+  incrementMetricRollup,
+  replaceMetricRollups,
+  type MetricRollup,
+  type RollupDimension,
+  type RollupGranularity,
+} from '@/lib/db';
+import { getTraceById, scanTraces } from '@/lib/langfuse/client';
+import type {
+  IngestEvent,
+  LangfuseSpan,
+  LangfuseTrace,
+  ToolCall,
+  TraceStatus,
+} from '@/lib/langfuse/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type RollupDelta = Omit<MetricRollup, 'updated_at'>;
+
+/**
+ * Where rollup increments go: the rollup tables, or a rebuild's staging rows.
+ */
+interface RollupSink {
+  /** Mark a source as rolled up, returning false if it already was */
+  claim(sourceId: string): Promise<boolean>;
+  /** Add a delta to a rollup row */
+  increment(delta: RollupDelta): Promise<void>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Upper bounds (inclusive, in ms) of the duration histogram slots of
+ * agent, command and workflow rollups. Histograms carry one extra
+ * trailing slot for longer durations.
+ */
+export const DURATION_BUCKETS_MS = [
+  1_000,
+  5_000,
+  15_000,
+  30_000,
+  60_000,
+  120_000,
+  300_000,
+  600_000,
+  1_800_000,
+  3_600_000,
+];
+
+/**
+ * Upper bounds (inclusive, in ms) of the duration histogram slots of tool
+ * rollups. Most tool calls finish within a second.
+ */
+export const TOOL_DURATION_BUCKETS_MS = [
+  10,
+  50,
+  100,
+  250,
+  500,
+  1_000,
+  2_500,
+  5_000,
+  15_000,
+  60_000,
+  300_000,
+];
+
+export const ROLLUP_GRANULARITIES: RollupGranularity[] = ['hour', 'day'];
+
+const TERMINAL_TRACE_STATUSES: TraceStatus[] = ['completed', 'failed', 'cancelled'];
+
+/** Increments applied directly to the rollup tables, as ingestion does */
+const TABLE_SINK: RollupSink = {
+  claim: claimRollupSource,
+  increment: incrementMetricRollup,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Histogram slot bounds used for a rollup dimension.
+ */
+export function getDurationBuckets(dimension: RollupDimension): number[] {
+  return dimension === 'tool' ? TOOL_DURATION_BUCKETS_MS : DURATION_BUCKETS_MS;
+}
+
+/**
+ * Build a histogram with a single observation (all zeros when no duration).
+ */
+export function durationHistogram(durationMs?: number, bounds: number[] = DURATION_BUCKETS_MS): number[] {
+  const histogram = new Array(bounds.length + 1).fill(0);
+  if (durationMs === undefined || durationMs === null) return histogram;
+
+  const slot = bounds.findIndex((bound) => durationMs <= bound);
+  histogram[slot === -1 ? bounds.length : slot]++;
+  return histogram;
+}
+
+/**
+ * Truncate a timestamp to the start of its UTC hour or day.
+ */
+export function getBucketStart(date: Date, granularity: RollupGranularity): Date {
+  const bucket = new Date(date);
+  bucket.setUTCMinutes(0, 0, 0);
+  if (granularity === 'day') bucket.setUTCHours(0);
+  return bucket;
+}
+
+interface RollupObservation {
+  at: Date;
+  status: 'success' | 'failure' | 'cancelled';
+  durationMs?: number;
+  tokens: number;
+  cost: number;
+}
+
+/**
+ * Add one observation to the hourly and daily rows of each dimension.
+ */
+async function addObservation(
+  dimensions: Array<[RollupDimension, string | undefined]>,
+  observation: RollupObservation,
+  sink: RollupSink
+): Promise<void> {
+  for (const [dimension, value] of dimensions) {
+    if (!value) continue;
+
+    for (const granularity of ROLLUP_GRANULARITIES) {
+      await sink.increment({
+        granularity,
+        bucket_start: getBucketStart(observation.at, granularity),
+        dimension,
+        dimension_value: value,
+        total_count: 1,
+        success_count: observation.status === 'success' ? 1 : 0,
+        failure_count: observation.status === 'failure' ? 1 : 0,
+        cancelled_count: observation.status === 'cancelled' ? 1 : 0,
+        duration_count: observation.durationMs !== undefined ? 1 : 0,
+        duration_sum_ms: observation.durationMs ?? 0,
+        duration_max_ms: observation.durationMs ?? null,
+        duration_histogram: durationHistogram(observation.durationMs, getDurationBuckets(dimension)),
+        tokens_used: observation.tokens,
+        cost: observation.cost,
+        last_seen_at: observation.at,
+      });
+    }
+  }
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Roll up a finished trace into its agent, command and workflow rows.
+ * Traces are bucketed by start time and counted at most once.
+ *
+ * @returns True if the trace was added to the rollups
+ */
+export async function rollupTrace(
+  trace: LangfuseTrace,
+  sink: RollupSink = TABLE_SINK
+): Promise<boolean> {
+  if (!TERMINAL_TRACE_STATUSES.includes(trace.status)) return false;
+  if (!(await sink.claim(`trace:${trace.traceId}`))) return false;
+
+  await addObservation(
+    [
+      ['agent', trace.agentName],
+      ['command', trace.commandName],
+      ['workflow', trace.workflowName],
+    ],
+    {
+      at: new Date(trace.startedAt),
+      status: trace.status === 'completed' ? 'success' : trace.status === 'failed' ? 'failure' : 'cancelled',
+      durationMs: trace.durationMs,
+      tokens: trace.totalTokens || 0,
+      cost: trace.totalCost || 0,
+    },
+    sink
+  );
+
+  return true;
+}
+
+/**
+ * Roll up the tool calls of a finished span into per-tool rows.
+ * Each span is counted at most once.
+ *
+ * @returns True if the span was added to the rollups
+ */
+export async function rollupToolCalls(
+  spanId: string,
+  toolCalls: ToolCall[],
+  startedAt: Date,
+  sink: RollupSink = TABLE_SINK
+): Promise<boolean> {
+  if (toolCalls.length === 0) return false;
+  if (!(await sink.claim(`span:${spanId}`))) return false;
+
+  for (const call of toolCalls) {
+    await addObservation([['tool', call.name]], {
+      at: startedAt,
+      status: call.success ? 'success' : 'failure',
+      durationMs: call.durationMs,
+      tokens: 0,
+      cost: 0,
+    }, sink);
+  }
+
+  return true;
+}
+
+/**
+ * Roll up a finished span (tool calls only).
+ */
+async function rollupSpan(span: LangfuseSpan, sink: RollupSink): Promise<boolean> {
+  if (span.status !== 'completed' && span.status !== 'failed') return false;
+  return rollupToolCalls(span.spanId, span.toolCalls || [], new Date(span.startedAt), sink);
+}
+
+/**
+ * Update rollups for a successfully processed ingestion event.
+ * Only terminal trace updates count; spans are rolled up by
+ * recordSpanRollups.
+ */
+export async function recordEventRollups(event: IngestEvent): Promise<void> {
+  if (event.type === 'trace.update') {
+    const { payload } = event;
+    if (!payload.status || !TERMINAL_TRACE_STATUSES.includes(payload.status)) return;
+
+    const trace = await getTraceById(payload.traceId);
+    if (!trace) return;
+
+    // Prefer values from the event; the store may not have them yet
+    await rollupTrace({
+      ...trace,
+      status: payload.status,
+      durationMs: payload.durationMs ?? trace.durationMs,
+      totalTokens: payload.totalTokens ?? trace.totalTokens,
+      totalCost: payload.totalCost ?? trace.totalCost,
+    });
+  }
+}
+
+/**
+ * Update rollups for a span as stored after an event. Its tool calls count
+ * once it has finished, including calls sent when it was created or on
+ * earlier updates.
+ */
+export async function recordSpanRollups(span: LangfuseSpan): Promise<void> {
+  await rollupSpan(span, TABLE_SINK);
+}
+
+// ============================================================================
+// Backfill
+// ============================================================================
+
+export interface RollupRebuildResult {
+  traces: number;
+  spans: number;
+  startedAt: string;
+  completedAt: string;
+}
+
+/**
+ * Collect rollup increments in memory, merging deltas for the same row.
+ */
+function createStagingSink(): RollupSink & { rows: Map<string, RollupDelta>; sources: Set<string> } {
+  const rows = new Map<string, RollupDelta>();
+  const sources = new Set<string>();
+
+  return {
+    rows,
+    sources,
+    async claim(sourceId) {
+      if (sources.has(sourceId)) return false;
+      sources.add(sourceId);
+      return true;
+    },
+    async increment(delta) {
+      const key = [delta.granularity, delta.bucket_start.toISOString(), delta.dimension, delta.dimension_value].join('|');
+      const row = rows.get(key);
+      if (!row) {
+        rows.set(key, { ...delta, duration_histogram: [...delta.duration_histogram] });
+        return;
+      }
+
+      row.total_count += delta.total_count;
+      row.success_count += delta.success_count;
+      row.failure_count += delta.failure_count;
+      row.cancelled_count += delta.cancelled_count;
+      row.duration_count += delta.duration_count;
+      row.duration_sum_ms += delta.duration_sum_ms;
+      if (delta.duration_max_ms !== null) {
+        row.duration_max_ms = Math.max(row.duration_max_ms ?? 0, delta.duration_max_ms);
+      }
+      delta.duration_histogram.forEach((count, slot) => {
+        row.duration_histogram[slot] = (row.duration_histogram[slot] || 0) + count;
+      });
+      row.tokens_used += delta.tokens_used;
+      row.cost += delta.cost;
+      if (delta.last_seen_at && (!row.last_seen_at || delta.last_seen_at > row.last_seen_at)) {
+        row.last_seen_at = delta.last_seen_at;
+      }
+    },
+  };
+}
+
+/**
+ * Rebuild every rollup row from the traces in the active trace store.
+ * The new rows are built in memory and swapped in with one transaction,
+ * so dashboards keep the current rollups until the rebuild is done and
+ * a failed rebuild changes nothing. Traces still running are skipped and
+ * will be rolled up on ingest when they finish; traces that finish while
+ * the store is being scanned may need another rebuild.
+ */
+export async function rebuildMetricRollups(): Promise<RollupRebuildResult> {
+  const startedAt = new Date().toISOString();
+  const staging = createStagingSink();
+  let traceCount = 0;
+  let spanCount = 0;
+
+  await scanTraces({}, async (traces) => {
+    for (const trace of traces) {
+      if (await rollupTrace(trace, staging)) traceCount++;
+
+      // List results may omit spans (Langfuse), so load them when missing
+      const spans = trace.spans?.length
+        ? trace.spans
+        : (await getTraceById(trace.traceId))?.spans || [];
+
+      for (const span of spans) {
+        if (await rollupSpan(span, staging)) spanCount++;
+      }
+    }
+  });
+
+  await replaceMetricRollups([...staging.rows.values()], [...staging.sources]);
+
+  return {
+    traces: traceCount,
+    spans: spanCount,
+    startedAt,
+    completedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,467 @@
+/**
+ * Headless Workflow Runner for BigTurbo Agent Audit System
+ *
+ * Executes launches against a local agent CLI. The CLI is spawned in the
+ * chosen working directory with the launch prompt on stdin; every line it
+ * writes is buffered and pushed to subscribers. Each run gets a trace,
+ * started when the CLI is spawned and completed, failed or cancelled when
+ * it exits. The CLI receives BIGTURBO_TRACE_ID and BIGTURBO_LAUNCH_ID in
+ * its environment so its own hooks can add spans to the run's trace.
+ *
+ * The runner is off unless AGENT_RUNNER_ENABLED=true. Runs are held in
+ * this process and are lost when the server restarts.
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { randomUUID } from 'crypto';
+import { statSync } from 'fs';
+import path from 'path';
+import { cancelTrace, completeTrace, failTrace, startTrace } from '@/lib/langfuse/ingest';
+import type {
+  WorkflowLaunch,
+  WorkflowRun,
+  WorkflowRunOutputLine,
+  WorkflowRunStatus,
+} from '@/types/audit';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RunnerConfig {
+  enabled: boolean;
+  /** Agent CLI executable */
+  command: string;
+  /** Arguments passed before the prompt is written to stdin */
+  args: string[];
+  /** Working directory used when a run does not choose one */
+  defaultCwd: string;
+  /** Directories runs may use, including their subdirectories */
+  allowedDirs: string[];
+  timeoutMs: number;
+}
+
+export type RunEvent =
+  | { type: 'output'; line: WorkflowRunOutputLine }
+  | { type: 'status'; run: WorkflowRun };
+
+type RunListener = (event: RunEvent) => void;
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_COMMAND = 'claude';
+const DEFAULT_ARGS = ['-p'];
+const DEFAULT_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Output lines kept per run */
+const MAX_OUTPUT_LINES = 2000;
+
+/** Finished runs kept for the runs list */
+const MAX_FINISHED_RUNS = 50;
+
+/** Pruned runs whose final state is kept, without their output */
+const MAX_PRUNED_RUNS = 1000;
+
+/** Time between SIGTERM and SIGKILL when cancelling */
+const KILL_GRACE_MS = 5000;
+
+/** Output lines included in the completed trace's output */
+const OUTPUT_TAIL_LINES = 50;
+
+/**
+ * Split a command line into arguments the way a POSIX shell does, so
+ * quoted arguments may contain spaces. Single quotes keep everything
+ * literally; within double quotes and unquoted text a backslash escapes
+ * the next character.
+ *
+ * @throws Error if a quote is not closed
+ */
+function parseShellWords(line: string): string[] {
+  const words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else word += char;
+    } else if (char === '\\' && i + 1 < line.length) {
+      word += line[++i];
+      inWord = true;
+    } else if (quote === '"') {
+      if (char === '"') quote = null;
+      else word += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) words.push(word);
+      word = '';
+      inWord = false;
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+
+  if (quote) throw new Error(`Unclosed ${quote} quote in '${line}'`);
+  if (inWord) words.push(word);
+  return words;
+}
+
+/**
+ * Read the runner configuration from the environment.
+ */
+export function getRunnerConfig(): RunnerConfig {
+  const defaultCwd = path.resolve(process.env.AGENT_RUNNER_CWD || process.cwd());
+  const allowedDirs = (process.env.AGENT_RUNNER_ALLOWED_DIRS || '')
+    .split(',')
+    .map((dir) => dir.trim())
+    .filter(Boolean)
+    .map((dir) => path.resolve(dir));
+  const args = process.env.AGENT_RUNNER_ARGS;
+  const timeoutMs = parseInt(process.env.AGENT_RUNNER_TIMEOUT_MS || '', 10);
+
+  return {
+    enabled: process.env.AGENT_RUNNER_ENABLED === 'true',
+    command: process.env.AGENT_RUNNER_COMMAND || DEFAULT_COMMAND,
+    args: args !== undefined ? parseShellWords(args) : DEFAULT_ARGS,
+    defaultCwd,
+    allowedDirs: allowedDirs.length > 0 ? allowedDirs : [defaultCwd],
+    timeoutMs: timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS,
+  };
+}
+
+/**
+ * Check if the headless runner is enabled.
+ */
+export function isRunnerEnabled(): boolean {
+  return getRunnerConfig().enabled;
+}
+
+/**
+ * Resolve a run's working directory and check that it is allowed.
+ *
+ * @param cwd - Requested directory (defaults to the runner's default)
+ * @returns Absolute directory, or an error message
+ */
+export function resolveRunCwd(
+  cwd: string | undefined,
+  config: RunnerConfig = getRunnerConfig()
+): { cwd: string } | { error: string } {
+  const resolved = path.resolve(config.defaultCwd, cwd?.trim() || '.');
+
+  const allowed = config.allowedDirs.some((dir) => {
+    const relative = path.relative(dir, resolved);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  });
+  if (!allowed) {
+    return { error: `Directory '${resolved}' is outside AGENT_RUNNER_ALLOWED_DIRS` };
+  }
+
+  try {
+    if (!statSync(resolved).isDirectory()) {
+      return { error: `'${resolved}' is not a directory` };
+    }
+  } catch {
+    return { error: `Directory '${resolved}' does not exist` };
+  }
+
+  return { cwd: resolved };
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+interface RunState {
+  run: WorkflowRun;
+  output: WorkflowRunOutputLine[];
+  child: ChildProcess | null;
+  /** Why the run is being stopped, if it is */
+  stopReason: 'cancelled' | 'timeout' | null;
+  listeners: Set<RunListener>;
+}
+
+// Kept on globalThis so route bundles (and dev reloads) share one runner
+const globalForRunner = globalThis as typeof globalThis & {
+  bigturboRuns?: Map<string, RunState>;
+  bigturboPrunedRuns?: Map<string, WorkflowRun>;
+};
+
+const runs: Map<string, RunState> = globalForRunner.bigturboRuns ??= new Map();
+
+/** Final state of runs dropped by pruneRuns, oldest first */
+const prunedRuns: Map<string, WorkflowRun> = globalForRunner.bigturboPrunedRuns ??= new Map();
+
+function emit(state: RunState, event: RunEvent): void {
+  for (const listener of state.listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Run listener failed:', error);
+    }
+  }
+}
+
+function appendOutput(state: RunState, stream: WorkflowRunOutputLine['stream'], text: string): void {
+  const line: WorkflowRunOutputLine = { stream, text, timestamp: new Date().toISOString() };
+  state.output.push(line);
+  if (state.output.length > MAX_OUTPUT_LINES) state.output.shift();
+  emit(state, { type: 'output', line });
+}
+
+/**
+ * Drop the oldest finished runs beyond MAX_FINISHED_RUNS. Their output is
+ * released, but their final state is kept so they are not mistaken for
+ * runs lost in a restart.
+ */
+function pruneRuns(): void {
+  const finished = [...runs.values()].filter((state) => state.run.status !== 'running');
+  for (const state of finished.slice(0, Math.max(finished.length - MAX_FINISHED_RUNS, 0))) {
+    runs.delete(state.run.id);
+    prunedRuns.set(state.run.id, { ...state.run, pruned: true });
+  }
+
+  for (const runId of [...prunedRuns.keys()].slice(0, Math.max(prunedRuns.size - MAX_PRUNED_RUNS, 0))) {
+    prunedRuns.delete(runId);
+  }
+}
+
+/**
+ * Split a child stream into lines, keeping partial lines until they end.
+ */
+function readLines(
+  stream: NodeJS.ReadableStream | null,
+  onLine: (line: string) => void
+): () => void {
+  let partial = '';
+
+  stream?.setEncoding('utf8');
+  stream?.on('data', (chunk: string) => {
+    const lines = (partial + chunk).split(/\r?\n/);
+    partial = lines.pop() ?? '';
+    lines.forEach(onLine);
+  });
+
+  return () => {
+    if (partial) onLine(partial);
+    partial = '';
+  };
+}
+
+// ============================================================================
+// Lifecycle
+// ============================================================================
+
+/**
+ * Record how a run ended and close its trace. Runs once per run.
+ */
+async function finishRun(
+  state: RunState,
+  status: Exclude<WorkflowRunStatus, 'running'>,
+  exitCode: number | null,
+  error: string | null
+): Promise<void> {
+  if (state.run.status !== 'running') return;
+
+  state.run = {
+    ...state.run,
+    status,
+    exitCode,
+    error,
+    completedAt: new Date().toISOString(),
+  };
+  state.child = null;
+  emit(state, { type: 'status', run: state.run });
+  pruneRuns();
+
+  try {
+    if (status === 'completed') {
+      await completeTrace(state.run.traceId, {
+        exitCode,
+        output: state.output
+          .filter((line) => line.stream === 'stdout')
+          .slice(-OUTPUT_TAIL_LINES)
+          .map((line) => line.text)
+          .join('\n'),
+      });
+    } else if (status === 'cancelled') {
+      await cancelTrace(state.run.traceId, error ?? undefined);
+    } else {
+      await failTrace(state.run.traceId, error || 'Run failed');
+    }
+  } catch (traceError) {
+    console.error(`Failed to close trace for run ${state.run.id}:`, traceError);
+  }
+}
+
+/**
+ * Run a launch against the agent CLI.
+ *
+ * @param options - Launch to run, its working directory and the user
+ * @returns The run, already started
+ */
+export async function startRun(options: {
+  launch: WorkflowLaunch;
+  cwd: string;
+  userId: string | null;
+}): Promise<WorkflowRun> {
+  const config = getRunnerConfig();
+  const { launch, cwd } = options;
+  const runId = randomUUID();
+  const commandLine = [config.command, ...config.args].join(' ');
+
+  // The launch ID in the prompt links the trace to its launch
+  const { traceId } = await startTrace(`${launch.command} run`, 'agent-runner', {
+    prompt: launch.prompt,
+    cwd,
+    command: commandLine,
+    runId,
+  }, {
+    workflowName: launch.workflowId,
+    commandName: launch.workflowId.replace(/-workflow$/, ''),
+    tags: ['headless'],
+  });
+
+  const state: RunState = {
+    run: {
+      id: runId,
+      launchId: launch.id,
+      workflowId: launch.workflowId,
+      traceId,
+      cwd,
+      command: commandLine,
+      status: 'running',
+      exitCode: null,
+      error: null,
+      startedBy: options.userId,
+      startedAt: new Date().toISOString(),
+      completedAt: null,
+      pruned: false,
+    },
+    output: [],
+    child: null,
+    stopReason: null,
+    listeners: new Set(),
+  };
+  runs.set(runId, state);
+
+  const child = spawn(config.command, config.args, {
+    cwd,
+    env: {
+      ...process.env,
+      BIGTURBO_TRACE_ID: traceId,
+      BIGTURBO_LAUNCH_ID: launch.id,
+      BIGTURBO_RUN_ID: runId,
+    },
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+  state.child = child;
+
+  const flushStdout = readLines(child.stdout, (line) => appendOutput(state, 'stdout', line));
+  const flushStderr = readLines(child.stderr, (line) => appendOutput(state, 'stderr', line));
+
+  const timeout = setTimeout(() => {
+    state.stopReason = 'timeout';
+    child.kill('SIGKILL');
+  }, config.timeoutMs);
+
+  // A CLI that exits without reading its prompt closes stdin early
+  child.stdin?.on('error', () => {});
+  child.stdin?.end(launch.prompt);
+
+  child.on('error', (error) => {
+    clearTimeout(timeout);
+    void finishRun(state, 'failed', null, `Failed to start '${config.command}': ${error.message}`);
+  });
+
+  child.on('close', (code, signal) => {
+    clearTimeout(timeout);
+    flushStdout();
+    flushStderr();
+
+    if (state.stopReason === 'cancelled') {
+      void finishRun(state, 'cancelled', code, 'Cancelled by user');
+    } else if (state.stopReason === 'timeout') {
+      void finishRun(state, 'failed', code, `Timed out after ${config.timeoutMs}ms`);
+    } else if (code === 0) {
+      void finishRun(state, 'completed', 0, null);
+    } else {
+      const reason = signal ? `killed by ${signal}` : `exited with code ${code}`;
+      void finishRun(state, 'failed', code, `Agent CLI ${reason}`);
+    }
+  });
+
+  emit(state, { type: 'status', run: state.run });
+  return state.run;
+}
+
+/**
+ * Cancel a running run. The CLI gets SIGTERM, then SIGKILL if it has not
+ * exited after a grace period.
+ *
+ * @param runId - Run ID
+ * @returns The run, or null if not found
+ */
+export function cancelRun(runId: string): WorkflowRun | null {
+  const state = runs.get(runId);
+  if (!state) return prunedRuns.get(runId) ?? null;
+
+  const child = state.child;
+  if (state.run.status !== 'running' || !child || state.stopReason) return state.run;
+
+  state.stopReason = 'cancelled';
+  child.kill('SIGTERM');
+  setTimeout(() => {
+    if (child.exitCode === null && child.signalCode === null) child.kill('SIGKILL');
+  }, KILL_GRACE_MS).unref();
+
+  return state.run;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Get a run by ID.
+ */
+export function getRun(runId: string): WorkflowRun | null {
+  return runs.get(runId)?.run ?? prunedRuns.get(runId) ?? null;
+}
+
+/**
+ * List the runs held with their output, newest first. Pruned runs are
+ * not listed but can still be looked up with getRun.
+ */
+export function listRuns(): WorkflowRun[] {
+  return [...runs.values()].map((state) => state.run).reverse();
+}
+
+/**
+ * Get the buffered output of a run.
+ */
+export function getRunOutput(runId: string): WorkflowRunOutputLine[] {
+  return [...(runs.get(runId)?.output ?? [])];
+}
+
+/**
+ * Subscribe to a run's output and status changes.
+ *
+ * @returns Function that removes the subscription
+ */
+export function subscribeRun(runId: string, listener: RunListener): () => void {
+  const state = runs.get(runId);
+  if (!state) return () => {};
+
+  state.listeners.add(listener);
+  return () => {
+    state.listeners.delete(listener);
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * Workflow Run Statistics for BigTurbo Agent Audit System
+ *
+ * Aggregates the finished runs of a workflow against its orchestration
+ * plan: how often each planned task completed, failed or never started,
+ * how long it took, and which agents actually ran compared to the plan.
+ * A run is a trace whose command or workflow name maps to the workflow.
+ */
+
+import { listTraces } from '@/lib/langfuse/client';
+import type { LangfuseSpan, LangfuseTrace, TraceStatus } from '@/lib/langfuse/types';
+import type { WorkflowStatsResponse } from '@/types/audit';
+import type {
+  AgentRunStats,
+  OrchestrationPlan,
+  TaskRunStats,
+  WorkflowRunStats,
+} from '@/types/orchestration';
+import { deriveExecutionState, getOrchestrationPlan, getWorkflowIdForCommand } from './execution';
+import { getWindowStart, type MetricsWindow } from './metrics';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WorkflowStatsOptions {
+  /** Time window runs must have started in (default: 30d) */
+  window?: MetricsWindow;
+  /** Most recent runs to include (default: 100) */
+  maxRuns?: number;
+}
+
+interface TaskAccumulator {
+  waveId: string;
+  taskIndex: number;
+  agent: string;
+  completed: number;
+  failed: number;
+  skipped: number;
+  durations: number[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_STATS_WINDOW: MetricsWindow = '30d';
+
+export const DEFAULT_STATS_MAX_RUNS = 100;
+
+const FINISHED_STATUSES: TraceStatus[] = ['completed', 'failed', 'cancelled'];
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+    : sorted[middle];
+}
+
+function getDurationMs(startedAt?: string, completedAt?: string): number | null {
+  if (!startedAt || !completedAt) return null;
+  const duration = new Date(completedAt).getTime() - new Date(startedAt).getTime();
+  return Number.isFinite(duration) && duration >= 0 ? duration : null;
+}
+
+/**
+ * Add up the time each agent spent in a run. A span nested in a span of
+ * the same agent is already covered by its parent.
+ */
+function getAgentDurations(spans: LangfuseSpan[]): Map<string, number> {
+  const agentBySpan = new Map(spans.map((span) => [span.spanId, span.agentName?.toLowerCase()]));
+  const durations = new Map<string, number>();
+
+  for (const span of spans) {
+    const agent = span.agentName?.toLowerCase();
+    if (!agent) continue;
+
+    const nested = span.parentSpanId && agentBySpan.get(span.parentSpanId) === agent;
+    const duration = nested ? 0 : span.durationMs ?? getDurationMs(span.startedAt, span.completedAt) ?? 0;
+    durations.set(agent, (durations.get(agent) || 0) + duration);
+  }
+
+  return durations;
+}
+
+/**
+ * Aggregate finished runs of a workflow against its plan.
+ *
+ * @param plan - Plan of the workflow
+ * @param traces - Finished runs, with their spans
+ * @returns Per-task and per-agent run data
+ */
+export function computeWorkflowRunStats(
+  plan: OrchestrationPlan,
+  traces: LangfuseTrace[]
+): WorkflowRunStats {
+  const tasks: TaskAccumulator[] = plan.phases.flatMap((phase) =>
+    phase.waves.flatMap((wave) =>
+      wave.tasks.map((task, taskIndex) => ({
+        waveId: wave.id,
+        taskIndex,
+        agent: task.agent,
+        completed: 0,
+        failed: 0,
+        skipped: 0,
+        durations: [],
+      }))
+    )
+  );
+  const taskByKey = new Map(tasks.map((task) => [`${task.waveId}:${task.taskIndex}`, task]));
+
+  const plannedAgents = new Set(tasks.map((task) => task.agent));
+  const agents = new Map<string, AgentRunStats>(
+    [...plannedAgents].map((agent) => [agent, { agent, planned: true, runs: 0, totalDurationMs: 0 }])
+  );
+
+  const runDurations: number[] = [];
+  let completedRuns = 0;
+
+  for (const trace of traces) {
+    if (trace.status === 'completed') completedRuns++;
+    const runDuration = trace.durationMs ?? getDurationMs(trace.startedAt, trace.completedAt);
+    if (runDuration !== null) runDurations.push(runDuration);
+
+    const execution = deriveExecutionState(plan, trace);
+    for (const wave of execution.phases.flatMap((phase) => phase.waves)) {
+      wave.tasks.forEach((state, taskIndex) => {
+        const task = taskByKey.get(`${wave.waveId}:${taskIndex}`);
+        if (!task) return;
+
+        if (!state.startedAt) {
+          task.skipped++;
+          return;
+        }
+
+        if (state.status === 'completed') task.completed++;
+        else if (state.status === 'failed') task.failed++;
+
+        const duration = getDurationMs(state.startedAt, state.completedAt);
+        if (duration !== null) task.durations.push(duration);
+      });
+    }
+
+    for (const [agent, duration] of getAgentDurations(trace.spans || [])) {
+      const stats = agents.get(agent) || { agent, planned: false, runs: 0, totalDurationMs: 0 };
+      stats.runs++;
+      stats.totalDurationMs += duration;
+      agents.set(agent, stats);
+    }
+  }
+
+  const totalRuns = traces.length;
+
+  return {
+    planId: plan.id,
+    totalRuns,
+    successRate: totalRuns > 0 ? completedRuns / totalRuns : 0,
+    medianDurationMs: median(runDurations),
+    tasks: tasks.map(({ durations, ...task }) => {
+      const started = totalRuns - task.skipped;
+      return {
+        ...task,
+        successRate: started > 0 ? task.completed / started : 0,
+        skipRate: totalRuns > 0 ? task.skipped / totalRuns : 0,
+        medianDurationMs: median(durations),
+      } satisfies TaskRunStats;
+    }),
+    agents: [...agents.values()].sort((a, b) => b.totalDurationMs - a.totalDurationMs || a.agent.localeCompare(b.agent)),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Command and workflow names that map to a workflow ID: "feature",
+ * "/feature", "feature-workflow" and "/feature-workflow" all map to
+ * "feature-workflow".
+ */
+function getWorkflowNames(workflowId: string): string[] {
+  const base = workflowId.replace(/-workflow$/, '');
+  return [...new Set([base, `/${base}`, workflowId, `/${workflowId}`])]
+    .filter((name) => getWorkflowIdForCommand(name) === workflowId);
+}
+
+/**
+ * Collect the most recent finished runs of a workflow, with their spans.
+ * Runs are matched by command name or by workflow name, one store query
+ * each.
+ */
+async function listWorkflowRuns(
+  workflowId: string,
+  plan: OrchestrationPlan,
+  since: Date | null,
+  maxRuns: number
+): Promise<LangfuseTrace[]> {
+  const names = getWorkflowNames(workflowId);
+  const filters = {
+    status: FINISHED_STATUSES,
+    startDate: since?.toISOString(),
+    includeSpans: true,
+    limit: maxRuns,
+    sortBy: 'startedAt',
+    sortOrder: 'desc',
+  } as const;
+
+  // An empty name list would not filter at all
+  const [byCommand, byWorkflow] = await Promise.all([
+    names.length > 0 ? listTraces({ ...filters, commandName: names }).then((result) => result.traces) : [],
+    listTraces({ ...filters, workflowName: [...new Set([plan.name, ...names])] }).then((result) => result.traces),
+  ]);
+
+  const runs = new Map<string, LangfuseTrace>();
+  for (const trace of [...byCommand, ...byWorkflow]) {
+    runs.set(trace.traceId, trace);
+  }
+
+  return [...runs.values()]
+    .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())
+    .slice(0, maxRuns);
+}
+
+/**
+ * Get a workflow's plan with the data of its recent finished runs.
+ *
+ * @param workflowId - Workflow ID (e.g., "bugfix-workflow")
+ * @param options - Time window and run limit
+ * @returns Plan and run data, or null if the workflow has no plan
+ */
+export async function getWorkflowRunStats(
+  workflowId: string,
+  options: WorkflowStatsOptions = {}
+): Promise<WorkflowStatsResponse | null> {
+  const loaded = await getOrchestrationPlan(workflowId);
+  if (!loaded || loaded.plan.phases.length === 0) return null;
+
+  const since = getWindowStart(options.window ?? DEFAULT_STATS_WINDOW);
+  const runs = await listWorkflowRuns(
+    workflowId,
+    loaded.plan,
+    since,
+    options.maxRuns ?? DEFAULT_STATS_MAX_RUNS
+  );
+
+  return {
+    workflowId,
+    plan: loaded.plan,
+    stats: {
+      ...computeWorkflowRunStats(loaded.plan, runs),
+      since: since?.toISOString(),
+    },
+  };
+}
@@ -0,0 +1,411 @@
+/**
+ * Prompt Templates for BigTurbo Agent Audit System
+ *
+ * Renders workflow launch prompts from templates, so launch prompts can
+ * change without a code change. A command declares its template in its
+ * frontmatter (`promptTemplate`) or in a sibling `<command>.prompt.md`
+ * file; commands without one use DEFAULT_PROMPT_TEMPLATE.
+ *
+ * Template syntax:
+ *   - {{answers.description.value}}: variable (dotted path; lists are joined with ", ")
+ *   - {{#if path}}...{{else}}...{{/if}} and {{#unless path}}...{{/unless}}: conditionals
+ *   - {{#each path}}...{{else}}...{{/each}}: loops, with {{this}}, {{@index}},
+ *     {{@first}} and {{@last}}; item fields resolve before outer variables
+ *   - {{! comment }}
+ *
+ * Block tags on a line of their own leave no blank line behind. This
+ * module has no server dependencies, so the wizard renders its preview
+ * with the same code as the launch route.
+ */
+
+import type { WorkflowAnswer } from '@/types/audit';
+import { AGENTS_QUESTION_ID } from './questions';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One answered question, as seen by templates.
+ */
+export interface PromptAnswer {
+  /** Question ID */
+  id: string;
+  /** Question header, or a label derived from the ID */
+  label: string;
+  /** Selected option labels */
+  selected: string[];
+  /** Free text */
+  text: string;
+  /** Selected options joined with ", ", or the free text */
+  value: string;
+}
+
+/**
+ * Variables available to launch prompt templates.
+ */
+export interface PromptContext {
+  /** Command name without the slash (e.g., "feature") */
+  command: string;
+  /** Workflow ID (e.g., "feature-workflow") */
+  workflowId: string;
+  /** Workflow display name */
+  workflowName: string;
+  /** Answers keyed by question ID */
+  answers: Record<string, PromptAnswer>;
+  /** Answered questions other than agent selection, in answer order */
+  context: PromptAnswer[];
+  /** Selected agents */
+  agents: string[];
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string }
+  | { type: 'if'; path: string; negate: boolean; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: 'if' | 'each' }>;
+
+type TemplateToken =
+  | { kind: 'text'; value: string; standalone?: boolean }
+  | { kind: 'tag'; tag: string; line: number };
+
+interface Scope {
+  value: unknown;
+  index?: number;
+  first?: boolean;
+  last?: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Built-in launch prompt, used when a command declares no template */
+export const DEFAULT_PROMPT_TEMPLATE = `/{{command}}
+
+Context:
+{{#each context}}
+- {{label}}: {{value}}
+{{else}}
+- No additional context provided
+{{/each}}
+
+Selected Agents: {{#if agents}}{{agents}}{{else}}Default workflow agents{{/if}}`;
+
+const TAG_PATTERN = /\{\{\s*([^}]*?)\s*\}\}/g;
+
+const PATH_PATTERN = /^(this|@index|@first|@last|[\w-]+)(\.[\w-]+)*$/;
+
+/** Longest answer text kept in a prompt */
+const MAX_INPUT_LENGTH = 2000;
+
+// ============================================================================
+// Input
+// ============================================================================
+
+/**
+ * Sanitize user input before it reaches a prompt.
+ * Removes control characters and angle brackets and limits the length.
+ */
+export function sanitizeInput(input: string): string {
+  if (!input || typeof input !== 'string') {
+    return '';
+  }
+  return input
+    .replace(/[\x00-\x1f\x7f]/g, '') // Remove control characters
+    .replace(/[<>]/g, '') // Remove angle brackets
+    .trim()
+    .slice(0, MAX_INPUT_LENGTH);
+}
+
+/**
+ * Turn a question ID into a label: "change-type" and "changeType" become
+ * "Change Type".
+ */
+function toLabel(questionId: string): string {
+  return questionId
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Build the variables of a launch prompt from wizard answers.
+ *
+ * @param workflow - Workflow being launched
+ * @param answers - Wizard answers
+ * @param labels - Question headers keyed by question ID
+ * @returns Template variables
+ */
+export function buildPromptContext(
+  workflow: { id: string; name: string },
+  answers: WorkflowAnswer[],
+  labels: Record<string, string> = {}
+): PromptContext {
+  const prepared = answers.map((answer): PromptAnswer => {
+    const selected = (Array.isArray(answer.selectedOptions) ? answer.selectedOptions : [])
+      .map(sanitizeInput)
+      .filter(Boolean);
+    const text = sanitizeInput(answer.customText || '');
+
+    return {
+      id: answer.questionId,
+      label: labels[answer.questionId] || toLabel(answer.questionId),
+      selected,
+      text,
+      value: selected.length > 0 ? selected.join(', ') : text,
+    };
+  });
+
+  return {
+    command: workflow.id.replace(/-workflow$/, ''),
+    workflowId: workflow.id,
+    workflowName: workflow.name,
+    answers: Object.fromEntries(prepared.map((answer) => [answer.id, answer])),
+    context: prepared.filter((answer) => answer.id !== AGENTS_QUESTION_ID && answer.value),
+    agents: prepared.find((answer) => answer.id === AGENTS_QUESTION_ID)?.selected || [],
+  };
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function isBlockTag(tag: string): boolean {
+  return /^[#/!]/.test(tag) || tag === 'else';
+}
+
+/**
+ * Split a template into text and tags. Block tags and comments alone on
+ * their line take the line with them.
+ */
+function tokenize(template: string): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+  let position = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > position) tokens.push({ kind: 'text', value: template.slice(position, index) });
+    tokens.push({ kind: 'tag', tag: match[1], line: template.slice(0, index).split('\n').length });
+    position = index + match[0].length;
+  }
+  if (position < template.length) tokens.push({ kind: 'text', value: template.slice(position) });
+
+  tokens.forEach((token, i) => {
+    if (token.kind !== 'tag' || !isBlockTag(token.tag)) return;
+
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+    const startsLine = !previous || (previous.kind === 'text' && (
+      (i === 1 || previous.standalone ? /(^|\n)[ \t]*$/ : /\n[ \t]*$/).test(previous.value)
+    ));
+    const endsLine = !next || (next.kind === 'text' && /^[ \t]*(\r?\n|$)/.test(next.value));
+    if (!startsLine || !endsLine) return;
+
+    if (previous?.kind === 'text') previous.value = previous.value.replace(/[ \t]*$/, '');
+    if (next?.kind === 'text') {
+      next.value = next.value.replace(/^[ \t]*\r?\n?/, '');
+      next.standalone = true;
+    }
+  });
+
+  return tokens;
+}
+
+function checkPath(path: string, line: number): string {
+  if (!PATH_PATTERN.test(path)) {
+    throw new Error(`Template error on line ${line}: invalid variable "${path}"`);
+  }
+  return path;
+}
+
+/**
+ * Parse a template into a tree of text, variables and blocks.
+ *
+ * @param template - Template source
+ * @returns Parsed template
+ * @throws Error naming the line of the first syntax error
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: BlockNode; inElse: boolean; line: number; name: string }> = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.otherwise : top.node.body;
+  };
+
+  for (const token of tokenize(template)) {
+    if (token.kind === 'text') {
+      if (token.value) target().push({ type: 'text', value: token.value });
+      continue;
+    }
+
+    const { tag, line } = token;
+
+    if (tag.startsWith('!')) continue;
+
+    if (tag.startsWith('#')) {
+      const [name, path = '', ...rest] = tag.slice(1).trim().split(/\s+/);
+      if (!['if', 'unless', 'each'].includes(name)) {
+        throw new Error(`Template error on line ${line}: unknown block "#${name}"`);
+      }
+      if (!path || rest.length > 0) {
+        throw new Error(`Template error on line ${line}: "#${name}" takes one variable`);
+      }
+
+      const node: BlockNode = name === 'each'
+        ? { type: 'each', path: checkPath(path, line), body: [], otherwise: [] }
+        : { type: 'if', path: checkPath(path, line), negate: name === 'unless', body: [], otherwise: [] };
+      target().push(node);
+      stack.push({ node, inElse: false, line, name });
+      continue;
+    }
+
+    if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw new Error(`Template error on line ${line}: "else" outside a block`);
+      }
+      top.inElse = true;
+      continue;
+    }
+
+    if (tag.startsWith('/')) {
+      const name = tag.slice(1).trim();
+      const top = stack.pop();
+      if (!top) {
+        throw new Error(`Template error on line ${line}: "/${name}" closes no block`);
+      }
+      if (top.name !== name) {
+        throw new Error(`Template error on line ${line}: "/${name}" closes "#${top.name}" from line ${top.line}`);
+      }
+      continue;
+    }
+
+    target().push({ type: 'variable', path: checkPath(tag, line) });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new Error(`Template error on line ${unclosed.line}: "#${unclosed.name}" is never closed`);
+  }
+
+  return root;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+function resolve(path: string, scopes: Scope[]): unknown {
+  const inner = scopes[scopes.length - 1];
+  const [head, ...rest] = path.split('.');
+
+  let value: unknown;
+  if (head === 'this') value = inner.value;
+  else if (head === '@index') value = inner.index;
+  else if (head === '@first') value = inner.first;
+  else if (head === '@last') value = inner.last;
+  else {
+    const scope = [...scopes].reverse().find((s) =>
+      typeof s.value === 'object' && s.value !== null && Object.hasOwn(s.value, head)
+    );
+    value = scope ? (scope.value as Record<string, unknown>)[head] : undefined;
+  }
+
+  for (const key of rest) {
+    if (typeof value !== 'object' || value === null || !Object.hasOwn(value, key)) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+}
+
+/**
+ * Answers print and test as their value, so {{answers.scope}} works.
+ */
+function unwrap(value: unknown): unknown {
+  if (typeof value === 'object' && value !== null && !Array.isArray(value) && 'value' in value) {
+    return (value as { value: unknown }).value;
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  const unwrapped = unwrap(value);
+  if (Array.isArray(unwrapped)) return unwrapped.length > 0;
+  return Boolean(unwrapped);
+}
+
+function toText(value: unknown): string {
+  const unwrapped = unwrap(value);
+  if (unwrapped === undefined || unwrapped === null) return '';
+  if (Array.isArray(unwrapped)) return unwrapped.map(toText).filter(Boolean).join(', ');
+  if (typeof unwrapped === 'object') return JSON.stringify(unwrapped);
+  return String(unwrapped);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[]): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'variable':
+        output += toText(resolve(node.path, scopes));
+        break;
+      case 'if': {
+        const truthy = isTruthy(resolve(node.path, scopes));
+        output += renderNodes(truthy !== node.negate ? node.body : node.otherwise, scopes);
+        break;
+      }
+      case 'each': {
+        const value = resolve(node.path, scopes);
+        const items = Array.isArray(value) ? value : [];
+        output += items.length > 0
+          ? items.map((item, index) => renderNodes(node.body, [
+            ...scopes,
+            { value: item, index, first: index === 0, last: index === items.length - 1 },
+          ])).join('')
+          : renderNodes(node.otherwise, scopes);
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Check a template for syntax errors.
+ *
+ * @param template - Template source
+ * @returns Error message, or null if the template is valid
+ */
+export function validatePromptTemplate(template: string): string | null {
+  try {
+    parseTemplate(template);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid template';
+  }
+}
+
+/**
+ * Render a launch prompt.
+ *
+ * @param template - Template source
+ * @param context - Template variables
+ * @returns Rendered prompt, trimmed
+ * @throws Error naming the line of the first syntax error
+ */
+export function renderPromptTemplate(template: string, context: PromptContext): string {
+  return renderNodes(parseTemplate(template), [{ value: context }]).trim();
+}
@@ -5,6 +5,8 @@
  * parsed from .claude/agents/*.md and .claude/commands/*.md files.
  */
 
+import type { WorkflowQuestion } from '@/types/audit';
+
 // ============================================================================
 // Parsed File Types (from markdown files)
 // ============================================================================
@@ -34,6 +36,10 @@ export interface CommandFrontmatter {
   minAgents?: number;
   maxAgents?: number;
   allowsParallel?: boolean;
+  /** Launch prompt template (see src/lib/audit/templates.ts) */
+  promptTemplate?: string;
+  /** Launch wizard questions (see src/lib/audit/questions.ts), set only when valid */
+  questions?: WorkflowQuestion[];
 }
 
 /**
@@ -59,6 +65,8 @@ export interface ParsedCommandFile {
   frontmatter: CommandFrontmatter;
   /** The markdown content (or entire file if no frontmatter) */
   content: string;
+  /** Problems with the frontmatter's questions, if any */
+  questionErrors: string[];
   /** Original file path */
   filePath: string;
   /** File stats */
@@ -291,6 +299,35 @@ export interface ExtractedCommandMetadata {
   referencedAgents: string[];
 }
 
+/**
+ * Rules extracted from the agent charter (docs/ai/AGENT_CHARTER.md).
+ */
+export interface AgentCharter {
+  /** Agents of the team table */
+  agents: string[];
+  /** Agents any workflow may pull in, from the escalation rules */
+  escalationAgents: string[];
+}
+
+/**
+ * Launch prompt template a command declares.
+ */
+export interface CommandPromptTemplate {
+  /** Template source */
+  template: string;
+  /** Where the template was declared: frontmatter or a sibling <command>.prompt.md */
+  source: 'frontmatter' | 'file';
+}
+
+/**
+ * Sections a handoff must cover, from the handoff template
+ * (docs/ai/HANDOFF_TEMPLATE.md).
+ */
+export interface HandoffTemplate {
+  /** Section titles in template order (e.g., "Context", "Testing Plan") */
+  sections: string[];
+}
+
 // ============================================================================
 // Legacy Types (kept for backward compatibility)
 // ============================================================================
@@ -321,6 +358,8 @@ export interface ParsedCommand {
   usage: string;
   examples: string[];
   rawContent: string;
+  questions?: WorkflowQuestion[];
+  questionErrors: string[];
   lastSynced: string;
 }
 
@@ -343,6 +382,7 @@ export interface ParsedWorkflow {
   description: string;
   agents: string[];
   steps: ParsedWorkflowStep[];
+  questions?: WorkflowQuestion[];
   sourceFile: string;
   lastSynced: string;
 }
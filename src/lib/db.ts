@@ -6,6 +6,15 @@
  */
 
 import { sql, db } from '@vercel/postgres';
+import type {
+  ConformanceDeviation,
+  ConformanceDeviationType,
+  GateStatus,
+  HandoffField,
+  OrchestrationExecutionState,
+  OrchestrationPlan,
+} from '@/types/orchestration';
+import type { RunQueueStatus, WorkflowAnswer } from '@/types/audit';
 
 // ============================================================================
 // Placeholder Types (will be imported from ./audit/types.ts when created)
@@ -60,6 +69,11 @@ export interface CommandParameter {
   description?: string;
 }
 
+/**
+ * Row of the `traces` table, written by the Postgres trace store.
+ * agent_id, workflow_id and command_id hold the agent, workflow and
+ * command names, not IDs from the agents, workflows and commands tables.
+ */
 export interface Trace {
   id: string;
   agent_id: string;
@@ -70,7 +84,7 @@ export interface Trace {
   name: string;
   input: Record<string, unknown>;
   output: Record<string, unknown> | null;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   error: string | null;
   duration_ms: number | null;
   tokens_used: number | null;
@@ -81,6 +95,234 @@ export interface Trace {
   created_at: Date;
 }
 
+export interface TraceSpan {
+  id: string;
+  trace_id: string;
+  parent_span_id: string | null;
+  name: string;
+  operation_type: string;
+  agent_name: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  input: Record<string, unknown> | null;
+  output: Record<string, unknown> | null;
+  tool_calls: unknown[] | null;
+  decisions: unknown[] | null;
+  reasoning: string | null;
+  duration_ms: number | null;
+  tokens: { prompt: number; completion: number; total: number } | null;
+  total_tokens: number | null;
+  cost: number | null;
+  metadata: Record<string, unknown>;
+  started_at: Date;
+  completed_at: Date | null;
+}
+
+export type RollupGranularity = 'hour' | 'day';
+
+export type RollupDimension = 'agent' | 'command' | 'workflow' | 'tool';
+
+export interface MetricRollup {
+  granularity: RollupGranularity;
+  bucket_start: Date;
+  dimension: RollupDimension;
+  dimension_value: string;
+  total_count: number;
+  success_count: number;
+  failure_count: number;
+  cancelled_count: number;
+  duration_count: number;
+  duration_sum_ms: number;
+  /** Longest duration observed, bounding the open-ended histogram slot */
+  duration_max_ms: number | null;
+  duration_histogram: number[];
+  tokens_used: number;
+  cost: number;
+  last_seen_at: Date | null;
+  updated_at: Date;
+}
+
+export type BudgetScope = 'agent' | 'command' | 'workflow';
+
+export type BudgetPeriod = 'daily' | 'weekly' | 'monthly';
+
+export type BudgetMetric = 'tokens' | 'cost';
+
+export interface Budget {
+  id: string;
+  name: string;
+  scope_type: BudgetScope;
+  scope_value: string;
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  limit_value: number;
+  warn_threshold: number;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface BudgetAlert {
+  id: string;
+  budget_id: string;
+  level: 'warning' | 'exceeded';
+  period_start: Date;
+  usage: number;
+  limit_value: number;
+  message: string;
+  trace_id: string | null;
+  acknowledged_at: Date | null;
+  created_at: Date;
+}
+
+export interface RetentionPolicy {
+  id: string;
+  name: string;
+  max_age_days: number;
+  status: 'running' | 'completed' | 'failed' | 'cancelled' | null;
+  agent_name: string | null;
+  environment: string | null;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RetentionPurge {
+  id: string;
+  policy_id: string | null;
+  policy_name: string;
+  backend: string;
+  dry_run: boolean;
+  matched_count: number;
+  deleted_count: number;
+  trace_ids: string[];
+  triggered_by: string;
+  error: string | null;
+  started_at: Date;
+  completed_at: Date;
+}
+
+export interface WorkflowPlan {
+  workflow_id: string;
+  workflow_name: string;
+  source_file: string;
+  plan: OrchestrationPlan;
+  updated_at: Date;
+}
+
+export interface TraceExecution {
+  trace_id: string;
+  plan_id: string;
+  status: OrchestrationExecutionState['status'];
+  state: OrchestrationExecutionState;
+  updated_at: Date;
+}
+
+export interface GateResult {
+  id: string;
+  trace_id: string;
+  plan_id: string;
+  gate_index: number;
+  condition: string;
+  from_wave: string;
+  to_wave: string;
+  blocking: boolean;
+  status: GateStatus;
+  reason: string;
+  evidence_span_ids: string[];
+  missing_evidence: boolean;
+  evaluated_at: Date;
+}
+
+export interface TraceConformance {
+  trace_id: string;
+  workflow_id: string;
+  score: number;
+  expected_sequence: string[];
+  observed_sequence: string[];
+  deviations: ConformanceDeviation[];
+  evaluated_at: Date;
+}
+
+export interface ConformanceSummary {
+  workflow_id: string;
+  runs: number;
+  avg_score: number;
+  conforming_runs: number;
+  deviation_counts: Partial<Record<ConformanceDeviationType, number>>;
+}
+
+export interface TraceHandoff {
+  span_id: string;
+  trace_id: string;
+  from_agent: string;
+  to_agent: string | null;
+  summary: string | null;
+  files_touched: string[];
+  open_questions: string[];
+  risks: string[];
+  sections: string[];
+  missing_sections: string[];
+  missing_fields: HandoffField[];
+  valid: boolean;
+  created_at: Date;
+}
+
+export interface HandoffFilters {
+  trace_id?: string;
+  from_agent?: string;
+  to_agent?: string;
+  missing_field?: HandoffField;
+  missing_section?: string;
+  valid?: boolean;
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface LaunchPreset {
+  id: string;
+  workflow_id: string;
+  name: string;
+  answers: WorkflowAnswer[];
+  owner_id: string;
+  shared: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface LaunchRecord {
+  id: string;
+  workflow_id: string;
+  command: string;
+  prompt: string;
+  answers: WorkflowAnswer[];
+  preset_id: string | null;
+  user_id: string | null;
+  trace_id: string | null;
+  parent_trace_id: string | null;
+  created_at: Date;
+}
+
+export interface QueuedRun {
+  id: string;
+  launch_id: string;
+  workflow_id: string;
+  cwd: string;
+  priority: number;
+  status: RunQueueStatus;
+  run_id: string | null;
+  trace_id: string | null;
+  error: string | null;
+  enqueued_by: string | null;
+  owner_id: string | null;
+  heartbeat_at: Date | null;
+  cancel_requested: boolean;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+  updated_at: Date;
+}
+
 export interface Export {
   id: string;
   name: string;
@@ -169,6 +411,41 @@ export async function queryOne<T>(text: string, params?: unknown[]): Promise<T |
   return rows[0] ?? null;
 }
 
+// ============================================================================
+// Schema Management
+// ============================================================================
+
+// Schemas already applied in this process, keyed by name
+const ensuredSchemas = new Map<string, Promise<void>>();
+
+/**
+ * Apply idempotent DDL statements once per process.
+ * Statements must be safe to re-run (CREATE ... IF NOT EXISTS).
+ *
+ * @param name - Unique schema name used for memoization
+ * @param statements - DDL statements to run in order
+ *
+ * @example
+ * await ensureSchema('trace-store', ['CREATE TABLE IF NOT EXISTS traces (...)']);
+ */
+export async function ensureSchema(name: string, statements: string[]): Promise<void> {
+  let pending = ensuredSchemas.get(name);
+
+  if (!pending) {
+    pending = (async () => {
+      for (const statement of statements) {
+        await query(statement);
+      }
+    })();
+    ensuredSchemas.set(name, pending);
+
+    // Allow a retry on the next call if the DDL failed
+    pending.catch(() => ensuredSchemas.delete(name));
+  }
+
+  return pending;
+}
+
 // ============================================================================
 // Agent Operations
 // ============================================================================
@@ -388,6 +665,64 @@ export async function createWorkflow(
   return result[0];
 }
 
+// ============================================================================
+// Workflow Plan Operations
+// ============================================================================
+
+const WORKFLOW_PLAN_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS workflow_plans (
+    workflow_id TEXT PRIMARY KEY,
+    workflow_name TEXT NOT NULL,
+    source_file TEXT NOT NULL,
+    plan JSONB NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+];
+
+/**
+ * Create the workflow plan table if it does not exist.
+ */
+export async function ensureWorkflowPlanSchema(): Promise<void> {
+  await ensureSchema('workflow-plans', WORKFLOW_PLAN_SCHEMA);
+}
+
+/**
+ * Fetch the stored orchestration plan of a workflow.
+ *
+ * @param workflowId - Workflow ID (e.g., "feature-workflow")
+ * @returns Workflow plan or null if not synced
+ */
+export async function getWorkflowPlan(workflowId: string): Promise<WorkflowPlan | null> {
+  await ensureWorkflowPlanSchema();
+
+  return queryOne<WorkflowPlan>('SELECT * FROM workflow_plans WHERE workflow_id = $1', [workflowId]);
+}
+
+/**
+ * Insert or replace the orchestration plan of a workflow.
+ *
+ * @param plan - Plan data
+ * @returns Stored workflow plan
+ */
+export async function upsertWorkflowPlan(
+  plan: Omit<WorkflowPlan, 'updated_at'>
+): Promise<WorkflowPlan> {
+  await ensureWorkflowPlanSchema();
+
+  const result = await query<WorkflowPlan>(
+    `INSERT INTO workflow_plans (workflow_id, workflow_name, source_file, plan)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (workflow_id) DO UPDATE SET
+       workflow_name = EXCLUDED.workflow_name,
+       source_file = EXCLUDED.source_file,
+       plan = EXCLUDED.plan,
+       updated_at = NOW()
+     RETURNING *`,
+    [plan.workflow_id, plan.workflow_name, plan.source_file, JSON.stringify(plan.plan)]
+  );
+  return result[0];
+}
+
 // ============================================================================
 // Command Operations
 // ============================================================================
@@ -480,14 +815,15 @@ export async function createCommand(
 
 /**
  * Fetch traces from the database with optional filters.
+ * Agents, workflows and commands are matched by name (see Trace).
  *
  * @param options - Optional filters
  * @returns Array of traces
  */
 export async function getTraces(options?: {
-  agent_id?: string;
-  workflow_id?: string;
-  command_id?: string;
+  agent_name?: string;
+  workflow_name?: string;
+  command_name?: string;
   session_id?: string;
   status?: Trace['status'];
   date_from?: Date;
@@ -499,19 +835,19 @@ export async function getTraces(options?: {
   const params: unknown[] = [];
   const conditions: string[] = [];
 
-  if (options?.agent_id) {
+  if (options?.agent_name) {
     conditions.push(`agent_id = $${params.length + 1}`);
-    params.push(options.agent_id);
+    params.push(options.agent_name);
   }
 
-  if (options?.workflow_id) {
+  if (options?.workflow_name) {
     conditions.push(`workflow_id = $${params.length + 1}`);
-    params.push(options.workflow_id);
+    params.push(options.workflow_name);
   }
 
-  if (options?.command_id) {
+  if (options?.command_name) {
     conditions.push(`command_id = $${params.length + 1}`);
-    params.push(options.command_id);
+    params.push(options.command_name);
   }
 
   if (options?.session_id) {
@@ -567,23 +903,25 @@ export async function getTraceById(id: string): Promise<Trace | null> {
 }
 
 /**
- * Create a new trace record.
+ * Create a new trace record. The trace store's `traces` table has no ID
+ * default, so the caller supplies the trace ID.
  *
  * @param trace - Trace data
  * @returns Created trace
  */
 export async function createTrace(
-  trace: Omit<Trace, 'id' | 'created_at'>
+  trace: Omit<Trace, 'created_at'>
 ): Promise<Trace> {
   const result = await query<Trace>(
     `INSERT INTO traces (
-      agent_id, workflow_id, command_id, session_id, parent_trace_id,
+      id, agent_id, workflow_id, command_id, session_id, parent_trace_id,
       name, input, output, status, error, duration_ms, tokens_used,
       cost, metadata, started_at, completed_at
     )
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
     RETURNING *`,
     [
+      trace.id,
       trace.agent_id,
       trace.workflow_id,
       trace.command_id,
@@ -661,158 +999,2038 @@ export async function updateTrace(
 }
 
 // ============================================================================
-// Export Operations
+// Execution State Operations
 // ============================================================================
 
+const TRACE_EXECUTION_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS trace_executions (
+    trace_id TEXT PRIMARY KEY,
+    plan_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    state JSONB NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_trace_executions_plan ON trace_executions (plan_id, status)`,
+];
+
 /**
- * Fetch exports from the database with optional filters.
+ * Create the trace execution table if it does not exist.
+ */
+export async function ensureTraceExecutionSchema(): Promise<void> {
+  await ensureSchema('trace-executions', TRACE_EXECUTION_SCHEMA);
+}
+
+/**
+ * Fetch the stored execution state of a trace.
  *
- * @param options - Optional filters
- * @returns Array of exports
+ * @param traceId - Trace ID
+ * @returns Trace execution or null if none is stored
  */
-export async function getExports(options?: {
-  export_type?: Export['export_type'];
-  status?: Export['status'];
-  requested_by?: string;
-  limit?: number;
-  offset?: number;
-}): Promise<Export[]> {
-  let queryText = 'SELECT * FROM exports';
-  const params: unknown[] = [];
-  const conditions: string[] = [];
+export async function getTraceExecution(traceId: string): Promise<TraceExecution | null> {
+  await ensureTraceExecutionSchema();
 
-  if (options?.export_type) {
-    conditions.push(`export_type = $${params.length + 1}`);
-    params.push(options.export_type);
-  }
+  return queryOne<TraceExecution>('SELECT * FROM trace_executions WHERE trace_id = $1', [traceId]);
+}
 
-  if (options?.status) {
-    conditions.push(`status = $${params.length + 1}`);
-    params.push(options.status);
-  }
+/**
+ * Insert or replace the execution state of a trace.
+ *
+ * @param traceId - Trace ID
+ * @param state - Execution state derived from the trace
+ * @returns Stored trace execution
+ */
+export async function upsertTraceExecution(
+  traceId: string,
+  state: OrchestrationExecutionState
+): Promise<TraceExecution> {
+  await ensureTraceExecutionSchema();
+
+  const result = await query<TraceExecution>(
+    `INSERT INTO trace_executions (trace_id, plan_id, status, state)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (trace_id) DO UPDATE SET
+       plan_id = EXCLUDED.plan_id,
+       status = EXCLUDED.status,
+       state = EXCLUDED.state,
+       updated_at = NOW()
+     RETURNING *`,
+    [traceId, state.planId, state.status, JSON.stringify(state)]
+  );
+  return result[0];
+}
 
-  if (options?.requested_by) {
-    conditions.push(`requested_by = $${params.length + 1}`);
-    params.push(options.requested_by);
-  }
+// ============================================================================
+// Gate Result Operations
+// ============================================================================
 
-  if (conditions.length > 0) {
-    queryText += ' WHERE ' + conditions.join(' AND ');
-  }
+const GATE_RESULT_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS gate_results (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    trace_id TEXT NOT NULL,
+    plan_id TEXT NOT NULL,
+    gate_index INTEGER NOT NULL,
+    condition TEXT NOT NULL,
+    from_wave TEXT NOT NULL,
+    to_wave TEXT NOT NULL,
+    blocking BOOLEAN NOT NULL,
+    status TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    evidence_span_ids JSONB NOT NULL DEFAULT '[]',
+    evaluated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (trace_id, gate_index)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_gate_results_plan ON gate_results (plan_id, status)`,
+  `ALTER TABLE gate_results ADD COLUMN IF NOT EXISTS missing_evidence BOOLEAN NOT NULL DEFAULT FALSE`,
+];
 
-  queryText += ' ORDER BY created_at DESC';
+/**
+ * Create the gate result table if it does not exist.
+ */
+export async function ensureGateResultSchema(): Promise<void> {
+  await ensureSchema('gate-results', GATE_RESULT_SCHEMA);
+}
 
-  if (options?.limit) {
-    queryText += ` LIMIT $${params.length + 1}`;
-    params.push(options.limit);
-  }
+/**
+ * Fetch the recorded gate results of a trace.
+ *
+ * @param traceId - Trace ID
+ * @returns Gate results in plan order
+ */
+export async function getGateResults(traceId: string): Promise<GateResult[]> {
+  await ensureGateResultSchema();
 
-  if (options?.offset) {
-    queryText += ` OFFSET $${params.length + 1}`;
-    params.push(options.offset);
+  return query<GateResult>(
+    'SELECT * FROM gate_results WHERE trace_id = $1 ORDER BY gate_index ASC',
+    [traceId]
+  );
+}
+
+/**
+ * Replace the recorded gate results of a trace.
+ *
+ * @param traceId - Trace ID
+ * @param results - Results of every gate in the plan
+ * @returns Stored gate results
+ */
+export async function replaceGateResults(
+  traceId: string,
+  results: Array<Omit<GateResult, 'id' | 'trace_id' | 'evaluated_at'>>
+): Promise<GateResult[]> {
+  await ensureGateResultSchema();
+
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM gate_results WHERE trace_id = $1', [traceId]);
+
+    const stored: GateResult[] = [];
+    for (const result of results) {
+      const { rows } = await client.query(
+        `INSERT INTO gate_results (
+          trace_id, plan_id, gate_index, condition, from_wave, to_wave,
+          blocking, status, reason, evidence_span_ids, missing_evidence
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        RETURNING *`,
+        [
+          traceId,
+          result.plan_id,
+          result.gate_index,
+          result.condition,
+          result.from_wave,
+          result.to_wave,
+          result.blocking,
+          result.status,
+          result.reason,
+          JSON.stringify(result.evidence_span_ids),
+          result.missing_evidence,
+        ]
+      );
+      stored.push(rows[0] as GateResult);
+    }
+
+    await client.query('COMMIT');
+    return stored;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
   }
+}
 
-  return query<Export>(queryText, params);
+// ============================================================================
+// Conformance Operations
+// ============================================================================
+
+const TRACE_CONFORMANCE_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS trace_conformance (
+    trace_id TEXT PRIMARY KEY,
+    workflow_id TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    expected_sequence JSONB NOT NULL DEFAULT '[]',
+    observed_sequence JSONB NOT NULL DEFAULT '[]',
+    deviations JSONB NOT NULL DEFAULT '[]',
+    evaluated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_trace_conformance_workflow ON trace_conformance (workflow_id, evaluated_at)`,
+];
+
+/**
+ * Create the trace conformance table if it does not exist.
+ */
+export async function ensureTraceConformanceSchema(): Promise<void> {
+  await ensureSchema('trace-conformance', TRACE_CONFORMANCE_SCHEMA);
 }
 
 /**
- * Fetch a single export by ID.
+ * Fetch the recorded conformance of a trace.
  *
- * @param id - Export ID
- * @returns Export or null if not found
+ * @param traceId - Trace ID
+ * @returns Conformance or null if the trace was not checked
  */
-export async function getExportById(id: string): Promise<Export | null> {
-  return queryOne<Export>(
-    'SELECT * FROM exports WHERE id = $1',
-    [id]
+export async function getTraceConformance(traceId: string): Promise<TraceConformance | null> {
+  await ensureTraceConformanceSchema();
+
+  return queryOne<TraceConformance>(
+    'SELECT * FROM trace_conformance WHERE trace_id = $1',
+    [traceId]
   );
 }
 
 /**
- * Create a new export request.
+ * Insert or replace the recorded conformance of a trace.
  *
- * @param exportData - Export data
- * @returns Created export
+ * @param conformance - Conformance to store
+ * @returns Stored conformance
  */
-export async function createExport(
-  exportData: Omit<Export, 'id' | 'file_url' | 'file_size_bytes' | 'record_count' | 'error' | 'started_at' | 'completed_at' | 'created_at'>
-): Promise<Export> {
-  const result = await query<Export>(
-    `INSERT INTO exports (name, description, export_type, format, filters, status, requested_by)
-     VALUES ($1, $2, $3, $4, $5, $6, $7)
-     RETURNING *`,
+export async function upsertTraceConformance(
+  conformance: Omit<TraceConformance, 'evaluated_at'>
+): Promise<TraceConformance> {
+  await ensureTraceConformanceSchema();
+
+  const result = await query<TraceConformance>(
+    `INSERT INTO trace_conformance (
+      trace_id, workflow_id, score, expected_sequence, observed_sequence, deviations
+    )
+    VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (trace_id) DO UPDATE SET
+      workflow_id = EXCLUDED.workflow_id,
+      score = EXCLUDED.score,
+      expected_sequence = EXCLUDED.expected_sequence,
+      observed_sequence = EXCLUDED.observed_sequence,
+      deviations = EXCLUDED.deviations,
+      evaluated_at = NOW()
+    RETURNING *`,
     [
-      exportData.name,
-      exportData.description,
-      exportData.export_type,
-      exportData.format,
-      JSON.stringify(exportData.filters),
-      exportData.status,
-      exportData.requested_by
+      conformance.trace_id,
+      conformance.workflow_id,
+      conformance.score,
+      JSON.stringify(conformance.expected_sequence),
+      JSON.stringify(conformance.observed_sequence),
+      JSON.stringify(conformance.deviations),
     ]
   );
   return result[0];
 }
 
 /**
- * Update an existing export (typically to update status or add file info).
+ * Aggregate recorded conformance per workflow.
  *
- * @param id - Export ID
- * @param updates - Fields to update
- * @returns Updated export or null
+ * @param options - Optional start of the evaluation window
+ * @returns One summary per workflow, most runs first
  */
-export async function updateExport(
-  id: string,
-  updates: Partial<Pick<Export, 'status' | 'file_url' | 'file_size_bytes' | 'record_count' | 'error' | 'started_at' | 'completed_at'>>
-): Promise<Export | null> {
-  const fields: string[] = [];
-  const params: unknown[] = [];
-  let paramIndex = 1;
+export async function getConformanceSummaries(options?: {
+  date_from?: Date;
+}): Promise<ConformanceSummary[]> {
+  await ensureTraceConformanceSchema();
+
+  const where = options?.date_from ? 'WHERE evaluated_at >= $1' : '';
+  const params = options?.date_from ? [options.date_from] : [];
+
+  const [summaries, deviations] = await Promise.all([
+    query<Omit<ConformanceSummary, 'deviation_counts'>>(
+      `SELECT
+        workflow_id,
+        COUNT(*)::int AS runs,
+        AVG(score)::float AS avg_score,
+        COUNT(*) FILTER (WHERE score = 100)::int AS conforming_runs
+      FROM trace_conformance
+      ${where}
+      GROUP BY workflow_id
+      ORDER BY runs DESC`,
+      params
+    ),
+    query<{ workflow_id: string; type: ConformanceDeviationType; count: number }>(
+      `SELECT workflow_id, deviation->>'type' AS type, COUNT(*)::int AS count
+      FROM trace_conformance, jsonb_array_elements(deviations) AS deviation
+      ${where}
+      GROUP BY workflow_id, deviation->>'type'`,
+      params
+    ),
+  ]);
 
-  if (updates.status !== undefined) {
-    fields.push(`status = $${paramIndex++}`);
-    params.push(updates.status);
-  }
-  if (updates.file_url !== undefined) {
-    fields.push(`file_url = $${paramIndex++}`);
-    params.push(updates.file_url);
-  }
-  if (updates.file_size_bytes !== undefined) {
-    fields.push(`file_size_bytes = $${paramIndex++}`);
-    params.push(updates.file_size_bytes);
-  }
-  if (updates.record_count !== undefined) {
-    fields.push(`record_count = $${paramIndex++}`);
-    params.push(updates.record_count);
-  }
-  if (updates.error !== undefined) {
-    fields.push(`error = $${paramIndex++}`);
-    params.push(updates.error);
-  }
-  if (updates.started_at !== undefined) {
-    fields.push(`started_at = $${paramIndex++}`);
+  return summaries.map((summary) => ({
+    ...summary,
+    deviation_counts: Object.fromEntries(
+      deviations
+        .filter((row) => row.workflow_id === summary.workflow_id)
+        .map((row) => [row.type, row.count])
+    ),
+  }));
+}
+
+// ============================================================================
+// Handoff Operations
+// ============================================================================
+
+const HANDOFF_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS handoffs (
+    span_id TEXT PRIMARY KEY,
+    trace_id TEXT NOT NULL,
+    from_agent TEXT NOT NULL,
+    to_agent TEXT,
+    summary TEXT,
+    files_touched JSONB NOT NULL DEFAULT '[]',
+    open_questions JSONB NOT NULL DEFAULT '[]',
+    risks JSONB NOT NULL DEFAULT '[]',
+    sections JSONB NOT NULL DEFAULT '[]',
+    missing_sections JSONB NOT NULL DEFAULT '[]',
+    missing_fields JSONB NOT NULL DEFAULT '[]',
+    valid BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_handoffs_trace ON handoffs (trace_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_handoffs_to_agent ON handoffs (to_agent, created_at DESC)`,
+];
+
+/**
+ * Create the handoffs table if it does not exist.
+ */
+export async function ensureHandoffSchema(): Promise<void> {
+  await ensureSchema('handoffs', HANDOFF_SCHEMA);
+}
+
+/**
+ * Insert or replace the handoff parsed from a span.
+ *
+ * @param handoff - Handoff to store
+ * @returns Stored handoff
+ */
+export async function upsertHandoff(handoff: TraceHandoff): Promise<TraceHandoff> {
+  await ensureHandoffSchema();
+
+  const result = await query<TraceHandoff>(
+    `INSERT INTO handoffs (
+      span_id, trace_id, from_agent, to_agent, summary, files_touched, open_questions,
+      risks, sections, missing_sections, missing_fields, valid, created_at
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+    ON CONFLICT (span_id) DO UPDATE SET
+      trace_id = EXCLUDED.trace_id,
+      from_agent = EXCLUDED.from_agent,
+      to_agent = EXCLUDED.to_agent,
+      summary = EXCLUDED.summary,
+      files_touched = EXCLUDED.files_touched,
+      open_questions = EXCLUDED.open_questions,
+      risks = EXCLUDED.risks,
+      sections = EXCLUDED.sections,
+      missing_sections = EXCLUDED.missing_sections,
+      missing_fields = EXCLUDED.missing_fields,
+      valid = EXCLUDED.valid
+    RETURNING *`,
+    [
+      handoff.span_id,
+      handoff.trace_id,
+      handoff.from_agent,
+      handoff.to_agent,
+      handoff.summary,
+      JSON.stringify(handoff.files_touched),
+      JSON.stringify(handoff.open_questions),
+      JSON.stringify(handoff.risks),
+      JSON.stringify(handoff.sections),
+      JSON.stringify(handoff.missing_sections),
+      JSON.stringify(handoff.missing_fields),
+      handoff.valid,
+      handoff.created_at,
+    ]
+  );
+  return result[0];
+}
+
+/**
+ * Search recorded handoffs across traces.
+ *
+ * @param filters - Agents, omitted fields or sections, validity and summary text
+ * @returns Matching handoffs (newest first) and their total count
+ */
+export async function searchHandoffs(
+  filters: HandoffFilters = {}
+): Promise<{ handoffs: TraceHandoff[]; total: number }> {
+  await ensureHandoffSchema();
+
+  const params: unknown[] = [];
+  const conditions: string[] = [];
+
+  if (filters.trace_id) {
+    conditions.push(`trace_id = $${params.length + 1}`);
+    params.push(filters.trace_id);
+  }
+
+  if (filters.from_agent) {
+    conditions.push(`from_agent = $${params.length + 1}`);
+    params.push(filters.from_agent.toLowerCase());
+  }
+
+  if (filters.to_agent) {
+    conditions.push(`to_agent = $${params.length + 1}`);
+    params.push(filters.to_agent.toLowerCase());
+  }
+
+  if (filters.missing_field) {
+    conditions.push(`missing_fields ? $${params.length + 1}`);
+    params.push(filters.missing_field);
+  }
+
+  if (filters.missing_section) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM jsonb_array_elements_text(missing_sections) AS section
+        WHERE LOWER(section) = LOWER($${params.length + 1}))`
+    );
+    params.push(filters.missing_section);
+  }
+
+  if (filters.valid !== undefined) {
+    conditions.push(`valid = $${params.length + 1}`);
+    params.push(filters.valid);
+  }
+
+  if (filters.search) {
+    conditions.push(`summary ILIKE $${params.length + 1} ESCAPE '\\'`);
+    params.push(containsPattern(filters.search));
+  }
+
+  const where = conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
+
+  const [handoffs, count] = await Promise.all([
+    query<TraceHandoff>(
+      `SELECT * FROM handoffs${where} ORDER BY created_at DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filters.limit ?? 50, filters.offset ?? 0]
+    ),
+    queryOne<{ total: number }>(`SELECT COUNT(*)::int AS total FROM handoffs${where}`, params),
+  ]);
+
+  return { handoffs, total: count?.total ?? 0 };
+}
+
+// ============================================================================
+// Launch Operations
+// ============================================================================
+
+const LAUNCH_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS launch_presets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workflow_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    answers JSONB NOT NULL DEFAULT '[]',
+    owner_id TEXT NOT NULL,
+    shared BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (workflow_id, owner_id, name)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_launch_presets_workflow ON launch_presets (workflow_id, name)`,
+  `CREATE TABLE IF NOT EXISTS workflow_launches (
+    id TEXT PRIMARY KEY,
+    workflow_id TEXT NOT NULL,
+    command TEXT NOT NULL,
+    prompt TEXT NOT NULL,
+    answers JSONB NOT NULL DEFAULT '[]',
+    preset_id UUID REFERENCES launch_presets(id) ON DELETE SET NULL,
+    user_id TEXT,
+    trace_id TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_workflow_launches_workflow ON workflow_launches (workflow_id, created_at DESC)`,
+  `CREATE INDEX IF NOT EXISTS idx_workflow_launches_trace ON workflow_launches (trace_id)`,
+  `ALTER TABLE workflow_launches ADD COLUMN IF NOT EXISTS parent_trace_id TEXT`,
+];
+
+/**
+ * Create the launch preset and launch history tables if they do not exist.
+ */
+export async function ensureLaunchSchema(): Promise<void> {
+  await ensureSchema('launches', LAUNCH_SCHEMA);
+}
+
+/**
+ * Fetch the presets of a workflow a user can use: their own and shared ones.
+ *
+ * @param workflowId - Workflow ID
+ * @param userId - Clerk user ID
+ * @returns Presets ordered by name
+ */
+export async function getLaunchPresets(workflowId: string, userId: string): Promise<LaunchPreset[]> {
+  await ensureLaunchSchema();
+
+  return query<LaunchPreset>(
+    `SELECT * FROM launch_presets
+    WHERE workflow_id = $1 AND (owner_id = $2 OR shared)
+    ORDER BY name ASC, created_at ASC`,
+    [workflowId, userId]
+  );
+}
+
+/**
+ * Fetch a single preset by ID.
+ *
+ * @param id - Preset ID
+ * @returns Preset or null if not found
+ */
+export async function getLaunchPresetById(id: string): Promise<LaunchPreset | null> {
+  await ensureLaunchSchema();
+
+  return queryOne<LaunchPreset>('SELECT * FROM launch_presets WHERE id = $1', [id]);
+}
+
+/**
+ * Create a preset. A user's preset replaces their existing one with the
+ * same name for the workflow.
+ *
+ * @param preset - Preset data
+ * @returns Created or replaced preset
+ */
+export async function upsertLaunchPreset(
+  preset: Omit<LaunchPreset, 'id' | 'created_at' | 'updated_at'>
+): Promise<LaunchPreset> {
+  await ensureLaunchSchema();
+
+  const result = await query<LaunchPreset>(
+    `INSERT INTO launch_presets (workflow_id, name, answers, owner_id, shared)
+    VALUES ($1, $2, $3, $4, $5)
+    ON CONFLICT (workflow_id, owner_id, name) DO UPDATE SET
+      answers = EXCLUDED.answers,
+      shared = EXCLUDED.shared,
+      updated_at = NOW()
+    RETURNING *`,
+    [preset.workflow_id, preset.name, JSON.stringify(preset.answers), preset.owner_id, preset.shared]
+  );
+  return result[0];
+}
+
+/**
+ * Update an existing preset.
+ *
+ * @param id - Preset ID
+ * @param updates - Fields to update
+ * @returns Updated preset or null
+ */
+export async function updateLaunchPreset(
+  id: string,
+  updates: Partial<Pick<LaunchPreset, 'name' | 'answers' | 'shared'>>
+): Promise<LaunchPreset | null> {
+  await ensureLaunchSchema();
+
+  const fields: string[] = [];
+  const params: unknown[] = [];
+  let paramIndex = 1;
+
+  if (updates.name !== undefined) {
+    fields.push(`name = $${paramIndex++}`);
+    params.push(updates.name);
+  }
+  if (updates.answers !== undefined) {
+    fields.push(`answers = $${paramIndex++}`);
+    params.push(JSON.stringify(updates.answers));
+  }
+  if (updates.shared !== undefined) {
+    fields.push(`shared = $${paramIndex++}`);
+    params.push(updates.shared);
+  }
+
+  if (fields.length === 0) return getLaunchPresetById(id);
+
+  fields.push('updated_at = NOW()');
+  params.push(id);
+
+  const result = await query<LaunchPreset>(
+    `UPDATE launch_presets SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+    params
+  );
+  return result[0] ?? null;
+}
+
+/**
+ * Delete a preset. Launches made from it are kept.
+ *
+ * @param id - Preset ID
+ * @returns True if a preset was deleted
+ */
+export async function deleteLaunchPreset(id: string): Promise<boolean> {
+  await ensureLaunchSchema();
+
+  const result = await query<{ id: string }>('DELETE FROM launch_presets WHERE id = $1 RETURNING id', [id]);
+  return result.length > 0;
+}
+
+/**
+ * Record a generated launch prompt.
+ *
+ * @param launch - Launch data
+ * @returns Recorded launch
+ */
+export async function createLaunchRecord(
+  launch: Omit<LaunchRecord, 'trace_id' | 'created_at'>
+): Promise<LaunchRecord> {
+  await ensureLaunchSchema();
+
+  const result = await query<LaunchRecord>(
+    `INSERT INTO workflow_launches (id, workflow_id, command, prompt, answers, preset_id, user_id, parent_trace_id)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    RETURNING *`,
+    [
+      launch.id,
+      launch.workflow_id,
+      launch.command,
+      launch.prompt,
+      JSON.stringify(launch.answers),
+      launch.preset_id,
+      launch.user_id,
+      launch.parent_trace_id,
+    ]
+  );
+  return result[0];
+}
+
+/**
+ * Fetch a single launch by ID.
+ *
+ * @param id - Launch ID
+ * @returns Launch or null if not found
+ */
+export async function getLaunchRecordById(id: string): Promise<LaunchRecord | null> {
+  await ensureLaunchSchema();
+
+  return queryOne<LaunchRecord>('SELECT * FROM workflow_launches WHERE id = $1', [id]);
+}
+
+/**
+ * Link a launch to the trace that echoed its ID. The first trace wins.
+ *
+ * @param id - Launch ID
+ * @param traceId - Trace ID
+ * @returns Updated launch, or null if the launch is unknown or already linked
+ */
+export async function linkLaunchTrace(id: string, traceId: string): Promise<LaunchRecord | null> {
+  await ensureLaunchSchema();
+
+  return queryOne<LaunchRecord>(
+    'UPDATE workflow_launches SET trace_id = $2 WHERE id = $1 AND trace_id IS NULL RETURNING *',
+    [id, traceId]
+  );
+}
+
+/**
+ * Fetch launch history, newest first.
+ *
+ * @param options - Optional filters and pagination
+ * @returns Launches and their total count
+ */
+export async function getLaunchRecords(options: {
+  workflow_id?: string;
+  user_id?: string;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<{ launches: LaunchRecord[]; total: number }> {
+  await ensureLaunchSchema();
+
+  const params: unknown[] = [];
+  const conditions: string[] = [];
+
+  if (options.workflow_id) {
+    conditions.push(`workflow_id = $${params.length + 1}`);
+    params.push(options.workflow_id);
+  }
+
+  if (options.user_id) {
+    conditions.push(`user_id = $${params.length + 1}`);
+    params.push(options.user_id);
+  }
+
+  const where = conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
+
+  const [launches, count] = await Promise.all([
+    query<LaunchRecord>(
+      `SELECT * FROM workflow_launches${where} ORDER BY created_at DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, options.limit ?? 20, options.offset ?? 0]
+    ),
+    queryOne<{ total: number }>(`SELECT COUNT(*)::int AS total FROM workflow_launches${where}`, params),
+  ]);
+
+  return { launches, total: count?.total ?? 0 };
+}
+
+// ============================================================================
+// Run Queue Operations
+// ============================================================================
+
+const RUN_QUEUE_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS run_queue (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    launch_id TEXT NOT NULL REFERENCES workflow_launches(id) ON DELETE CASCADE,
+    workflow_id TEXT NOT NULL,
+    cwd TEXT NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'queued',
+    run_id TEXT,
+    trace_id TEXT,
+    error TEXT,
+    enqueued_by TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_run_queue_waiting ON run_queue (status, priority DESC, created_at ASC)`,
+  `CREATE INDEX IF NOT EXISTS idx_run_queue_workflow ON run_queue (workflow_id, status)`,
+  `ALTER TABLE run_queue ADD COLUMN IF NOT EXISTS owner_id TEXT`,
+  `ALTER TABLE run_queue ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ`,
+  `ALTER TABLE run_queue ADD COLUMN IF NOT EXISTS cancel_requested BOOLEAN NOT NULL DEFAULT FALSE`,
+];
+
+/** Advisory lock key serializing claims across server instances */
+const RUN_QUEUE_CLAIM_LOCK = 'bigturbo_run_queue_claim';
+
+/**
+ * Create the run queue table if it does not exist.
+ */
+export async function ensureRunQueueSchema(): Promise<void> {
+  // Queued runs reference their launch
+  await ensureLaunchSchema();
+  await ensureSchema('run-queue', RUN_QUEUE_SCHEMA);
+}
+
+/**
+ * Add a launch to the run queue.
+ *
+ * @param run - Queue entry data
+ * @returns Queued run
+ */
+export async function createQueuedRun(
+  run: Pick<QueuedRun, 'launch_id' | 'workflow_id' | 'cwd' | 'priority' | 'enqueued_by'>
+): Promise<QueuedRun> {
+  await ensureRunQueueSchema();
+
+  const result = await query<QueuedRun>(
+    `INSERT INTO run_queue (launch_id, workflow_id, cwd, priority, enqueued_by)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING *`,
+    [run.launch_id, run.workflow_id, run.cwd, run.priority, run.enqueued_by]
+  );
+  return result[0];
+}
+
+/**
+ * Fetch a single queued run by ID.
+ *
+ * @param id - Queue entry ID
+ * @returns Queued run or null if not found
+ */
+export async function getQueuedRunById(id: string): Promise<QueuedRun | null> {
+  await ensureRunQueueSchema();
+
+  return queryOne<QueuedRun>('SELECT * FROM run_queue WHERE id = $1', [id]);
+}
+
+/**
+ * Fetch queue entries: running first, then waiting runs in the order they
+ * will start, then finished runs, newest first.
+ *
+ * @param options - Optional filters and pagination
+ * @returns Queue entries and their total count
+ */
+export async function getQueuedRuns(options: {
+  status?: RunQueueStatus[];
+  workflow_id?: string;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<{ runs: QueuedRun[]; total: number }> {
+  await ensureRunQueueSchema();
+
+  const params: unknown[] = [];
+  const conditions: string[] = [];
+
+  if (options.status && options.status.length > 0) {
+    conditions.push(`status = ANY($${params.length + 1})`);
+    params.push(options.status);
+  }
+
+  if (options.workflow_id) {
+    conditions.push(`workflow_id = $${params.length + 1}`);
+    params.push(options.workflow_id);
+  }
+
+  const where = conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
+
+  const [runs, count] = await Promise.all([
+    query<QueuedRun>(
+      `SELECT * FROM run_queue${where}
+      ORDER BY
+        CASE status WHEN 'running' THEN 0 WHEN 'queued' THEN 1 WHEN 'paused' THEN 2 ELSE 3 END,
+        CASE WHEN completed_at IS NULL THEN priority END DESC,
+        CASE WHEN completed_at IS NULL THEN created_at END ASC,
+        completed_at DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, options.limit ?? 50, options.offset ?? 0]
+    ),
+    queryOne<{ total: number }>(`SELECT COUNT(*)::int AS total FROM run_queue${where}`, params),
+  ]);
+
+  return { runs, total: count?.total ?? 0 };
+}
+
+/**
+ * Count queue entries by status.
+ *
+ * @returns Number of entries in each status that has any
+ */
+export async function countQueuedRuns(): Promise<Partial<Record<RunQueueStatus, number>>> {
+  await ensureRunQueueSchema();
+
+  const rows = await query<{ status: RunQueueStatus; total: number }>(
+    'SELECT status, COUNT(*)::int AS total FROM run_queue GROUP BY status'
+  );
+  return Object.fromEntries(rows.map((row) => [row.status, row.total]));
+}
+
+/**
+ * Claim the waiting run that should start next and move it to running,
+ * if fewer than `global` runs are going and its workflow is below its
+ * limit. Claims are serialized across server instances with an advisory
+ * lock, so the limits hold however many instances dispatch at once.
+ *
+ * @param ownerId - Server instance that will run it
+ * @param limits - Runs at once overall, per workflow by default, and by workflow ID
+ * @returns Claimed run, or null if none can start
+ */
+export async function claimNextQueuedRun(
+  ownerId: string,
+  limits: { global: number; perWorkflow: number; workflows: Record<string, number> }
+): Promise<QueuedRun | null> {
+  await ensureRunQueueSchema();
+
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [RUN_QUEUE_CLAIM_LOCK]);
+
+    const result = await client.query<QueuedRun>(
+      `UPDATE run_queue
+      SET status = 'running', owner_id = $1, heartbeat_at = NOW(), started_at = NOW(), updated_at = NOW()
+      WHERE id = (
+        SELECT q.id FROM run_queue q
+        WHERE q.status = 'queued'
+          AND (SELECT COUNT(*) FROM run_queue r WHERE r.status = 'running') < $2
+          AND (SELECT COUNT(*) FROM run_queue r WHERE r.status = 'running' AND r.workflow_id = q.workflow_id)
+            < COALESCE(
+              (SELECT l.max FROM unnest($3::text[], $4::int[]) AS l(workflow_id, max) WHERE l.workflow_id = q.workflow_id),
+              $5
+            )
+        ORDER BY q.priority DESC, q.created_at ASC
+        LIMIT 1
+      )
+      RETURNING *`,
+      [ownerId, limits.global, Object.keys(limits.workflows), Object.values(limits.workflows), limits.perWorkflow]
+    );
+
+    await client.query('COMMIT');
+    return result.rows[0] ?? null;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Ask the server instance running an entry to cancel it. The entry keeps
+ * running, and its slot, until the owner has stopped the run.
+ *
+ * @param id - Queue entry ID
+ * @returns Updated run, or null if not found or no longer running
+ */
+export async function requestQueuedRunCancel(id: string): Promise<QueuedRun | null> {
+  await ensureRunQueueSchema();
+
+  return queryOne<QueuedRun>(
+    `UPDATE run_queue SET cancel_requested = TRUE, updated_at = NOW()
+    WHERE id = $1 AND status = 'running'
+    RETURNING *`,
+    [id]
+  );
+}
+
+/**
+ * Record that a server instance is still running its claimed runs.
+ *
+ * @param ids - Queue entry IDs
+ * @param ownerId - Server instance running them
+ * @returns Entries still running, with any cancel requests
+ */
+export async function heartbeatQueuedRuns(ids: string[], ownerId: string): Promise<QueuedRun[]> {
+  await ensureRunQueueSchema();
+
+  return query<QueuedRun>(
+    `UPDATE run_queue SET heartbeat_at = NOW()
+    WHERE id = ANY($1::uuid[]) AND owner_id = $2 AND status = 'running'
+    RETURNING *`,
+    [ids, ownerId]
+  );
+}
+
+/**
+ * Fail running entries owned by other server instances that have not
+ * sent a heartbeat within the timeout.
+ *
+ * @param ownerId - Instance whose own entries are left alone
+ * @param timeoutMs - Heartbeat age after which an entry is stale
+ * @param error - Error recorded on the failed entries
+ * @returns Failed entries
+ */
+export async function failStaleQueuedRuns(
+  ownerId: string,
+  timeoutMs: number,
+  error: string
+): Promise<QueuedRun[]> {
+  await ensureRunQueueSchema();
+
+  return query<QueuedRun>(
+    `UPDATE run_queue
+    SET status = 'failed', error = $3, completed_at = NOW(), updated_at = NOW()
+    WHERE status = 'running'
+      AND owner_id IS DISTINCT FROM $1
+      AND (heartbeat_at IS NULL OR heartbeat_at < NOW() - make_interval(secs => $2))
+    RETURNING *`,
+    [ownerId, timeoutMs / 1000, error]
+  );
+}
+
+/**
+ * Update a queued run. With `fromStatus`, the update only applies while
+ * the run is in one of those statuses.
+ *
+ * @param id - Queue entry ID
+ * @param updates - Fields to update
+ * @param fromStatus - Statuses the run must be in (optional)
+ * @returns Updated run, or null if not found or in another status
+ */
+export async function updateQueuedRun(
+  id: string,
+  updates: Partial<Pick<QueuedRun, 'status' | 'priority' | 'run_id' | 'trace_id' | 'error' | 'completed_at'>>,
+  fromStatus?: RunQueueStatus[]
+): Promise<QueuedRun | null> {
+  await ensureRunQueueSchema();
+
+  const fields: string[] = [];
+  const params: unknown[] = [];
+  let paramIndex = 1;
+
+  if (updates.status !== undefined) {
+    fields.push(`status = $${paramIndex++}`);
+    params.push(updates.status);
+  }
+  if (updates.priority !== undefined) {
+    fields.push(`priority = $${paramIndex++}`);
+    params.push(updates.priority);
+  }
+  if (updates.run_id !== undefined) {
+    fields.push(`run_id = $${paramIndex++}`);
+    params.push(updates.run_id);
+  }
+  if (updates.trace_id !== undefined) {
+    fields.push(`trace_id = $${paramIndex++}`);
+    params.push(updates.trace_id);
+  }
+  if (updates.error !== undefined) {
+    fields.push(`error = $${paramIndex++}`);
+    params.push(updates.error);
+  }
+  if (updates.completed_at !== undefined) {
+    fields.push(`completed_at = $${paramIndex++}`);
+    params.push(updates.completed_at);
+  }
+
+  if (fields.length === 0) return getQueuedRunById(id);
+
+  fields.push('updated_at = NOW()');
+  params.push(id);
+
+  let statement = `UPDATE run_queue SET ${fields.join(', ')} WHERE id = $${paramIndex++}`;
+  if (fromStatus) {
+    statement += ` AND status = ANY($${paramIndex})`;
+    params.push(fromStatus);
+  }
+
+  const result = await query<QueuedRun>(`${statement} RETURNING *`, params);
+  return result[0] ?? null;
+}
+
+// ============================================================================
+// Export Operations
+// ============================================================================
+
+/**
+ * Fetch exports from the database with optional filters.
+ *
+ * @param options - Optional filters
+ * @returns Array of exports
+ */
+export async function getExports(options?: {
+  export_type?: Export['export_type'];
+  status?: Export['status'];
+  requested_by?: string;
+  limit?: number;
+  offset?: number;
+}): Promise<Export[]> {
+  let queryText = 'SELECT * FROM exports';
+  const params: unknown[] = [];
+  const conditions: string[] = [];
+
+  if (options?.export_type) {
+    conditions.push(`export_type = $${params.length + 1}`);
+    params.push(options.export_type);
+  }
+
+  if (options?.status) {
+    conditions.push(`status = $${params.length + 1}`);
+    params.push(options.status);
+  }
+
+  if (options?.requested_by) {
+    conditions.push(`requested_by = $${params.length + 1}`);
+    params.push(options.requested_by);
+  }
+
+  if (conditions.length > 0) {
+    queryText += ' WHERE ' + conditions.join(' AND ');
+  }
+
+  queryText += ' ORDER BY created_at DESC';
+
+  if (options?.limit) {
+    queryText += ` LIMIT $${params.length + 1}`;
+    params.push(options.limit);
+  }
+
+  if (options?.offset) {
+    queryText += ` OFFSET $${params.length + 1}`;
+    params.push(options.offset);
+  }
+
+  return query<Export>(queryText, params);
+}
+
+/**
+ * Fetch a single export by ID.
+ *
+ * @param id - Export ID
+ * @returns Export or null if not found
+ */
+export async function getExportById(id: string): Promise<Export | null> {
+  return queryOne<Export>(
+    'SELECT * FROM exports WHERE id = $1',
+    [id]
+  );
+}
+
+/**
+ * Create a new export request.
+ *
+ * @param exportData - Export data
+ * @returns Created export
+ */
+export async function createExport(
+  exportData: Omit<Export, 'id' | 'file_url' | 'file_size_bytes' | 'record_count' | 'error' | 'started_at' | 'completed_at' | 'created_at'>
+): Promise<Export> {
+  const result = await query<Export>(
+    `INSERT INTO exports (name, description, export_type, format, filters, status, requested_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [
+      exportData.name,
+      exportData.description,
+      exportData.export_type,
+      exportData.format,
+      JSON.stringify(exportData.filters),
+      exportData.status,
+      exportData.requested_by
+    ]
+  );
+  return result[0];
+}
+
+/**
+ * Update an existing export (typically to update status or add file info).
+ *
+ * @param id - Export ID
+ * @param updates - Fields to update
+ * @returns Updated export or null
+ */
+export async function updateExport(
+  id: string,
+  updates: Partial<Pick<Export, 'status' | 'file_url' | 'file_size_bytes' | 'record_count' | 'error' | 'started_at' | 'completed_at'>>
+): Promise<Export | null> {
+  const fields: string[] = [];
+  const params: unknown[] = [];
+  let paramIndex = 1;
+
+  if (updates.status !== undefined) {
+    fields.push(`status = $${paramIndex++}`);
+    params.push(updates.status);
+  }
+  if (updates.file_url !== undefined) {
+    fields.push(`file_url = $${paramIndex++}`);
+    params.push(updates.file_url);
+  }
+  if (updates.file_size_bytes !== undefined) {
+    fields.push(`file_size_bytes = $${paramIndex++}`);
+    params.push(updates.file_size_bytes);
+  }
+  if (updates.record_count !== undefined) {
+    fields.push(`record_count = $${paramIndex++}`);
+    params.push(updates.record_count);
+  }
+  if (updates.error !== undefined) {
+    fields.push(`error = $${paramIndex++}`);
+    params.push(updates.error);
+  }
+  if (updates.started_at !== undefined) {
+    fields.push(`started_at = $${paramIndex++}`);
     params.push(updates.started_at);
   }
-  if (updates.completed_at !== undefined) {
-    fields.push(`completed_at = $${paramIndex++}`);
-    params.push(updates.completed_at);
+  if (updates.completed_at !== undefined) {
+    fields.push(`completed_at = $${paramIndex++}`);
+    params.push(updates.completed_at);
+  }
+
+  if (fields.length === 0) return getExportById(id);
+
+  params.push(id);
+
+  const result = await query<Export>(
+    `UPDATE exports SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+    params
+  );
+  return result[0] ?? null;
+}
+
+// ============================================================================
+// Metric Rollup Operations
+// ============================================================================
+
+const METRIC_ROLLUP_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS metric_rollups (
+    granularity TEXT NOT NULL,
+    bucket_start TIMESTAMPTZ NOT NULL,
+    dimension TEXT NOT NULL,
+    dimension_value TEXT NOT NULL,
+    total_count INTEGER NOT NULL DEFAULT 0,
+    success_count INTEGER NOT NULL DEFAULT 0,
+    failure_count INTEGER NOT NULL DEFAULT 0,
+    cancelled_count INTEGER NOT NULL DEFAULT 0,
+    duration_count INTEGER NOT NULL DEFAULT 0,
+    duration_sum_ms BIGINT NOT NULL DEFAULT 0,
+    duration_histogram INTEGER[] NOT NULL DEFAULT '{}',
+    tokens_used BIGINT NOT NULL DEFAULT 0,
+    cost DOUBLE PRECISION NOT NULL DEFAULT 0,
+    last_seen_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (granularity, bucket_start, dimension, dimension_value)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_metric_rollups_dimension
+    ON metric_rollups (granularity, dimension, bucket_start)`,
+  `CREATE TABLE IF NOT EXISTS metric_rollup_sources (
+    source_id TEXT PRIMARY KEY,
+    rolled_up_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `ALTER TABLE metric_rollups ADD COLUMN IF NOT EXISTS duration_max_ms BIGINT`,
+];
+
+/**
+ * Create the metric rollup tables if they do not exist.
+ */
+export async function ensureMetricRollupSchema(): Promise<void> {
+  await ensureSchema('metric-rollups', METRIC_ROLLUP_SCHEMA);
+}
+
+/**
+ * Mark a trace or span as rolled up.
+ * Used to make rollup increments idempotent across repeated events.
+ *
+ * @param sourceId - Unique source key (e.g. "trace:tr-123")
+ * @returns True if the source was not rolled up before
+ */
+export async function claimRollupSource(sourceId: string): Promise<boolean> {
+  await ensureMetricRollupSchema();
+
+  const result = await query<{ source_id: string }>(
+    `INSERT INTO metric_rollup_sources (source_id)
+    VALUES ($1)
+    ON CONFLICT (source_id) DO NOTHING
+    RETURNING source_id`,
+    [sourceId]
+  );
+  return result.length > 0;
+}
+
+/**
+ * Add a delta to a rollup row, creating it if needed.
+ * Counters and histogram slots are summed with the existing row.
+ *
+ * @param delta - Rollup key and the amounts to add
+ */
+export async function incrementMetricRollup(
+  delta: Omit<MetricRollup, 'updated_at'>
+): Promise<void> {
+  await ensureMetricRollupSchema();
+
+  await query(
+    `INSERT INTO metric_rollups (
+      granularity, bucket_start, dimension, dimension_value,
+      total_count, success_count, failure_count, cancelled_count,
+      duration_count, duration_sum_ms, duration_max_ms, duration_histogram,
+      tokens_used, cost, last_seen_at
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+    ON CONFLICT (granularity, bucket_start, dimension, dimension_value) DO UPDATE SET
+      total_count = metric_rollups.total_count + EXCLUDED.total_count,
+      success_count = metric_rollups.success_count + EXCLUDED.success_count,
+      failure_count = metric_rollups.failure_count + EXCLUDED.failure_count,
+      cancelled_count = metric_rollups.cancelled_count + EXCLUDED.cancelled_count,
+      duration_count = metric_rollups.duration_count + EXCLUDED.duration_count,
+      duration_sum_ms = metric_rollups.duration_sum_ms + EXCLUDED.duration_sum_ms,
+      duration_max_ms = GREATEST(metric_rollups.duration_max_ms, EXCLUDED.duration_max_ms),
+      duration_histogram = ARRAY(
+        SELECT COALESCE(current_slot, 0) + COALESCE(added_slot, 0)
+        FROM unnest(metric_rollups.duration_histogram, EXCLUDED.duration_histogram)
+          WITH ORDINALITY AS slots(current_slot, added_slot, position)
+        ORDER BY position
+      ),
+      tokens_used = metric_rollups.tokens_used + EXCLUDED.tokens_used,
+      cost = metric_rollups.cost + EXCLUDED.cost,
+      last_seen_at = GREATEST(metric_rollups.last_seen_at, EXCLUDED.last_seen_at),
+      updated_at = NOW()`,
+    [
+      delta.granularity,
+      delta.bucket_start,
+      delta.dimension,
+      delta.dimension_value,
+      delta.total_count,
+      delta.success_count,
+      delta.failure_count,
+      delta.cancelled_count,
+      delta.duration_count,
+      delta.duration_sum_ms,
+      delta.duration_max_ms,
+      delta.duration_histogram,
+      delta.tokens_used,
+      delta.cost,
+      delta.last_seen_at,
+    ]
+  );
+}
+
+/**
+ * Fetch rollup rows with optional filters, oldest bucket first.
+ *
+ * @param options - Granularity plus optional dimension and bucket range
+ * @returns Array of rollup rows
+ */
+export async function getMetricRollups(options: {
+  granularity: RollupGranularity;
+  dimension?: RollupDimension;
+  dimension_value?: string;
+  date_from?: Date;
+  date_to?: Date;
+}): Promise<MetricRollup[]> {
+  await ensureMetricRollupSchema();
+
+  // BIGINT columns are cast so they are returned as numbers
+  let queryText = `SELECT
+    granularity, bucket_start, dimension, dimension_value,
+    total_count, success_count, failure_count, cancelled_count,
+    duration_count, duration_sum_ms::DOUBLE PRECISION AS duration_sum_ms,
+    duration_max_ms::DOUBLE PRECISION AS duration_max_ms, duration_histogram, tokens_used::DOUBLE PRECISION AS tokens_used,
+    cost, last_seen_at, updated_at
+  FROM metric_rollups`;
+  const params: unknown[] = [options.granularity];
+  const conditions: string[] = ['granularity = $1'];
+
+  if (options.dimension) {
+    conditions.push(`dimension = $${params.length + 1}`);
+    params.push(options.dimension);
+  }
+
+  if (options.dimension_value) {
+    conditions.push(`dimension_value = $${params.length + 1}`);
+    params.push(options.dimension_value);
+  }
+
+  if (options.date_from) {
+    conditions.push(`bucket_start >= $${params.length + 1}`);
+    params.push(options.date_from);
+  }
+
+  if (options.date_to) {
+    conditions.push(`bucket_start <= $${params.length + 1}`);
+    params.push(options.date_to);
+  }
+
+  queryText += ' WHERE ' + conditions.join(' AND ');
+  queryText += ' ORDER BY bucket_start ASC';
+
+  return query<MetricRollup>(queryText, params);
+}
+
+/**
+ * Replace every rollup row and rolled-up source marker in one
+ * transaction, so readers see the old rollups until the new ones are in.
+ * Used by a full rebuild.
+ *
+ * @param rows - Complete set of rollup rows
+ * @param sourceIds - Sources the rows were built from
+ */
+export async function replaceMetricRollups(
+  rows: Array<Omit<MetricRollup, 'updated_at'>>,
+  sourceIds: string[]
+): Promise<void> {
+  await ensureMetricRollupSchema();
+
+  const batchSize = 500;
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM metric_rollups');
+    await client.query('DELETE FROM metric_rollup_sources');
+
+    for (let i = 0; i < rows.length; i += batchSize) {
+      await client.query(
+        `INSERT INTO metric_rollups (
+          granularity, bucket_start, dimension, dimension_value,
+          total_count, success_count, failure_count, cancelled_count,
+          duration_count, duration_sum_ms, duration_max_ms, duration_histogram,
+          tokens_used, cost, last_seen_at
+        )
+        SELECT
+          granularity, bucket_start, dimension, dimension_value,
+          total_count, success_count, failure_count, cancelled_count,
+          duration_count, duration_sum_ms, duration_max_ms, duration_histogram,
+          tokens_used, cost, last_seen_at
+        FROM jsonb_populate_recordset(NULL::metric_rollups, $1::jsonb)`,
+        [JSON.stringify(rows.slice(i, i + batchSize))]
+      );
+    }
+
+    for (let i = 0; i < sourceIds.length; i += batchSize) {
+      await client.query(
+        'INSERT INTO metric_rollup_sources (source_id) SELECT unnest($1::text[])',
+        [sourceIds.slice(i, i + batchSize)]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================================================
+// Budget Operations
+// ============================================================================
+
+const BUDGET_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS budgets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    scope_type TEXT NOT NULL,
+    scope_value TEXT NOT NULL,
+    period TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    limit_value DOUBLE PRECISION NOT NULL,
+    warn_threshold DOUBLE PRECISION NOT NULL DEFAULT 0.8,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_budgets_scope ON budgets (scope_type, scope_value)`,
+  `CREATE TABLE IF NOT EXISTS budget_alerts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    budget_id UUID NOT NULL REFERENCES budgets(id) ON DELETE CASCADE,
+    level TEXT NOT NULL,
+    period_start TIMESTAMPTZ NOT NULL,
+    usage DOUBLE PRECISION NOT NULL,
+    limit_value DOUBLE PRECISION NOT NULL,
+    message TEXT NOT NULL,
+    trace_id TEXT,
+    acknowledged_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (budget_id, period_start, level)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_budget_alerts_created ON budget_alerts (created_at DESC)`,
+];
+
+/**
+ * Create the budget tables if they do not exist.
+ */
+export async function ensureBudgetSchema(): Promise<void> {
+  await ensureSchema('budgets', BUDGET_SCHEMA);
+}
+
+/**
+ * Fetch budgets with optional filters.
+ *
+ * @param options - Optional filters
+ * @returns Array of budgets
+ */
+export async function getBudgets(options?: {
+  scope_type?: BudgetScope;
+  scope_value?: string;
+  enabled?: boolean;
+}): Promise<Budget[]> {
+  await ensureBudgetSchema();
+
+  let queryText = 'SELECT * FROM budgets';
+  const params: unknown[] = [];
+  const conditions: string[] = [];
+
+  if (options?.scope_type) {
+    conditions.push(`scope_type = $${params.length + 1}`);
+    params.push(options.scope_type);
+  }
+
+  if (options?.scope_value) {
+    conditions.push(`scope_value = $${params.length + 1}`);
+    params.push(options.scope_value);
+  }
+
+  if (options?.enabled !== undefined) {
+    conditions.push(`enabled = $${params.length + 1}`);
+    params.push(options.enabled);
+  }
+
+  if (conditions.length > 0) {
+    queryText += ' WHERE ' + conditions.join(' AND ');
+  }
+
+  queryText += ' ORDER BY name ASC';
+
+  return query<Budget>(queryText, params);
+}
+
+/**
+ * Fetch a single budget by ID.
+ *
+ * @param id - Budget ID
+ * @returns Budget or null if not found
+ */
+export async function getBudgetById(id: string): Promise<Budget | null> {
+  await ensureBudgetSchema();
+
+  return queryOne<Budget>('SELECT * FROM budgets WHERE id = $1', [id]);
+}
+
+/**
+ * Create a new budget.
+ *
+ * @param budget - Budget data
+ * @returns Created budget
+ */
+export async function createBudget(
+  budget: Omit<Budget, 'id' | 'created_at' | 'updated_at'>
+): Promise<Budget> {
+  await ensureBudgetSchema();
+
+  const result = await query<Budget>(
+    `INSERT INTO budgets (
+      name, scope_type, scope_value, period, metric, limit_value, warn_threshold, enabled
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    RETURNING *`,
+    [
+      budget.name,
+      budget.scope_type,
+      budget.scope_value,
+      budget.period,
+      budget.metric,
+      budget.limit_value,
+      budget.warn_threshold,
+      budget.enabled,
+    ]
+  );
+  return result[0];
+}
+
+/**
+ * Update an existing budget.
+ *
+ * @param id - Budget ID
+ * @param updates - Fields to update
+ * @returns Updated budget or null
+ */
+export async function updateBudget(
+  id: string,
+  updates: Partial<Omit<Budget, 'id' | 'created_at' | 'updated_at'>>
+): Promise<Budget | null> {
+  await ensureBudgetSchema();
+
+  const fields: string[] = [];
+  const params: unknown[] = [];
+  let paramIndex = 1;
+
+  if (updates.name !== undefined) {
+    fields.push(`name = $${paramIndex++}`);
+    params.push(updates.name);
+  }
+  if (updates.scope_type !== undefined) {
+    fields.push(`scope_type = $${paramIndex++}`);
+    params.push(updates.scope_type);
+  }
+  if (updates.scope_value !== undefined) {
+    fields.push(`scope_value = $${paramIndex++}`);
+    params.push(updates.scope_value);
+  }
+  if (updates.period !== undefined) {
+    fields.push(`period = $${paramIndex++}`);
+    params.push(updates.period);
+  }
+  if (updates.metric !== undefined) {
+    fields.push(`metric = $${paramIndex++}`);
+    params.push(updates.metric);
+  }
+  if (updates.limit_value !== undefined) {
+    fields.push(`limit_value = $${paramIndex++}`);
+    params.push(updates.limit_value);
+  }
+  if (updates.warn_threshold !== undefined) {
+    fields.push(`warn_threshold = $${paramIndex++}`);
+    params.push(updates.warn_threshold);
+  }
+  if (updates.enabled !== undefined) {
+    fields.push(`enabled = $${paramIndex++}`);
+    params.push(updates.enabled);
   }
 
-  if (fields.length === 0) return getExportById(id);
+  if (fields.length === 0) return getBudgetById(id);
 
+  fields.push('updated_at = NOW()');
   params.push(id);
 
-  const result = await query<Export>(
-    `UPDATE exports SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+  const result = await query<Budget>(
+    `UPDATE budgets SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+    params
+  );
+  return result[0] ?? null;
+}
+
+/**
+ * Delete a budget and its alerts.
+ *
+ * @param id - Budget ID
+ * @returns True if a budget was deleted
+ */
+export async function deleteBudget(id: string): Promise<boolean> {
+  await ensureBudgetSchema();
+
+  const result = await query<{ id: string }>('DELETE FROM budgets WHERE id = $1 RETURNING id', [id]);
+  return result.length > 0;
+}
+
+/**
+ * Record a budget alert. At most one alert per budget, period and level
+ * is kept, so repeated evaluations do not create duplicates.
+ *
+ * @param alert - Alert data
+ * @returns Created alert, or null if one already exists for the period
+ */
+export async function createBudgetAlert(
+  alert: Omit<BudgetAlert, 'id' | 'acknowledged_at' | 'created_at'>
+): Promise<BudgetAlert | null> {
+  await ensureBudgetSchema();
+
+  const result = await query<BudgetAlert>(
+    `INSERT INTO budget_alerts (
+      budget_id, level, period_start, usage, limit_value, message, trace_id
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    ON CONFLICT (budget_id, period_start, level) DO NOTHING
+    RETURNING *`,
+    [
+      alert.budget_id,
+      alert.level,
+      alert.period_start,
+      alert.usage,
+      alert.limit_value,
+      alert.message,
+      alert.trace_id,
+    ]
+  );
+  return result[0] ?? null;
+}
+
+/**
+ * Fetch budget alerts, newest first.
+ *
+ * @param options - Optional filters
+ * @returns Array of alerts
+ */
+export async function getBudgetAlerts(options?: {
+  budget_id?: string;
+  acknowledged?: boolean;
+  date_from?: Date;
+  limit?: number;
+}): Promise<BudgetAlert[]> {
+  await ensureBudgetSchema();
+
+  let queryText = 'SELECT * FROM budget_alerts';
+  const params: unknown[] = [];
+  const conditions: string[] = [];
+
+  if (options?.budget_id) {
+    conditions.push(`budget_id = $${params.length + 1}`);
+    params.push(options.budget_id);
+  }
+
+  if (options?.acknowledged !== undefined) {
+    conditions.push(options.acknowledged ? 'acknowledged_at IS NOT NULL' : 'acknowledged_at IS NULL');
+  }
+
+  if (options?.date_from) {
+    conditions.push(`created_at >= $${params.length + 1}`);
+    params.push(options.date_from);
+  }
+
+  if (conditions.length > 0) {
+    queryText += ' WHERE ' + conditions.join(' AND ');
+  }
+
+  queryText += ' ORDER BY created_at DESC';
+
+  if (options?.limit) {
+    queryText += ` LIMIT $${params.length + 1}`;
+    params.push(options.limit);
+  }
+
+  return query<BudgetAlert>(queryText, params);
+}
+
+/**
+ * Mark a budget alert as acknowledged.
+ *
+ * @param id - Alert ID
+ * @returns Updated alert or null
+ */
+export async function acknowledgeBudgetAlert(id: string): Promise<BudgetAlert | null> {
+  await ensureBudgetSchema();
+
+  return queryOne<BudgetAlert>(
+    `UPDATE budget_alerts SET acknowledged_at = COALESCE(acknowledged_at, NOW())
+    WHERE id = $1 RETURNING *`,
+    [id]
+  );
+}
+
+// ============================================================================
+// Retention Operations
+// ============================================================================
+
+const RETENTION_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS retention_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    max_age_days INTEGER NOT NULL,
+    status TEXT,
+    agent_name TEXT,
+    environment TEXT,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE TABLE IF NOT EXISTS retention_purges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    policy_id UUID REFERENCES retention_policies(id) ON DELETE SET NULL,
+    policy_name TEXT NOT NULL,
+    backend TEXT NOT NULL,
+    dry_run BOOLEAN NOT NULL,
+    matched_count INTEGER NOT NULL,
+    deleted_count INTEGER NOT NULL,
+    trace_ids JSONB NOT NULL DEFAULT '[]',
+    triggered_by TEXT NOT NULL,
+    error TEXT,
+    started_at TIMESTAMPTZ NOT NULL,
+    completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_retention_purges_completed ON retention_purges (completed_at DESC)`,
+];
+
+/**
+ * Create the retention tables if they do not exist.
+ */
+export async function ensureRetentionSchema(): Promise<void> {
+  await ensureSchema('retention', RETENTION_SCHEMA);
+}
+
+/**
+ * Fetch retention policies.
+ *
+ * @param options - Optional filters
+ * @returns Array of retention policies
+ */
+export async function getRetentionPolicies(options?: {
+  enabled?: boolean;
+}): Promise<RetentionPolicy[]> {
+  await ensureRetentionSchema();
+
+  let queryText = 'SELECT * FROM retention_policies';
+  const params: unknown[] = [];
+
+  if (options?.enabled !== undefined) {
+    queryText += ` WHERE enabled = $${params.length + 1}`;
+    params.push(options.enabled);
+  }
+
+  queryText += ' ORDER BY name ASC';
+
+  return query<RetentionPolicy>(queryText, params);
+}
+
+/**
+ * Fetch a single retention policy by ID.
+ *
+ * @param id - Policy ID
+ * @returns Retention policy or null if not found
+ */
+export async function getRetentionPolicyById(id: string): Promise<RetentionPolicy | null> {
+  await ensureRetentionSchema();
+
+  return queryOne<RetentionPolicy>('SELECT * FROM retention_policies WHERE id = $1', [id]);
+}
+
+/**
+ * Create a new retention policy.
+ *
+ * @param policy - Policy data
+ * @returns Created policy
+ */
+export async function createRetentionPolicy(
+  policy: Omit<RetentionPolicy, 'id' | 'created_at' | 'updated_at'>
+): Promise<RetentionPolicy> {
+  await ensureRetentionSchema();
+
+  const result = await query<RetentionPolicy>(
+    `INSERT INTO retention_policies (
+      name, max_age_days, status, agent_name, environment, enabled
+    )
+    VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING *`,
+    [
+      policy.name,
+      policy.max_age_days,
+      policy.status,
+      policy.agent_name,
+      policy.environment,
+      policy.enabled,
+    ]
+  );
+  return result[0];
+}
+
+/**
+ * Update an existing retention policy.
+ *
+ * @param id - Policy ID
+ * @param updates - Fields to update (null clears a filter)
+ * @returns Updated policy or null
+ */
+export async function updateRetentionPolicy(
+  id: string,
+  updates: Partial<Omit<RetentionPolicy, 'id' | 'created_at' | 'updated_at'>>
+): Promise<RetentionPolicy | null> {
+  await ensureRetentionSchema();
+
+  const fields: string[] = [];
+  const params: unknown[] = [];
+  let paramIndex = 1;
+
+  if (updates.name !== undefined) {
+    fields.push(`name = $${paramIndex++}`);
+    params.push(updates.name);
+  }
+  if (updates.max_age_days !== undefined) {
+    fields.push(`max_age_days = $${paramIndex++}`);
+    params.push(updates.max_age_days);
+  }
+  if (updates.status !== undefined) {
+    fields.push(`status = $${paramIndex++}`);
+    params.push(updates.status);
+  }
+  if (updates.agent_name !== undefined) {
+    fields.push(`agent_name = $${paramIndex++}`);
+    params.push(updates.agent_name);
+  }
+  if (updates.environment !== undefined) {
+    fields.push(`environment = $${paramIndex++}`);
+    params.push(updates.environment);
+  }
+  if (updates.enabled !== undefined) {
+    fields.push(`enabled = $${paramIndex++}`);
+    params.push(updates.enabled);
+  }
+
+  if (fields.length === 0) return getRetentionPolicyById(id);
+
+  fields.push('updated_at = NOW()');
+  params.push(id);
+
+  const result = await query<RetentionPolicy>(
+    `UPDATE retention_policies SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
     params
   );
   return result[0] ?? null;
 }
 
+/**
+ * Delete a retention policy. Its purge log entries are kept.
+ *
+ * @param id - Policy ID
+ * @returns True if a policy was deleted
+ */
+export async function deleteRetentionPolicy(id: string): Promise<boolean> {
+  await ensureRetentionSchema();
+
+  const result = await query<{ id: string }>(
+    'DELETE FROM retention_policies WHERE id = $1 RETURNING id',
+    [id]
+  );
+  return result.length > 0;
+}
+
+/**
+ * Delete the handoffs, gate results, conformance and execution state
+ * recorded for traces, in one transaction.
+ *
+ * @param traceIds - IDs of purged traces
+ * @returns Number of rows deleted
+ */
+export async function deleteTraceRecords(traceIds: string[]): Promise<number> {
+  if (traceIds.length === 0) return 0;
+
+  await Promise.all([
+    ensureHandoffSchema(),
+    ensureGateResultSchema(),
+    ensureTraceConformanceSchema(),
+    ensureTraceExecutionSchema(),
+  ]);
+
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+
+    let deleted = 0;
+    for (const table of ['handoffs', 'gate_results', 'trace_conformance', 'trace_executions']) {
+      const { rowCount } = await client.query(
+        `DELETE FROM ${table} WHERE trace_id = ANY($1::text[])`,
+        [traceIds]
+      );
+      deleted += rowCount ?? 0;
+    }
+
+    await client.query('COMMIT');
+    return deleted;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record a purge (or dry run) in the retention audit log.
+ *
+ * @param purge - Purge data
+ * @returns Created log entry
+ */
+export async function createRetentionPurge(
+  purge: Omit<RetentionPurge, 'id' | 'completed_at'>
+): Promise<RetentionPurge> {
+  await ensureRetentionSchema();
+
+  const result = await query<RetentionPurge>(
+    `INSERT INTO retention_purges (
+      policy_id, policy_name, backend, dry_run, matched_count, deleted_count,
+      trace_ids, triggered_by, error, started_at
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    RETURNING *`,
+    [
+      purge.policy_id,
+      purge.policy_name,
+      purge.backend,
+      purge.dry_run,
+      purge.matched_count,
+      purge.deleted_count,
+      JSON.stringify(purge.trace_ids),
+      purge.triggered_by,
+      purge.error,
+      purge.started_at,
+    ]
+  );
+  return result[0];
+}
+
+/**
+ * Fetch retention audit log entries, newest first.
+ *
+ * @param options - Optional filters
+ * @returns Array of purge log entries
+ */
+export async function getRetentionPurges(options?: {
+  policy_id?: string;
+  dry_run?: boolean;
+  limit?: number;
+}): Promise<RetentionPurge[]> {
+  await ensureRetentionSchema();
+
+  let queryText = 'SELECT * FROM retention_purges';
+  const params: unknown[] = [];
+  const conditions: string[] = [];
+
+  if (options?.policy_id) {
+    conditions.push(`policy_id = $${params.length + 1}`);
+    params.push(options.policy_id);
+  }
+
+  if (options?.dry_run !== undefined) {
+    conditions.push(`dry_run = $${params.length + 1}`);
+    params.push(options.dry_run);
+  }
+
+  if (conditions.length > 0) {
+    queryText += ' WHERE ' + conditions.join(' AND ');
+  }
+
+  queryText += ' ORDER BY completed_at DESC';
+
+  if (options?.limit) {
+    queryText += ` LIMIT $${params.length + 1}`;
+    params.push(options.limit);
+  }
+
+  return query<RetentionPurge>(queryText, params);
+}
+
+// ============================================================================
+// Notification Operations
+// ============================================================================
+
+/**
+ * Check that a channel name is a plain identifier (LISTEN cannot be parameterized).
+ */
+function assertChannelName(channel: string): void {
+  if (!/^[a-z_][a-z0-9_]*$/.test(channel)) {
+    throw new Error(`Invalid notification channel: ${channel}`);
+  }
+}
+
+/**
+ * Publish a payload on a Postgres NOTIFY channel.
+ * Payloads must stay under Postgres' 8000 byte limit.
+ *
+ * @param channel - Channel name
+ * @param payload - Message text
+ */
+export async function notify(channel: string, payload: string): Promise<void> {
+  assertChannelName(channel);
+  await query('SELECT pg_notify($1, $2)', [channel, payload]);
+}
+
+/**
+ * Subscribe to a Postgres NOTIFY channel on a dedicated pooled connection.
+ * If the connection fails, it is released and `onError` is called; the
+ * subscription is over and must be made again.
+ *
+ * @param channel - Channel name
+ * @param onPayload - Called with each message's payload
+ * @param onError - Called once if the connection fails (optional)
+ * @returns Function that stops listening and releases the connection
+ */
+export async function listen(
+  channel: string,
+  onPayload: (payload: string) => void,
+  onError?: (error: Error) => void
+): Promise<() => Promise<void>> {
+  assertChannelName(channel);
+
+  const client = await getClient();
+  let released = false;
+
+  client.on('notification', (message) => {
+    if (message.channel === channel && message.payload !== undefined) {
+      onPayload(message.payload);
+    }
+  });
+
+  client.on('error', (error) => {
+    if (released) return;
+    released = true;
+    // Passing the error discards the broken connection instead of pooling it
+    client.release(error);
+    onError?.(error);
+  });
+
+  try {
+    await client.query(`LISTEN ${channel}`);
+  } catch (error) {
+    if (!released) {
+      released = true;
+      client.release();
+    }
+    throw error;
+  }
+
+  return async () => {
+    if (released) return;
+    try {
+      await client.query(`UNLISTEN ${channel}`);
+    } finally {
+      released = true;
+      client.release();
+    }
+  };
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
 
+/**
+ * Build an ILIKE pattern matching text anywhere in a value, with `%`, `_`
+ * and `\` in the text matched literally.
+ *
+ * @param text - Text to search for
+ * @returns Pattern for `ILIKE $n ESCAPE '\'`
+ */
+export function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
 /**
  * Check if the database connection is healthy.
  *
@@ -0,0 +1,273 @@
+/**
+ * Trace Event Bus for BigTurbo Agent Audit System
+ *
+ * In-process publish/subscribe for ingest events, used to push trace and
+ * span changes to SSE subscribers instead of polling the trace store.
+ * Recent events are buffered so reconnecting clients can resume from
+ * their Last-Event-ID.
+ *
+ * With TRACE_EVENTS_PG_NOTIFY=true, events are also fanned out through
+ * Postgres LISTEN/NOTIFY so every app instance sees every ingest.
+ * Event IDs are assigned per instance as events are delivered.
+ */
+
+import { randomUUID } from 'crypto';
+import { listen, notify } from '@/lib/db';
+import type { SpanStatus, TraceStatus } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TraceStreamEventType = 'trace.created' | 'trace.updated' | 'span.created' | 'span.updated';
+
+/**
+ * Compact trace or span fields carried by a stream event. Kept small so
+ * events fit in a Postgres NOTIFY payload.
+ */
+export interface TraceStreamEventData {
+  name?: string;
+  agentName?: string;
+  commandName?: string;
+  workflowName?: string;
+  parentSpanId?: string;
+  operationType?: string;
+  status?: TraceStatus | SpanStatus;
+  durationMs?: number;
+  totalTokens?: number;
+  totalCost?: number;
+  error?: string;
+}
+
+export interface TraceStreamEvent {
+  /** Sequence number on this instance (the SSE event ID) */
+  id: number;
+  type: TraceStreamEventType;
+  traceId: string;
+  spanId?: string;
+  data: TraceStreamEventData;
+  timestamp: string;
+}
+
+export type TraceStreamEventInput = Omit<TraceStreamEvent, 'id' | 'timestamp'>;
+
+/**
+ * Per-subscriber filters. Span events match on the agent and command of
+ * their trace when the bus has seen the trace.
+ */
+export interface TraceStreamFilters {
+  agentName?: string;
+  commandName?: string;
+  traceId?: string;
+}
+
+type TraceStreamListener = (event: TraceStreamEvent) => void;
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const NOTIFY_CHANNEL = 'bigturbo_trace_events';
+
+/** Events kept for Last-Event-ID resume */
+const MAX_BUFFERED_EVENTS = 500;
+
+/** Traces whose agent and command are remembered for span filtering */
+const MAX_KNOWN_TRACES = 1000;
+
+/** Postgres rejects NOTIFY payloads of 8000 bytes or more */
+const MAX_NOTIFY_BYTES = 7900;
+
+/**
+ * Check if the Postgres LISTEN/NOTIFY fan-out is enabled.
+ */
+export function isPgNotifyEnabled(): boolean {
+  return process.env.TRACE_EVENTS_PG_NOTIFY === 'true';
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+interface TraceEventBusState {
+  /** Identifies this instance so it can skip its own notifications */
+  instanceId: string;
+  nextEventId: number;
+  buffer: TraceStreamEvent[];
+  listeners: Map<TraceStreamListener, TraceStreamFilters>;
+  knownTraces: Map<string, { agentName?: string; commandName?: string }>;
+  /** Pending or active LISTEN connection */
+  listenerPromise: Promise<void> | null;
+}
+
+// Kept on globalThis so route bundles (and dev reloads) share one bus
+const globalForEvents = globalThis as typeof globalThis & {
+  bigturboTraceEvents?: TraceEventBusState;
+};
+
+const state: TraceEventBusState = globalForEvents.bigturboTraceEvents ??= {
+  instanceId: randomUUID(),
+  nextEventId: 1,
+  buffer: [],
+  listeners: new Map(),
+  knownTraces: new Map(),
+  listenerPromise: null,
+};
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+/**
+ * Remember a trace's agent and command so its span events can be filtered.
+ */
+function rememberTrace(event: TraceStreamEventInput): void {
+  if (!event.type.startsWith('trace.')) return;
+
+  const known = state.knownTraces.get(event.traceId) || {};
+  state.knownTraces.delete(event.traceId);
+  state.knownTraces.set(event.traceId, {
+    agentName: event.data.agentName || known.agentName,
+    commandName: event.data.commandName || known.commandName,
+  });
+
+  if (state.knownTraces.size > MAX_KNOWN_TRACES) {
+    state.knownTraces.delete(state.knownTraces.keys().next().value as string);
+  }
+}
+
+/**
+ * Check whether an event passes a subscriber's filters.
+ */
+export function matchesStreamFilters(event: TraceStreamEvent, filters: TraceStreamFilters): boolean {
+  if (filters.traceId && event.traceId !== filters.traceId) return false;
+
+  const trace = state.knownTraces.get(event.traceId);
+
+  if (filters.agentName) {
+    const agents = [event.data.agentName, trace?.agentName];
+    if (!agents.includes(filters.agentName)) return false;
+  }
+
+  if (filters.commandName) {
+    const command = event.data.commandName || trace?.commandName;
+    if (command !== filters.commandName) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Number an event, buffer it and hand it to matching subscribers.
+ */
+function deliver(input: TraceStreamEventInput, timestamp: string): void {
+  rememberTrace(input);
+
+  const event: TraceStreamEvent = { ...input, id: state.nextEventId++, timestamp };
+  state.buffer.push(event);
+  if (state.buffer.length > MAX_BUFFERED_EVENTS) state.buffer.shift();
+
+  for (const [listener, filters] of state.listeners) {
+    if (!matchesStreamFilters(event, filters)) continue;
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Trace event listener failed:', error);
+    }
+  }
+}
+
+/**
+ * Start listening for events published by other instances. If the LISTEN
+ * connection drops, it is made again at once while anyone is subscribed,
+ * or by the next subscriber.
+ */
+function ensurePgListener(): Promise<void> {
+  if (!state.listenerPromise) {
+    // Only this attempt's own failure may clear it, not a newer attempt's
+    const attempt: Promise<void> = listen(NOTIFY_CHANNEL, (payload) => {
+      try {
+        const message = JSON.parse(payload) as {
+          origin: string;
+          event: TraceStreamEventInput;
+          timestamp: string;
+        };
+        if (message.origin !== state.instanceId) deliver(message.event, message.timestamp);
+      } catch (error) {
+        console.error('Invalid trace event notification:', error);
+      }
+    }, (error) => {
+      console.error('Lost the trace event listener connection:', error);
+      if (state.listenerPromise !== attempt) return;
+      state.listenerPromise = null;
+      if (state.listeners.size > 0) void ensurePgListener();
+    })
+      .then(() => undefined)
+      .catch((error) => {
+        console.error('Failed to listen for trace events:', error);
+        if (state.listenerPromise === attempt) state.listenerPromise = null;
+      });
+    state.listenerPromise = attempt;
+  }
+
+  return state.listenerPromise;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Publish an ingest event to local subscribers and, when enabled, to
+ * other instances through Postgres NOTIFY.
+ */
+export async function publishTraceEvent(input: TraceStreamEventInput): Promise<void> {
+  const timestamp = new Date().toISOString();
+  deliver(input, timestamp);
+
+  if (!isPgNotifyEnabled()) return;
+
+  const payload = JSON.stringify({ origin: state.instanceId, event: input, timestamp });
+  if (Buffer.byteLength(payload) > MAX_NOTIFY_BYTES) {
+    console.warn(`Trace event for ${input.traceId} too large to NOTIFY; delivered locally only`);
+    return;
+  }
+
+  await notify(NOTIFY_CHANNEL, payload);
+}
+
+/**
+ * Subscribe to trace events matching the filters.
+ *
+ * @returns Function that removes the subscription
+ */
+export function subscribeTraceEvents(
+  listener: TraceStreamListener,
+  filters: TraceStreamFilters = {}
+): () => void {
+  if (isPgNotifyEnabled()) void ensurePgListener();
+
+  state.listeners.set(listener, filters);
+  return () => {
+    state.listeners.delete(listener);
+  };
+}
+
+/**
+ * Get buffered events after `lastEventId` that match the filters.
+ *
+ * @returns Missed events, or null if some were already dropped from the
+ *   buffer (the client should reload instead of resuming)
+ */
+export function getTraceEventsSince(
+  lastEventId: number,
+  filters: TraceStreamFilters = {}
+): TraceStreamEvent[] | null {
+  // IDs ahead of this instance come from a restarted or different instance
+  if (lastEventId >= state.nextEventId) return null;
+
+  const oldest = state.buffer[0]?.id ?? state.nextEventId;
+  if (lastEventId < oldest - 1) return null;
+
+  return state.buffer.filter((event) => event.id > lastEventId && matchesStreamFilters(event, filters));
+}
@@ -0,0 +1,144 @@
+/**
+ * Trace Filter Evaluation for BigTurbo Agent Audit System
+ *
+ * In-memory implementation of TraceFilters for backends (or filter fields)
+ * that cannot be evaluated server-side.
+ */
+
+import type { LangfuseTrace, TraceFilters, TraceStatus } from './types';
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Normalize the status filter to a list.
+ */
+export function getStatusFilter(filters: TraceFilters): TraceStatus[] {
+  if (!filters.status) return [];
+  return Array.isArray(filters.status) ? filters.status : [filters.status];
+}
+
+/**
+ * Normalize a workflow or command name filter to a list.
+ */
+export function getNameFilter(value: string | string[] | undefined): string[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Check whether a trace satisfies every field of a filter set.
+ * Pagination and sorting fields are ignored.
+ */
+export function matchesTraceFilters(trace: LangfuseTrace, filters: TraceFilters): boolean {
+  if (filters.agentName && trace.agentName !== filters.agentName) {
+    return false;
+  }
+
+  const workflowNames = getNameFilter(filters.workflowName);
+  if (workflowNames.length > 0 && !workflowNames.includes(trace.workflowName ?? '')) {
+    return false;
+  }
+
+  const commandNames = getNameFilter(filters.commandName);
+  if (commandNames.length > 0 && !commandNames.includes(trace.commandName ?? '')) {
+    return false;
+  }
+
+  const statuses = getStatusFilter(filters);
+  if (statuses.length > 0 && !statuses.includes(trace.status)) {
+    return false;
+  }
+
+  const startedAt = new Date(trace.startedAt).getTime();
+
+  if (filters.startDate && startedAt < new Date(filters.startDate).getTime()) {
+    return false;
+  }
+
+  if (filters.endDate && startedAt > new Date(filters.endDate).getTime()) {
+    return false;
+  }
+
+  if (filters.tags && filters.tags.length > 0) {
+    const traceTags = trace.metadata.tags || [];
+    if (!filters.tags.every((tag) => traceTags.includes(tag))) {
+      return false;
+    }
+  }
+
+  if (filters.search && !trace.name.toLowerCase().includes(filters.search.toLowerCase())) {
+    return false;
+  }
+
+  if (filters.minConformance !== undefined || filters.maxConformance !== undefined) {
+    const score = trace.metadata.conformanceScore;
+    if (typeof score !== 'number') return false;
+    if (filters.minConformance !== undefined && score < filters.minConformance) return false;
+    if (filters.maxConformance !== undefined && score > filters.maxConformance) return false;
+  }
+
+  return true;
+}
+
+// ============================================================================
+// Sorting and Pagination
+// ============================================================================
+
+/**
+ * Sort traces by the filter's sort field (default: newest first).
+ * Traces missing the sort value always sort last.
+ */
+export function sortTraces(traces: LangfuseTrace[], filters: TraceFilters): LangfuseTrace[] {
+  const sortBy = filters.sortBy || 'startedAt';
+  const direction = filters.sortOrder === 'asc' ? 1 : -1;
+
+  const valueOf = (trace: LangfuseTrace): number | string | undefined => {
+    switch (sortBy) {
+      case 'durationMs':
+        return trace.durationMs;
+      case 'totalTokens':
+        return trace.totalTokens;
+      case 'name':
+        return trace.name.toLowerCase();
+      case 'startedAt':
+      default:
+        return new Date(trace.startedAt).getTime();
+    }
+  };
+
+  return [...traces].sort((a, b) => {
+    const valueA = valueOf(a);
+    const valueB = valueOf(b);
+
+    if (valueA === undefined && valueB === undefined) return 0;
+    if (valueA === undefined) return 1;
+    if (valueB === undefined) return -1;
+    if (valueA < valueB) return -direction;
+    if (valueA > valueB) return direction;
+    return 0;
+  });
+}
+
+/**
+ * Apply filters, sorting and offset/limit pagination to an in-memory trace list.
+ *
+ * @returns The requested page plus the size of the full filtered set
+ */
+export function applyTraceFilters(
+  traces: LangfuseTrace[],
+  filters: TraceFilters
+): { traces: LangfuseTrace[]; count: number } {
+  const filtered = sortTraces(
+    traces.filter((trace) => matchesTraceFilters(trace, filters)),
+    filters
+  );
+  const offset = filters.offset || 0;
+  const limit = filters.limit || 50;
+
+  return {
+    traces: filtered.slice(offset, offset + limit),
+    count: filtered.length,
+  };
+}
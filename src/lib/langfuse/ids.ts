@@ -0,0 +1,26 @@
+/**
+ * ID Generation for BigTurbo Agent Audit System
+ *
+ * Shared by every trace store so IDs look the same regardless of backend.
+ */
+
+/**
+ * Generate a unique trace/span ID.
+ */
+export function generateId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Generate a trace ID with prefix.
+ */
+export function generateTraceId(): string {
+  return `tr-${generateId()}`;
+}
+
+/**
+ * Generate a span ID with prefix.
+ */
+export function generateSpanId(): string {
+  return `sp-${generateId()}`;
+}
@@ -7,6 +7,9 @@
 // Client functions
 export {
   isLangfuseConfigured,
+  getTraceStore,
+  getTraceStoreBackend,
+  setTraceStore,
   generateId,
   generateTraceId,
   generateSpanId,
@@ -15,13 +18,14 @@ export {
   getTraceById,
   getTraceByDbId,
   listTraces,
+  scanTraces,
   createSpan,
   updateSpan,
   getSpanById,
   getSpansByTraceId,
   recordDecision,
-  getTraceStats,
   deleteOldTraces,
+  deleteTraces,
 } from './client';
 
 // Ingestion functions
@@ -31,11 +35,35 @@ export {
   startTrace,
   completeTrace,
   failTrace,
+  cancelTrace,
   addSpan,
   completeSpan,
   failSpan,
 } from './ingest';
 
+// Pricing functions
+export {
+  getPriceTable,
+  findModelPrice,
+  calculateCost,
+} from './pricing';
+
+// Event bus
+export {
+  publishTraceEvent,
+  subscribeTraceEvents,
+  getTraceEventsSince,
+  isPgNotifyEnabled,
+} from './events';
+export type {
+  TraceStreamEvent,
+  TraceStreamEventType,
+  TraceStreamFilters,
+} from './events';
+
+// Trace store contract
+export type { TraceStore, TraceStoreBackend } from './store';
+
 // Types
 export type {
   TraceStatus,
@@ -47,6 +75,8 @@ export type {
   Decision,
   TokenUsage,
   TraceMetadata,
+  ModelPrice,
+  PriceTable,
   CreateTracePayload,
   CreateSpanPayload,
   UpdateTracePayload,
@@ -55,7 +85,9 @@ export type {
   IngestEvent,
   TracesListResponse,
   TraceDetailResponse,
+  SpanDetailResponse,
   IngestResponse,
   BatchIngestResponse,
   TraceFilters,
+  TraceDeleteResult,
 } from './types';
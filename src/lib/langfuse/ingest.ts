@@ -9,7 +9,18 @@ import {
   updateTrace,
   createSpan,
   updateSpan,
+  getTraceById,
+  getSpanById,
 } from './client';
+import { calculateCost } from './pricing';
+import { publishTraceEvent, type TraceStreamEventInput } from './events';
+import { recordEventRollups, recordSpanRollups } from '@/lib/audit/rollups';
+import { checkBudgets, type BudgetSubject } from '@/lib/audit/budgets';
+import { EXECUTION_OPERATION_TYPES, refreshExecutionState } from '@/lib/audit/execution';
+import { formatGateFailure, getFailedBlockingGates, recordGateResults } from '@/lib/audit/gates';
+import { recordConformance } from '@/lib/audit/conformance';
+import { recordHandoff } from '@/lib/audit/handoffs';
+import { extractLaunchId, getLaunch, recordLaunchTrace } from '@/lib/audit/launches';
 import type {
   IngestEvent,
   BatchIngestPayload,
@@ -19,6 +30,8 @@ import type {
   CreateSpanPayload,
   UpdateTracePayload,
   UpdateSpanPayload,
+  LangfuseSpan,
+  LangfuseTrace,
 } from './types';
 
 // ============================================================================
@@ -120,7 +133,7 @@ function validateUpdateSpan(payload: UpdateSpanPayload): string[] {
     errors.push('spanId is required and must be a string');
   }
 
-  const validStatuses = ['pending', 'running', 'completed', 'failed'];
+  const validStatuses = ['pending', 'running', 'completed', 'failed', 'cancelled'];
   if (payload.status && !validStatuses.includes(payload.status)) {
     errors.push(`status must be one of: ${validStatuses.join(', ')}`);
   }
@@ -128,6 +141,270 @@ function validateUpdateSpan(payload: UpdateSpanPayload): string[] {
   return errors;
 }
 
+// ============================================================================
+// Cost Calculation
+// ============================================================================
+
+/**
+ * Fill in span cost from token usage when the event does not carry one.
+ * The model comes from the event, then the span's metadata, then the
+ * price table's default.
+ */
+async function withSpanCost(payload: UpdateSpanPayload): Promise<UpdateSpanPayload> {
+  if (payload.cost !== undefined || !payload.tokens) return payload;
+
+  let model = payload.model;
+  if (!model) {
+    const span = await getSpanById(payload.spanId);
+    model = typeof span?.metadata?.model === 'string' ? span.metadata.model : undefined;
+  }
+
+  const cost = await calculateCost(payload.tokens, model);
+  return cost === undefined ? payload : { ...payload, cost };
+}
+
+/**
+ * Fill in trace cost when the event does not carry one: priced from the
+ * event's token breakdown if present, otherwise summed from span costs
+ * once the trace finishes.
+ *
+ * @param stored - The trace as stored, when already loaded for a finishing run
+ */
+async function withTraceCost(
+  payload: UpdateTracePayload,
+  stored: LangfuseTrace | null
+): Promise<UpdateTracePayload> {
+  if (payload.totalCost !== undefined) return payload;
+
+  if (payload.tokens) {
+    const model = payload.metadata?.model
+      ?? (stored ?? await getTraceById(payload.traceId))?.metadata.model;
+    const totalCost = await calculateCost(payload.tokens, model);
+
+    return {
+      ...payload,
+      totalTokens: payload.totalTokens ?? payload.tokens.total,
+      totalCost,
+    };
+  }
+
+  if (stored) {
+    const costs = stored.spans
+      .map((span) => span.cost)
+      .filter((cost): cost is number => typeof cost === 'number');
+
+    if (costs.length > 0) {
+      return { ...payload, totalCost: costs.reduce((a, b) => a + b, 0) };
+    }
+  }
+
+  return payload;
+}
+
+// ============================================================================
+// Rollups
+// ============================================================================
+
+/**
+ * Update metric rollups for a processed event.
+ * Rollup failures are logged and never fail ingestion.
+ */
+async function updateRollups(event: IngestEvent): Promise<void> {
+  try {
+    await recordEventRollups(event);
+  } catch (error) {
+    console.error('Error updating metric rollups:', error);
+  }
+}
+
+/**
+ * Update metric rollups for a span as stored after an event.
+ * Rollup failures are logged and never fail ingestion.
+ */
+async function updateSpanRollups(span: LangfuseSpan): Promise<void> {
+  try {
+    await recordSpanRollups(span);
+  } catch (error) {
+    console.error('Error updating metric rollups:', error);
+  }
+}
+
+// ============================================================================
+// Execution State
+// ============================================================================
+
+/**
+ * Re-derive the orchestration progress of a trace after an event.
+ * Failures are logged and never fail ingestion.
+ */
+async function updateExecution(traceId: string, loaded?: LangfuseTrace): Promise<void> {
+  try {
+    await refreshExecutionState(traceId, loaded);
+  } catch (error) {
+    console.error('Error updating execution state:', error);
+  }
+}
+
+// ============================================================================
+// Gates
+// ============================================================================
+
+/**
+ * Evaluate and record the gates of a run that is finishing. A completed
+ * run whose evidence for a blocking gate failed is marked failed instead;
+ * evidence that is only missing is reported but keeps the sent status.
+ * Gate failures are logged and never fail ingestion.
+ */
+async function withGateOutcome(
+  payload: UpdateTracePayload,
+  stored: LangfuseTrace | null
+): Promise<UpdateTracePayload> {
+  if (!stored || !payload.status || payload.status === 'running') return payload;
+
+  try {
+    const report = await recordGateResults(stored, payload.status);
+    if (payload.status === 'completed' && report && getFailedBlockingGates(report).length > 0) {
+      return { ...payload, status: 'failed', error: payload.error || formatGateFailure(report) };
+    }
+  } catch (error) {
+    console.error('Error evaluating gates:', error);
+  }
+
+  return payload;
+}
+
+// ============================================================================
+// Conformance
+// ============================================================================
+
+/**
+ * Check a finishing run against its workflow's agent sequence and keep
+ * the score in the trace's metadata.
+ * Conformance failures are logged and never fail ingestion.
+ */
+async function withConformance(
+  payload: UpdateTracePayload,
+  stored: LangfuseTrace | null
+): Promise<UpdateTracePayload> {
+  if (!stored || !payload.status || payload.status === 'running') return payload;
+
+  try {
+    const report = await recordConformance(stored);
+    if (report) {
+      return { ...payload, metadata: { ...payload.metadata, conformanceScore: report.score } };
+    }
+  } catch (error) {
+    console.error('Error checking conformance:', error);
+  }
+
+  return payload;
+}
+
+// ============================================================================
+// Handoffs
+// ============================================================================
+
+/**
+ * Parse and record the handoff of a handoff span after an event.
+ * Failures are logged and never fail ingestion.
+ */
+async function updateHandoff(traceId: string, spanId: string): Promise<void> {
+  try {
+    await recordHandoff(traceId, spanId);
+  } catch (error) {
+    console.error('Error recording handoff:', error);
+  }
+}
+
+// ============================================================================
+// Launches
+// ============================================================================
+
+/**
+ * Echo the launch ID of a trace started from a generated launch prompt in
+ * its metadata, when the trace only carries it in its input.
+ */
+function withLaunchId(payload: CreateTracePayload): CreateTracePayload {
+  if (payload.metadata?.launchId) return payload;
+
+  const launchId = extractLaunchId(payload.input);
+  return launchId ? { ...payload, metadata: { ...payload.metadata, launchId } } : payload;
+}
+
+/**
+ * Link a trace started from a replay launch to the trace it replays.
+ * Lookup failures are logged and never fail ingestion.
+ */
+async function withParentTrace(payload: CreateTracePayload): Promise<CreateTracePayload> {
+  const launchId = payload.metadata?.launchId;
+  if (payload.metadata?.parentTraceId || typeof launchId !== 'string') return payload;
+
+  try {
+    const launch = await getLaunch(launchId);
+    if (launch?.parentTraceId) {
+      return { ...payload, metadata: { ...payload.metadata, parentTraceId: launch.parentTraceId } };
+    }
+  } catch (error) {
+    console.error('Error looking up launch:', error);
+  }
+
+  return payload;
+}
+
+/**
+ * Link a new trace to the launch that produced it.
+ * Failures are logged and never fail ingestion.
+ */
+async function updateLaunch(traceId: string, launchId: string): Promise<void> {
+  try {
+    await recordLaunchTrace(launchId, traceId);
+  } catch (error) {
+    console.error('Error linking launch:', error);
+  }
+}
+
+// ============================================================================
+// Event Publishing
+// ============================================================================
+
+/**
+ * Publish a processed event to stream subscribers.
+ * Publish failures are logged and never fail ingestion.
+ */
+async function publishEvent(event: TraceStreamEventInput): Promise<void> {
+  try {
+    await publishTraceEvent(event);
+  } catch (error) {
+    console.error('Error publishing trace event:', error);
+  }
+}
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+/**
+ * Evaluate the budgets covering a trace and build the response flags.
+ * Budget failures are logged and never fail ingestion.
+ */
+async function getBudgetFlags(
+  subject: BudgetSubject,
+  traceId: string
+): Promise<Pick<IngestResponse, 'budgetExhausted' | 'budgetMessages'>> {
+  try {
+    const result = await checkBudgets(subject, traceId);
+    if (result.messages.length === 0) return {};
+
+    return {
+      budgetExhausted: result.exhausted,
+      budgetMessages: result.messages,
+    };
+  } catch (error) {
+    console.error('Error checking budgets:', error);
+    return {};
+  }
+}
+
 // ============================================================================
 // Single Event Ingestion
 // ============================================================================
@@ -143,8 +420,27 @@ export async function processEvent(event: IngestEvent): Promise<IngestResponse>
         if (errors.length > 0) {
           return { success: false, errors };
         }
-        const trace = await createTrace(event.payload);
-        return { success: true, traceId: trace.traceId };
+        const payload = await withParentTrace(withLaunchId(event.payload));
+        const trace = await createTrace(payload);
+        await publishEvent({
+          type: 'trace.created',
+          traceId: trace.traceId,
+          data: {
+            name: trace.name,
+            agentName: trace.agentName,
+            commandName: trace.commandName,
+            workflowName: trace.workflowName,
+            status: trace.status,
+          },
+        });
+        if (trace.commandName) {
+          await updateExecution(trace.traceId);
+        }
+        if (typeof payload.metadata?.launchId === 'string') {
+          await updateLaunch(trace.traceId, payload.metadata.launchId);
+        }
+        const budgetFlags = await getBudgetFlags(payload, trace.traceId);
+        return { success: true, traceId: trace.traceId, ...budgetFlags };
       }
 
       case 'trace.update': {
@@ -154,15 +450,46 @@ export async function processEvent(event: IngestEvent): Promise<IngestResponse>
         }
         
         // Normalize output: if it's a string, wrap in an object for consistent storage
-        const payload = { ...event.payload };
+        let payload = { ...event.payload };
         if (typeof payload.output === 'string') {
           payload.output = { response: payload.output };
         }
+
+        // A finishing trace is loaded once for the hooks that read it
+        const finishing = !!payload.status && payload.status !== 'running';
+        const stored = finishing ? await getTraceById(payload.traceId) : null;
+        payload = await withGateOutcome(payload, stored);
+        payload = await withConformance(payload, stored);
+        payload = await withTraceCost(payload, stored);
         
         const trace = await updateTrace(payload);
         if (!trace) {
           return { success: false, errors: ['Trace not found'] };
         }
+        await updateRollups({ type: 'trace.update', payload });
+        if (payload.status) {
+          await updateExecution(trace.traceId, stored ? { ...stored, status: trace.status } : undefined);
+        }
+        await publishEvent({
+          type: 'trace.updated',
+          traceId: trace.traceId,
+          data: {
+            agentName: trace.agentName || undefined,
+            commandName: trace.commandName,
+            status: payload.status,
+            durationMs: payload.durationMs,
+            totalTokens: payload.totalTokens,
+            totalCost: payload.totalCost,
+            error: payload.error,
+          },
+        });
+
+        // Re-check budgets once the finished trace's usage is rolled up
+        if (finishing) {
+          const subject = trace.agentName ? trace : stored;
+          const budgetFlags = subject ? await getBudgetFlags(subject, trace.traceId) : {};
+          return { success: true, traceId: trace.traceId, ...budgetFlags };
+        }
         return { success: true, traceId: trace.traceId };
       }
 
@@ -172,6 +499,25 @@ export async function processEvent(event: IngestEvent): Promise<IngestResponse>
           return { success: false, errors };
         }
         const span = await createSpan(event.payload);
+        await updateSpanRollups(span);
+        if (EXECUTION_OPERATION_TYPES.includes(span.operationType)) {
+          await updateExecution(event.payload.traceId);
+        }
+        if (span.operationType === 'handoff') {
+          await updateHandoff(event.payload.traceId, span.spanId);
+        }
+        await publishEvent({
+          type: 'span.created',
+          traceId: event.payload.traceId,
+          spanId: span.spanId,
+          data: {
+            name: span.name,
+            agentName: span.agentName,
+            parentSpanId: span.parentSpanId,
+            operationType: span.operationType,
+            status: span.status,
+          },
+        });
         return { success: true, spanId: span.spanId };
       }
 
@@ -180,10 +526,34 @@ export async function processEvent(event: IngestEvent): Promise<IngestResponse>
         if (errors.length > 0) {
           return { success: false, errors };
         }
-        const span = await updateSpan(event.payload);
+        const payload = await withSpanCost(event.payload);
+        const span = await updateSpan(payload);
         if (!span) {
           return { success: false, errors: ['Span not found'] };
         }
+        await updateSpanRollups(span);
+
+        const traceId = payload.traceId || span.traceId;
+        if (traceId && EXECUTION_OPERATION_TYPES.includes(span.operationType)) {
+          await updateExecution(traceId);
+        }
+        if (traceId && span.operationType === 'handoff') {
+          await updateHandoff(traceId, span.spanId);
+        }
+        if (traceId) {
+          await publishEvent({
+            type: 'span.updated',
+            traceId,
+            spanId: span.spanId,
+            data: {
+              name: span.name || undefined,
+              agentName: span.agentName || undefined,
+              operationType: span.operationType || undefined,
+              status: payload.status,
+              error: payload.error,
+            },
+          });
+        }
         return { success: true, spanId: span.spanId };
       }
 
@@ -209,6 +579,8 @@ export async function processEvent(event: IngestEvent): Promise<IngestResponse>
 export async function processBatch(payload: BatchIngestPayload): Promise<BatchIngestResponse> {
   const batchId = payload.batchId || `batch-${Date.now().toString(36)}`;
   const errors: Array<{ index: number; error: string }> = [];
+  const budgetMessages = new Set<string>();
+  let budgetExhausted = false;
   let processed = 0;
   let failed = 0;
 
@@ -216,6 +588,9 @@ export async function processBatch(payload: BatchIngestPayload): Promise<BatchIn
     const event = payload.events[i];
     const result = await processEvent(event);
 
+    if (result.budgetExhausted) budgetExhausted = true;
+    result.budgetMessages?.forEach((message) => budgetMessages.add(message));
+
     if (result.success) {
       processed++;
     } else {
@@ -233,6 +608,8 @@ export async function processBatch(payload: BatchIngestPayload): Promise<BatchIn
     processed,
     failed,
     errors: errors.length > 0 ? errors : undefined,
+    budgetExhausted: budgetExhausted || undefined,
+    budgetMessages: budgetMessages.size > 0 ? Array.from(budgetMessages) : undefined,
   };
 }
 
@@ -321,6 +698,24 @@ export async function failTrace(traceId: string, error: string): Promise<void> {
   }
 }
 
+/**
+ * Cancel a trace, such as a run stopped by its user.
+ */
+export async function cancelTrace(traceId: string, reason?: string): Promise<void> {
+  const result = await processEvent({
+    type: 'trace.update',
+    payload: {
+      traceId,
+      status: 'cancelled',
+      error: reason,
+    },
+  });
+
+  if (!result.success) {
+    throw new Error(`Failed to cancel trace: ${result.errors?.join(', ')}`);
+  }
+}
+
 /**
  * Add a span to an existing trace.
  */
@@ -363,6 +758,7 @@ export async function completeSpan(
     reasoning?: string;
     toolCalls?: UpdateSpanPayload['toolCalls'];
     tokens?: UpdateSpanPayload['tokens'];
+    model?: string;
     cost?: number;
   }
 ): Promise<void> {
@@ -375,6 +771,7 @@ export async function completeSpan(
       reasoning: options?.reasoning,
       toolCalls: options?.toolCalls,
       tokens: options?.tokens,
+      model: options?.model,
       cost: options?.cost,
     },
   });
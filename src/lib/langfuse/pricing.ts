@@ -0,0 +1,146 @@
+/**
+ * Model Pricing for BigTurbo Agent Audit System
+ *
+ * Loads per-model token rates from a local JSON or YAML file and computes
+ * span and trace cost from token usage.
+ *
+ * The file defaults to config/model-pricing.json and can be overridden
+ * with MODEL_PRICING_FILE (.json, .yaml or .yml).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import matter from 'gray-matter';
+import type { ModelPrice, PriceTable, TokenUsage } from './types';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_PRICING_FILE = path.join('config', 'model-pricing.json');
+
+/** Rates in the pricing file are per this many tokens */
+const TOKENS_PER_RATE_UNIT = 1_000_000;
+
+// Cached price table (null when no pricing file is available)
+let priceTablePromise: Promise<PriceTable | null> | null = null;
+
+/**
+ * Resolve the pricing file path.
+ */
+function getPricingFilePath(): string {
+  return path.resolve(process.cwd(), process.env.MODEL_PRICING_FILE || DEFAULT_PRICING_FILE);
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Parse pricing file content. YAML is parsed with gray-matter's YAML engine.
+ */
+function parsePriceTable(filePath: string, content: string): PriceTable {
+  const data = /\.ya?ml$/i.test(filePath)
+    ? matter(`---\n${content}\n---`).data
+    : JSON.parse(content);
+
+  if (!data || typeof data.models !== 'object' || data.models === null) {
+    throw new Error('pricing file must define a "models" map');
+  }
+
+  for (const [model, price] of Object.entries(data.models as Record<string, ModelPrice>)) {
+    if (typeof price?.prompt !== 'number' || typeof price?.completion !== 'number') {
+      throw new Error(`model "${model}" must define numeric prompt and completion rates`);
+    }
+  }
+
+  return {
+    currency: data.currency || 'USD',
+    defaultModel: data.defaultModel,
+    models: data.models,
+  };
+}
+
+/**
+ * Load the price table once per process.
+ * Returns null (and logs) when the file is missing or invalid.
+ */
+export async function getPriceTable(): Promise<PriceTable | null> {
+  if (!priceTablePromise) {
+    const filePath = getPricingFilePath();
+
+    priceTablePromise = fs
+      .readFile(filePath, 'utf-8')
+      .then((content) => parsePriceTable(filePath, content))
+      .catch((error) => {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`Model pricing unavailable (${filePath}): ${message}`);
+        return null;
+      });
+  }
+
+  return priceTablePromise;
+}
+
+/**
+ * Drop the cached price table so the next lookup re-reads the file.
+ */
+export function resetPriceTable(): void {
+  priceTablePromise = null;
+}
+
+// ============================================================================
+// Cost Calculation
+// ============================================================================
+
+/**
+ * Find the rates for a model: exact name first, then the longest
+ * configured prefix (so dated model IDs match their family), then the
+ * table's default model.
+ */
+export function findModelPrice(table: PriceTable, model?: string): ModelPrice | null {
+  if (model) {
+    if (table.models[model]) return table.models[model];
+
+    const prefix = Object.keys(table.models)
+      .filter((name) => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+    if (prefix) return table.models[prefix];
+  }
+
+  return table.defaultModel ? table.models[table.defaultModel] || null : null;
+}
+
+/**
+ * Token count from an event, or null when it is missing or not a number.
+ */
+function getTokenCount(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Calculate the cost of token usage for a model. A missing prompt or
+ * completion count is priced as zero.
+ *
+ * @returns Cost in the table's currency, or undefined if no rate applies
+ *   or neither count is present
+ */
+export async function calculateCost(
+  tokens: TokenUsage,
+  model?: string
+): Promise<number | undefined> {
+  const prompt = getTokenCount(tokens.prompt);
+  const completion = getTokenCount(tokens.completion);
+  if (prompt === null && completion === null) return undefined;
+
+  const table = await getPriceTable();
+  if (!table) return undefined;
+
+  const price = findModelPrice(table, model);
+  if (!price) return undefined;
+
+  return (
+    ((prompt ?? 0) * price.prompt + (completion ?? 0) * price.completion) /
+    TOKENS_PER_RATE_UNIT
+  );
+}
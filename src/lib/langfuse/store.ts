@@ -0,0 +1,111 @@
+/**
+ * Trace Store Selection for BigTurbo Agent Audit System
+ *
+ * Defines the storage contract every trace backend implements and picks
+ * the active backend from configuration:
+ *
+ *   - TRACE_STORE=langfuse  -> self-hosted Langfuse (SDK + public REST API)
+ *   - TRACE_STORE=postgres  -> local `traces` / `trace_spans` tables via src/lib/db.ts
+ *
+ * When TRACE_STORE is unset, Langfuse is used if its keys are configured,
+ * otherwise the Postgres store.
+ */
+
+import { langfuseStore, isLangfuseConfigured } from './stores/langfuse';
+import { postgresStore } from './stores/postgres';
+import type {
+  LangfuseTrace,
+  LangfuseSpan,
+  Decision,
+  TraceFilters,
+  TraceDeleteResult,
+  TracesListResponse,
+  CreateTracePayload,
+  UpdateTracePayload,
+  CreateSpanPayload,
+  UpdateSpanPayload,
+} from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Supported trace storage backends.
+ */
+export type TraceStoreBackend = 'langfuse' | 'postgres';
+
+/**
+ * Storage contract for trace and span persistence.
+ */
+export interface TraceStore {
+  /** Backend identifier */
+  readonly backend: TraceStoreBackend;
+  /** Create a new trace */
+  createTrace(payload: CreateTracePayload): Promise<LangfuseTrace>;
+  /** Update an existing trace, returning null if it does not exist */
+  updateTrace(payload: UpdateTracePayload): Promise<LangfuseTrace | null>;
+  /** Fetch a trace with its spans */
+  getTraceById(traceId: string): Promise<LangfuseTrace | null>;
+  /** List traces matching the given filters */
+  listTraces(filters: TraceFilters): Promise<TracesListResponse>;
+  /** Visit every trace matching the filters in one pass, a page at a time; pagination and sorting are ignored */
+  scanTraces(filters: TraceFilters, visit: (traces: LangfuseTrace[]) => void | Promise<void>): Promise<void>;
+  /** Create a span within a trace */
+  createSpan(payload: CreateSpanPayload): Promise<LangfuseSpan>;
+  /** Update an existing span, returning null if it does not exist */
+  updateSpan(payload: UpdateSpanPayload): Promise<LangfuseSpan | null>;
+  /** Fetch a single span */
+  getSpanById(spanId: string): Promise<LangfuseSpan | null>;
+  /** Record a decision made within a span */
+  recordDecision(spanId: string, decision: Decision): Promise<void>;
+  /** Delete traces that started more than `olderThanDays` ago */
+  deleteOldTraces(olderThanDays: number): Promise<number>;
+  /** Delete traces (and their spans) by trace_id */
+  deleteTraces(traceIds: string[]): Promise<TraceDeleteResult>;
+  /** Flush pending writes and release resources */
+  shutdown(): Promise<void>;
+}
+
+// ============================================================================
+// Backend Selection
+// ============================================================================
+
+const stores: Record<TraceStoreBackend, TraceStore> = {
+  langfuse: langfuseStore,
+  postgres: postgresStore,
+};
+
+// Explicit override (used by tests and scripts)
+let storeOverride: TraceStore | null = null;
+
+/**
+ * Resolve the configured trace store backend.
+ */
+export function getTraceStoreBackend(): TraceStoreBackend {
+  const configured = process.env.TRACE_STORE?.toLowerCase();
+
+  if (configured === 'langfuse' || configured === 'postgres') {
+    return configured;
+  }
+
+  if (configured) {
+    console.warn(`Unknown TRACE_STORE "${configured}", falling back to automatic selection`);
+  }
+
+  return isLangfuseConfigured() ? 'langfuse' : 'postgres';
+}
+
+/**
+ * Get the active trace store.
+ */
+export function getTraceStore(): TraceStore {
+  return storeOverride ?? stores[getTraceStoreBackend()];
+}
+
+/**
+ * Replace the active trace store (pass null to restore configuration-based selection).
+ */
+export function setTraceStore(store: TraceStore | null): void {
+  storeOverride = store;
+}
@@ -0,0 +1,792 @@
+/**
+ * Langfuse Trace Store for BigTurbo Agent Audit System
+ *
+ * Writes through the official Langfuse SDK and reads through the
+ * Langfuse public REST API of a self-hosted instance.
+ */
+
+import Langfuse, { LangfuseSpanClient } from 'langfuse';
+import { generateTraceId, generateSpanId } from '../ids';
+import { applyTraceFilters, getNameFilter, getStatusFilter, matchesTraceFilters } from '../filters';
+import type { TraceStore } from '../store';
+import type {
+  LangfuseTrace,
+  LangfuseSpan,
+  Decision,
+  TraceFilters,
+  TraceDeleteResult,
+  TracesListResponse,
+  CreateTracePayload,
+  UpdateTracePayload,
+  CreateSpanPayload,
+  UpdateSpanPayload,
+  TraceStatus,
+} from '../types';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const LANGFUSE_HOST = process.env.LANGFUSE_HOST || 'http://localhost:3001';
+const LANGFUSE_PUBLIC_KEY = process.env.LANGFUSE_PUBLIC_KEY;
+const LANGFUSE_SECRET_KEY = process.env.LANGFUSE_SECRET_KEY;
+
+/**
+ * Check if Langfuse is configured and available.
+ */
+export function isLangfuseConfigured(): boolean {
+  return !!(LANGFUSE_HOST && LANGFUSE_PUBLIC_KEY && LANGFUSE_SECRET_KEY);
+}
+
+/**
+ * Get a configured Langfuse client instance.
+ */
+export function getLangfuseClient(): Langfuse {
+  if (!isLangfuseConfigured()) {
+    throw new Error('Langfuse is not configured. Set LANGFUSE_PUBLIC_KEY and LANGFUSE_SECRET_KEY.');
+  }
+
+  return new Langfuse({
+    publicKey: LANGFUSE_PUBLIC_KEY!,
+    secretKey: LANGFUSE_SECRET_KEY!,
+    baseUrl: LANGFUSE_HOST,
+  });
+}
+
+/** Page size used when scanning Langfuse for client-side filtering */
+const SCAN_PAGE_SIZE = 100;
+
+/** Upper bound on pages scanned by a single list request */
+const MAX_SCAN_PAGES = 50;
+
+/** Trace IDs sent per Langfuse delete request */
+const DELETE_BATCH_SIZE = 100;
+
+/** Traces whose observations are fetched at once when listing with spans */
+const SPAN_FETCH_BATCH_SIZE = 10;
+
+/** Spans created by this process that are remembered for later updates */
+const MAX_TRACKED_SPANS = 10_000;
+
+/**
+ * What this process last wrote to a span. Langfuse indexes observations
+ * asynchronously, so a span updated soon after it was created (or
+ * updated) may not be readable yet.
+ */
+interface TrackedSpan {
+  traceId: string;
+  parentSpanId?: string;
+  name: string;
+  startedAt: string;
+  metadata: Record<string, unknown>;
+}
+
+// Singleton client instance
+let langfuseClient: Langfuse | null = null;
+
+// Recently written spans, oldest first
+const trackedSpans = new Map<string, TrackedSpan>();
+
+// Pending writes per span, so updates to one span apply in order
+const spanWrites = new Map<string, Promise<unknown>>();
+
+export function getClient(): Langfuse {
+  if (!langfuseClient) {
+    langfuseClient = getLangfuseClient();
+  }
+  return langfuseClient;
+}
+
+/**
+ * Build the Basic auth header for the Langfuse public API.
+ */
+function getAuthHeader(): string {
+  return `Basic ${Buffer.from(`${LANGFUSE_PUBLIC_KEY}:${LANGFUSE_SECRET_KEY}`).toString('base64')}`;
+}
+
+// ============================================================================
+// Trace Operations
+// ============================================================================
+
+/**
+ * Create a new trace using Langfuse SDK.
+ */
+async function createTrace(payload: CreateTracePayload): Promise<LangfuseTrace> {
+  const client = getClient();
+  const traceId = payload.traceId || generateTraceId();
+
+  client.trace({
+    id: traceId,
+    name: payload.name,
+    userId: payload.agentName,
+    metadata: {
+      agentName: payload.agentName,
+      workflowName: payload.workflowName,
+      commandName: payload.commandName,
+      ...payload.metadata,
+    },
+    input: payload.input,
+    tags: payload.metadata?.tags as string[] || [],
+  });
+
+  // Flush to ensure trace is sent
+  await client.flushAsync();
+
+  return {
+    id: traceId,
+    traceId,
+    name: payload.name,
+    agentName: payload.agentName,
+    workflowName: payload.workflowName,
+    commandName: payload.commandName,
+    status: 'running',
+    input: payload.input,
+    metadata: payload.metadata || {},
+    startedAt: new Date().toISOString(),
+    spans: [],
+  };
+}
+
+/**
+ * Update an existing trace.
+ * Returns the indexed trace with the update applied; a trace Langfuse has
+ * not indexed yet is returned with only the updated fields.
+ */
+async function updateTrace(payload: UpdateTracePayload): Promise<LangfuseTrace | null> {
+  const client = getClient();
+  const existing = await getTraceById(payload.traceId);
+
+  client.trace({
+    id: payload.traceId,
+    output: payload.output,
+    metadata: {
+      status: payload.status,
+      error: payload.error,
+      durationMs: payload.durationMs,
+      totalTokens: payload.totalTokens,
+      totalCost: payload.totalCost,
+      ...payload.metadata,
+    },
+  });
+
+  await client.flushAsync();
+
+  if (existing) {
+    return {
+      ...existing,
+      status: payload.status ?? existing.status,
+      output: payload.output ?? existing.output,
+      error: payload.error ?? existing.error,
+      durationMs: payload.durationMs ?? existing.durationMs,
+      totalTokens: payload.totalTokens ?? existing.totalTokens,
+      totalCost: payload.totalCost ?? existing.totalCost,
+      metadata: { ...existing.metadata, ...payload.metadata },
+    };
+  }
+
+  return {
+    id: payload.traceId,
+    traceId: payload.traceId,
+    name: '',
+    agentName: '',
+    status: payload.status || 'running',
+    input: {},
+    output: payload.output,
+    error: payload.error,
+    durationMs: payload.durationMs,
+    totalTokens: payload.totalTokens,
+    totalCost: payload.totalCost,
+    metadata: payload.metadata || {},
+    startedAt: new Date().toISOString(),
+    spans: [],
+  };
+}
+
+/**
+ * Get a single trace by trace_id.
+ * Fetches both the trace and its observations (spans) via separate API calls.
+ */
+async function getTraceById(traceId: string): Promise<LangfuseTrace | null> {
+  try {
+    const authHeader = getAuthHeader();
+
+    // Fetch trace and observations in parallel
+    const [traceResponse, observationsResponse] = await Promise.all([
+      fetch(`${LANGFUSE_HOST}/api/public/traces/${encodeURIComponent(traceId)}`, {
+        headers: { Authorization: authHeader },
+      }),
+      fetch(`${LANGFUSE_HOST}/api/public/observations?traceId=${encodeURIComponent(traceId)}`, {
+        headers: { Authorization: authHeader },
+      }),
+    ]);
+
+    if (!traceResponse.ok) {
+      if (traceResponse.status === 404) return null;
+      throw new Error(`Failed to fetch trace: ${traceResponse.statusText}`);
+    }
+
+    const traceData = await traceResponse.json();
+
+    // Parse observations if available
+    let observations: Record<string, unknown>[] = [];
+    if (observationsResponse.ok) {
+      const obsData = await observationsResponse.json();
+      observations = obsData.data || [];
+    }
+
+    // Merge observations into trace data
+    const mergedData = {
+      ...traceData,
+      observations,
+    };
+
+    return mapLangfuseTrace(mergedData);
+  } catch (error) {
+    console.error('Error fetching trace:', error);
+    return null;
+  }
+}
+
+/**
+ * Build Langfuse list query params for the filters it can apply server-side.
+ */
+function buildListParams(filters: TraceFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.agentName) params.set('userId', filters.agentName);
+  if (filters.startDate) params.set('fromTimestamp', new Date(filters.startDate).toISOString());
+  if (filters.endDate) params.set('toTimestamp', new Date(filters.endDate).toISOString());
+  for (const tag of filters.tags || []) {
+    params.append('tags', tag);
+  }
+
+  const sortBy = filters.sortBy || 'startedAt';
+  const sortOrder = filters.sortOrder || 'desc';
+  if (sortBy === 'startedAt') params.set('orderBy', `timestamp.${sortOrder}`);
+  if (sortBy === 'name') params.set('orderBy', `name.${sortOrder}`);
+
+  return params;
+}
+
+/**
+ * Check whether any filter must be evaluated after fetching from Langfuse.
+ * Langfuse has no status, workflow, command, substring-search,
+ * conformance or duration/token ordering support, and only pages on
+ * limit boundaries.
+ */
+function needsClientFiltering(filters: TraceFilters): boolean {
+  const limit = filters.limit || 50;
+
+  return !!(
+    getStatusFilter(filters).length > 0 ||
+    getNameFilter(filters.workflowName).length > 0 ||
+    getNameFilter(filters.commandName).length > 0 ||
+    filters.search ||
+    filters.minConformance !== undefined ||
+    filters.maxConformance !== undefined ||
+    filters.sortBy === 'durationMs' ||
+    filters.sortBy === 'totalTokens' ||
+    (filters.offset || 0) % limit !== 0
+  );
+}
+
+/**
+ * Fetch a single page of traces from the Langfuse public API.
+ */
+async function fetchTracePage(
+  params: URLSearchParams,
+  page: number,
+  limit: number
+): Promise<{ traces: LangfuseTrace[]; totalItems: number; totalPages: number }> {
+  const pageParams = new URLSearchParams(params);
+  pageParams.set('page', String(page));
+  pageParams.set('limit', String(limit));
+
+  const response = await fetch(`${LANGFUSE_HOST}/api/public/traces?${pageParams}`, {
+    headers: {
+      Authorization: getAuthHeader(),
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch traces: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const traces: LangfuseTrace[] = (data.data || []).map(mapLangfuseTrace);
+
+  return {
+    traces,
+    totalItems: data.meta?.totalItems || traces.length,
+    totalPages: data.meta?.totalPages || page,
+  };
+}
+
+/**
+ * Attach each trace's observations as its spans. The public API lists
+ * the observations of one trace per request, so traces are fetched a
+ * batch at a time.
+ */
+async function attachSpans(traces: LangfuseTrace[]): Promise<LangfuseTrace[]> {
+  const withSpans: LangfuseTrace[] = [];
+
+  for (let i = 0; i < traces.length; i += SPAN_FETCH_BATCH_SIZE) {
+    const batch = traces.slice(i, i + SPAN_FETCH_BATCH_SIZE);
+    withSpans.push(...await Promise.all(batch.map(async (trace) => {
+      const response = await fetch(
+        `${LANGFUSE_HOST}/api/public/observations?traceId=${encodeURIComponent(trace.traceId)}`,
+        { headers: { Authorization: getAuthHeader() } }
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to fetch observations: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return { ...trace, spans: ((data.data || []) as Record<string, unknown>[]).map(mapLangfuseSpan) };
+    })));
+  }
+
+  return withSpans;
+}
+
+/**
+ * List traces with filters.
+ *
+ * Filters Langfuse supports are sent as query params. When any other filter
+ * is present, matching traces are collected page by page (up to
+ * MAX_SCAN_PAGES) and filtered, sorted and paginated in memory so that
+ * count/hasMore describe the filtered set.
+ */
+async function listTraces(filters: TraceFilters): Promise<TracesListResponse> {
+  try {
+    const limit = filters.limit || 50;
+    const offset = filters.offset || 0;
+    const params = buildListParams(filters);
+
+    if (!needsClientFiltering(filters)) {
+      const page = Math.floor(offset / limit) + 1;
+      const result = await fetchTracePage(params, page, limit);
+
+      return {
+        traces: filters.includeSpans ? await attachSpans(result.traces) : result.traces,
+        count: result.totalItems,
+        hasMore: page < result.totalPages,
+      };
+    }
+
+    const scanned: LangfuseTrace[] = [];
+    let truncated = false;
+
+    for (let page = 1; ; page++) {
+      const result = await fetchTracePage(params, page, SCAN_PAGE_SIZE);
+      scanned.push(...result.traces);
+
+      if (result.traces.length === 0 || page >= result.totalPages) break;
+      if (page >= MAX_SCAN_PAGES) {
+        console.warn(`listTraces scanned ${MAX_SCAN_PAGES} pages; results are truncated`);
+        truncated = true;
+        break;
+      }
+    }
+
+    const { traces, count } = applyTraceFilters(scanned, filters);
+
+    return {
+      traces: filters.includeSpans ? await attachSpans(traces) : traces,
+      count,
+      hasMore: truncated || offset + traces.length < count,
+    };
+  } catch (error) {
+    console.error('Error listing traces:', error);
+    return { traces: [], count: 0, hasMore: false };
+  }
+}
+
+/**
+ * Visit every trace matching the filters. Pages through the server-side
+ * filtered list once, with no page limit, and applies the remaining
+ * filters page by page.
+ */
+async function scanTraces(
+  filters: TraceFilters,
+  visit: (traces: LangfuseTrace[]) => void | Promise<void>
+): Promise<void> {
+  const params = buildListParams({ ...filters, sortBy: 'startedAt', sortOrder: 'asc' });
+
+  for (let page = 1; ; page++) {
+    const { traces, totalPages } = await fetchTracePage(params, page, SCAN_PAGE_SIZE);
+    const matching = traces.filter((trace) => matchesTraceFilters(trace, filters));
+    if (matching.length > 0) await visit(matching);
+
+    if (traces.length === 0 || page >= totalPages) break;
+  }
+}
+
+/**
+ * Delete old traces (for cleanup).
+ */
+async function deleteOldTraces(olderThanDays: number): Promise<number> {
+  const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+  const traceIds: string[] = [];
+
+  // Collect IDs first so deletions do not shift the pages being read
+  await scanTraces({ endDate: cutoff.toISOString() }, (traces) => {
+    traceIds.push(...traces.map((trace) => trace.traceId));
+  });
+
+  const { deletedIds, errors } = await deleteTraces(traceIds);
+  if (errors.length > 0) console.error('Failed to delete some old traces:', errors.join('; '));
+  return deletedIds.length;
+}
+
+/**
+ * Delete traces through the Langfuse public API, in batches.
+ * Langfuse removes the traces' observations with them.
+ */
+async function deleteTraces(traceIds: string[]): Promise<TraceDeleteResult> {
+  const deletedIds: string[] = [];
+  const errors: string[] = [];
+
+  // A failed batch is reported and the remaining batches still run
+  for (let i = 0; i < traceIds.length; i += DELETE_BATCH_SIZE) {
+    const batch = traceIds.slice(i, i + DELETE_BATCH_SIZE);
+
+    try {
+      const response = await fetch(`${LANGFUSE_HOST}/api/public/traces`, {
+        method: 'DELETE',
+        headers: {
+          Authorization: getAuthHeader(),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ traceIds: batch }),
+      });
+
+      if (!response.ok) {
+        errors.push(`Failed to delete ${batch.length} traces: ${response.status} ${response.statusText}`);
+        continue;
+      }
+      deletedIds.push(...batch);
+    } catch (error) {
+      errors.push(`Failed to delete ${batch.length} traces: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return { deletedIds, errors };
+}
+
+// ============================================================================
+// Span Operations
+// ============================================================================
+
+/**
+ * Create a new span within a trace.
+ */
+async function createSpan(payload: CreateSpanPayload): Promise<LangfuseSpan> {
+  const client = getClient();
+  const spanId = payload.spanId || generateSpanId();
+
+  // Normalize output to object format for Langfuse
+  const output = payload.output
+    ? typeof payload.output === 'string'
+      ? { content: payload.output }
+      : payload.output
+    : undefined;
+
+  const metadata = {
+    operationType: payload.operationType,
+    agentName: payload.agentName,
+    ...payload.metadata,
+  };
+  const startedAt = new Date().toISOString();
+
+  client.span({
+    id: spanId,
+    traceId: payload.traceId,
+    parentObservationId: payload.parentSpanId,
+    name: payload.name,
+    metadata,
+    input: payload.input,
+    output,
+  });
+
+  await client.flushAsync();
+
+  trackSpan(spanId, {
+    traceId: payload.traceId,
+    parentSpanId: payload.parentSpanId,
+    name: payload.name,
+    startedAt,
+    metadata,
+  });
+
+  return {
+    id: spanId,
+    spanId,
+    traceId: payload.traceId,
+    parentSpanId: payload.parentSpanId,
+    name: payload.name,
+    operationType: payload.operationType,
+    agentName: payload.agentName,
+    status: output ? 'completed' : 'running',
+    input: payload.input,
+    output,
+    toolCalls: payload.metadata?.toolCalls as LangfuseSpan['toolCalls'],
+    metadata: payload.metadata,
+    startedAt,
+  };
+}
+
+/**
+ * Remember what was last written to a span, dropping the oldest span
+ * once MAX_TRACKED_SPANS are remembered.
+ */
+function trackSpan(spanId: string, span: TrackedSpan): void {
+  trackedSpans.delete(spanId);
+  trackedSpans.set(spanId, span);
+
+  if (trackedSpans.size > MAX_TRACKED_SPANS) {
+    trackedSpans.delete(trackedSpans.keys().next().value!);
+  }
+}
+
+/**
+ * Run a write to a span after the writes already pending for it, so a
+ * read-modify-write does not lose a concurrent update from this process.
+ */
+function withSpanLock<T>(spanId: string, write: () => Promise<T>): Promise<T> {
+  const result = (spanWrites.get(spanId) ?? Promise.resolve()).then(write);
+  const settled = result.catch(() => undefined);
+
+  spanWrites.set(spanId, settled);
+  void settled.then(() => {
+    if (spanWrites.get(spanId) === settled) spanWrites.delete(spanId);
+  });
+
+  return result;
+}
+
+/**
+ * Write an update to a span. Metadata is merged with what this process
+ * last wrote, falling back to the indexed observation.
+ */
+async function writeSpan(payload: UpdateSpanPayload): Promise<LangfuseSpan | null> {
+  const client = getClient();
+
+  // Observations can only be updated through their trace
+  const tracked = trackedSpans.get(payload.spanId);
+  const observation = await fetchObservation(payload.spanId);
+  const traceId = payload.traceId || tracked?.traceId || (observation?.traceId as string | undefined);
+  if (!traceId) return null;
+
+  const existing = observation ? mapLangfuseSpan(observation) : null;
+  const finished = payload.status === 'completed' || payload.status === 'failed' || payload.status === 'cancelled';
+  const metadata = {
+    ...existing?.metadata,
+    ...tracked?.metadata,
+    ...definedEntries({
+      status: payload.status,
+      reasoning: payload.reasoning,
+      toolCalls: payload.toolCalls,
+      decisions: payload.decisions,
+      tokens: payload.tokens,
+      model: payload.model,
+      cost: payload.cost,
+      error: payload.error,
+    }),
+  };
+
+  new LangfuseSpanClient(client, payload.spanId, traceId).update({
+    endTime: finished ? new Date() : undefined,
+    output: payload.output,
+    level: payload.status === 'failed' ? 'ERROR' : undefined,
+    statusMessage: payload.error,
+    metadata,
+  });
+
+  await client.flushAsync();
+
+  const name = tracked?.name || existing?.name || '';
+  const startedAt = tracked?.startedAt || existing?.startedAt || new Date().toISOString();
+  const parentSpanId = tracked?.parentSpanId ?? existing?.parentSpanId;
+  trackSpan(payload.spanId, { traceId, parentSpanId, name, startedAt, metadata });
+
+  return {
+    id: payload.spanId,
+    spanId: payload.spanId,
+    traceId,
+    parentSpanId,
+    name,
+    operationType: (metadata.operationType as LangfuseSpan['operationType']) || 'custom',
+    agentName: (metadata.agentName as string) || '',
+    status: payload.status || existing?.status || 'completed',
+    input: existing?.input,
+    output: payload.output ?? existing?.output,
+    reasoning: metadata.reasoning as string | undefined,
+    toolCalls: metadata.toolCalls as LangfuseSpan['toolCalls'],
+    decisions: metadata.decisions as LangfuseSpan['decisions'],
+    tokens: metadata.tokens as LangfuseSpan['tokens'],
+    cost: payload.cost ?? existing?.cost,
+    startedAt,
+    completedAt: finished ? new Date().toISOString() : existing?.completedAt,
+  };
+}
+
+/**
+ * Update an existing span. Spans not yet indexed by Langfuse are updated
+ * through the trace they were created in by this process, or the
+ * payload's traceId.
+ */
+async function updateSpan(payload: UpdateSpanPayload): Promise<LangfuseSpan | null> {
+  return withSpanLock(payload.spanId, () => writeSpan(payload));
+}
+
+/**
+ * Drop undefined values so a partial update keeps existing metadata.
+ */
+function definedEntries(values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Fetch a raw observation from the Langfuse public API.
+ * Returns null when the observation does not exist (yet).
+ */
+async function fetchObservation(observationId: string): Promise<Record<string, unknown> | null> {
+  const response = await fetch(`${LANGFUSE_HOST}/api/public/observations/${encodeURIComponent(observationId)}`, {
+    headers: { Authorization: getAuthHeader() },
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) return null;
+    throw new Error(`Failed to fetch observation: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Get a single span by span_id.
+ */
+async function getSpanById(spanId: string): Promise<LangfuseSpan | null> {
+  try {
+    const observation = await fetchObservation(spanId);
+    return observation ? mapLangfuseSpan(observation) : null;
+  } catch (error) {
+    console.error('Error fetching span:', error);
+    return null;
+  }
+}
+
+/**
+ * Record a decision within a span.
+ * Decisions are appended to the span's metadata, after any write to the
+ * span still pending in this process. The current list is read from what
+ * this process last wrote, else from the indexed observation.
+ */
+async function recordDecision(spanId: string, decision: Decision): Promise<void> {
+  await withSpanLock(spanId, async () => {
+    const tracked = trackedSpans.get(spanId);
+    const span = tracked ? null : await getSpanById(spanId);
+
+    if (!tracked && !span) {
+      console.warn(`Cannot record decision: span ${spanId} not found`);
+      return;
+    }
+
+    const decisions = tracked ? (tracked.metadata.decisions as Decision[] | undefined) : span?.decisions;
+    await writeSpan({ spanId, decisions: [...(decisions || []), decision] });
+  });
+}
+
+/**
+ * Shutdown the client (flush pending events).
+ */
+async function shutdown(): Promise<void> {
+  if (langfuseClient) {
+    await langfuseClient.shutdownAsync();
+    langfuseClient = null;
+  }
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/**
+ * Map Langfuse API response to our trace type.
+ */
+function mapLangfuseTrace(data: Record<string, unknown>): LangfuseTrace {
+  const metadata = (data.metadata || {}) as Record<string, unknown>;
+
+  return {
+    id: data.id as string,
+    traceId: data.id as string,
+    name: data.name as string || 'Unnamed Trace',
+    agentName: (data.userId as string) || (metadata.agentName as string) || 'unknown',
+    workflowName: metadata.workflowName as string,
+    commandName: metadata.commandName as string,
+    status: (metadata.status as TraceStatus) || (data.output ? 'completed' : 'running'),
+    input: (data.input || {}) as Record<string, unknown>,
+    output: (data.output || undefined) as Record<string, unknown> | undefined,
+    error: metadata.error as string,
+    durationMs: (data.latency as number) || (metadata.durationMs as number),
+    totalTokens: (data.totalTokens as number) || (metadata.totalTokens as number),
+    totalCost: (data.totalCost as number) || (metadata.totalCost as number),
+    metadata: metadata,
+    startedAt: data.timestamp as string || new Date().toISOString(),
+    completedAt: data.updatedAt as string,
+    // Trace lists carry observation IDs only; full observations come from getTraceById
+    spans: ((data.observations || []) as unknown[])
+      .filter((observation): observation is Record<string, unknown> => typeof observation === 'object' && observation !== null)
+      .map(mapLangfuseSpan),
+  };
+}
+
+/**
+ * Map Langfuse observation to our span type.
+ */
+function mapLangfuseSpan(data: Record<string, unknown>): LangfuseSpan {
+  const metadata = (data.metadata || {}) as Record<string, unknown>;
+
+  return {
+    id: data.id as string,
+    spanId: data.id as string,
+    traceId: data.traceId as string,
+    parentSpanId: data.parentObservationId as string,
+    name: data.name as string || 'Unnamed Span',
+    operationType: (metadata.operationType as LangfuseSpan['operationType']) || 'custom',
+    agentName: metadata.agentName as string || 'unknown',
+    status: (metadata.status as LangfuseSpan['status']) ||
+      (data.level === 'ERROR' ? 'failed' : data.endTime ? 'completed' : 'running'),
+    input: data.input as Record<string, unknown>,
+    output: data.output as Record<string, unknown>,
+    reasoning: metadata.reasoning as string,
+    toolCalls: metadata.toolCalls as LangfuseSpan['toolCalls'],
+    decisions: metadata.decisions as LangfuseSpan['decisions'],
+    tokens: metadata.tokens as LangfuseSpan['tokens'],
+    cost: (metadata.cost as number) ?? (data.calculatedTotalCost as number),
+    durationMs: data.latency as number,
+    metadata: metadata,
+    startedAt: data.startTime as string || new Date().toISOString(),
+    completedAt: data.endTime as string,
+  };
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export const langfuseStore: TraceStore = {
+  backend: 'langfuse',
+  createTrace,
+  updateTrace,
+  getTraceById,
+  listTraces,
+  scanTraces,
+  createSpan,
+  updateSpan,
+  getSpanById,
+  recordDecision,
+  deleteOldTraces,
+  deleteTraces,
+  shutdown,
+};
@@ -0,0 +1,619 @@
+/**
+ * Postgres Trace Store for BigTurbo Agent Audit System
+ *
+ * Persists traces and spans in the local `traces` and `trace_spans`
+ * tables using the pooled query helpers in src/lib/db.ts. Lets the audit
+ * dashboard run without a Langfuse deployment.
+ */
+
+import { query, queryOne, ensureSchema, containsPattern } from '@/lib/db';
+import type { Trace, TraceSpan } from '@/lib/db';
+import { getNameFilter } from '../filters';
+import { generateTraceId, generateSpanId } from '../ids';
+import type { TraceStore } from '../store';
+import type {
+  LangfuseTrace,
+  LangfuseSpan,
+  Decision,
+  TraceFilters,
+  TraceDeleteResult,
+  TracesListResponse,
+  CreateTracePayload,
+  UpdateTracePayload,
+  CreateSpanPayload,
+  UpdateSpanPayload,
+  TraceStatus,
+  OperationType,
+  ToolCall,
+  TokenUsage,
+} from '../types';
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * DDL for the trace store tables.
+ * The `traces` table follows the Trace row in src/lib/db.ts; for this store
+ * agent_id, workflow_id and command_id hold the agent, workflow and command names.
+ */
+const TRACE_STORE_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS traces (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    workflow_id TEXT,
+    command_id TEXT,
+    session_id TEXT NOT NULL DEFAULT '',
+    parent_trace_id TEXT,
+    name TEXT NOT NULL,
+    input JSONB NOT NULL DEFAULT '{}'::jsonb,
+    output JSONB,
+    status TEXT NOT NULL DEFAULT 'running',
+    error TEXT,
+    duration_ms INTEGER,
+    tokens_used INTEGER,
+    cost DOUBLE PRECISION,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS traces_started_at_idx ON traces (started_at DESC)`,
+  `CREATE INDEX IF NOT EXISTS traces_agent_id_idx ON traces (agent_id)`,
+  `CREATE INDEX IF NOT EXISTS traces_command_id_idx ON traces (command_id)`,
+  `CREATE TABLE IF NOT EXISTS trace_spans (
+    id TEXT PRIMARY KEY,
+    trace_id TEXT NOT NULL REFERENCES traces (id) ON DELETE CASCADE,
+    parent_span_id TEXT,
+    name TEXT NOT NULL,
+    operation_type TEXT NOT NULL,
+    agent_name TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running',
+    input JSONB,
+    output JSONB,
+    tool_calls JSONB,
+    decisions JSONB,
+    reasoning TEXT,
+    duration_ms INTEGER,
+    tokens JSONB,
+    total_tokens INTEGER,
+    cost DOUBLE PRECISION,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+  )`,
+  `CREATE INDEX IF NOT EXISTS trace_spans_trace_id_idx ON trace_spans (trace_id, started_at)`,
+];
+
+/**
+ * Create the trace store tables if they do not exist yet.
+ */
+export async function ensureTraceStoreSchema(): Promise<void> {
+  await ensureSchema('trace-store', TRACE_STORE_SCHEMA);
+}
+
+/** Statuses that end a trace or span */
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled'];
+
+/** SQL expression for elapsed milliseconds since a row started */
+const ELAPSED_MS_SQL = '(EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000)::INTEGER';
+
+// ============================================================================
+// Row Mapping
+// ============================================================================
+
+function toIsoString(value: Date | string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+/**
+ * Map a trace_spans row to our span type.
+ */
+function mapSpanRow(row: TraceSpan): LangfuseSpan {
+  return {
+    id: row.id,
+    spanId: row.id,
+    traceId: row.trace_id,
+    parentSpanId: row.parent_span_id ?? undefined,
+    name: row.name,
+    operationType: row.operation_type as OperationType,
+    agentName: row.agent_name,
+    status: row.status,
+    input: row.input ?? undefined,
+    output: row.output ?? undefined,
+    toolCalls: (row.tool_calls as ToolCall[] | null) ?? undefined,
+    decisions: (row.decisions as Decision[] | null) ?? undefined,
+    reasoning: row.reasoning ?? undefined,
+    durationMs: row.duration_ms ?? undefined,
+    tokens: (row.tokens as TokenUsage | null) ?? undefined,
+    cost: row.cost ?? undefined,
+    metadata: row.metadata,
+    startedAt: toIsoString(row.started_at)!,
+    completedAt: toIsoString(row.completed_at),
+  };
+}
+
+/**
+ * Map a traces row (and its span rows) to our trace type.
+ */
+function mapTraceRow(row: Trace, spans: TraceSpan[] = []): LangfuseTrace {
+  return {
+    id: row.id,
+    traceId: row.id,
+    name: row.name,
+    agentName: row.agent_id,
+    workflowName: row.workflow_id ?? undefined,
+    commandName: row.command_id ?? undefined,
+    status: row.status as TraceStatus,
+    input: row.input,
+    output: row.output ?? undefined,
+    error: row.error ?? undefined,
+    durationMs: row.duration_ms ?? undefined,
+    totalTokens: row.tokens_used ?? undefined,
+    totalCost: row.cost ?? undefined,
+    metadata: row.metadata,
+    startedAt: toIsoString(row.started_at)!,
+    completedAt: toIsoString(row.completed_at),
+    spans: spans.map(mapSpanRow),
+  };
+}
+
+// ============================================================================
+// Query Building
+// ============================================================================
+
+/** Rows read per page when scanning traces */
+const SCAN_PAGE_SIZE = 500;
+
+const SORT_COLUMNS: Record<NonNullable<TraceFilters['sortBy']>, string> = {
+  startedAt: 'started_at',
+  durationMs: 'duration_ms',
+  totalTokens: 'tokens_used',
+  name: 'name',
+};
+
+/**
+ * Build the WHERE clause for a trace filter set.
+ */
+function buildTraceConditions(filters: TraceFilters): { where: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.agentName) {
+    conditions.push(`agent_id = $${params.length + 1}`);
+    params.push(filters.agentName);
+  }
+
+  const workflowNames = getNameFilter(filters.workflowName);
+  if (workflowNames.length > 0) {
+    conditions.push(`workflow_id = ANY($${params.length + 1})`);
+    params.push(workflowNames);
+  }
+
+  const commandNames = getNameFilter(filters.commandName);
+  if (commandNames.length > 0) {
+    conditions.push(`command_id = ANY($${params.length + 1})`);
+    params.push(commandNames);
+  }
+
+  if (filters.status) {
+    const statuses = Array.isArray(filters.status) ? filters.status : [filters.status];
+    conditions.push(`status = ANY($${params.length + 1})`);
+    params.push(statuses);
+  }
+
+  if (filters.startDate) {
+    conditions.push(`started_at >= $${params.length + 1}`);
+    params.push(filters.startDate);
+  }
+
+  if (filters.endDate) {
+    conditions.push(`started_at <= $${params.length + 1}`);
+    params.push(filters.endDate);
+  }
+
+  if (filters.tags && filters.tags.length > 0) {
+    conditions.push(`metadata->'tags' @> $${params.length + 1}::jsonb`);
+    params.push(JSON.stringify(filters.tags));
+  }
+
+  if (filters.search) {
+    conditions.push(`name ILIKE $${params.length + 1} ESCAPE '\\'`);
+    params.push(containsPattern(filters.search));
+  }
+
+  if (filters.minConformance !== undefined) {
+    conditions.push(`(metadata->>'conformanceScore')::numeric >= $${params.length + 1}`);
+    params.push(filters.minConformance);
+  }
+
+  if (filters.maxConformance !== undefined) {
+    conditions.push(`(metadata->>'conformanceScore')::numeric <= $${params.length + 1}`);
+    params.push(filters.maxConformance);
+  }
+
+  return {
+    where: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+}
+
+/**
+ * Load spans for a set of traces, grouped by trace ID.
+ */
+async function getSpansForTraces(traceIds: string[]): Promise<Map<string, TraceSpan[]>> {
+  const byTrace = new Map<string, TraceSpan[]>();
+  if (traceIds.length === 0) return byTrace;
+
+  const rows = await query<TraceSpan>(
+    'SELECT * FROM trace_spans WHERE trace_id = ANY($1) ORDER BY started_at ASC',
+    [traceIds]
+  );
+
+  for (const row of rows) {
+    const spans = byTrace.get(row.trace_id) ?? [];
+    spans.push(row);
+    byTrace.set(row.trace_id, spans);
+  }
+
+  return byTrace;
+}
+
+// ============================================================================
+// Trace Operations
+// ============================================================================
+
+/**
+ * Insert a new trace row.
+ */
+async function createTrace(payload: CreateTracePayload): Promise<LangfuseTrace> {
+  await ensureTraceStoreSchema();
+  const traceId = payload.traceId || generateTraceId();
+
+  const row = await queryOne<Trace>(
+    `INSERT INTO traces (id, agent_id, workflow_id, command_id, session_id, parent_trace_id, name, input, metadata, status)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'running')
+     RETURNING *`,
+    [
+      traceId,
+      payload.agentName,
+      payload.workflowName ?? null,
+      payload.commandName ?? null,
+      payload.metadata?.sessionId ?? '',
+      payload.metadata?.parentTraceId ?? null,
+      payload.name,
+      JSON.stringify(payload.input),
+      JSON.stringify(payload.metadata || {}),
+    ]
+  );
+
+  return mapTraceRow(row!);
+}
+
+/**
+ * Update an existing trace row.
+ * Terminal statuses stamp completed_at and fill duration, tokens and cost
+ * from the recorded spans when the caller does not provide them.
+ */
+async function updateTrace(payload: UpdateTracePayload): Promise<LangfuseTrace | null> {
+  await ensureTraceStoreSchema();
+
+  const fields: string[] = [];
+  const params: unknown[] = [];
+  let paramIndex = 1;
+  const isTerminal = !!payload.status && TERMINAL_STATUSES.includes(payload.status);
+
+  if (payload.status !== undefined) {
+    fields.push(`status = $${paramIndex++}`);
+    params.push(payload.status);
+  }
+  if (payload.output !== undefined) {
+    fields.push(`output = $${paramIndex++}`);
+    params.push(JSON.stringify(payload.output));
+  }
+  if (payload.error !== undefined) {
+    fields.push(`error = $${paramIndex++}`);
+    params.push(payload.error);
+  }
+  if (payload.durationMs !== undefined) {
+    fields.push(`duration_ms = $${paramIndex++}`);
+    params.push(payload.durationMs);
+  } else if (isTerminal) {
+    fields.push(`duration_ms = COALESCE(duration_ms, ${ELAPSED_MS_SQL})`);
+  }
+  if (payload.totalTokens !== undefined) {
+    fields.push(`tokens_used = $${paramIndex++}`);
+    params.push(payload.totalTokens);
+  } else if (isTerminal) {
+    fields.push('tokens_used = COALESCE(tokens_used, (SELECT SUM(total_tokens)::INTEGER FROM trace_spans WHERE trace_id = traces.id))');
+  }
+  if (payload.totalCost !== undefined) {
+    fields.push(`cost = $${paramIndex++}`);
+    params.push(payload.totalCost);
+  } else if (isTerminal) {
+    fields.push('cost = COALESCE(cost, (SELECT SUM(cost) FROM trace_spans WHERE trace_id = traces.id))');
+  }
+  if (payload.metadata !== undefined) {
+    fields.push(`metadata = metadata || $${paramIndex++}::jsonb`);
+    params.push(JSON.stringify(payload.metadata));
+  }
+  if (isTerminal) {
+    fields.push('completed_at = COALESCE(completed_at, NOW())');
+  }
+
+  if (fields.length > 0) {
+    params.push(payload.traceId);
+    const updated = await query<Trace>(
+      `UPDATE traces SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING id`,
+      params
+    );
+    if (updated.length === 0) return null;
+  }
+
+  return getTraceById(payload.traceId);
+}
+
+/**
+ * Fetch a trace with all of its spans.
+ */
+async function getTraceById(traceId: string): Promise<LangfuseTrace | null> {
+  await ensureTraceStoreSchema();
+
+  const row = await queryOne<Trace>('SELECT * FROM traces WHERE id = $1', [traceId]);
+  if (!row) return null;
+
+  const spans = await getSpansForTraces([row.id]);
+  return mapTraceRow(row, spans.get(row.id));
+}
+
+/**
+ * List traces matching the filters, newest first by default.
+ */
+async function listTraces(filters: TraceFilters): Promise<TracesListResponse> {
+  await ensureTraceStoreSchema();
+
+  const { where, params } = buildTraceConditions(filters);
+  const sortColumn = SORT_COLUMNS[filters.sortBy || 'startedAt'];
+  const sortOrder = filters.sortOrder === 'asc' ? 'ASC' : 'DESC';
+  const limit = filters.limit || 50;
+  const offset = filters.offset || 0;
+
+  const [rows, countRow] = await Promise.all([
+    query<Trace>(
+      `SELECT * FROM traces${where}
+       ORDER BY ${sortColumn} ${sortOrder} NULLS LAST, id ${sortOrder}
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    ),
+    queryOne<{ count: string }>(`SELECT COUNT(*) AS count FROM traces${where}`, params),
+  ]);
+
+  const spans = await getSpansForTraces(rows.map((row) => row.id));
+  const traces = rows.map((row) => mapTraceRow(row, spans.get(row.id)));
+  const count = parseInt(countRow?.count ?? '0', 10);
+
+  return {
+    traces,
+    count,
+    hasMore: offset + traces.length < count,
+  };
+}
+
+/**
+ * Visit every trace matching the filters, paging by trace ID.
+ */
+async function scanTraces(
+  filters: TraceFilters,
+  visit: (traces: LangfuseTrace[]) => void | Promise<void>
+): Promise<void> {
+  await ensureTraceStoreSchema();
+
+  const { where, params } = buildTraceConditions(filters);
+  let lastId = '';
+
+  for (;;) {
+    const rows = await query<Trace>(
+      `SELECT * FROM traces${where ? `${where} AND` : ' WHERE'} id > $${params.length + 1}
+       ORDER BY id ASC LIMIT $${params.length + 2}`,
+      [...params, lastId, SCAN_PAGE_SIZE]
+    );
+    if (rows.length === 0) break;
+
+    const spans = await getSpansForTraces(rows.map((row) => row.id));
+    await visit(rows.map((row) => mapTraceRow(row, spans.get(row.id))));
+
+    if (rows.length < SCAN_PAGE_SIZE) break;
+    lastId = rows[rows.length - 1].id;
+  }
+}
+
+/**
+ * Delete traces (and their spans) older than the given number of days.
+ */
+async function deleteOldTraces(olderThanDays: number): Promise<number> {
+  await ensureTraceStoreSchema();
+
+  const deleted = await query<{ id: string }>(
+    `DELETE FROM traces WHERE started_at < NOW() - make_interval(days => $1) RETURNING id`,
+    [olderThanDays]
+  );
+  return deleted.length;
+}
+
+/**
+ * Delete traces by ID; spans are removed by the foreign key cascade.
+ */
+async function deleteTraces(traceIds: string[]): Promise<TraceDeleteResult> {
+  await ensureTraceStoreSchema();
+
+  const deleted = await query<{ id: string }>(
+    'DELETE FROM traces WHERE id = ANY($1::text[]) RETURNING id',
+    [traceIds]
+  );
+  return { deletedIds: deleted.map((row) => row.id), errors: [] };
+}
+
+// ============================================================================
+// Span Operations
+// ============================================================================
+
+/**
+ * Insert a new span row.
+ */
+async function createSpan(payload: CreateSpanPayload): Promise<LangfuseSpan> {
+  await ensureTraceStoreSchema();
+
+  const trace = await queryOne<{ id: string }>('SELECT id FROM traces WHERE id = $1', [payload.traceId]);
+  if (!trace) {
+    throw new Error(`Trace not found: ${payload.traceId}`);
+  }
+
+  const spanId = payload.spanId || generateSpanId();
+
+  // Normalize output to object format
+  const output = payload.output
+    ? typeof payload.output === 'string'
+      ? { content: payload.output }
+      : payload.output
+    : undefined;
+  const status = output ? 'completed' : 'running';
+
+  // Tool calls sent with the span, as the Langfuse store reads them from metadata
+  const toolCalls = Array.isArray(payload.metadata?.toolCalls) ? payload.metadata.toolCalls : null;
+
+  const row = await queryOne<TraceSpan>(
+    `INSERT INTO trace_spans (
+      id, trace_id, parent_span_id, name, operation_type, agent_name,
+      status, input, output, tool_calls, metadata, completed_at
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    RETURNING *`,
+    [
+      spanId,
+      payload.traceId,
+      payload.parentSpanId ?? null,
+      payload.name,
+      payload.operationType,
+      payload.agentName,
+      status,
+      payload.input ? JSON.stringify(payload.input) : null,
+      output ? JSON.stringify(output) : null,
+      toolCalls ? JSON.stringify(toolCalls) : null,
+      JSON.stringify(payload.metadata || {}),
+      output ? new Date() : null,
+    ]
+  );
+
+  return mapSpanRow(row!);
+}
+
+/**
+ * Update an existing span row.
+ */
+async function updateSpan(payload: UpdateSpanPayload): Promise<LangfuseSpan | null> {
+  await ensureTraceStoreSchema();
+
+  const fields: string[] = [];
+  const params: unknown[] = [];
+  let paramIndex = 1;
+
+  if (payload.status !== undefined) {
+    fields.push(`status = $${paramIndex++}`);
+    params.push(payload.status);
+
+    if (TERMINAL_STATUSES.includes(payload.status)) {
+      fields.push('completed_at = COALESCE(completed_at, NOW())');
+      fields.push(`duration_ms = COALESCE(duration_ms, ${ELAPSED_MS_SQL})`);
+    }
+  }
+  if (payload.output !== undefined) {
+    fields.push(`output = $${paramIndex++}`);
+    params.push(JSON.stringify(payload.output));
+  }
+  if (payload.reasoning !== undefined) {
+    fields.push(`reasoning = $${paramIndex++}`);
+    params.push(payload.reasoning);
+  }
+  if (payload.toolCalls !== undefined) {
+    fields.push(`tool_calls = $${paramIndex++}`);
+    params.push(JSON.stringify(payload.toolCalls));
+  }
+  if (payload.decisions !== undefined) {
+    fields.push(`decisions = $${paramIndex++}`);
+    params.push(JSON.stringify(payload.decisions));
+  }
+  if (payload.tokens !== undefined) {
+    fields.push(`tokens = $${paramIndex++}`);
+    params.push(JSON.stringify(payload.tokens));
+    fields.push(`total_tokens = $${paramIndex++}`);
+    params.push(payload.tokens.total);
+  }
+  if (payload.cost !== undefined) {
+    fields.push(`cost = $${paramIndex++}`);
+    params.push(payload.cost);
+  }
+  if (payload.error !== undefined || payload.model !== undefined) {
+    fields.push(`metadata = metadata || $${paramIndex++}::jsonb`);
+    params.push(JSON.stringify({ error: payload.error, model: payload.model }));
+  }
+
+  if (fields.length === 0) return getSpanById(payload.spanId);
+
+  params.push(payload.spanId);
+
+  const row = await queryOne<TraceSpan>(
+    `UPDATE trace_spans SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+    params
+  );
+  return row ? mapSpanRow(row) : null;
+}
+
+/**
+ * Fetch a single span.
+ */
+async function getSpanById(spanId: string): Promise<LangfuseSpan | null> {
+  await ensureTraceStoreSchema();
+
+  const row = await queryOne<TraceSpan>('SELECT * FROM trace_spans WHERE id = $1', [spanId]);
+  return row ? mapSpanRow(row) : null;
+}
+
+/**
+ * Append a decision to a span.
+ */
+async function recordDecision(spanId: string, decision: Decision): Promise<void> {
+  await ensureTraceStoreSchema();
+
+  await query(
+    `UPDATE trace_spans
+     SET decisions = COALESCE(decisions, '[]'::jsonb) || $1::jsonb
+     WHERE id = $2`,
+    [JSON.stringify([decision]), spanId]
+  );
+}
+
+/**
+ * Nothing to flush: writes are synchronous against the pool.
+ */
+async function shutdown(): Promise<void> {}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export const postgresStore: TraceStore = {
+  backend: 'postgres',
+  createTrace,
+  updateTrace,
+  getTraceById,
+  listTraces,
+  scanTraces,
+  createSpan,
+  updateSpan,
+  getSpanById,
+  recordDecision,
+  deleteOldTraces,
+  deleteTraces,
+  shutdown,
+};
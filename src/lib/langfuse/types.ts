@@ -16,7 +16,7 @@ export type TraceStatus = 'running' | 'completed' | 'failed' | 'cancelled';
 /**
  * Span status for individual operations within a trace.
  */
-export type SpanStatus = 'pending' | 'running' | 'completed' | 'failed';
+export type SpanStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
 
 /**
  * Types of operations an agent can perform.
@@ -85,6 +85,8 @@ export interface LangfuseSpan {
   id: string;
   /** External span ID for correlation */
   spanId: string;
+  /** Trace this span belongs to (when known) */
+  traceId?: string;
   /** Parent span ID for nested operations */
   parentSpanId?: string;
   /** Name of the operation */
@@ -185,12 +187,46 @@ export interface TraceMetadata {
   agentVersion?: string;
   /** Git commit hash */
   commitHash?: string;
+  /** Model used by the agent (for cost calculation) */
+  model?: string;
   /** Custom tags for filtering */
   tags?: string[];
+  /** Workflow conformance score (0-100), set when the trace finishes */
+  conformanceScore?: number;
+  /** Workflow launch that produced the trace, taken from its prompt if not sent */
+  launchId?: string;
+  /** Trace this one replays, taken from its launch if not sent */
+  parentTraceId?: string;
   /** Additional custom metadata */
   [key: string]: unknown;
 }
 
+// ============================================================================
+// Pricing Types
+// ============================================================================
+
+/**
+ * Per-model token rates in USD per million tokens.
+ */
+export interface ModelPrice {
+  /** Rate for prompt/input tokens */
+  prompt: number;
+  /** Rate for completion/output tokens */
+  completion: number;
+}
+
+/**
+ * Model price table loaded from the pricing file.
+ */
+export interface PriceTable {
+  /** Currency of all rates */
+  currency: string;
+  /** Model used when an event does not name one */
+  defaultModel?: string;
+  /** Rates keyed by model name or model name prefix */
+  models: Record<string, ModelPrice>;
+}
+
 // ============================================================================
 // Ingestion Types
 // ============================================================================
@@ -255,8 +291,10 @@ export interface UpdateTracePayload {
   durationMs?: number;
   /** Total tokens used */
   totalTokens?: number;
-  /** Total cost */
+  /** Total cost (calculated from spans or tokens when omitted) */
   totalCost?: number;
+  /** Token usage breakdown (used for cost calculation) */
+  tokens?: TokenUsage;
   /** Additional metadata to merge */
   metadata?: Partial<TraceMetadata>;
 }
@@ -267,6 +305,8 @@ export interface UpdateTracePayload {
 export interface UpdateSpanPayload {
   /** Span ID to update */
   spanId: string;
+  /** Trace the span belongs to (saves a lookup on stores that need it) */
+  traceId?: string;
   /** New status */
   status?: SpanStatus;
   /** Output data */
@@ -279,7 +319,9 @@ export interface UpdateSpanPayload {
   decisions?: Decision[];
   /** Token usage */
   tokens?: TokenUsage;
-  /** Cost */
+  /** Model that produced the tokens (for cost calculation) */
+  model?: string;
+  /** Cost (calculated from tokens when omitted) */
   cost?: number;
   /** Error message */
   error?: string;
@@ -324,6 +366,19 @@ export interface TraceDetailResponse {
   trace: LangfuseTrace;
 }
 
+/**
+ * Response from single span endpoint.
+ */
+export interface SpanDetailResponse {
+  traceId: string;
+  span: LangfuseSpan;
+  toolCalls: ToolCall[];
+  decisions: Decision[];
+  reasoning?: string;
+  /** Spans whose parent is this span, in start order */
+  children: LangfuseSpan[];
+}
+
 /**
  * Response from ingestion endpoint.
  */
@@ -332,6 +387,10 @@ export interface IngestResponse {
   traceId?: string;
   spanId?: string;
   errors?: string[];
+  /** True when a budget covering the trace is used up */
+  budgetExhausted?: boolean;
+  /** Budget warnings for the hook to show the developer */
+  budgetMessages?: string[];
 }
 
 /**
@@ -343,6 +402,10 @@ export interface BatchIngestResponse {
   processed: number;
   failed: number;
   errors?: Array<{ index: number; error: string }>;
+  /** True when any event hit an exhausted budget */
+  budgetExhausted?: boolean;
+  /** Budget warnings collected across the batch */
+  budgetMessages?: string[];
 }
 
 // ============================================================================
@@ -355,10 +418,10 @@ export interface BatchIngestResponse {
 export interface TraceFilters {
   /** Filter by agent name */
   agentName?: string;
-  /** Filter by workflow name */
-  workflowName?: string;
-  /** Filter by command name */
-  commandName?: string;
+  /** Filter by workflow name (any of several) */
+  workflowName?: string | string[];
+  /** Filter by command name (any of several) */
+  commandName?: string | string[];
   /** Filter by status */
   status?: TraceStatus | TraceStatus[];
   /** Filter by date range start */
@@ -369,6 +432,12 @@ export interface TraceFilters {
   tags?: string[];
   /** Search in trace names */
   search?: string;
+  /** Minimum workflow conformance score (0-100) */
+  minConformance?: number;
+  /** Maximum workflow conformance score (0-100) */
+  maxConformance?: number;
+  /** Include each trace's spans in list results (the Postgres store always does) */
+  includeSpans?: boolean;
   /** Pagination limit */
   limit?: number;
   /** Pagination offset */
@@ -378,3 +447,14 @@ export interface TraceFilters {
   /** Sort direction */
   sortOrder?: 'asc' | 'desc';
 }
+
+/**
+ * Outcome of deleting traces by trace_id. A backend that deletes in
+ * batches may delete some traces and fail on others.
+ */
+export interface TraceDeleteResult {
+  /** Traces that were deleted */
+  deletedIds: string[];
+  /** Failures, such as a batch the backend rejected */
+  errors: string[];
+}
@@ -3,6 +3,16 @@
  * These types represent agents, workflows, and commands parsed from .claude/ markdown files.
  */
 
+import type { OperationType, TraceStatus } from '@/lib/langfuse/types';
+import type {
+  ConformanceReport,
+  GateReport,
+  Handoff,
+  OrchestrationExecutionState,
+  OrchestrationPlan,
+  WorkflowRunStats,
+} from './orchestration';
+
 /**
  * Represents an agent configuration parsed from .claude/agents/*.md files.
  */
@@ -43,6 +53,8 @@ export interface Workflow {
   agents: string[];
   /** Steps in the workflow execution */
   steps: WorkflowStep[];
+  /** Questions the launch wizard asks, from the command or the defaults */
+  questions: WorkflowQuestion[];
   /** Timestamp when the workflow was last synced */
   lastSynced: string;
 }
@@ -103,6 +115,78 @@ export interface WorkflowsListResponse {
   workflows: Workflow[];
 }
 
+/**
+ * Response type for a workflow's orchestration plan.
+ */
+export interface WorkflowPlanResponse {
+  plan: OrchestrationPlan;
+  /** Where the plan came from: the synced database copy or the command file */
+  source: 'database' | 'file';
+}
+
+/**
+ * Response type for a workflow's launch prompt template.
+ */
+export interface WorkflowTemplateResponse {
+  workflowId: string;
+  template: string;
+  /** Where the template came from: the command's frontmatter, its .prompt.md file or the built-in default */
+  source: 'frontmatter' | 'file' | 'default';
+  /** Syntax error in the template, if any */
+  error: string | null;
+}
+
+/**
+ * Response type for a workflow's plan with run data overlaid.
+ */
+export interface WorkflowStatsResponse {
+  workflowId: string;
+  plan: OrchestrationPlan;
+  stats: WorkflowRunStats;
+}
+
+/**
+ * Response type for a trace's orchestration progress.
+ */
+export interface TraceExecutionResponse {
+  traceId: string;
+  plan: OrchestrationPlan;
+  execution: OrchestrationExecutionState;
+}
+
+/**
+ * Response type for a trace's gate report.
+ */
+export interface TraceGatesResponse {
+  traceId: string;
+  report: GateReport;
+}
+
+/**
+ * Response type for a trace's workflow conformance.
+ */
+export interface TraceConformanceResponse {
+  traceId: string;
+  report: ConformanceReport;
+}
+
+/**
+ * Response type for a trace's handoffs.
+ */
+export interface TraceHandoffsResponse {
+  traceId: string;
+  handoffs: Handoff[];
+}
+
+/**
+ * Response type for searching handoffs across traces.
+ */
+export interface HandoffsListResponse {
+  handoffs: Handoff[];
+  total: number;
+  hasMore: boolean;
+}
+
 /**
  * Response type for listing commands.
  */
@@ -119,6 +203,8 @@ export interface SyncResponse {
   commands: number;
   workflows: number;
   timestamp: string;
+  /** Problems found in command files, such as invalid question sets */
+  errors: string[];
 }
 
 /**
@@ -172,6 +258,8 @@ export interface WorkflowQuestion {
   multiSelect: boolean;
   /** Available options for this question */
   options: WorkflowQuestionOption[];
+  /** Whether the question can be skipped */
+  optional?: boolean;
 }
 
 /**
@@ -194,6 +282,8 @@ export interface WorkflowLaunchRequest {
   workflowId: string;
   /** User's answers to configuration questions */
   answers: WorkflowAnswer[];
+  /** Preset the answers were loaded from, if any */
+  presetId?: string;
 }
 
 /**
@@ -206,4 +296,382 @@ export interface WorkflowLaunchResponse {
   prompt: string;
   /** Text formatted for easy copy-paste by the user */
   copyableText: string;
+  /** Launch ID embedded in the prompt, echoed as `launchId` in the trace's metadata */
+  launchId: string;
+}
+
+/**
+ * Named set of answers for a workflow, saved by a user.
+ */
+export interface WorkflowPreset {
+  id: string;
+  workflowId: string;
+  name: string;
+  answers: WorkflowAnswer[];
+  /** Clerk user ID of the user who saved the preset */
+  ownerId: string;
+  /** Whether everyone on the team can use the preset */
+  shared: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Response type for a workflow's presets: the user's own and shared ones.
+ */
+export interface WorkflowPresetsResponse {
+  presets: WorkflowPreset[];
+  /** Clerk user ID of the requesting user */
+  userId: string;
+}
+
+/**
+ * Prompt generated by the launch route, kept as launch history.
+ */
+export interface WorkflowLaunch {
+  id: string;
+  workflowId: string;
+  command: string;
+  prompt: string;
+  answers: WorkflowAnswer[];
+  presetId: string | null;
+  /** Clerk user ID of the user who launched, if signed in */
+  userId: string | null;
+  /** Trace that echoed the launch ID, once one has */
+  traceId: string | null;
+  /** Trace this launch replays, if it is a replay */
+  parentTraceId: string | null;
+  createdAt: string;
+}
+
+/**
+ * Response type for a workflow's launch history.
+ */
+export interface WorkflowLaunchesResponse {
+  launches: WorkflowLaunch[];
+  total: number;
+  hasMore: boolean;
+}
+
+// ============================================================================
+// Workflow Run Types
+// ============================================================================
+
+/**
+ * Status of a launch run by the headless runner.
+ */
+export type WorkflowRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A launch executed by the headless runner against the local agent CLI.
+ */
+export interface WorkflowRun {
+  id: string;
+  launchId: string;
+  workflowId: string;
+  /** Trace created for the run */
+  traceId: string;
+  /** Working directory the agent CLI runs in */
+  cwd: string;
+  /** Agent CLI command line, without the prompt */
+  command: string;
+  status: WorkflowRunStatus;
+  exitCode: number | null;
+  error: string | null;
+  /** Clerk user ID of the user who started the run */
+  startedBy: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  /** The run finished and its output was dropped to make room for newer runs */
+  pruned: boolean;
+}
+
+/**
+ * A line the agent CLI wrote while running.
+ */
+export interface WorkflowRunOutputLine {
+  stream: 'stdout' | 'stderr';
+  text: string;
+  timestamp: string;
+}
+
+/**
+ * Response type for listing runs.
+ */
+export interface WorkflowRunsResponse {
+  /** Whether the runner is enabled on this server */
+  enabled: boolean;
+  /** Working directory used when a run does not choose one */
+  defaultCwd: string | null;
+  runs: WorkflowRun[];
+}
+
+/**
+ * Response type for a run with its output so far.
+ */
+export interface WorkflowRunResponse {
+  run: WorkflowRun;
+  output: WorkflowRunOutputLine[];
+}
+
+// ============================================================================
+// Run Queue Types
+// ============================================================================
+
+/**
+ * Status of a queued run. Queued runs wait for a free slot like a pending
+ * execution, paused runs keep their place but are not started, and the
+ * rest follow the run once it has started.
+ */
+export type RunQueueStatus = 'queued' | 'paused' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A launch waiting in, or dispatched from, the run queue.
+ */
+export interface RunQueueEntry {
+  id: string;
+  launchId: string;
+  workflowId: string;
+  /** Working directory the run will use */
+  cwd: string;
+  /** Higher priorities start first; equal priorities start in order */
+  priority: number;
+  status: RunQueueStatus;
+  /** Headless run started for the entry */
+  runId: string | null;
+  traceId: string | null;
+  error: string | null;
+  /** Clerk user ID of the user who queued the run */
+  enqueuedBy: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  /** A running run is being cancelled by the server instance running it */
+  cancelRequested: boolean;
+}
+
+/**
+ * Concurrency limits applied when starting queued runs.
+ */
+export interface RunQueueLimits {
+  /** Runs at once across all workflows */
+  global: number;
+  /** Runs at once per workflow, unless overridden */
+  perWorkflow: number;
+  /** Per-workflow overrides keyed by workflow ID */
+  workflows: Record<string, number>;
+}
+
+/**
+ * Request payload for queueing a launch.
+ */
+export interface RunQueueRequest {
+  /** Launch to run, from POST /api/audit/workflows/launch */
+  launchId: string;
+  /** Working directory (defaults to the runner's default directory) */
+  cwd?: string;
+  /** Priority (optional, default: 0) */
+  priority?: number;
+}
+
+/**
+ * Request payload for changing a queued run.
+ */
+export interface RunQueueUpdateRequest {
+  action?: 'pause' | 'resume' | 'cancel';
+  priority?: number;
+}
+
+/**
+ * Response type for listing the run queue.
+ */
+export interface RunQueueResponse {
+  entries: RunQueueEntry[];
+  total: number;
+  hasMore: boolean;
+  /** Number of entries in each status */
+  counts: Record<RunQueueStatus, number>;
+  limits: RunQueueLimits;
+  /** Whether the headless runner is enabled, so queued runs can start */
+  enabled: boolean;
+}
+
+// ============================================================================
+// Trace Replay Types
+// ============================================================================
+
+/**
+ * Agent prompts a replay runs with: the files as they are now, or as they
+ * were at the commit the original trace recorded.
+ */
+export type ReplayPromptVersion = 'current' | 'historical';
+
+/**
+ * An agent that took part in the original trace and its prompt file.
+ */
+export interface ReplayAgentPrompt {
+  agent: string;
+  /** Whether the agent file exists now */
+  currentAvailable: boolean;
+  /** Whether the agent file exists at the trace's commit */
+  historicalAvailable: boolean;
+  /** Whether the file changed since the trace's commit */
+  changed: boolean;
+}
+
+/**
+ * What replaying a trace would launch.
+ */
+export interface TraceReplayPlan {
+  traceId: string;
+  workflowId: string;
+  /** Agent CLI command of the original launch */
+  command: string;
+  /** Original input, without its launch ID */
+  input: string;
+  /** Commit the original trace ran at (metadata.commitHash) */
+  commitHash: string | null;
+  /** Launch that produced the original trace */
+  launchId: string | null;
+  agents: ReplayAgentPrompt[];
+  /** Whether the replay can use the prompts at the trace's commit */
+  historicalAvailable: boolean;
+}
+
+/**
+ * Response type for previewing a replay.
+ */
+export interface TraceReplayPlanResponse {
+  plan: TraceReplayPlan;
+  /** Whether the headless runner is enabled, so the replay can be queued */
+  runnerEnabled: boolean;
+}
+
+/**
+ * Request payload for replaying a trace.
+ */
+export interface TraceReplayRequest {
+  /** Agent prompts to use (optional, default: 'current') */
+  version?: ReplayPromptVersion;
+  /** Queue the replay for the headless runner instead of only returning its prompt */
+  run?: boolean;
+  /** Working directory of the queued run (defaults to the runner's default directory) */
+  cwd?: string;
+  /** Priority of the queued run (optional, default: 0) */
+  priority?: number;
+}
+
+/**
+ * Response type for replaying a trace.
+ */
+export interface TraceReplayResponse {
+  /** Launch ID of the replay, linked to the original trace as its parent */
+  launchId: string;
+  command: string;
+  prompt: string;
+  version: ReplayPromptVersion;
+  /** Queue entry, when the replay was queued */
+  entry: RunQueueEntry | null;
+}
+
+// ============================================================================
+// Trace Comparison Types
+// ============================================================================
+
+/**
+ * Where a span of one compared trace sits in the other. Spans are paired
+ * by agent and operation type, in the order they started.
+ */
+export type SpanAlignment = 'matched' | 'reordered' | 'added' | 'missing';
+
+/**
+ * A measurement of both compared traces; delta is b - a.
+ */
+export interface ComparedValue {
+  a: number | null;
+  b: number | null;
+  delta: number | null;
+}
+
+/**
+ * A decision answered differently by the two traces, or made by only one.
+ */
+export interface DecisionDiff {
+  question: string;
+  a: string | null;
+  b: string | null;
+}
+
+/**
+ * A row of the aligned span trees: a span of trace A, of trace B, or both.
+ */
+export interface ComparedSpan {
+  agentName: string;
+  operationType: OperationType;
+  /** Span name in trace A, or in trace B for added spans */
+  name: string;
+  /** Nesting depth in trace A, or in trace B for added spans */
+  depth: number;
+  /** missing: only in A; added: only in B; reordered: in both, out of A's order */
+  alignment: SpanAlignment;
+  spanIdA: string | null;
+  spanIdB: string | null;
+  durationMs: ComparedValue;
+  tokens: ComparedValue;
+  toolCalls: ComparedValue;
+  decisions: DecisionDiff[];
+  /** Whether both spans ran and their outputs differ */
+  outputChanged: boolean;
+  /** Whether both spans ran and their output, decisions or tool call count differ */
+  changed: boolean;
+}
+
+/**
+ * A line of a diff between the two final outputs.
+ */
+export interface OutputDiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * One of the two compared traces.
+ */
+export interface ComparedTrace {
+  traceId: string;
+  name: string;
+  agentName: string;
+  commandName: string | null;
+  status: TraceStatus;
+  commitHash: string | null;
+  startedAt: string;
+}
+
+/**
+ * Side-by-side comparison of two traces.
+ */
+export interface TraceComparison {
+  a: ComparedTrace;
+  b: ComparedTrace;
+  spans: ComparedSpan[];
+  /** Number of spans in each alignment, and of changed spans */
+  counts: Record<SpanAlignment | 'changed', number>;
+  durationMs: ComparedValue;
+  tokens: ComparedValue;
+  cost: ComparedValue;
+  toolCalls: ComparedValue;
+  decisions: ComparedValue;
+  /** Tool call counts per tool, most used first */
+  tools: Array<ComparedValue & { name: string }>;
+  /** Line diff of the final outputs */
+  output: OutputDiffLine[];
+  /** Whether the outputs were too long to diff in full */
+  outputTruncated: boolean;
+}
+
+/**
+ * Response type for comparing two traces.
+ */
+export interface TraceComparisonResponse {
+  comparison: TraceComparison;
 }
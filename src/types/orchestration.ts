@@ -87,6 +87,29 @@ export type WaveStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'b
  */
 export type PhaseStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
 
+/**
+ * Status of a single agent task execution.
+ */
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+
+/**
+ * Runtime state of an agent task, matched from the trace's spans.
+ */
+export interface TaskExecutionState {
+  /** Agent responsible for the task */
+  agent: string;
+  /** Current execution status */
+  status: TaskStatus;
+  /** Spans that started or finished this task */
+  spanIds: string[];
+  /** Timestamp when task started */
+  startedAt?: string;
+  /** Timestamp when task completed */
+  completedAt?: string;
+  /** Error message if task failed */
+  error?: string;
+}
+
 /**
  * Runtime state of a wave during orchestration execution.
  */
@@ -103,6 +126,8 @@ export interface WaveExecutionState {
   error?: string;
   /** Progress percentage (0-100) */
   progress: number;
+  /** Execution states for the tasks in this wave */
+  tasks: TaskExecutionState[];
 }
 
 /**
@@ -140,3 +165,187 @@ export interface OrchestrationExecutionState {
   /** Timestamp when execution completed */
   completedAt?: string;
 }
+
+/**
+ * Result of evaluating a gate against a run's trace.
+ * Pending gates have not been reached or lack evidence while the run is live.
+ */
+export type GateStatus = 'pending' | 'passed' | 'failed' | 'skipped';
+
+/**
+ * Evaluation of a single plan gate for one run.
+ */
+export interface GateEvaluation {
+  /** Position of the gate in the plan */
+  gateIndex: number;
+  /** Condition text of the gate */
+  condition: string;
+  /** Wave the gate follows */
+  from: string;
+  /** Wave (or "complete") the gate guards */
+  to: string;
+  /** Whether a failure fails the run */
+  blocking: boolean;
+  /** Evaluation result */
+  status: GateStatus;
+  /** Why the gate got its status */
+  reason: string;
+  /** Spans used as evidence */
+  evidenceSpanIds: string[];
+  /** Failed only because evidence never showed up, not because a span failed */
+  missingEvidence: boolean;
+}
+
+/**
+ * Gate evaluations for one run of an orchestration plan.
+ */
+export interface GateReport {
+  /** Plan ID the gates come from */
+  planId: string;
+  /** Failed if a blocking gate failed, pending until every gate is decided */
+  status: 'pending' | 'passed' | 'failed';
+  /** Evaluation of each gate, in plan order */
+  gates: GateEvaluation[];
+  /** Timestamp of the evaluation */
+  evaluatedAt: string;
+}
+
+/**
+ * Aggregated execution data for one agent task of a plan across runs.
+ */
+export interface TaskRunStats {
+  /** Wave the task belongs to */
+  waveId: string;
+  /** Position of the task in its wave */
+  taskIndex: number;
+  /** Agent responsible for the task */
+  agent: string;
+  /** Runs the task completed in */
+  completed: number;
+  /** Runs the task failed in */
+  failed: number;
+  /** Runs that finished without ever starting the task */
+  skipped: number;
+  /** Completed share of the runs that started the task (0-1) */
+  successRate: number;
+  /** Skipped share of all runs (0-1) */
+  skipRate: number;
+  /** Median time from task start to finish, or null if it never finished */
+  medianDurationMs: number | null;
+}
+
+/**
+ * How an agent was used across runs, planned or not.
+ */
+export interface AgentRunStats {
+  /** Agent name */
+  agent: string;
+  /** Whether the plan assigns the agent a task */
+  planned: boolean;
+  /** Runs the agent had spans in */
+  runs: number;
+  /** Total duration of the agent's spans */
+  totalDurationMs: number;
+}
+
+/**
+ * Execution data of a plan aggregated over finished runs of its workflow.
+ */
+export interface WorkflowRunStats {
+  /** Plan ID the data was matched against */
+  planId: string;
+  /** Finished runs included */
+  totalRuns: number;
+  /** Completed share of the runs (0-1) */
+  successRate: number;
+  /** Median run duration, or null without runs */
+  medianDurationMs: number | null;
+  /** Data for each plan task, in plan order */
+  tasks: TaskRunStats[];
+  /** Agents that ran or were planned, by total duration */
+  agents: AgentRunStats[];
+  /** Start of the runs' time window, if limited */
+  since?: string;
+  /** Timestamp of the aggregation */
+  generatedAt: string;
+}
+
+/**
+ * Kind of departure from a workflow's declared agent sequence.
+ */
+export type ConformanceDeviationType =
+  | 'skipped_agent'
+  | 'out_of_order'
+  | 'unexpected_agent'
+  | 'invalid_handoff';
+
+/**
+ * One departure of a run from its workflow's agent sequence.
+ */
+export interface ConformanceDeviation {
+  /** Kind of deviation */
+  type: ConformanceDeviationType;
+  /** Agent the deviation concerns */
+  agent: string;
+  /** Escalations the charter allows are minor and do not lower the score */
+  severity: 'minor' | 'major';
+  /** Description of the deviation */
+  message: string;
+  /** Spans showing the deviation */
+  spanIds: string[];
+}
+
+/**
+ * Comparison of a run with the agent sequence of its workflow.
+ */
+export interface ConformanceReport {
+  /** Workflow the run was checked against */
+  workflowId: string;
+  /** Share of the declared sequence followed, lowered by major deviations (0-100) */
+  score: number;
+  /** Agents in the order the workflow declares them */
+  expectedSequence: string[];
+  /** Agents in the order they first ran */
+  observedSequence: string[];
+  /** Departures from the sequence */
+  deviations: ConformanceDeviation[];
+  /** Timestamp of the check */
+  evaluatedAt: string;
+}
+
+/**
+ * Parts of a handoff that can be left out.
+ */
+export type HandoffField = 'summary' | 'filesTouched' | 'openQuestions' | 'risks';
+
+/**
+ * Work handed from one agent to another, parsed from a handoff span.
+ */
+export interface Handoff {
+  /** Trace the handoff belongs to */
+  traceId: string;
+  /** Handoff span */
+  spanId: string;
+  /** Agent handing the work off */
+  fromAgent: string;
+  /** Agent receiving the work, if named */
+  toAgent: string | null;
+  /** What was done and what is handed over */
+  summary: string | null;
+  /** Files the work touched */
+  filesTouched: string[];
+  /** Questions left for the receiving agent */
+  openQuestions: string[];
+  /** Risks the receiving agent should know about */
+  risks: string[];
+  /** Handoff template sections the handoff covers */
+  sections: string[];
+  /** Handoff template sections the handoff leaves out */
+  missingSections: string[];
+  /** Parts of the handoff left empty */
+  missingFields: HandoffField[];
+  /** Whether the handoff names its target and covers every template section */
+  valid: boolean;
+  /** When the handoff span started */
+  createdAt: string;
+}
@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+/**
+ * Fake agent CLI for the BigTurbo headless runner.
+ *
+ * Stands in for the real agent CLI when trying out or testing runs
+ * without spending tokens. It reads the prompt on stdin like `claude -p`,
+ * prints a few lines of made-up progress and exits.
+ *
+ *   AGENT_RUNNER_ENABLED=true
+ *   AGENT_RUNNER_COMMAND=node
+ *   AGENT_RUNNER_ARGS=/path/to/bigturbo/tools/fake-agent-cli.mjs
+ *
+ * Environment:
+ *   FAKE_AGENT_LINES      - Progress lines to print (default: 5)
+ *   FAKE_AGENT_DELAY_MS   - Delay between lines (default: 500)
+ *   FAKE_AGENT_STDERR     - Also print a warning on stderr when "true"
+ *   FAKE_AGENT_EXIT_CODE  - Exit code (default: 0)
+ */
+
+const lines = parseInt(process.env.FAKE_AGENT_LINES || '5', 10);
+const delayMs = parseInt(process.env.FAKE_AGENT_DELAY_MS || '500', 10);
+const exitCode = parseInt(process.env.FAKE_AGENT_EXIT_CODE || '0', 10);
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function readPrompt() {
+  let prompt = '';
+  process.stdin.setEncoding('utf8');
+  for await (const chunk of process.stdin) prompt += chunk;
+  return prompt;
+}
+
+process.on('SIGTERM', () => {
+  console.log('fake-agent: cancelled');
+  process.exit(143);
+});
+
+const prompt = await readPrompt();
+const launchId = prompt.match(/\blaunch_[0-9a-f]{12}\b/)?.[0] ?? 'none';
+
+console.log(`fake-agent: received ${prompt.length} characters (launch ${launchId})`);
+console.log(`fake-agent: trace ${process.env.BIGTURBO_TRACE_ID ?? 'none'} in ${process.cwd()}`);
+
+if (process.env.FAKE_AGENT_STDERR === 'true') {
+  console.error('fake-agent: warning written to stderr');
+}
+
+for (let step = 1; step <= lines; step++) {
+  await sleep(delayMs);
+  console.log(`fake-agent: step ${step}/${lines}`);
+}
+
+console.log(exitCode === 0 ? 'fake-agent: done' : `fake-agent: failing with exit code ${exitCode}`);
+process.exit(exitCode);